@@ -13,6 +13,16 @@ if (!fs.existsSync(dbDir)) {
 
 export const db = new sqlite3.Database(dbFile);
 
+// SQLite has no ADD COLUMN IF NOT EXISTS, so re-running a column migration on an
+// existing database is expected to fail with "duplicate column name"
+function addColumnIfMissing(table: string, columnDefinition: string): void {
+  db.run(`ALTER TABLE ${table} ADD COLUMN ${columnDefinition}`, (err) => {
+    if (err && !/duplicate column name/i.test(err.message)) {
+      console.error(`❌ Failed to add column ${table}.${columnDefinition}:`, err);
+    }
+  });
+}
+
 export function initDb(): Promise<void> {
   return new Promise((resolve, reject) => {
     console.log('📦 Initializing database tables...');
@@ -29,6 +39,23 @@ export function initDb(): Promise<void> {
         )`,
       );
 
+      // Suspension: a suspended user cannot log in and their sessions are rejected.
+      // `suspended_until` is NULL for an indefinite suspension
+      addColumnIfMissing('users', 'suspended_at TEXT');
+      addColumnIfMissing('users', 'suspended_until TEXT');
+      addColumnIfMissing('users', 'suspended_reason TEXT');
+      addColumnIfMissing('users', 'suspended_by INTEGER REFERENCES users(id)');
+      // Trash: deleted users, posts and files keep their rows until the purger removes them
+      addColumnIfMissing('users', 'deleted_at TEXT');
+      addColumnIfMissing('users', 'deleted_by INTEGER REFERENCES users(id)');
+      // Sessions opened before this time are rejected (set when the password is reset)
+      addColumnIfMissing('users', 'sessions_valid_after TEXT');
+      // Authenticator-app 2FA (see utils/twoFactor.ts). `totp_last_step` is the time step
+      // of the last accepted code, so a code cannot be used twice
+      addColumnIfMissing('users', 'totp_secret TEXT');
+      addColumnIfMissing('users', 'totp_enabled_at TEXT');
+      addColumnIfMissing('users', 'totp_last_step INTEGER');
+
       // File uploads table
       db.run(
         `CREATE TABLE IF NOT EXISTS file_uploads (
@@ -42,6 +69,8 @@ export function initDb(): Promise<void> {
           FOREIGN KEY (user_id) REFERENCES users(id)
         )`,
       );
+      addColumnIfMissing('file_uploads', 'deleted_at TEXT');
+      addColumnIfMissing('file_uploads', 'deleted_by INTEGER REFERENCES users(id)');
 
       // Recipe posts table
       db.run(
@@ -62,6 +91,305 @@ export function initDb(): Promise<void> {
         )`,
       );
 
+      // Columns added after the original posts schema
+      addColumnIfMissing('posts', 'servings INTEGER');
+      // When a scheduled post goes live; set only for posts an admin scheduled
+      addColumnIfMissing('posts', 'publish_at TEXT');
+      db.run('CREATE INDEX IF NOT EXISTS idx_posts_status_publish ON posts(status, publish_at)');
+      // Why the post was last rejected; cleared once it is resubmitted or approved
+      addColumnIfMissing('posts', 'rejection_reason TEXT');
+      addColumnIfMissing('posts', 'rejection_note TEXT');
+      addColumnIfMissing('posts', 'deleted_at TEXT');
+      addColumnIfMissing('posts', 'deleted_by INTEGER REFERENCES users(id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_posts_deleted_at ON posts(deleted_at)');
+
+      // Structured recipe ingredients, ordered by position within a post
+      db.run(
+        `CREATE TABLE IF NOT EXISTS post_ingredients (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          quantity REAL,
+          unit TEXT,
+          name TEXT NOT NULL,
+          note TEXT,
+          FOREIGN KEY (post_id) REFERENCES posts(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_post_ingredients_post ON post_ingredients(post_id, position)');
+
+      // Structured recipe method steps, ordered by position within a post
+      db.run(
+        `CREATE TABLE IF NOT EXISTS post_steps (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          instruction TEXT NOT NULL,
+          FOREIGN KEY (post_id) REFERENCES posts(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_post_steps_post ON post_steps(post_id, position)');
+
+      // Full-text search index over posts, keyed by post id (rowid) and kept in sync by triggers
+      db.run(
+        `CREATE VIRTUAL TABLE IF NOT EXISTS posts_fts USING fts5(
+          title,
+          content,
+          ingredients,
+          nationality,
+          author_name,
+          tokenize = 'porter unicode61 remove_diacritics 2'
+        )`,
+      );
+      db.run(
+        `CREATE TRIGGER IF NOT EXISTS posts_fts_insert AFTER INSERT ON posts BEGIN
+          INSERT INTO posts_fts (rowid, title, content, ingredients, nationality, author_name)
+          VALUES (new.id, new.title, new.content, '', COALESCE(new.nationality, ''), new.author_name);
+        END`,
+      );
+      db.run(
+        `CREATE TRIGGER IF NOT EXISTS posts_fts_update AFTER UPDATE OF title, content, nationality, author_name ON posts BEGIN
+          UPDATE posts_fts
+          SET title = new.title, content = new.content, nationality = COALESCE(new.nationality, ''), author_name = new.author_name
+          WHERE rowid = new.id;
+        END`,
+      );
+      db.run(
+        `CREATE TRIGGER IF NOT EXISTS posts_fts_delete AFTER DELETE ON posts BEGIN
+          DELETE FROM posts_fts WHERE rowid = old.id;
+        END`,
+      );
+      db.run(
+        `CREATE TRIGGER IF NOT EXISTS posts_fts_ingredient_insert AFTER INSERT ON post_ingredients BEGIN
+          UPDATE posts_fts
+          SET ingredients = (SELECT GROUP_CONCAT(name, ' ') FROM post_ingredients WHERE post_id = new.post_id)
+          WHERE rowid = new.post_id;
+        END`,
+      );
+      db.run(
+        `CREATE TRIGGER IF NOT EXISTS posts_fts_ingredient_delete AFTER DELETE ON post_ingredients BEGIN
+          UPDATE posts_fts
+          SET ingredients = COALESCE((SELECT GROUP_CONCAT(name, ' ') FROM post_ingredients WHERE post_id = old.post_id), '')
+          WHERE rowid = old.post_id;
+        END`,
+      );
+      // Index any posts written before the search table existed
+      db.run(
+        `INSERT INTO posts_fts (rowid, title, content, ingredients, nationality, author_name)
+        SELECT p.id, p.title, p.content,
+          COALESCE((SELECT GROUP_CONCAT(name, ' ') FROM post_ingredients WHERE post_id = p.id), ''),
+          COALESCE(p.nationality, ''), p.author_name
+        FROM posts p
+        WHERE p.id NOT IN (SELECT rowid FROM posts_fts)`,
+      );
+
+      // Full snapshots of a post after every change, numbered 1, 2, 3... per post
+      db.run(
+        `CREATE TABLE IF NOT EXISTS post_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id INTEGER NOT NULL,
+          revision INTEGER NOT NULL,
+          editor_id INTEGER,
+          editor_name TEXT NOT NULL,
+          snapshot TEXT NOT NULL,
+          restored_from INTEGER,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (post_id) REFERENCES posts(id),
+          FOREIGN KEY (editor_id) REFERENCES users(id),
+          UNIQUE (post_id, revision)
+        )`,
+      );
+
+      // Posts written before revisions were kept start their history from their current state
+      db.run(
+        `INSERT INTO post_revisions (post_id, revision, editor_id, editor_name, snapshot, created_at)
+        SELECT p.id, 1, p.author_id, p.author_name,
+          json_object(
+            'title', p.title,
+            'content', p.content,
+            'nationality', p.nationality,
+            'servings', p.servings,
+            'ingredients', json(COALESCE((
+              SELECT json_group_array(json_object('quantity', i.quantity, 'unit', i.unit, 'name', i.name, 'note', i.note))
+              FROM (SELECT * FROM post_ingredients WHERE post_id = p.id ORDER BY position) i
+            ), '[]')),
+            'steps', json(COALESCE((
+              SELECT json_group_array(json_object('instruction', s.instruction))
+              FROM (SELECT * FROM post_steps WHERE post_id = p.id ORDER BY position) s
+            ), '[]'))
+          ),
+          p.updated_at
+        FROM posts p
+        WHERE p.id NOT IN (SELECT post_id FROM post_revisions)`,
+      );
+
+      // Moderation history of a post: submitted, rejected (with reason), resubmitted, approved
+      db.run(
+        `CREATE TABLE IF NOT EXISTS post_moderation_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id INTEGER NOT NULL,
+          action TEXT NOT NULL CHECK (action IN ('submitted', 'rejected', 'resubmitted', 'approved')),
+          actor_id INTEGER,
+          actor_name TEXT NOT NULL,
+          reason TEXT,
+          note TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (post_id) REFERENCES posts(id),
+          FOREIGN KEY (actor_id) REFERENCES users(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_post_moderation_events_post ON post_moderation_events(post_id, created_at)');
+
+      // Reports raised by users against published posts, at most one per user per post
+      db.run(
+        `CREATE TABLE IF NOT EXISTS post_reports (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id INTEGER NOT NULL,
+          reporter_id INTEGER NOT NULL,
+          reason TEXT NOT NULL,
+          note TEXT,
+          status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'resolved')),
+          resolved_by INTEGER,
+          resolved_at TEXT,
+          created_at TEXT NOT NULL,
+          UNIQUE (post_id, reporter_id),
+          FOREIGN KEY (post_id) REFERENCES posts(id),
+          FOREIGN KEY (reporter_id) REFERENCES users(id),
+          FOREIGN KEY (resolved_by) REFERENCES users(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_post_reports_status ON post_reports(status, created_at)');
+
+      // Recipe reviews, at most one per user per post
+      db.run(
+        `CREATE TABLE IF NOT EXISTS reviews (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id INTEGER NOT NULL,
+          user_id INTEGER NOT NULL,
+          user_name TEXT NOT NULL,
+          rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+          body TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          UNIQUE (post_id, user_id),
+          FOREIGN KEY (post_id) REFERENCES posts(id),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_reviews_post ON reviews(post_id, created_at)');
+
+      // Threaded recipe comments. root_id is the top-level comment of a thread (NULL for
+      // top-level comments themselves) so a page of threads can be loaded in one query.
+      db.run(
+        `CREATE TABLE IF NOT EXISTS comments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          post_id INTEGER NOT NULL,
+          parent_id INTEGER,
+          root_id INTEGER,
+          depth INTEGER NOT NULL DEFAULT 0,
+          author_id INTEGER NOT NULL,
+          author_name TEXT NOT NULL,
+          body TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          approved_by INTEGER,
+          deleted_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (post_id) REFERENCES posts(id),
+          FOREIGN KEY (parent_id) REFERENCES comments(id),
+          FOREIGN KEY (author_id) REFERENCES users(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_comments_post ON comments(post_id, parent_id, created_at)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_comments_root ON comments(root_id)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_comments_status ON comments(status, created_at)');
+
+      // Saved-recipe collections. Every user gets one default "Favorites" collection on first use.
+      db.run(
+        `CREATE TABLE IF NOT EXISTS collections (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL COLLATE NOCASE,
+          description TEXT,
+          is_public INTEGER NOT NULL DEFAULT 0,
+          is_default INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          UNIQUE (user_id, name),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )`,
+      );
+      db.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_default ON collections(user_id) WHERE is_default = 1');
+      db.run(
+        `CREATE TABLE IF NOT EXISTS collection_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          collection_id INTEGER NOT NULL,
+          post_id INTEGER NOT NULL,
+          added_at TEXT NOT NULL,
+          UNIQUE (collection_id, post_id),
+          FOREIGN KEY (collection_id) REFERENCES collections(id),
+          FOREIGN KEY (post_id) REFERENCES posts(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_collection_items_post ON collection_items(post_id)');
+
+      // Meal planner: one recipe per user, day and meal, optionally scaled to a different serving count
+      db.run(
+        `CREATE TABLE IF NOT EXISTS meal_plan_slots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          plan_date TEXT NOT NULL,
+          meal TEXT NOT NULL CHECK (meal IN ('breakfast', 'lunch', 'dinner', 'snack')),
+          post_id INTEGER NOT NULL,
+          servings INTEGER,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          UNIQUE (user_id, plan_date, meal),
+          FOREIGN KEY (user_id) REFERENCES users(id),
+          FOREIGN KEY (post_id) REFERENCES posts(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_meal_plan_slots_post ON meal_plan_slots(post_id)');
+
+      // Shopping lists are snapshots: items are consolidated once at creation time and
+      // recipe titles are copied so the list still reads correctly if a recipe changes later
+      db.run(
+        `CREATE TABLE IF NOT EXISTS shopping_lists (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_shopping_lists_user ON shopping_lists(user_id, created_at)');
+      db.run(
+        `CREATE TABLE IF NOT EXISTS shopping_list_recipes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          list_id INTEGER NOT NULL,
+          post_id INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          servings INTEGER,
+          FOREIGN KEY (list_id) REFERENCES shopping_lists(id)
+        )`,
+      );
+      db.run(
+        `CREATE TABLE IF NOT EXISTS shopping_list_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          list_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          quantity REAL,
+          unit TEXT,
+          aisle TEXT NOT NULL,
+          recipes TEXT NOT NULL DEFAULT '[]',
+          checked INTEGER NOT NULL DEFAULT 0,
+          FOREIGN KEY (list_id) REFERENCES shopping_lists(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_shopping_list_items_list ON shopping_list_items(list_id, position)');
+
       // OTP table for user login verification
       db.run(
         `CREATE TABLE IF NOT EXISTS otp_codes (
@@ -75,7 +403,139 @@ export function initDb(): Promise<void> {
         )`,
       );
 
-      // Sessions table for activity tracking - final table, resolve when done
+      // Password reset tokens. Only the SHA-256 of the token is stored; a token is
+      // spent once `used_at` is set
+      db.run(
+        `CREATE TABLE IF NOT EXISTS password_reset_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          expires_at TEXT NOT NULL,
+          used_at TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id)');
+
+      // Failed sign-in counters per account (email) and per IP (see utils/loginThrottle.ts)
+      db.run(
+        `CREATE TABLE IF NOT EXISTS login_throttles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+          key TEXT NOT NULL,
+          failures INTEGER NOT NULL DEFAULT 0,
+          last_failure_at TEXT NOT NULL,
+          locked_until TEXT,
+          UNIQUE (scope, key)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_login_throttles_locked_until ON login_throttles(locked_until)');
+
+      // One-time 2FA recovery codes, stored as SHA-256 hashes
+      db.run(
+        `CREATE TABLE IF NOT EXISTS recovery_codes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          code_hash TEXT NOT NULL,
+          used_at TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_recovery_codes_user ON recovery_codes(user_id)');
+
+      // Passkeys (see utils/webauthn.ts); ids and public keys are base64url
+      db.run(
+        `CREATE TABLE IF NOT EXISTS webauthn_credentials (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          credential_id TEXT NOT NULL UNIQUE,
+          public_key TEXT NOT NULL,
+          sign_count INTEGER NOT NULL DEFAULT 0,
+          transports TEXT,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          last_used_at TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user ON webauthn_credentials(user_id)');
+
+      // Moderation rules checked against all user-written content (see utils/moderationRules.ts)
+      db.run(
+        `CREATE TABLE IF NOT EXISTS moderation_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pattern TEXT NOT NULL,
+          match_type TEXT NOT NULL CHECK (match_type IN ('word', 'regex', 'normalized')),
+          action TEXT NOT NULL CHECK (action IN ('block', 'review', 'mask')),
+          description TEXT,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_by INTEGER,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          UNIQUE (pattern, match_type),
+          FOREIGN KEY (created_by) REFERENCES users(id)
+        )`,
+      );
+      // An empty rule table starts with the word the old hard-coded list blocked
+      db.run(
+        `INSERT INTO moderation_rules (pattern, match_type, action, description, enabled, created_at, updated_at)
+        SELECT 'security', 'word', 'block', 'Default rule', 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+        WHERE NOT EXISTS (SELECT 1 FROM moderation_rules)`,
+      );
+
+      // Capabilities granted to each role (see utils/permissions.ts), seeded on first start
+      db.run(
+        `CREATE TABLE IF NOT EXISTS role_permissions (
+          role TEXT NOT NULL CHECK (role IN ('admin', 'editor', 'user')),
+          permission TEXT NOT NULL,
+          PRIMARY KEY (role, permission)
+        )`,
+      );
+
+      // Sign-in policy per role, e.g. whether 2FA is mandatory (see utils/twoFactor.ts)
+      db.run(
+        `CREATE TABLE IF NOT EXISTS role_settings (
+          role TEXT PRIMARY KEY CHECK (role IN ('admin', 'editor', 'user')),
+          require_two_factor INTEGER NOT NULL DEFAULT 0
+        )`,
+      );
+      // NULL uses IDLE_TIMEOUT_MINUTES (see utils/idleTimeout.ts)
+      addColumnIfMissing('role_settings', 'idle_timeout_minutes INTEGER');
+
+      // Bumped whenever a policy table changes, so every backend process sharing the
+      // database knows to reload its cached copy (see utils/policyCache.ts)
+      db.run(
+        `CREATE TABLE IF NOT EXISTS policy_versions (
+          name TEXT PRIMARY KEY,
+          version INTEGER NOT NULL DEFAULT 0
+        )`,
+      );
+      for (const table of ['role_permissions', 'role_settings', 'moderation_rules']) {
+        db.run('INSERT OR IGNORE INTO policy_versions (name) VALUES (?)', [table]);
+        for (const event of ['INSERT', 'UPDATE', 'DELETE']) {
+          db.run(
+            `CREATE TRIGGER IF NOT EXISTS ${table}_version_${event.toLowerCase()} AFTER ${event} ON ${table} BEGIN
+              UPDATE policy_versions SET version = version + 1 WHERE name = '${table}';
+            END`,
+          );
+        }
+      }
+
+      // express-session's store (see utils/sessionStore.ts); data is the session as JSON
+      db.run(
+        `CREATE TABLE IF NOT EXISTS sessions (
+          sid TEXT PRIMARY KEY,
+          user_id INTEGER,
+          data TEXT NOT NULL,
+          expires_at INTEGER NOT NULL
+        )`,
+      );
+      db.run('CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at)');
+      db.run('CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id)');
+
+      // Every signed-in session, so users can see and revoke them (see utils/sessions.ts)
       db.run(
         `CREATE TABLE IF NOT EXISTS user_sessions (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -85,6 +545,18 @@ export function initDb(): Promise<void> {
           created_at TEXT NOT NULL,
           FOREIGN KEY (user_id) REFERENCES users(id)
         )`,
+      );
+      addColumnIfMissing('user_sessions', 'user_agent TEXT');
+      addColumnIfMissing('user_sessions', 'ip TEXT');
+      // Older databases created session_id without a unique constraint; keep the newest row per session
+      db.run(
+        `DELETE FROM user_sessions WHERE id NOT IN (SELECT MAX(id) FROM user_sessions GROUP BY session_id)`,
+      );
+      db.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_user_sessions_session_id ON user_sessions(session_id)');
+
+      // Final statement, resolve when done
+      db.run(
+        'CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id)',
         (err) => {
           if (err) {
             console.error('❌ Database initialization error:', err);
@@ -106,6 +578,16 @@ export interface DbUser {
   password_hash: string;
   role: 'admin' | 'editor' | 'user';
   created_at: string;
+  suspended_at: string | null;
+  suspended_until: string | null;
+  suspended_reason: string | null;
+  suspended_by: number | null;
+  deleted_at: string | null;
+  deleted_by: number | null;
+  sessions_valid_after: string | null;
+  totp_secret: string | null;
+  totp_enabled_at: string | null;
+  totp_last_step: number | null;
 }
 
 export interface OtpCode {
@@ -117,9 +599,21 @@ export interface OtpCode {
   created_at: string;
 }
 
+export interface PostIngredient {
+  quantity: number | null;
+  unit: string | null;
+  name: string;
+  note: string | null;
+}
+
+export interface PostStep {
+  instruction: string;
+}
+
+// Users in the trash are treated as gone: they cannot log in and their sessions stop working
 export function findUserByEmail(email: string): Promise<DbUser | undefined> {
   return new Promise((resolve, reject) => {
-    db.get<DbUser>('SELECT * FROM users WHERE email = ?', [email], (err, row) => {
+    db.get<DbUser>('SELECT * FROM users WHERE email = ? AND deleted_at IS NULL', [email], (err, row) => {
       if (err) return reject(err);
       resolve(row || undefined);
     });
@@ -128,7 +622,7 @@ export function findUserByEmail(email: string): Promise<DbUser | undefined> {
 
 export function findUserById(id: number): Promise<DbUser | undefined> {
   return new Promise((resolve, reject) => {
-    db.get<DbUser>('SELECT * FROM users WHERE id = ?', [id], (err, row) => {
+    db.get<DbUser>('SELECT * FROM users WHERE id = ? AND deleted_at IS NULL', [id], (err, row) => {
       if (err) return reject(err);
       resolve(row || undefined);
     });
@@ -200,19 +694,232 @@ export function verifyOtpCode(userId: number, code: string): Promise<boolean> {
   });
 }
 
-// Session activity tracking
-export function updateSessionActivity(userId: number, sessionId: string): Promise<void> {
-  const now = new Date().toISOString();
+// Password reset functions
+export function createPasswordResetToken(userId: number, tokenHash: string, expiresAt: string): Promise<number> {
+  const createdAt = new Date().toISOString();
   return new Promise((resolve, reject) => {
+    // Only the most recent link works
     db.run(
-      `INSERT INTO user_sessions (user_id, session_id, last_activity, created_at) 
-       VALUES (?, ?, ?, ?)
-       ON CONFLICT(session_id) DO UPDATE SET last_activity = ?`,
-      [userId, sessionId, now, now, now],
+      'UPDATE password_reset_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL',
+      [createdAt, userId],
       (err) => {
         if (err) return reject(err);
-        resolve();
+
+        db.run(
+          'INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, created_at) VALUES (?, ?, ?, ?)',
+          [userId, tokenHash, expiresAt, createdAt],
+          function (insertErr) {
+            if (insertErr) return reject(insertErr);
+            resolve(this.lastID);
+          }
+        );
+      }
+    );
+  });
+}
+
+/**
+ * Spends a reset token and returns the user it belongs to, or undefined when the
+ * token is unknown, expired or already used. Marking it used is the same statement
+ * as the check, so two requests with one token cannot both succeed.
+ */
+export function consumePasswordResetToken(tokenHash: string): Promise<number | undefined> {
+  const now = new Date().toISOString();
+  return new Promise((resolve, reject) => {
+    db.run(
+      'UPDATE password_reset_tokens SET used_at = ? WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?',
+      [now, tokenHash, now],
+      function (err) {
+        if (err) return reject(err);
+        if (this.changes === 0) return resolve(undefined);
+
+        db.get<{ user_id: number }>(
+          'SELECT user_id FROM password_reset_tokens WHERE token_hash = ?',
+          [tokenHash],
+          (getErr, row) => {
+            if (getErr) return reject(getErr);
+            resolve(row?.user_id);
+          }
+        );
       }
     );
   });
 }
+
+/**
+ * Sets a new password and revokes every session opened before now, together with
+ * any other reset links still outstanding. Returns the revocation time.
+ */
+export async function resetUserPassword(userId: number, passwordHash: string): Promise<string> {
+  const now = new Date().toISOString();
+  await runStatement('UPDATE users SET password_hash = ?, sessions_valid_after = ? WHERE id = ?', [
+    passwordHash,
+    now,
+    userId,
+  ]);
+  await runStatement('UPDATE password_reset_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL', [
+    now,
+    userId,
+  ]);
+  return now;
+}
+
+// Session activity tracking: records a signed-in session, or refreshes its last activity
+export function updateSessionActivity(
+  userId: number,
+  sessionId: string,
+  client: { userAgent: string | null; ip: string | null },
+): Promise<void> {
+  const now = new Date().toISOString();
+  return runStatement(
+    `INSERT INTO user_sessions (user_id, session_id, user_agent, ip, last_activity, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(session_id) DO UPDATE SET last_activity = excluded.last_activity, ip = excluded.ip`,
+    [userId, sessionId, client.userAgent, client.ip, now, now],
+  );
+}
+
+// Recipe structure (ingredients and steps)
+export function getPostIngredients(postId: number): Promise<PostIngredient[]> {
+  return new Promise((resolve, reject) => {
+    db.all<PostIngredient>(
+      'SELECT quantity, unit, name, note FROM post_ingredients WHERE post_id = ? ORDER BY position ASC',
+      [postId],
+      (err, rows) => {
+        if (err) return reject(err);
+        resolve(rows || []);
+      }
+    );
+  });
+}
+
+export function getPostSteps(postId: number): Promise<PostStep[]> {
+  return new Promise((resolve, reject) => {
+    db.all<PostStep>(
+      'SELECT instruction FROM post_steps WHERE post_id = ? ORDER BY position ASC',
+      [postId],
+      (err, rows) => {
+        if (err) return reject(err);
+        resolve(rows || []);
+      }
+    );
+  });
+}
+
+export function runStatement(sql: string, params: unknown[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, (err) => {
+      if (err) return reject(err);
+      resolve();
+    });
+  });
+}
+
+export function allRows<T>(sql: string, params: unknown[]): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    db.all<T>(sql, params, (err, rows) => {
+      if (err) return reject(err);
+      resolve(rows || []);
+    });
+  });
+}
+
+export function insertRow(sql: string, params: unknown[]): Promise<number> {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, function (err) {
+      if (err) return reject(err);
+      resolve(this.lastID);
+    });
+  });
+}
+
+// SQLite has one transaction per connection, so transactions take turns
+let transactionQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs the statements in order as one transaction: if any fails, none of them take effect.
+ */
+export function runInTransaction(statements: { sql: string; params: unknown[] }[]): Promise<void> {
+  if (statements.length === 0) return Promise.resolve();
+  const run = () =>
+    new Promise<void>((resolve, reject) => {
+      let failure: Error | null = null;
+      const finish = () => {
+        db.run(failure ? 'ROLLBACK' : 'COMMIT', (err) => {
+          if (failure || err) return reject(failure ?? err);
+          resolve();
+        });
+      };
+
+      // Queued back to back so statements from other requests cannot run in between
+      db.serialize(() => {
+        db.run('BEGIN', (err) => {
+          if (err) failure = err;
+        });
+        statements.forEach(({ sql, params }, i) => {
+          db.run(sql, params, (err) => {
+            if (err && !failure) failure = err;
+            if (i === statements.length - 1) finish();
+          });
+        });
+      });
+    });
+
+  const result = transactionQueue.then(run);
+  transactionQueue = result.catch(() => undefined);
+  return result;
+}
+
+export async function replacePostIngredients(postId: number, ingredients: PostIngredient[]): Promise<void> {
+  await runStatement('DELETE FROM post_ingredients WHERE post_id = ?', [postId]);
+  for (const [position, ing] of ingredients.entries()) {
+    await runStatement(
+      'INSERT INTO post_ingredients (post_id, position, quantity, unit, name, note) VALUES (?, ?, ?, ?, ?, ?)',
+      [postId, position, ing.quantity, ing.unit, ing.name, ing.note],
+    );
+  }
+}
+
+export async function replacePostSteps(postId: number, steps: PostStep[]): Promise<void> {
+  await runStatement('DELETE FROM post_steps WHERE post_id = ?', [postId]);
+  for (const [position, step] of steps.entries()) {
+    await runStatement(
+      'INSERT INTO post_steps (post_id, position, instruction) VALUES (?, ?, ?)',
+      [postId, position, step.instruction],
+    );
+  }
+}
+
+/**
+ * Returns the id of the user's "Favorites" collection, creating it on first use.
+ */
+export function ensureFavoritesCollection(userId: number): Promise<number> {
+  const findFavorites = (cb: (err: Error | null, id?: number) => void) => {
+    db.get<{ id: number }>('SELECT id FROM collections WHERE user_id = ? AND is_default = 1', [userId], (err, row) =>
+      cb(err, row?.id)
+    );
+  };
+
+  return new Promise((resolve, reject) => {
+    findFavorites((err, existingId) => {
+      if (err) return reject(err);
+      if (existingId) return resolve(existingId);
+
+      const now = new Date().toISOString();
+      // OR IGNORE: a concurrent request may have created it in the meantime
+      db.run(
+        `INSERT OR IGNORE INTO collections (user_id, name, is_public, is_default, created_at, updated_at)
+        VALUES (?, 'Favorites', 0, 1, ?, ?)`,
+        [userId, now, now],
+        (insertErr) => {
+          if (insertErr) return reject(insertErr);
+          findFavorites((getErr, id) => {
+            if (getErr) return reject(getErr);
+            if (!id) return reject(new Error('Favorites collection missing'));
+            resolve(id);
+          });
+        }
+      );
+    });
+  });
+}
@@ -0,0 +1,19 @@
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Runs `run` now and then every `intervalMs`; starting a job that is already running
+ * does nothing. A run that fails is logged and retried on the next tick, and the
+ * timer alone does not keep the process alive.
+ */
+export function startIntervalJob(name: string, run: () => Promise<unknown>, intervalMs: number): void {
+  if (timers.has(name)) return;
+
+  const tick = () => {
+    run().catch((err) => console.error(`❌ ${name} failed:`, err));
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  timers.set(name, timer);
+}
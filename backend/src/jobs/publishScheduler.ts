@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { securityLogger } from '../middleware/logging';
+import { startIntervalJob } from './intervalJob';
+
+const INTERVAL_MS = (parseInt(process.env.PUBLISH_SCHEDULER_INTERVAL_SECONDS || '60', 10) || 60) * 1000;
+
+interface DuePostRow {
+  id: number;
+  title: string;
+  author_name: string;
+  publish_at: string;
+}
+
+function findDuePosts(now: string): Promise<DuePostRow[]> {
+  return new Promise((resolve, reject) => {
+    db.all<DuePostRow>(
+      "SELECT id, title, author_name, publish_at FROM posts WHERE status = 'scheduled' AND publish_at <= ? AND deleted_at IS NULL ORDER BY publish_at",
+      [now],
+      (err, rows) => {
+        if (err) return reject(err);
+        resolve(rows || []);
+      }
+    );
+  });
+}
+
+function publishPost(postId: number, now: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    // Re-checks the status so a post rescheduled or rejected in the meantime is left alone
+    db.run(
+      "UPDATE posts SET status = 'approved', updated_at = ? WHERE id = ? AND status = 'scheduled' AND publish_at <= ?",
+      [now, postId, now],
+      function (err) {
+        if (err) return reject(err);
+        resolve(this.changes > 0);
+      }
+    );
+  });
+}
+
+/**
+ * Makes every scheduled post whose publish time has passed visible. Returns how many went live.
+ */
+export async function publishDuePosts(): Promise<number> {
+  const now = new Date().toISOString();
+  let published = 0;
+
+  for (const post of await findDuePosts(now)) {
+    if (!(await publishPost(post.id, now))) continue;
+    published++;
+
+    securityLogger.info('post_published', {
+      postId: post.id,
+      postTitle: post.title,
+      postAuthor: post.author_name,
+      scheduledFor: post.publish_at,
+      description: `Scheduled post "${post.title}" by ${post.author_name} was published`,
+    });
+  }
+
+  return published;
+}
+
+/**
+ * Runs publishDuePosts now and then every PUBLISH_SCHEDULER_INTERVAL_SECONDS (default 60).
+ */
+export function startPublishScheduler(): void {
+  startIntervalJob('Publish scheduler', publishDuePosts, INTERVAL_MS);
+}
@@ -0,0 +1,22 @@
+import { forgetEndedSessions } from '../utils/sessions';
+import { sessionStore } from '../utils/sessionStore';
+import { startIntervalJob } from './intervalJob';
+
+const INTERVAL_MS = (parseInt(process.env.SESSION_CLEANUP_INTERVAL_MINUTES || '15', 10) || 15) * 60 * 1000;
+
+/**
+ * Deletes expired sessions from the session store, and the `user_sessions` rows of
+ * sessions that are gone. Returns how many sessions were removed.
+ */
+export async function cleanUpSessions(): Promise<number> {
+  const removed = await sessionStore.destroyExpired();
+  await forgetEndedSessions();
+  return removed;
+}
+
+/**
+ * Runs cleanUpSessions now and then every SESSION_CLEANUP_INTERVAL_MINUTES (default 15).
+ */
+export function startSessionCleanup(): void {
+  startIntervalJob('Session cleanup', cleanUpSessions, INTERVAL_MS);
+}
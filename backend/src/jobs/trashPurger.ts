@@ -0,0 +1,47 @@
+import { allRows } from '../db';
+import { securityLogger } from '../middleware/logging';
+import { purgeCutoff, purgeFile, purgePost, purgeUser, TRASH_RETENTION_DAYS } from '../utils/trash';
+import { startIntervalJob } from './intervalJob';
+
+const INTERVAL_MS = (parseInt(process.env.TRASH_PURGE_INTERVAL_MINUTES || '60', 10) || 60) * 60 * 1000;
+
+function findExpired(table: 'posts' | 'file_uploads' | 'users', cutoff: string): Promise<number[]> {
+  return allRows<{ id: number }>(
+    `SELECT id FROM ${table} WHERE deleted_at IS NOT NULL AND deleted_at < ? ORDER BY deleted_at`,
+    [cutoff],
+  ).then((rows) => rows.map((r) => r.id));
+}
+
+/**
+ * Permanently deletes posts, files and users that have been in the trash for longer
+ * than TRASH_RETENTION_DAYS, including their files in uploads/ and uploads/posts/.
+ */
+export async function purgeExpiredTrash(): Promise<{ posts: number; files: number; users: number }> {
+  const cutoff = purgeCutoff();
+
+  const posts = await findExpired('posts', cutoff);
+  for (const id of posts) await purgePost(id);
+
+  const files = await findExpired('file_uploads', cutoff);
+  for (const id of files) await purgeFile(id);
+
+  const users = await findExpired('users', cutoff);
+  for (const id of users) await purgeUser(id);
+
+  const purged = { posts: posts.length, files: files.length, users: users.length };
+  if (purged.posts || purged.files || purged.users) {
+    securityLogger.info('trash_purged', {
+      ...purged,
+      retentionDays: TRASH_RETENTION_DAYS,
+      description: `Purged ${purged.posts} post(s), ${purged.files} file(s) and ${purged.users} user(s) from the trash`,
+    });
+  }
+  return purged;
+}
+
+/**
+ * Runs purgeExpiredTrash now and then every TRASH_PURGE_INTERVAL_MINUTES (default 60).
+ */
+export function startTrashPurger(): void {
+  startIntervalJob('Trash purger', purgeExpiredTrash, INTERVAL_MS);
+}
@@ -1,17 +1,34 @@
 import { Request, Response, NextFunction } from 'express';
 import { findUserById } from '../db';
 import { securityLogger } from './logging';
+import { Permission, Role, roleHasPermission } from '../utils/permissions';
+import { isSessionIdle, recordActivity } from '../utils/idleTimeout';
+import { isSuspended, suspendedResponse } from '../utils/suspension';
+import { findUserSession, isSessionRevoked, touchUserSession } from '../utils/sessions';
+import { needsTwoFactorSetup } from '../utils/twoFactor';
 
 export interface AuthedRequest extends Request {
   user?: {
     id: number;
-    role: 'admin' | 'editor' | 'user';
+    role: Role;
     name: string;
     email: string;
   };
 }
 
-export async function requireAuth(req: AuthedRequest, res: Response, next: NextFunction) {
+export function requireAuth(req: AuthedRequest, res: Response, next: NextFunction) {
+  return authenticate(req, res, next, false);
+}
+
+/**
+ * requireAuth for the 2FA setup endpoints, which have to stay reachable for users
+ * whose role requires 2FA before they have set it up.
+ */
+export function requireAuthForTwoFactorSetup(req: AuthedRequest, res: Response, next: NextFunction) {
+  return authenticate(req, res, next, true);
+}
+
+async function authenticate(req: AuthedRequest, res: Response, next: NextFunction, allowTwoFactorSetup: boolean) {
   const sessionUserId = (req.session as any).userId as number | undefined;
 
   if (!sessionUserId) {
@@ -38,6 +55,60 @@ export async function requireAuth(req: AuthedRequest, res: Response, next: NextF
       return res.status(401).json({ error: 'User not found' });
     }
 
+    // Logged in before a password reset, or signed out from another device or by an admin
+    const trackedSession = await findUserSession(req.sessionID);
+    if (isSessionRevoked(dbUser, req.session) || !trackedSession || trackedSession.user_id !== dbUser.id) {
+      securityLogger.warn('unauthorized_access_attempt', {
+        path: req.path,
+        method: req.method,
+        ip: req.ip,
+        sessionUserId,
+        reason: 'session_revoked',
+      });
+      return req.session.destroy(() => {
+        res.clearCookie('sid');
+        res.status(401).json({ error: 'Session expired, please log in again' });
+      });
+    }
+
+    // Nothing from this session for longer than the role's idle timeout
+    if (isSessionIdle(req.session, dbUser.role)) {
+      securityLogger.info('idle_timeout', {
+        userId: dbUser.id,
+        path: req.path,
+        ip: req.ip,
+        description: `${dbUser.name} was signed out after being idle`,
+      });
+      return req.session.destroy(() => {
+        res.clearCookie('sid');
+        res.status(401).json({ error: 'You were signed out after a period of inactivity', reason: 'idle_timeout' });
+      });
+    }
+    recordActivity(req.session);
+
+    // Suspension applies to sessions opened before it, so end the session here
+    if (isSuspended(dbUser)) {
+      securityLogger.warn('suspended_access_attempt', {
+        path: req.path,
+        method: req.method,
+        ip: req.ip,
+        userId: dbUser.id,
+        reason: 'account_suspended',
+      });
+      return req.session.destroy(() => {
+        res.clearCookie('sid');
+        res.status(403).json(suspendedResponse(dbUser));
+      });
+    }
+
+    if (!allowTwoFactorSetup && needsTwoFactorSetup(dbUser)) {
+      return res.status(403).json({
+        error: 'Set up two-factor authentication to continue',
+        twoFactorSetupRequired: true,
+      });
+    }
+
+    await touchUserSession(req, trackedSession);
     req.user = {
       id: dbUser.id,
       role: dbUser.role,
@@ -50,7 +121,11 @@ export async function requireAuth(req: AuthedRequest, res: Response, next: NextF
   }
 }
 
-export function requireRole(roles: Array<'admin' | 'editor' | 'user'>) {
+export function hasPermission(req: AuthedRequest, permission: Permission): boolean {
+  return roleHasPermission(req.user?.role, permission);
+}
+
+export function requirePermission(permission: Permission) {
   return (req: AuthedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       securityLogger.warn('unauthorized_access_attempt', {
@@ -61,21 +136,19 @@ export function requireRole(roles: Array<'admin' | 'editor' | 'user'>) {
       });
       return res.status(401).json({ error: 'Not authenticated' });
     }
-    if (!roles.includes(req.user.role)) {
-      // Log forbidden access attempt (wrong role)
+    if (!hasPermission(req, permission)) {
+      // Log forbidden access attempt (missing permission)
       securityLogger.warn('forbidden_access_attempt', {
         path: req.path,
         method: req.method,
         ip: req.ip,
         userId: req.user.id,
         userRole: req.user.role,
-        requiredRoles: roles,
-        reason: 'insufficient_role',
+        requiredPermission: permission,
+        reason: 'missing_permission',
       });
       return res.status(403).json({ error: 'Forbidden' });
     }
     next();
   };
 }
-
-
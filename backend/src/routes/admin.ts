@@ -1,24 +1,63 @@
-import { Router } from 'express';
-import { requireAuth, requireRole, AuthedRequest } from '../middleware/auth';
-import { db } from '../db';
+import { NextFunction, Response, Router } from 'express';
+import { requireAuth, requirePermission, AuthedRequest } from '../middleware/auth';
+import { db, runStatement } from '../db';
 import { securityLogger } from '../middleware/logging';
+import { z } from 'zod';
+import { listQuerySchema, paginate } from '../utils/pagination';
+import { escapeLike } from '../utils/search';
+import { moderationRulesRouter } from './moderationRules';
+import { reportsRouter } from './reports';
+import { permissionsRouter } from './permissions';
+import { authPolicyRouter } from './authPolicy';
+import { lockoutsRouter } from './lockouts';
+import { adminTrashRouter } from './trash';
+import { ROLES } from '../utils/permissions';
+import { forgetAllUserSessions, listUserSessions, serializeUserSession } from '../utils/sessions';
+import { sessionStore } from '../utils/sessionStore';
+import { ACTIVE_SUSPENSION_SQL, isSuspended } from '../utils/suspension';
+import { trashUser } from '../utils/trash';
 import fs from 'fs';
 import path from 'path';
 
 const router = Router();
 
+router.use('/moderation-rules', moderationRulesRouter);
+router.use('/reports', reportsRouter);
+router.use('/permissions', permissionsRouter);
+router.use('/auth-policy', authPolicyRouter);
+router.use('/lockouts', lockoutsRouter);
+router.use('/trash', adminTrashRouter);
+
 interface UserRow {
   id: number;
   name: string;
   email: string;
   role: string;
   created_at: string;
+  suspended_at: string | null;
+  suspended_until: string | null;
+  suspended_reason: string | null;
+}
+
+function serializeUser(u: UserRow) {
+  const suspended = isSuspended(u);
+  return {
+    id: u.id,
+    name: u.name,
+    email: u.email,
+    role: u.role,
+    createdAt: u.created_at,
+    suspended,
+    suspendedAt: suspended ? u.suspended_at : null,
+    suspendedUntil: suspended ? u.suspended_until : null,
+    suspensionReason: suspended ? u.suspended_reason : null,
+  };
 }
 
 router.get(
   '/status',
   requireAuth,
-  requireRole(['admin']),
+  requirePermission('permissions.manage'),
   (req: AuthedRequest, res) => {
     res.json({
       ok: true,
@@ -27,35 +66,69 @@ router.get(
   },
 );
 
-// Get all users (admin only)
+const listUsersQuerySchema = listQuerySchema(['createdAt', 'name', 'email'], 'createdAt', {
+  role: z.enum(ROLES).optional(),
+  status: z.enum(['active', 'suspended']).optional(),
+  q: z.string().max(100).optional(),
+});
+
+// Get all users (requires users.read), paginated
+// Filters: `role`, `status` (active or suspended), and `q` matching name or email;
+// sort by `createdAt`, `name` or `email`
 router.get(
   '/users',
   requireAuth,
-  requireRole(['admin']),
+  requirePermission('users.read'),
   (req: AuthedRequest, res, next) => {
-    db.all<UserRow>(
-      'SELECT id, name, email, role, created_at FROM users ORDER BY created_at DESC',
-      (err, rows) => {
-        if (err) return next(err);
+    const parsed = listUsersQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid query parameters' });
+    }
+    const { role, status, q, ...page } = parsed.data;
+
+    const where: string[] = ['deleted_at IS NULL'];
+    const params: unknown[] = [];
+    if (role) {
+      where.push('role = ?');
+      params.push(role);
+    }
+    if (status) {
+      where.push(status === 'suspended' ? ACTIVE_SUSPENSION_SQL : `NOT ${ACTIVE_SUSPENSION_SQL}`);
+      params.push(new Date().toISOString());
+    }
+    if (q) {
+      where.push("(name LIKE ? ESCAPE '\\' OR email LIKE ? ESCAPE '\\')");
+      params.push(`%${escapeLike(q)}%`, `%${escapeLike(q)}%`);
+    }
+
+    paginate<UserRow>(
+      {
+        select: 'id, name, email, role, created_at, suspended_at, suspended_until, suspended_reason',
+        from: 'users',
+        where,
+        params,
+        sortColumns: { createdAt: 'created_at', name: 'name', email: 'email' },
+        idColumn: 'id',
+      },
+      page,
+    )
+      .then((result) => {
         res.json({
-          users: (rows || []).map((u) => ({
-            id: u.id,
-            name: u.name,
-            email: u.email,
-            role: u.role,
-            createdAt: u.created_at,
-          })),
+          users: result.items.map(serializeUser),
+          nextCursor: result.nextCursor,
+          total: result.total,
         });
-      }
-    );
+      })
+      .catch(next);
   }
 );
 
-// Delete a user (admin only) - cannot delete self or other admins
+// Delete a user (requires users.delete) - cannot delete self or admins
+// The user goes to the trash with their posts and files and can be restored until purged
 router.delete(
   '/users/:id',
   requireAuth,
-  requireRole(['admin']),
+  requirePermission('users.delete'),
   (req: AuthedRequest, res, next) => {
     const targetUserId = parseInt(req.params.id, 10);
     const adminId = req.user!.id;
@@ -66,7 +139,7 @@ router.delete(
     }
 
     // Check if user exists and get their info
-    db.get<UserRow>('SELECT * FROM users WHERE id = ?', [targetUserId], (err, user) => {
+    db.get<UserRow>('SELECT * FROM users WHERE id = ? AND deleted_at IS NULL', [targetUserId], (err, user) => {
       if (err) return next(err);
       if (!user) {
         return res.status(404).json({ error: 'User not found' });
@@ -77,46 +150,268 @@ router.delete(
         return res.status(403).json({ error: 'Cannot delete admin users' });
       }
 
-      // Delete user's posts first
-      db.run('DELETE FROM posts WHERE author_id = ?', [targetUserId], (postsErr) => {
-        if (postsErr) return next(postsErr);
-
-        // Delete user's files
-        db.run('DELETE FROM file_uploads WHERE user_id = ?', [targetUserId], (filesErr) => {
-          if (filesErr) return next(filesErr);
-
-          // Delete user's OTP codes
-          db.run('DELETE FROM otp_codes WHERE user_id = ?', [targetUserId], (otpErr) => {
-            if (otpErr) return next(otpErr);
-
-            // Finally delete the user
-            db.run('DELETE FROM users WHERE id = ?', [targetUserId], (deleteErr) => {
-              if (deleteErr) return next(deleteErr);
-
-              securityLogger.info('user_deleted', {
-                action: 'user_deleted',
-                deletedUserId: targetUserId,
-                deletedUserEmail: user.email,
-                deletedUserName: user.name,
-                deletedBy: adminId,
-                deletedByName: req.user!.name,
-                description: `Admin "${req.user!.name}" deleted user "${user.name}" (${user.email})`,
-              });
-
-              res.json({ success: true, message: `User ${user.name} has been deleted` });
-            });
+      // Moves the user and their content to the trash; the purger deletes them for good
+      trashUser(targetUserId, adminId)
+        .then(() => {
+          securityLogger.info('user_deleted', {
+            action: 'user_deleted',
+            deletedUserId: targetUserId,
+            deletedUserEmail: user.email,
+            deletedUserName: user.name,
+            deletedBy: adminId,
+            deletedByName: req.user!.name,
+            description: `Admin "${req.user!.name}" moved user "${user.name}" (${user.email}) to the trash`,
           });
-        });
-      });
+
+          res.json({ success: true, message: `User ${user.name} has been moved to the trash` });
+        })
+        .catch(next);
+    });
+  }
+);
+
+const changeRoleSchema = z.object({
+  role: z.enum(ROLES),
+});
+
+const suspendUserSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+  // Omit for a suspension that lasts until it is lifted
+  until: z.string().datetime().optional(),
+});
+
+function withTargetUser(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+  cb: (user: UserRow) => void,
+) {
+  const targetUserId = parseInt(req.params.id, 10);
+  db.get<UserRow>('SELECT * FROM users WHERE id = ? AND deleted_at IS NULL', [targetUserId], (err, user) => {
+    if (err) return next(err);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    cb(user);
+  });
+}
+
+// Move a user to another role (requires users.roles.manage)
+// Only admins may grant or take away the admin role, and the last active admin keeps it
+router.put(
+  '/users/:id/role',
+  requireAuth,
+  requirePermission('users.roles.manage'),
+  (req: AuthedRequest, res, next) => {
+    const actor = req.user!;
+    if (parseInt(req.params.id, 10) === actor.id) {
+      return res.status(400).json({ error: 'Cannot change your own role' });
+    }
+
+    let role: (typeof ROLES)[number];
+    try {
+      ({ role } = changeRoleSchema.parse(req.body));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+      }
+      return next(err);
+    }
+
+    withTargetUser(req, res, next, (user) => {
+      if (user.role === role) {
+        return res.json({ user: serializeUser(user) });
+      }
+      if ((role === 'admin' || user.role === 'admin') && actor.role !== 'admin') {
+        return res.status(403).json({ error: 'Only admins can grant or remove the admin role' });
+      }
+
+      // The guard sits in the UPDATE itself so two demotions at once cannot both pass
+      db.run(
+        `UPDATE users SET role = ?
+         WHERE id = ?
+           AND (role != 'admin' OR EXISTS (
+             SELECT 1 FROM users WHERE role = 'admin' AND id != ? AND deleted_at IS NULL AND NOT ${ACTIVE_SUSPENSION_SQL}
+           ))`,
+        [role, user.id, user.id, new Date().toISOString()],
+        function (err) {
+          if (err) return next(err);
+          if (this.changes === 0) {
+            return res.status(409).json({ error: 'Cannot demote the last admin' });
+          }
+
+          securityLogger.info('user_role_changed', {
+            targetUserId: user.id,
+            targetUserName: user.name,
+            previousRole: user.role,
+            newRole: role,
+            changedBy: actor.id,
+            changedByName: actor.name,
+            description: `${actor.name} changed the role of "${user.name}" from ${user.role} to ${role}`,
+          });
+
+          res.json({ user: serializeUser({ ...user, role }) });
+        },
+      );
+    });
+  }
+);
+
+// Suspend a user (requires users.suspend), optionally until a given time
+// Their open sessions are rejected from the next request on
+router.put(
+  '/users/:id/suspend',
+  requireAuth,
+  requirePermission('users.suspend'),
+  (req: AuthedRequest, res, next) => {
+    const actor = req.user!;
+    if (parseInt(req.params.id, 10) === actor.id) {
+      return res.status(400).json({ error: 'Cannot suspend your own account' });
+    }
+
+    let payload: z.infer<typeof suspendUserSchema>;
+    try {
+      payload = suspendUserSchema.parse(req.body);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+      }
+      return next(err);
+    }
+
+    const now = new Date();
+    const until = payload.until ? new Date(payload.until).toISOString() : null;
+    if (until && new Date(until) <= now) {
+      return res.status(400).json({ error: 'Suspension end must be in the future' });
+    }
+    const reason = payload.reason || null;
+
+    withTargetUser(req, res, next, (user) => {
+      if (user.role === 'admin') {
+        return res.status(403).json({ error: 'Cannot suspend admin users' });
+      }
+
+      runStatement(
+        'UPDATE users SET suspended_at = ?, suspended_until = ?, suspended_reason = ?, suspended_by = ? WHERE id = ?',
+        [now.toISOString(), until, reason, actor.id, user.id],
+      )
+        .then(() => {
+          securityLogger.info('user_suspended', {
+            targetUserId: user.id,
+            targetUserName: user.name,
+            until,
+            reason,
+            suspendedBy: actor.id,
+            suspendedByName: actor.name,
+            description: `${actor.name} suspended "${user.name}" ${until ? `until ${until}` : 'indefinitely'}${
+              reason ? `: ${reason}` : ''
+            }`,
+          });
+
+          res.json({
+            user: serializeUser({
+              ...user,
+              suspended_at: now.toISOString(),
+              suspended_until: until,
+              suspended_reason: reason,
+            }),
+          });
+        })
+        .catch(next);
+    });
+  }
+);
+
+// Lift a user's suspension (requires users.suspend)
+router.put(
+  '/users/:id/unsuspend',
+  requireAuth,
+  requirePermission('users.suspend'),
+  (req: AuthedRequest, res, next) => {
+    const actor = req.user!;
+
+    withTargetUser(req, res, next, (user) => {
+      if (!isSuspended(user)) {
+        return res.status(400).json({ error: 'User is not suspended' });
+      }
+
+      runStatement(
+        'UPDATE users SET suspended_at = NULL, suspended_until = NULL, suspended_reason = NULL, suspended_by = NULL WHERE id = ?',
+        [user.id],
+      )
+        .then(() => {
+          securityLogger.info('user_unsuspended', {
+            targetUserId: user.id,
+            targetUserName: user.name,
+            unsuspendedBy: actor.id,
+            unsuspendedByName: actor.name,
+            description: `${actor.name} lifted the suspension of "${user.name}"`,
+          });
+
+          res.json({
+            user: serializeUser({ ...user, suspended_at: null, suspended_until: null, suspended_reason: null }),
+          });
+        })
+        .catch(next);
     });
   }
 );
 
-// Get recent security logs (admin only) - formatted for display
+// Where a user is signed in (requires users.sessions.revoke)
+router.get(
+  '/users/:id/sessions',
+  requireAuth,
+  requirePermission('users.sessions.revoke'),
+  (req: AuthedRequest, res, next) => {
+    withTargetUser(req, res, next, (user) => {
+      listUserSessions(user.id)
+        .then((rows) => res.json({ sessions: rows.map((row) => serializeUserSession(row, req.sessionID)) }))
+        .catch(next);
+    });
+  }
+);
+
+// Sign a user out everywhere (requires users.sessions.revoke)
+// Only admins may sign out admins; your own sessions are managed under /api/auth/sessions
+router.delete(
+  '/users/:id/sessions',
+  requireAuth,
+  requirePermission('users.sessions.revoke'),
+  (req: AuthedRequest, res, next) => {
+    const actor = req.user!;
+    if (parseInt(req.params.id, 10) === actor.id) {
+      return res.status(400).json({ error: 'Cannot sign yourself out here' });
+    }
+
+    withTargetUser(req, res, next, (user) => {
+      if (user.role === 'admin' && actor.role !== 'admin') {
+        return res.status(403).json({ error: 'Only admins can sign out admins' });
+      }
+
+      sessionStore
+        .destroyUserSessions(user.id)
+        .then(async (count) => {
+          await forgetAllUserSessions(user.id);
+          securityLogger.info('user_signed_out', {
+            targetUserId: user.id,
+            targetUserName: user.name,
+            count,
+            signedOutBy: actor.id,
+            signedOutByName: actor.name,
+            description: `${actor.name} signed "${user.name}" out of ${count} session${count === 1 ? '' : 's'}`,
+          });
+          res.json({ revoked: count });
+        })
+        .catch(next);
+    });
+  }
+);
+
+// Get recent security logs (requires logs.read) - formatted for display
 router.get(
   '/logs',
   requireAuth,
-  requireRole(['admin']),
+  requirePermission('logs.read'),
   (req: AuthedRequest, res) => {
     try {
       const logFile = path.join(__dirname, '..', '..', 'logs', 'security.log');
@@ -198,6 +493,79 @@ function formatLogEntry(log: Record<string, unknown>): {
       description = description || `OTP verification failed for user ID ${log.userId}`;
       type = 'security';
       break;
+    case 'two_factor_enabled':
+    case 'two_factor_disabled':
+    case 'recovery_codes_regenerated':
+      description = description || `User ${log.userId} changed their two-factor authentication`;
+      type = 'auth';
+      break;
+    case 'two_factor_failed':
+      description = description || `Wrong two-factor code from "${log.email}" (${log.action})`;
+      type = 'security';
+      break;
+    case 'recovery_code_used':
+      description = description || `"${log.email}" signed in with a recovery code (${log.remaining} left)`;
+      type = 'security';
+      break;
+    case 'login_throttled':
+      description =
+        description ||
+        `Sign-in for "${log.email}" refused: ${log.locked ? 'locked' : 'too many failures'} (${log.scope}, retry in ${log.retryAfter}s)`;
+      type = 'security';
+      break;
+    case 'sign_in_locked':
+      description = description || `Sign-in for ${log.scope} "${log.key}" locked after repeated failures`;
+      type = 'security';
+      break;
+    case 'sign_in_unlocked':
+      description = description || `Sign-in for ${log.scope} "${log.key}" unlocked by ${log.unlockedByName}`;
+      type = 'admin';
+      break;
+    case 'session_revoked':
+      description = description || `User ${log.userId} signed out other sessions`;
+      type = 'auth';
+      break;
+    case 'passkey_registered':
+    case 'passkey_revoked':
+      description = description || `User ${log.userId} changed their passkeys`;
+      type = 'auth';
+      break;
+    case 'passkey_failed':
+      description =
+        description ||
+        (log.userId
+          ? `Passkey ${log.action} failed for user ${log.userId} (${log.reason})`
+          : `Passkey ${log.action} with an unknown passkey (IP ${log.ip})`);
+      type = 'security';
+      break;
+    case 'two_factor_policy_updated':
+      description = description || `Two-factor requirement for ${log.role} set to ${log.requireTwoFactor}`;
+      type = 'admin';
+      break;
+    case 'idle_timeout_policy_updated':
+      description = description || `Idle timeout for ${log.role} set to ${log.idleTimeoutMinutes ?? 'the default'}`;
+      type = 'admin';
+      break;
+    case 'idle_timeout':
+      description = description || `User ${log.userId} was signed out after being idle`;
+      type = 'auth';
+      break;
+    case 'password_reset_requested':
+      description = description || `Password reset requested for unknown email "${log.email}"`;
+      type = 'auth';
+      break;
+    case 'password_reset_completed':
+      description = description || `User ${log.userId} reset their password`;
+      type = 'auth';
+      break;
+    case 'password_reset_failed':
+      description = description || `Password reset with an invalid or expired link (IP ${log.ip})`;
+      type = 'security';
+      break;
+    case 'password_reset_rate_limited':
+      description = description || `Too many password reset attempts from ${log.ip} (limited by ${log.keyedBy})`;
+      type = 'security';
+      break;
     case 'post_created':
       description = description || `${log.authorName || 'User'} created post "${log.title}"`;
       type = 'content';
@@ -206,10 +574,42 @@ function formatLogEntry(log: Record<string, unknown>): {
       description = description || `${log.approvedByName || 'Admin'} approved post "${log.postTitle}"`;
       type = 'moderation';
       break;
+    case 'post_submitted':
+      description = description || `${log.authorName || 'User'} submitted draft "${log.title}"`;
+      type = 'content';
+      break;
+    case 'post_resubmitted':
+      description = description || `${log.authorName || 'User'} resubmitted rejected post "${log.title}"`;
+      type = 'content';
+      break;
+    case 'post_scheduled':
+      description = description || `${log.scheduledByName || 'Admin'} scheduled post "${log.postTitle}" for ${log.publishAt}`;
+      type = 'moderation';
+      break;
+    case 'post_published':
+      description = description || `Scheduled post "${log.postTitle}" was published`;
+      type = 'content';
+      break;
     case 'post_rejected':
       description = description || `${log.rejectedByName || 'Admin'} rejected post "${log.postTitle}"`;
       type = 'moderation';
       break;
+    case 'post_reported':
+      description = description || `${log.reporterName || 'User'} reported post "${log.postTitle}"`;
+      type = 'moderation';
+      break;
+    case 'post_auto_hidden':
+      description = description || `Post "${log.postTitle}" was hidden for review after ${log.openReports} reports`;
+      type = 'moderation';
+      break;
+    case 'post_unpublished':
+      description = description || `${log.unpublishedByName || 'Admin'} unpublished reported post "${log.postTitle}"`;
+      type = 'moderation';
+      break;
+    case 'report_dismissed':
+      description = description || `${log.dismissedByName || 'Admin'} dismissed a report on post "${log.postTitle}"`;
+      type = 'moderation';
+      break;
     case 'post_deleted':
       description = description || `${log.deletedByName || 'User'} deleted post "${log.title}"`;
       type = 'content';
@@ -218,14 +618,142 @@ function formatLogEntry(log: Record<string, unknown>): {
       description = description || `${log.updatedByName || 'User'} updated post "${log.postTitle}"`;
       type = 'content';
       break;
+    case 'post_revision_restored':
+      description = description || `${log.restoredByName || 'Admin'} restored post "${log.postTitle}" to revision ${log.revision}`;
+      type = 'content';
+      break;
+    case 'review_created':
+      description = description || `${log.userName || 'User'} reviewed post ID ${log.postId} (${log.rating}★)`;
+      type = 'content';
+      break;
+    case 'review_updated':
+      description = description || `${log.userName || 'User'} updated their review of post ID ${log.postId}`;
+      type = 'content';
+      break;
+    case 'review_deleted':
+      description = description || `${log.deletedByName || 'User'} deleted a review on post ID ${log.postId}`;
+      type = 'content';
+      break;
+    case 'self_review_attempt':
+      description = description || `User ID ${log.userId} tried to review their own post ID ${log.postId}`;
+      type = 'security';
+      break;
+    case 'unauthorized_review_delete_attempt':
+      description = description || `Unauthorized delete attempt on review ID ${log.reviewId} by user ID ${log.userId}`;
+      type = 'security';
+      break;
+    case 'comment_created':
+      description = description || `${log.authorName || 'User'} commented on post ID ${log.postId}`;
+      type = 'content';
+      break;
+    case 'comment_updated':
+      description = description || `${log.authorName || 'User'} edited comment ID ${log.commentId}`;
+      type = 'content';
+      break;
+    case 'comment_deleted':
+      description = description || `${log.deletedByName || 'User'} deleted comment ID ${log.commentId}`;
+      type = 'content';
+      break;
+    case 'comment_approved':
+      description = description || `${log.moderatorName || 'Admin'} approved comment ID ${log.commentId}`;
+      type = 'moderation';
+      break;
+    case 'comment_rejected':
+      description = description || `${log.moderatorName || 'Admin'} rejected comment ID ${log.commentId}`;
+      type = 'moderation';
+      break;
+    case 'unauthorized_comment_edit_attempt':
+      description = description || `Unauthorized edit attempt on comment ID ${log.commentId} by user ID ${log.userId}`;
+      type = 'security';
+      break;
+    case 'unauthorized_comment_delete_attempt':
+      description = description || `Unauthorized delete attempt on comment ID ${log.commentId} by user ID ${log.userId}`;
+      type = 'security';
+      break;
+    case 'collection_created':
+      description = description || `${log.userName || 'User'} created collection "${log.name}"`;
+      type = 'content';
+      break;
+    case 'collection_deleted':
+      description = description || `${log.userName || 'User'} deleted collection "${log.name}"`;
+      type = 'content';
+      break;
+    case 'shopping_list_created':
+      description = description || `${log.userName || 'User'} created shopping list "${log.name}"`;
+      type = 'content';
+      break;
+    case 'shopping_list_deleted':
+      description = description || `${log.userName || 'User'} deleted shopping list "${log.name}"`;
+      type = 'content';
+      break;
+    case 'unauthorized_shopping_list_access':
+      description = description || `Unauthorized ${log.action || 'access'} attempt on shopping list ID ${log.listId} by user ID ${log.userId}`;
+      type = 'security';
+      break;
+    case 'content_flagged':
+      description = description || `Content in ${log.field} by user ID ${log.userId} was sent to manual review`;
+      type = 'moderation';
+      break;
+    case 'moderation_rule_created':
+      description = description || `${log.createdByName || 'Admin'} added moderation rule "${log.pattern}"`;
+      type = 'admin';
+      break;
+    case 'moderation_rule_updated':
+      description = description || `${log.updatedByName || 'Admin'} updated moderation rule "${log.pattern}"`;
+      type = 'admin';
+      break;
+    case 'moderation_rule_deleted':
+      description = description || `${log.deletedByName || 'Admin'} deleted moderation rule "${log.pattern}"`;
+      type = 'admin';
+      break;
     case 'forbidden_word_attempt':
       description = description || `Blocked word "${log.word}" attempted in ${log.field} by user ID ${log.userId}`;
       type = 'security';
       break;
+    case 'role_permissions_updated':
+      description = description || `${log.updatedByName || 'Admin'} changed the permissions of the ${log.role} role`;
+      type = 'admin';
+      break;
     case 'user_deleted':
       description = description || `Admin deleted a user`;
       type = 'admin';
       break;
+    case 'user_role_changed':
+      description = description || `User ID ${log.targetUserId} moved from ${log.previousRole} to ${log.newRole}`;
+      type = 'admin';
+      break;
+    case 'user_suspended':
+      description = description || `User ID ${log.targetUserId} was suspended`;
+      type = 'admin';
+      break;
+    case 'user_unsuspended':
+      description = description || `User ID ${log.targetUserId} was unsuspended`;
+      type = 'admin';
+      break;
+    case 'user_signed_out':
+      description = description || `User ID ${log.targetUserId} was signed out by ${log.signedOutByName}`;
+      type = 'admin';
+      break;
+    case 'suspended_access_attempt':
+      description = description || `Suspended user ID ${log.userId} tried to access ${log.method} ${log.path}`;
+      type = 'security';
+      break;
+    case 'post_restored':
+    case 'file_restored':
+    case 'user_restored':
+      description = description || `Restored from the trash`;
+      type = 'content';
+      break;
+    case 'post_purged':
+    case 'file_purged':
+    case 'user_purged':
+      description = description || `Permanently deleted from the trash`;
+      type = 'admin';
+      break;
+    case 'trash_purged':
+      description = description || `Expired items purged from the trash`;
+      type = 'admin';
+      break;
     case 'file_upload_success':
       description = description || `File "${log.original}" uploaded`;
       type = 'content';
@@ -1,8 +1,44 @@
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
 import bcrypt from 'bcryptjs';
+import rateLimit from 'express-rate-limit';
 import { z } from 'zod';
-import { createUser, findUserByEmail, findUserById, createOtpCode, verifyOtpCode } from '../db';
+import {
+  DbUser,
+  createUser,
+  findUserByEmail,
+  findUserById,
+  createOtpCode,
+  verifyOtpCode,
+  createPasswordResetToken,
+  consumePasswordResetToken,
+  resetUserPassword,
+} from '../db';
+import { AuthedRequest, requireAuthForTwoFactorSetup } from '../middleware/auth';
 import { securityLogger } from '../middleware/logging';
+import { sendMail } from '../utils/mailer';
+import { otpMail, passwordResetMail } from '../utils/mailTemplates';
+import {
+  accountKey,
+  clearThrottle,
+  ipKey,
+  recordSignInFailure,
+  rejectIfThrottled,
+} from '../utils/loginThrottle';
+import {
+  findUserSession,
+  forgetUserSession,
+  isSessionRevoked,
+  listUserSessions,
+  revokeUserSessions,
+  serializeAuthUser,
+  startAuthenticatedSession,
+} from '../utils/sessions';
+import { idleTimeoutMinutes, isSessionIdle, recordActivity } from '../utils/idleTimeout';
+import { isSuspended, suspendedResponse } from '../utils/suspension';
+import { countRecoveryCodes, roleRequiresTwoFactor, verifySecondFactor } from '../utils/twoFactor';
+import { sessionsRouter } from './sessions';
+import { twoFactorRouter } from './twoFactor';
+import { webauthnRouter } from './webauthn';
 import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
@@ -26,6 +62,34 @@ function generateOtp(): string {
   return crypto.randomInt(100000, 999999).toString();
 }
 
+/**
+ * Which second factor the user signs in with: their authenticator app once 2FA is on,
+ * otherwise an emailed OTP for the `user` role and for roles that require 2FA (until
+ * it is set up). null means the password alone is enough.
+ */
+function secondFactorFor(user: DbUser): 'totp' | 'email' | null {
+  if (user.totp_enabled_at) return 'totp';
+  if (user.role === 'user' || roleRequiresTwoFactor(user.role)) return 'email';
+  return null;
+}
+
+const OTP_TTL_MINUTES = 10;
+
+// Local development without a mailbox: DEMO_OTP=true also returns the code as `demoOtp`
+const DEMO_OTP = process.env.DEMO_OTP === 'true';
+
+/**
+ * Stores a new OTP for the user (voiding older ones) and emails it.
+ * Returns what to add to the response.
+ */
+async function sendOtp(user: DbUser): Promise<{ demoOtp?: string }> {
+  const otp = generateOtp();
+  const expiresAt = new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000).toISOString();
+  await createOtpCode(user.id, otp, expiresAt);
+  await sendMail({ to: user.email, ...otpMail({ name: user.name, code: otp, expiresInMinutes: OTP_TTL_MINUTES }) });
+  return DEMO_OTP ? { demoOtp: otp } : {};
+}
+
 const registerSchema = z.object({
   name: z.string().min(1),
   email: z.string().email(),
@@ -39,9 +103,64 @@ const loginSchema = z.object({
 
 const otpVerifySchema = z.object({
   userId: z.number(),
-  otp: z.string().length(6),
+  // 6 digits, or a 2FA recovery code
+  otp: z.string().min(6).max(32),
+});
+
+const passwordResetRequestSchema = z.object({
+  email: z.string().email(),
 });
 
+const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1).max(200),
+  password: z.string().min(8),
+});
+
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30', 10) || 30;
+
+// Same answer whether or not the account exists
+const PASSWORD_RESET_REQUESTED = 'If an account exists for that email, a password reset link has been sent to it';
+
+// Both answers wait until this long after the request came in, so the time taken does not tell them apart
+const PASSWORD_RESET_MIN_RESPONSE_MS = 500;
+
+function waitUntil(time: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, time - Date.now())));
+}
+
+// Only the hash is stored, so a leaked database does not leak working reset links
+function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function passwordResetLimiter(keyedBy: 'ip' | 'email', windowMs: number, max: number) {
+  return rateLimit({
+    windowMs,
+    max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    ...(keyedBy === 'email'
+      ? { keyGenerator: (req) => `email:${String(req.body?.email ?? '').trim().toLowerCase()}` }
+      : {}),
+    handler: (req, res, _next, options) => {
+      securityLogger.warn('password_reset_rate_limited', {
+        path: req.path,
+        ip: req.ip,
+        keyedBy,
+      });
+      res.status(options.statusCode).json({ error: 'Too many password reset attempts, please try again later' });
+    },
+  });
+}
+
+// Per IP against one client trying many addresses, per email against many clients flooding one inbox
+const passwordResetIpLimiter = passwordResetLimiter('ip', 15 * 60 * 1000, 10);
+const passwordResetEmailLimiter = passwordResetLimiter('email', 60 * 60 * 1000, 3);
+
+router.use('/2fa', twoFactorRouter);
+router.use('/webauthn', webauthnRouter);
+router.use('/sessions', sessionsRouter);
+
 router.post('/register', async (req, res, next) => {
   try {
     const { name, email, password } = registerSchema.parse(req.body);
@@ -61,51 +180,43 @@ router.post('/register', async (req, res, next) => {
 
     // For regular users, require OTP verification
     if (user.role === 'user') {
-      const otp = generateOtp();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000).toISOString(); // 10 minutes
-      await createOtpCode(user.id, otp, expiresAt);
-      
+      const delivery = await sendOtp(user);
+      (req.session as any).pendingSecondFactorUserId = user.id;
+
       securityLogger.info('otp_generated', {
         userId: user.id,
         email: user.email,
         action: 'register',
       });
 
-      // In a real app, send OTP via email/SMS
-      // For demo, we return it in response (REMOVE IN PRODUCTION)
       return res.status(201).json({
         requiresOtp: true,
         userId: user.id,
+        method: 'email',
         message: 'Please verify OTP to complete registration',
-        // DEMO ONLY - remove in production
-        demoOtp: otp,
+        ...delivery,
       });
     }
 
     // Admin/Editor don't need OTP
-    (req.session as any).userId = user.id;
-    req.session.regenerate((err) => {
-      if (err) return next(err);
-      (req.session as any).userId = user.id;
-      securityLogger.info('user_register', {
-        email: user.email,
-        userId: user.id,
-        name: user.name,
-        description: `${user.name} registered a new account`,
-      });
-      res.status(201).json({
-        user: {
-          id: user.id,
-          name: user.name,
-          email: user.email,
-          role: user.role,
-        },
-      });
+    await startAuthenticatedSession(req, user);
+    securityLogger.info('user_register', {
+      email: user.email,
+      userId: user.id,
+      name: user.name,
+      description: `${user.name} registered a new account`,
+    });
+    res.status(201).json({
+      user: serializeAuthUser(user),
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid payload' });
     }
+    // The email belongs to an account in the trash
+    if (err instanceof Error && /UNIQUE constraint failed/.test(err.message)) {
+      return res.status(409).json({ error: 'Email already in use' });
+    }
     next(err);
   }
 });
@@ -113,60 +224,72 @@ router.post('/register', async (req, res, next) => {
 router.post('/login', async (req, res, next) => {
   try {
     const { email, password } = loginSchema.parse(req.body);
+    const throttleKeys = [accountKey(email), ipKey(req.ip)];
+    if (await rejectIfThrottled(req, res, throttleKeys, email)) return;
+
     const user = await findUserByEmail(email.toLowerCase());
     if (!user) {
       securityLogger.warn('login_failed', { email, reason: 'user_not_found' });
+      await recordSignInFailure(req, throttleKeys);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
     const ok = await bcrypt.compare(password, user.password_hash);
     if (!ok) {
       securityLogger.warn('login_failed', { email, reason: 'bad_password' });
+      await recordSignInFailure(req, throttleKeys);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // Regular users need OTP verification
-    if (user.role === 'user') {
-      const otp = generateOtp();
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000).toISOString(); // 10 minutes
-      await createOtpCode(user.id, otp, expiresAt);
-      
+    if (isSuspended(user)) {
+      securityLogger.warn('login_failed', { email, userId: user.id, reason: 'account_suspended' });
+      return res.status(403).json(suspendedResponse(user));
+    }
+
+    const secondFactor = secondFactorFor(user);
+    if (secondFactor) {
+      // verify-otp only accepts a code for the account whose password was checked here
+      (req.session as any).pendingSecondFactorUserId = user.id;
+    }
+
+    if (secondFactor === 'totp') {
+      return res.json({
+        requiresOtp: true,
+        userId: user.id,
+        method: 'totp',
+        message: 'Enter the code from your authenticator app or a recovery code',
+      });
+    }
+
+    if (secondFactor === 'email') {
+      const delivery = await sendOtp(user);
+
       securityLogger.info('otp_generated', {
         userId: user.id,
         email: user.email,
         action: 'login',
       });
 
-      // In a real app, send OTP via email/SMS
-      // For demo, we return it in response (REMOVE IN PRODUCTION)
       return res.json({
         requiresOtp: true,
         userId: user.id,
+        method: 'email',
         message: 'Please enter OTP sent to your email',
-        // DEMO ONLY - remove in production
-        demoOtp: otp,
+        ...delivery,
       });
     }
 
-    // Admin/Editor login directly
-    req.session.regenerate((err) => {
-      if (err) return next(err);
-      (req.session as any).userId = user.id;
-      (req.session as any).lastActivity = Date.now();
-      securityLogger.info('login_success', { 
-        userId: user.id, 
-        email: user.email,
-        name: user.name,
-        description: `${user.name} logged in`,
-      });
-      res.json({
-        user: {
-          id: user.id,
-          name: user.name,
-          email: user.email,
-          role: user.role,
-        },
-      });
+    // Admin/Editor without 2FA login directly
+    await clearThrottle(accountKey(user.email));
+    await startAuthenticatedSession(req, user);
+    securityLogger.info('login_success', { 
+      userId: user.id, 
+      email: user.email,
+      name: user.name,
+      description: `${user.name} logged in`,
+    });
+    res.json({
+      user: serializeAuthUser(user),
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -181,35 +304,60 @@ router.post('/verify-otp', async (req, res, next) => {
   try {
     const { userId, otp } = otpVerifySchema.parse(req.body);
     
+    if ((req.session as any).pendingSecondFactorUserId !== userId) {
+      securityLogger.warn('otp_failed', { userId, reason: 'no_pending_login' });
+      return res.status(401).json({ error: 'Your sign-in has expired, please log in again' });
+    }
+
     const user = await findUserById(userId);
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const valid = await verifyOtpCode(userId, otp);
-    if (!valid) {
-      securityLogger.warn('otp_failed', { userId, reason: 'invalid_or_expired' });
-      return res.status(401).json({ error: 'Invalid or expired OTP' });
-    }
+    // Wrong codes count against the same account and IP as wrong passwords
+    const throttleKeys = [accountKey(user.email), ipKey(req.ip)];
+    if (await rejectIfThrottled(req, res, throttleKeys, user.email)) return;
 
-    req.session.regenerate((err) => {
-      if (err) return next(err);
-      (req.session as any).userId = user.id;
-      (req.session as any).lastActivity = Date.now();
-      securityLogger.info('otp_verified', { 
-        userId: user.id, 
-        email: user.email,
-        name: user.name,
-        description: `${user.name} verified OTP and logged in`,
-      });
-      res.json({
-        user: {
-          id: user.id,
-          name: user.name,
+    if (user.totp_enabled_at) {
+      const factor = await verifySecondFactor(user, otp);
+      if (!factor) {
+        securityLogger.warn('otp_failed', { userId, reason: 'invalid_totp' });
+        await recordSignInFailure(req, throttleKeys);
+        return res.status(401).json({ error: 'Invalid code' });
+      }
+      if (factor === 'recovery_code') {
+        securityLogger.warn('recovery_code_used', {
+          userId: user.id,
           email: user.email,
-          role: user.role,
-        },
-      });
+          remaining: await countRecoveryCodes(user.id),
+          description: `${user.name} signed in with a 2FA recovery code`,
+        });
+      }
+    } else {
+      const valid = await verifyOtpCode(userId, otp);
+      if (!valid) {
+        securityLogger.warn('otp_failed', { userId, reason: 'invalid_or_expired' });
+        await recordSignInFailure(req, throttleKeys);
+        return res.status(401).json({ error: 'Invalid or expired OTP' });
+      }
+    }
+
+    // The account may have been suspended after the OTP was sent
+    if (isSuspended(user)) {
+      securityLogger.warn('otp_failed', { userId, reason: 'account_suspended' });
+      return res.status(403).json(suspendedResponse(user));
+    }
+
+    await clearThrottle(accountKey(user.email));
+    await startAuthenticatedSession(req, user);
+    securityLogger.info('otp_verified', { 
+      userId: user.id, 
+      email: user.email,
+      name: user.name,
+      description: `${user.name} verified OTP and logged in`,
+    });
+    res.json({
+      user: serializeAuthUser(user),
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -224,25 +372,26 @@ router.post('/resend-otp', async (req, res, next) => {
   try {
     const { userId } = z.object({ userId: z.number() }).parse(req.body);
     
+    if ((req.session as any).pendingSecondFactorUserId !== userId) {
+      return res.status(401).json({ error: 'Your sign-in has expired, please log in again' });
+    }
+
     const user = await findUserById(userId);
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    if (user.role !== 'user') {
+    if (secondFactorFor(user) !== 'email') {
       return res.status(400).json({ error: 'OTP not required for this user' });
     }
 
-    const otp = generateOtp();
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000).toISOString();
-    await createOtpCode(user.id, otp, expiresAt);
-    
+    const delivery = await sendOtp(user);
+
     securityLogger.info('otp_resent', { userId: user.id, email: user.email });
 
     res.json({
       message: 'New OTP sent',
-      // DEMO ONLY - remove in production
-      demoOtp: otp,
+      ...delivery,
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -252,23 +401,116 @@ router.post('/resend-otp', async (req, res, next) => {
   }
 });
 
-router.post('/logout', async (req, res, next) => {
-  const userId = (req.session as any).userId;
-  let userName = 'Unknown';
-  if (userId) {
-    const user = await findUserById(userId);
-    if (user) userName = user.name;
+/**
+ * POST /api/auth/password-reset/request - Email a single-use reset link.
+ * Answers the same, and after the same time, for unknown addresses so it cannot be used to find accounts.
+ */
+router.post('/password-reset/request', passwordResetIpLimiter, passwordResetEmailLimiter, async (req, res, next) => {
+  const answerAt = Date.now() + PASSWORD_RESET_MIN_RESPONSE_MS;
+  try {
+    const { email } = passwordResetRequestSchema.parse(req.body);
+    const user = await findUserByEmail(email.toLowerCase());
+
+    if (!user) {
+      securityLogger.warn('password_reset_requested', { email, ip: req.ip, reason: 'user_not_found' });
+      await waitUntil(answerAt);
+      return res.json({ message: PASSWORD_RESET_REQUESTED });
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000).toISOString();
+    await createPasswordResetToken(user.id, hashResetToken(token), expiresAt);
+
+    securityLogger.info('password_reset_requested', {
+      userId: user.id,
+      email: user.email,
+      ip: req.ip,
+      description: `${user.name} requested a password reset`,
+    });
+
+    const resetUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/reset-password?token=${token}`;
+    // Not awaited: a slow mail server must not make existing accounts answer slower
+    sendMail({
+      to: user.email,
+      ...passwordResetMail({ name: user.name, resetUrl, expiresInMinutes: PASSWORD_RESET_TTL_MINUTES }),
+    }).catch((err) => console.error('❌ Failed to send password reset email:', err));
+
+    await waitUntil(answerAt);
+    res.json({ message: PASSWORD_RESET_REQUESTED });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload' });
+    }
+    next(err);
   }
-  req.session.destroy((err) => {
-    if (err) return next(err);
-    securityLogger.info('logout', { 
-      userId,
-      userName,
-      description: `${userName} logged out`,
+});
+
+/**
+ * POST /api/auth/password-reset/confirm - Set a new password with a reset token.
+ * Every session opened before the reset is signed out.
+ */
+router.post('/password-reset/confirm', passwordResetIpLimiter, async (req, res, next) => {
+  try {
+    const { token, password } = passwordResetConfirmSchema.parse(req.body);
+
+    const userId = await consumePasswordResetToken(hashResetToken(token));
+    const user = userId ? await findUserById(userId) : undefined;
+    if (!user) {
+      securityLogger.warn('password_reset_failed', { ip: req.ip, reason: 'invalid_or_expired' });
+      return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 12);
+    saveHashedPassword(user.email, passwordHash);
+    const revokedAt = await resetUserPassword(user.id, passwordHash);
+    // Whoever was guessing the old password has nothing left to guess
+    await clearThrottle(accountKey(user.email));
+
+    // A browser that was already signed in as this user stays signed in
+    const keepCurrent = (req.session as any).userId === user.id;
+    if (keepCurrent) {
+      (req.session as any).authenticatedAt = new Date(revokedAt).getTime();
+    }
+    const revoked = (await listUserSessions(user.id)).filter((row) => !keepCurrent || row.session_id !== req.sessionID);
+    await revokeUserSessions(req, revoked);
+
+    securityLogger.info('password_reset_completed', {
+      userId: user.id,
+      email: user.email,
+      ip: req.ip,
+      description: `${user.name} reset their password; other sessions were signed out`,
     });
-    res.clearCookie('sid');
-    res.status(204).end();
-  });
+    res.json({ message: 'Your password has been reset. You can now sign in.' });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload' });
+    }
+    next(err);
+  }
+});
+
+router.post('/logout', async (req, res, next) => {
+  try {
+    const userId = (req.session as any).userId;
+    let userName = 'Unknown';
+    if (userId) {
+      const user = await findUserById(userId);
+      if (user) userName = user.name;
+    }
+    await forgetUserSession(req.sessionID);
+    req.session.destroy((err) => {
+      if (err) return next(err);
+      securityLogger.info('logout', { 
+        userId,
+        userName,
+        description: `${userName} logged out`,
+      });
+      res.clearCookie('sid');
+      res.status(204).end();
+    });
+  } catch (err) {
+    next(err);
+  }
 });
 
 router.get('/me', async (req, res, next) => {
@@ -277,59 +519,36 @@ router.get('/me', async (req, res, next) => {
     if (!userId) {
       return res.json({ user: null });
     }
-    
-    // Update last activity
-    (req.session as any).lastActivity = Date.now();
-    
+
     const user = await findUserById(userId);
     if (!user) {
       return res.json({ user: null });
     }
-    res.json({
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-      },
-    });
+    const trackedSession = await findUserSession(req.sessionID);
+    if (
+      isSuspended(user) ||
+      isSessionRevoked(user, req.session) ||
+      trackedSession?.user_id !== user.id ||
+      isSessionIdle(req.session, user.role)
+    ) {
+      return req.session.destroy(() => {
+        res.clearCookie('sid');
+        res.json({ user: null });
+      });
+    }
+    recordActivity(req.session);
+    res.json({ user: serializeAuthUser(user) });
   } catch (err) {
     next(err);
   }
 });
 
-// Activity heartbeat endpoint for AFK tracking
-router.post('/heartbeat', (req, res) => {
-  const userId = (req.session as any).userId;
-  if (userId) {
-    (req.session as any).lastActivity = Date.now();
-    res.json({ active: true });
-  } else {
-    res.status(401).json({ active: false });
-  }
-});
-
-// Check if session is still valid (not AFK)
-router.get('/check-activity', (req, res) => {
-  const userId = (req.session as any).userId;
-  const lastActivity = (req.session as any).lastActivity;
-  
-  if (!userId) {
-    return res.json({ active: false, reason: 'not_logged_in' });
-  }
-  
-  const AFK_TIMEOUT_MS = 25 * 60 * 1000; // 25 minutes
-  const now = Date.now();
-  
-  if (lastActivity && (now - lastActivity) > AFK_TIMEOUT_MS) {
-    // Session expired due to inactivity
-    req.session.destroy(() => {
-      res.clearCookie('sid');
-      res.json({ active: false, reason: 'afk_timeout' });
-    });
-  } else {
-    res.json({ active: true });
-  }
+/**
+ * POST /api/auth/heartbeat - Sent by the client while the user is active, so the
+ * idle timeout counts from their last input rather than their last request
+ */
+router.post('/heartbeat', requireAuthForTwoFactorSetup, (req: AuthedRequest, res) => {
+  res.json({ active: true, idleTimeoutMinutes: idleTimeoutMinutes(req.user!.role) });
 });
 
 export { router as authRouter };
@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { allRows } from '../db';
+import { AuthedRequest, requireAuth, requirePermission } from '../middleware/auth';
+import { securityLogger } from '../middleware/logging';
+import {
+  DEFAULT_IDLE_TIMEOUT_MINUTES,
+  MAX_IDLE_TIMEOUT_MINUTES,
+  MIN_IDLE_TIMEOUT_MINUTES,
+  idleTimeoutPolicy,
+  setRoleIdleTimeout,
+} from '../utils/idleTimeout';
+import { ROLES } from '../utils/permissions';
+import { roleRequiresTwoFactor, setRoleRequiresTwoFactor, twoFactorPolicy } from '../utils/twoFactor';
+
+// Mounted under /api/admin/auth-policy
+const router = Router();
+
+const roleParamSchema = z.enum(ROLES);
+
+// Either setting may be left out; an idle timeout of null means the default
+const updatePolicySchema = z
+  .object({
+    requireTwoFactor: z.boolean().optional(),
+    idleTimeoutMinutes: z.number().int().min(MIN_IDLE_TIMEOUT_MINUTES).max(MAX_IDLE_TIMEOUT_MINUTES).nullable().optional(),
+  })
+  .refine((p) => p.requireTwoFactor !== undefined || p.idleTimeoutMinutes !== undefined);
+
+// The policy of each role with how many of its active users still have 2FA off
+function serializePolicy() {
+  return allRows<{ role: string; count: number }>(
+    'SELECT role, COUNT(*) AS count FROM users WHERE deleted_at IS NULL AND totp_enabled_at IS NULL GROUP BY role',
+    [],
+  ).then((rows) => {
+    const idleTimeouts = idleTimeoutPolicy();
+    return twoFactorPolicy().map((p) => ({
+      ...p,
+      usersWithoutTwoFactor: rows.find((r) => r.role === p.role)?.count ?? 0,
+      idleTimeoutMinutes: idleTimeouts.find((t) => t.role === p.role)?.idleTimeoutMinutes ?? null,
+    }));
+  });
+}
+
+function policyResponse() {
+  return serializePolicy().then((roles) => ({
+    roles,
+    defaultIdleTimeoutMinutes: DEFAULT_IDLE_TIMEOUT_MINUTES,
+    minIdleTimeoutMinutes: MIN_IDLE_TIMEOUT_MINUTES,
+    maxIdleTimeoutMinutes: MAX_IDLE_TIMEOUT_MINUTES,
+  }));
+}
+
+/**
+ * GET /api/admin/auth-policy - Which roles must use 2FA and how long their sessions may sit idle
+ * (requires auth.policy.manage)
+ */
+router.get('/', requireAuth, requirePermission('auth.policy.manage'), (_req, res, next) => {
+  policyResponse()
+    .then((policy) => res.json(policy))
+    .catch(next);
+});
+
+/**
+ * PUT /api/admin/auth-policy/:role - Require 2FA for a role or stop requiring it, and set its
+ * idle timeout (requires auth.policy.manage)
+ * Users of the role without 2FA are sent to the 2FA setup on their next request; a new
+ * idle timeout applies to sessions that are already open.
+ */
+router.put('/:role', requireAuth, requirePermission('auth.policy.manage'), async (req: AuthedRequest, res, next) => {
+  const role = roleParamSchema.safeParse(req.params.role);
+  if (!role.success) {
+    return res.status(404).json({ error: 'Role not found' });
+  }
+
+  try {
+    const { requireTwoFactor, idleTimeoutMinutes } = updatePolicySchema.parse(req.body);
+    const user = req.user!;
+
+    if (requireTwoFactor !== undefined && roleRequiresTwoFactor(role.data) !== requireTwoFactor) {
+      await setRoleRequiresTwoFactor(role.data, requireTwoFactor);
+      securityLogger.info('two_factor_policy_updated', {
+        role: role.data,
+        requireTwoFactor,
+        updatedBy: user.id,
+        updatedByName: user.name,
+        description: `${user.name} ${requireTwoFactor ? 'now requires' : 'no longer requires'} two-factor authentication for the ${role.data} role`,
+      });
+    }
+
+    const idleBefore = idleTimeoutPolicy().find((p) => p.role === role.data)?.idleTimeoutMinutes ?? null;
+    if (idleTimeoutMinutes !== undefined && idleBefore !== idleTimeoutMinutes) {
+      await setRoleIdleTimeout(role.data, idleTimeoutMinutes);
+      securityLogger.info('idle_timeout_policy_updated', {
+        role: role.data,
+        idleTimeoutMinutes,
+        updatedBy: user.id,
+        updatedByName: user.name,
+        description: `${user.name} set the idle timeout of the ${role.data} role to ${
+          idleTimeoutMinutes === null ? `the default (${DEFAULT_IDLE_TIMEOUT_MINUTES} minutes)` : `${idleTimeoutMinutes} minutes`
+        }`,
+      });
+    }
+
+    res.json(await policyResponse());
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+export { router as authPolicyRouter };
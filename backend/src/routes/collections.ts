@@ -0,0 +1,418 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, requireAuth } from '../middleware/auth';
+import { db, ensureFavoritesCollection } from '../db';
+import { securityLogger } from '../middleware/logging';
+import { checkContent } from '../utils/moderationRules';
+import { canViewPost, visiblePostsFilter } from '../utils/postVisibility';
+import { listQuerySchema, paginate } from '../utils/pagination';
+import { PostRow, POST_COLUMNS, serializePost } from './posts';
+
+const router = Router();
+
+const collectionSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().max(500).optional(),
+  isPublic: z.boolean().optional(),
+});
+
+const updateCollectionSchema = collectionSchema.partial();
+
+const addItemSchema = z.object({
+  postId: z.coerce.number().int().positive(),
+});
+
+const listCollectionsQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  postId: z.coerce.number().int().positive().optional(),
+});
+
+const listItemsQuerySchema = listQuerySchema(['addedAt', 'title'], 'addedAt', {});
+
+interface CollectionRow {
+  id: number;
+  user_id: number;
+  name: string;
+  description: string | null;
+  is_public: number;
+  is_default: number;
+  created_at: string;
+  updated_at: string;
+  item_count?: number;
+  contains_post?: number;
+}
+
+function serializeCollection(c: CollectionRow) {
+  return {
+    id: c.id,
+    userId: c.user_id,
+    name: c.name,
+    description: c.description,
+    isPublic: !!c.is_public,
+    isDefault: !!c.is_default,
+    itemCount: c.item_count ?? 0,
+    ...(c.contains_post !== undefined && { containsPost: !!c.contains_post }),
+    createdAt: c.created_at,
+    updatedAt: c.updated_at,
+  };
+}
+
+/**
+ * Counts only posts the viewer can still see, so rejected or unpublished
+ * recipes silently drop out of collections instead of showing as broken entries.
+ */
+function itemCountColumn(req: AuthedRequest): { sql: string; params: unknown[] } {
+  const visibility = visiblePostsFilter(req);
+  return {
+    sql: `(SELECT COUNT(*) FROM collection_items ci JOIN posts p ON p.id = ci.post_id
+      WHERE ci.collection_id = c.id AND ${visibility.clause}) AS item_count`,
+    params: visibility.params,
+  };
+}
+
+// Returns the text with masked words starred, or null once a 400 has been sent.
+// Collections have no moderation queue, so text a rule sends to review is refused.
+function checkCollectionText(req: AuthedRequest, res: Response, text: string): string | null {
+  const check = checkContent(req, res, 'collection', text);
+  return check && check.text;
+}
+
+// Loads the collection from the URL. Private collections of other users answer 404.
+function withCollection(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+  opts: { ownerOnly: boolean },
+  cb: (collection: CollectionRow) => void,
+) {
+  const collectionId = parseInt(req.params.id, 10);
+  const count = itemCountColumn(req);
+  db.get<CollectionRow>(
+    `SELECT c.*, ${count.sql} FROM collections c WHERE c.id = ?`,
+    [...count.params, collectionId],
+    (err, collection) => {
+      if (err) return next(err);
+      const isOwner = collection?.user_id === req.user!.id;
+      if (!collection || (!isOwner && (opts.ownerOnly || !collection.is_public))) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+      cb(collection);
+    }
+  );
+}
+
+function addToCollection(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+  collectionId: number,
+  postId: number,
+) {
+  db.get<{ id: number; status: string; author_id: number; deleted_at: string | null }>('SELECT id, status, author_id, deleted_at FROM posts WHERE id = ?', [postId], (err, post) => {
+    if (err) return next(err);
+    if (!post || !canViewPost(req, post)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (post.status !== 'approved') {
+      return res.status(400).json({ error: 'Only published recipes can be saved' });
+    }
+
+    db.run(
+      'INSERT OR IGNORE INTO collection_items (collection_id, post_id, added_at) VALUES (?, ?, ?)',
+      [collectionId, postId, new Date().toISOString()],
+      function (insertErr) {
+        if (insertErr) return next(insertErr);
+        res.status(this.changes ? 201 : 200).json({ collectionId, postId, saved: true });
+      }
+    );
+  });
+}
+
+/**
+ * GET /api/collections - The current user's collections, or another user's public ones with `userId`
+ * With `postId`, each collection also reports whether it contains that post.
+ */
+router.get('/', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = listCollectionsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  const ownerId = parsed.data.userId ?? req.user!.id;
+  const isOwn = ownerId === req.user!.id;
+  const count = itemCountColumn(req);
+  const containsColumn = parsed.data.postId
+    ? ', EXISTS (SELECT 1 FROM collection_items ci WHERE ci.collection_id = c.id AND ci.post_id = ?) AS contains_post'
+    : '';
+
+  (isOwn ? ensureFavoritesCollection(ownerId) : Promise.resolve(0))
+    .then(() => {
+      db.all<CollectionRow>(
+        `SELECT c.*, ${count.sql}${containsColumn}
+        FROM collections c
+        WHERE c.user_id = ?${isOwn ? '' : ' AND c.is_public = 1'}
+        ORDER BY c.is_default DESC, c.name ASC`,
+        [...count.params, ...(parsed.data.postId ? [parsed.data.postId] : []), ownerId],
+        (err, rows) => {
+          if (err) return next(err);
+          res.json({ collections: (rows || []).map(serializeCollection) });
+        }
+      );
+    })
+    .catch(next);
+});
+
+/**
+ * POST /api/collections - Create a collection
+ */
+router.post('/', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { isPublic, ...text } = collectionSchema.parse(req.body);
+    const user = req.user!;
+    const name = checkCollectionText(req, res, text.name);
+    if (name === null) return;
+    const description = checkCollectionText(req, res, text.description || '');
+    if (description === null) return;
+
+    // Created first so a user collection can never claim the "Favorites" name
+    ensureFavoritesCollection(user.id)
+      .then(() => {
+        const now = new Date().toISOString();
+        db.run(
+          'INSERT INTO collections (user_id, name, description, is_public, is_default, created_at, updated_at) VALUES (?, ?, ?, ?, 0, ?, ?)',
+          [user.id, name, description?.trim() || null, isPublic ? 1 : 0, now, now],
+          function (err) {
+            if (err) {
+              if (/UNIQUE constraint failed/.test(err.message)) {
+                return res.status(409).json({ error: 'You already have a collection with that name' });
+              }
+              return next(err);
+            }
+
+            securityLogger.info('collection_created', {
+              collectionId: this.lastID,
+              userId: user.id,
+              userName: user.name,
+              name,
+              description: `${user.name} created collection "${name}"`,
+            });
+
+            res.status(201).json({
+              collection: serializeCollection({
+                id: this.lastID,
+                user_id: user.id,
+                name,
+                description: description?.trim() || null,
+                is_public: isPublic ? 1 : 0,
+                is_default: 0,
+                created_at: now,
+                updated_at: now,
+              }),
+            });
+          }
+        );
+      })
+      .catch(next);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /api/collections/favorites/ids - Ids of the posts in the current user's Favorites
+ * Lets recipe lists render their save buttons without a request per card.
+ * MUST be before /:id routes
+ */
+router.get('/favorites/ids', requireAuth, (req: AuthedRequest, res, next) => {
+  ensureFavoritesCollection(req.user!.id)
+    .then((favoritesId) => {
+      db.all<{ post_id: number }>(
+        'SELECT post_id FROM collection_items WHERE collection_id = ?',
+        [favoritesId],
+        (err, rows) => {
+          if (err) return next(err);
+          res.json({ collectionId: favoritesId, postIds: (rows || []).map((r) => r.post_id) });
+        }
+      );
+    })
+    .catch(next);
+});
+
+/**
+ * POST /api/collections/favorites/:postId - Save a recipe to Favorites
+ */
+router.post('/favorites/:postId', requireAuth, (req: AuthedRequest, res, next) => {
+  const postId = parseInt(req.params.postId, 10);
+  ensureFavoritesCollection(req.user!.id)
+    .then((favoritesId) => addToCollection(req, res, next, favoritesId, postId))
+    .catch(next);
+});
+
+/**
+ * DELETE /api/collections/favorites/:postId - Remove a recipe from Favorites
+ */
+router.delete('/favorites/:postId', requireAuth, (req: AuthedRequest, res, next) => {
+  const postId = parseInt(req.params.postId, 10);
+  ensureFavoritesCollection(req.user!.id)
+    .then((favoritesId) => {
+      db.run('DELETE FROM collection_items WHERE collection_id = ? AND post_id = ?', [favoritesId, postId], (err) => {
+        if (err) return next(err);
+        res.status(204).end();
+      });
+    })
+    .catch(next);
+});
+
+/**
+ * GET /api/collections/:id - A collection (owner, or anyone if public)
+ */
+router.get('/:id', requireAuth, (req: AuthedRequest, res, next) => {
+  withCollection(req, res, next, { ownerOnly: false }, (collection) => {
+    res.json({ collection: serializeCollection(collection) });
+  });
+});
+
+/**
+ * GET /api/collections/:id/items - Paginated recipes in a collection
+ * Posts the viewer can no longer see (rejected, unpublished) are left out.
+ */
+router.get('/:id/items', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = listItemsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  withCollection(req, res, next, { ownerOnly: false }, (collection) => {
+    const visibility = visiblePostsFilter(req);
+
+    paginate<PostRow & { added_at: string }>(
+      {
+        select: `${POST_COLUMNS}, ci.added_at`,
+        from: 'collection_items ci JOIN posts p ON p.id = ci.post_id',
+        where: ['ci.collection_id = ?', visibility.clause],
+        params: [collection.id, ...visibility.params],
+        sortColumns: { addedAt: 'ci.added_at', title: 'p.title' },
+        idColumn: 'p.id',
+      },
+      parsed.data,
+    )
+      .then((result) => {
+        res.json({
+          posts: result.items.map((p) => ({ ...serializePost(p), addedAt: p.added_at })),
+          nextCursor: result.nextCursor,
+          total: result.total,
+        });
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * PUT /api/collections/:id - Rename or change the visibility of a collection (owner only)
+ * The default Favorites collection cannot be renamed.
+ */
+router.put('/:id', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const changes = updateCollectionSchema.parse(req.body);
+
+    withCollection(req, res, next, { ownerOnly: true }, (collection) => {
+      if (collection.is_default && changes.name !== undefined && changes.name !== collection.name) {
+        return res.status(400).json({ error: 'The Favorites collection cannot be renamed' });
+      }
+      const name = changes.name !== undefined ? checkCollectionText(req, res, changes.name) : undefined;
+      if (name === null) return;
+      const description = changes.description !== undefined ? checkCollectionText(req, res, changes.description) : undefined;
+      if (description === null) return;
+
+      const updated: CollectionRow = {
+        ...collection,
+        name: name ?? collection.name,
+        description: description !== undefined ? description.trim() || null : collection.description,
+        is_public: changes.isPublic !== undefined ? (changes.isPublic ? 1 : 0) : collection.is_public,
+        updated_at: new Date().toISOString(),
+      };
+
+      db.run(
+        'UPDATE collections SET name = ?, description = ?, is_public = ?, updated_at = ? WHERE id = ?',
+        [updated.name, updated.description, updated.is_public, updated.updated_at, collection.id],
+        (err) => {
+          if (err) {
+            if (/UNIQUE constraint failed/.test(err.message)) {
+              return res.status(409).json({ error: 'You already have a collection with that name' });
+            }
+            return next(err);
+          }
+          res.json({ collection: serializeCollection(updated) });
+        }
+      );
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /api/collections/:id - Delete a collection and its items (owner only)
+ */
+router.delete('/:id', requireAuth, (req: AuthedRequest, res, next) => {
+  withCollection(req, res, next, { ownerOnly: true }, (collection) => {
+    if (collection.is_default) {
+      return res.status(400).json({ error: 'The Favorites collection cannot be deleted' });
+    }
+
+    db.run('DELETE FROM collection_items WHERE collection_id = ?', [collection.id], (err) => {
+      if (err) return next(err);
+      db.run('DELETE FROM collections WHERE id = ?', [collection.id], (delErr) => {
+        if (delErr) return next(delErr);
+
+        securityLogger.info('collection_deleted', {
+          collectionId: collection.id,
+          userId: req.user!.id,
+          userName: req.user!.name,
+          name: collection.name,
+          description: `${req.user!.name} deleted collection "${collection.name}"`,
+        });
+
+        res.status(204).end();
+      });
+    });
+  });
+});
+
+/**
+ * POST /api/collections/:id/items - Save a published recipe to a collection (owner only)
+ */
+router.post('/:id/items', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { postId } = addItemSchema.parse(req.body);
+    withCollection(req, res, next, { ownerOnly: true }, (collection) => {
+      addToCollection(req, res, next, collection.id, postId);
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /api/collections/:id/items/:postId - Remove a recipe from a collection (owner only)
+ */
+router.delete('/:id/items/:postId', requireAuth, (req: AuthedRequest, res, next) => {
+  const postId = parseInt(req.params.postId, 10);
+  withCollection(req, res, next, { ownerOnly: true }, (collection) => {
+    db.run('DELETE FROM collection_items WHERE collection_id = ? AND post_id = ?', [collection.id, postId], (err) => {
+      if (err) return next(err);
+      res.status(204).end();
+    });
+  });
+});
+
+export { router as collectionsRouter };
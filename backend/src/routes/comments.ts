@@ -0,0 +1,473 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, hasPermission, requireAuth, requirePermission } from '../middleware/auth';
+import { db } from '../db';
+import { securityLogger } from '../middleware/logging';
+import { checkContent } from '../utils/moderationRules';
+import { canViewPost } from '../utils/postVisibility';
+import { listQuerySchema, paginate } from '../utils/pagination';
+
+// Replies nested deeper than this are rejected to keep threads readable
+const MAX_DEPTH = 4;
+
+const createCommentSchema = z.object({
+  body: z.string().min(1).max(2000),
+  parentId: z.coerce.number().int().positive().optional(),
+});
+
+const updateCommentSchema = z.object({
+  body: z.string().min(1).max(2000),
+});
+
+const listCommentsQuerySchema = listQuerySchema(['createdAt'], 'createdAt', {});
+const pendingCommentsQuerySchema = listQuerySchema(['createdAt'], 'createdAt', {});
+
+interface CommentPostRow {
+  id: number;
+  title: string;
+  status: string;
+  author_id: number;
+  deleted_at: string | null;
+}
+
+interface CommentRow {
+  id: number;
+  post_id: number;
+  parent_id: number | null;
+  root_id: number | null;
+  depth: number;
+  author_id: number;
+  author_name: string;
+  body: string;
+  status: 'pending' | 'approved' | 'rejected';
+  approved_by: number | null;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PendingCommentRow extends CommentRow {
+  post_title: string;
+}
+
+interface CommentNode extends ReturnType<typeof serializeComment> {
+  replies: CommentNode[];
+}
+
+function serializeComment(c: CommentRow) {
+  const deleted = !!c.deleted_at;
+  return {
+    id: c.id,
+    postId: c.post_id,
+    parentId: c.parent_id,
+    depth: c.depth,
+    authorId: c.author_id,
+    authorName: deleted ? null : c.author_name,
+    body: deleted ? null : c.body,
+    status: c.status,
+    deleted,
+    edited: !deleted && c.updated_at !== c.created_at,
+    createdAt: c.created_at,
+    updatedAt: c.updated_at,
+  };
+}
+
+/**
+ * Comments a user may see, as a WHERE fragment over `comments c`.
+ * Approved comments are public; pending and rejected ones only to their author and moderators.
+ */
+function visibleCommentsFilter(req: AuthedRequest): { clause: string; params: unknown[] } {
+  if (hasPermission(req, 'comments.moderate')) return { clause: '1 = 1', params: [] };
+  return { clause: "(c.status = 'approved' OR c.author_id = ?)", params: [req.user!.id] };
+}
+
+// Nests replies under their parents. Replies whose parent is hidden from this user are dropped with it.
+function buildThreads(roots: CommentRow[], replies: CommentRow[]): CommentNode[] {
+  const nodes = new Map<number, CommentNode>();
+  const threads = roots.map((row) => {
+    const node = { ...serializeComment(row), replies: [] };
+    nodes.set(row.id, node);
+    return node;
+  });
+  for (const row of replies) {
+    const parent = row.parent_id !== null ? nodes.get(row.parent_id) : undefined;
+    if (!parent) continue;
+    const node = { ...serializeComment(row), replies: [] };
+    nodes.set(row.id, node);
+    parent.replies.push(node);
+  }
+  return threads;
+}
+
+// Returns the comment text with masked words starred, or null once a 400 has been sent.
+// `review` is set when a rule wants the comment checked by a moderator first.
+function checkCommentBody(
+  req: AuthedRequest,
+  res: Response,
+  body: string,
+  postId: number,
+): { text: string; review: boolean } | null {
+  const check = checkContent(req, res, 'comment', body, { postId, canQueue: true });
+  return check && { text: check.text, review: check.action === 'review' };
+}
+
+// ---------------------------------------------------------------------------
+// /api/posts/:id/comments
+// ---------------------------------------------------------------------------
+
+const postCommentsRouter = Router({ mergeParams: true });
+
+function withVisiblePost(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+  cb: (post: CommentPostRow) => void,
+) {
+  const postId = parseInt(req.params.id, 10);
+  db.get<CommentPostRow>('SELECT id, title, status, author_id, deleted_at FROM posts WHERE id = ?', [postId], (err, post) => {
+    if (err) return next(err);
+    if (!post || !canViewPost(req, post)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    cb(post);
+  });
+}
+
+/**
+ * GET /api/posts/:id/comments - Paginated threads (top-level comments) with their nested replies
+ */
+postCommentsRouter.get('/', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = listCommentsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  withVisiblePost(req, res, next, (post) => {
+    const visibility = visibleCommentsFilter(req);
+
+    paginate<CommentRow>(
+      {
+        select: 'c.*',
+        from: 'comments c',
+        where: ['c.post_id = ?', 'c.parent_id IS NULL', visibility.clause],
+        params: [post.id, ...visibility.params],
+        sortColumns: { createdAt: 'c.created_at' },
+        idColumn: 'c.id',
+      },
+      parsed.data,
+    )
+      .then((result) => {
+        if (result.items.length === 0) {
+          return res.json({ comments: [], nextCursor: result.nextCursor, total: result.total });
+        }
+
+        const rootIds = result.items.map((c) => c.id);
+        db.all<CommentRow>(
+          `SELECT c.* FROM comments c
+          WHERE c.root_id IN (${rootIds.map(() => '?').join(', ')}) AND ${visibility.clause}
+          ORDER BY c.depth ASC, c.created_at ASC`,
+          [...rootIds, ...visibility.params],
+          (err, replies) => {
+            if (err) return next(err);
+            res.json({
+              comments: buildThreads(result.items, replies || []),
+              nextCursor: result.nextCursor,
+              total: result.total,
+            });
+          }
+        );
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * POST /api/posts/:id/comments - Comment on a published recipe, or reply with `parentId`
+ * Comments wait for approval unless the author has `comments.moderate`.
+ */
+postCommentsRouter.post('/', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { body, parentId } = createCommentSchema.parse(req.body);
+    const text = body.trim();
+    const user = req.user!;
+
+    withVisiblePost(req, res, next, (post) => {
+      if (post.status !== 'approved') {
+        return res.status(400).json({ error: 'Comments are only allowed on published recipes' });
+      }
+      if (!text) {
+        return res.status(400).json({ error: 'Comment cannot be empty' });
+      }
+      const checked = checkCommentBody(req, res, text, post.id);
+      if (!checked) return;
+
+      const insert = (parent: CommentRow | undefined) => {
+        const now = new Date().toISOString();
+        const status = !hasPermission(req, 'comments.moderate') || checked.review ? 'pending' : 'approved';
+        const approvedBy = status === 'approved' ? user.id : null;
+        const rootId = parent ? parent.root_id ?? parent.id : null;
+        const depth = parent ? parent.depth + 1 : 0;
+
+        db.run(
+          `INSERT INTO comments (post_id, parent_id, root_id, depth, author_id, author_name, body, status, approved_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [post.id, parent?.id ?? null, rootId, depth, user.id, user.name, checked.text, status, approvedBy, now, now],
+          function (err) {
+            if (err) return next(err);
+
+            securityLogger.info('comment_created', {
+              commentId: this.lastID,
+              postId: post.id,
+              parentId: parent?.id ?? null,
+              authorId: user.id,
+              authorName: user.name,
+              status,
+              description: `${user.name} ${parent ? 'replied to a comment' : 'commented'} on "${post.title}"${status === 'pending' ? ' (pending approval)' : ''}`,
+            });
+
+            res.status(201).json({
+              comment: {
+                ...serializeComment({
+                  id: this.lastID,
+                  post_id: post.id,
+                  parent_id: parent?.id ?? null,
+                  root_id: rootId,
+                  depth,
+                  author_id: user.id,
+                  author_name: user.name,
+                  body: checked.text,
+                  status,
+                  approved_by: approvedBy,
+                  deleted_at: null,
+                  created_at: now,
+                  updated_at: now,
+                }),
+                replies: [],
+              },
+            });
+          }
+        );
+      };
+
+      if (!parentId) return insert(undefined);
+
+      db.get<CommentRow>('SELECT * FROM comments WHERE id = ? AND post_id = ?', [parentId, post.id], (err, parent) => {
+        if (err) return next(err);
+        if (!parent || parent.status !== 'approved' || parent.deleted_at) {
+          return res.status(400).json({ error: 'Cannot reply to this comment' });
+        }
+        if (parent.depth + 1 > MAX_DEPTH) {
+          return res.status(400).json({ error: 'Replies are nested too deeply' });
+        }
+        insert(parent);
+      });
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// /api/comments
+// ---------------------------------------------------------------------------
+
+const commentsRouter = Router();
+
+/**
+ * GET /api/comments/pending - Moderation queue (requires comments.moderate)
+ * MUST be before /:id routes
+ */
+commentsRouter.get('/pending', requireAuth, requirePermission('comments.moderate'), (req: AuthedRequest, res, next) => {
+  const parsed = pendingCommentsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  paginate<PendingCommentRow>(
+    {
+      select: 'c.*, p.title AS post_title',
+      from: 'comments c JOIN posts p ON p.id = c.post_id',
+      where: ["c.status = 'pending'", 'c.deleted_at IS NULL', 'p.deleted_at IS NULL'],
+      params: [],
+      sortColumns: { createdAt: 'c.created_at' },
+      idColumn: 'c.id',
+    },
+    parsed.data,
+  )
+    .then((result) => {
+      res.json({
+        comments: result.items.map((c) => ({ ...serializeComment(c), postTitle: c.post_title })),
+        nextCursor: result.nextCursor,
+        total: result.total,
+      });
+    })
+    .catch(next);
+});
+
+function withComment(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+  cb: (comment: CommentRow & { post_title: string }) => void,
+) {
+  const commentId = parseInt(req.params.id, 10);
+  db.get<CommentRow & { post_title: string }>(
+    'SELECT c.*, p.title AS post_title FROM comments c JOIN posts p ON p.id = c.post_id WHERE c.id = ? AND p.deleted_at IS NULL',
+    [commentId],
+    (err, comment) => {
+      if (err) return next(err);
+      if (!comment || comment.deleted_at) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+      cb(comment);
+    }
+  );
+}
+
+function setCommentStatus(req: AuthedRequest, res: Response, next: NextFunction, status: 'approved' | 'rejected') {
+  withComment(req, res, next, (comment) => {
+    const approvedBy = status === 'approved' ? req.user!.id : null;
+
+    db.run(
+      'UPDATE comments SET status = ?, approved_by = ? WHERE id = ?',
+      [status, approvedBy, comment.id],
+      (updateErr) => {
+        if (updateErr) return next(updateErr);
+
+        const verb = status === 'approved' ? 'approved' : 'rejected';
+        securityLogger.info(`comment_${verb}`, {
+          commentId: comment.id,
+          postId: comment.post_id,
+          moderatorId: req.user?.id,
+          moderatorName: req.user?.name,
+          commentAuthor: comment.author_name,
+          description: `${req.user?.name} ${verb} a comment by ${comment.author_name} on "${comment.post_title}"`,
+        });
+
+        res.json({ comment: serializeComment({ ...comment, status, approved_by: approvedBy }) });
+      }
+    );
+  });
+}
+
+/**
+ * PUT /api/comments/:id/approve - Approve a comment (requires comments.moderate)
+ */
+commentsRouter.put('/:id/approve', requireAuth, requirePermission('comments.moderate'), (req: AuthedRequest, res, next) => {
+  setCommentStatus(req, res, next, 'approved');
+});
+
+/**
+ * PUT /api/comments/:id/reject - Reject a comment (requires comments.moderate)
+ */
+commentsRouter.put('/:id/reject', requireAuth, requirePermission('comments.moderate'), (req: AuthedRequest, res, next) => {
+  setCommentStatus(req, res, next, 'rejected');
+});
+
+/**
+ * PUT /api/comments/:id - Edit a comment (author only)
+ * Edits by regular users go back through moderation.
+ */
+commentsRouter.put('/:id', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { body } = updateCommentSchema.parse(req.body);
+    const text = body.trim();
+    const user = req.user!;
+
+    withComment(req, res, next, (comment) => {
+      if (comment.author_id !== user.id) {
+        securityLogger.warn('unauthorized_comment_edit_attempt', {
+          userId: user.id,
+          commentId: comment.id,
+          commentAuthor: comment.author_id,
+        });
+        return res.status(403).json({ error: 'You can only edit your own comments' });
+      }
+      if (!text) {
+        return res.status(400).json({ error: 'Comment cannot be empty' });
+      }
+      const checked = checkCommentBody(req, res, text, comment.post_id);
+      if (!checked) return;
+
+      const now = new Date().toISOString();
+      const status = !hasPermission(req, 'comments.moderate') || checked.review ? 'pending' : 'approved';
+      const approvedBy = status === 'approved' ? user.id : null;
+
+      db.run(
+        'UPDATE comments SET body = ?, status = ?, approved_by = ?, updated_at = ? WHERE id = ?',
+        [checked.text, status, approvedBy, now, comment.id],
+        (updateErr) => {
+          if (updateErr) return next(updateErr);
+
+          securityLogger.info('comment_updated', {
+            commentId: comment.id,
+            postId: comment.post_id,
+            authorId: user.id,
+            authorName: user.name,
+            status,
+            description: `${user.name} edited their comment on "${comment.post_title}"${status === 'pending' ? ' (pending approval)' : ''}`,
+          });
+
+          res.json({
+            comment: serializeComment({ ...comment, body: checked.text, status, approved_by: approvedBy, updated_at: now }),
+          });
+        }
+      );
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /api/comments/:id - Delete a comment (author, or anyone with comments.moderate)
+ * Comments with replies are blanked instead of removed so the thread stays intact.
+ */
+commentsRouter.delete('/:id', requireAuth, (req: AuthedRequest, res, next) => {
+  const user = req.user!;
+
+  withComment(req, res, next, (comment) => {
+    if (comment.author_id !== user.id && !hasPermission(req, 'comments.moderate')) {
+      securityLogger.warn('unauthorized_comment_delete_attempt', {
+        userId: user.id,
+        commentId: comment.id,
+        commentAuthor: comment.author_id,
+      });
+      return res.status(403).json({ error: 'You can only delete your own comments' });
+    }
+
+    db.get<{ count: number }>('SELECT COUNT(*) AS count FROM comments WHERE parent_id = ?', [comment.id], (err, row) => {
+      if (err) return next(err);
+
+      const hasReplies = (row?.count ?? 0) > 0;
+      const now = new Date().toISOString();
+      const sql = hasReplies
+        ? "UPDATE comments SET body = '', deleted_at = ?, updated_at = ? WHERE id = ?"
+        : 'DELETE FROM comments WHERE id = ?';
+      const params = hasReplies ? [now, now, comment.id] : [comment.id];
+
+      db.run(sql, params, (delErr) => {
+        if (delErr) return next(delErr);
+
+        securityLogger.info('comment_deleted', {
+          commentId: comment.id,
+          postId: comment.post_id,
+          deletedBy: user.id,
+          deletedByName: user.name,
+          commentAuthor: comment.author_name,
+          description: `${user.name} deleted ${comment.author_id === user.id ? 'their' : `${comment.author_name}'s`} comment on "${comment.post_title}"`,
+        });
+
+        res.status(204).end();
+      });
+    });
+  });
+});
+
+export { postCommentsRouter, commentsRouter };
@@ -3,17 +3,15 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { execFile } from 'child_process';
-import { AuthedRequest, requireAuth, requireRole } from '../middleware/auth';
+import { AuthedRequest, hasPermission, requireAuth } from '../middleware/auth';
 import { db } from '../db';
 import { securityLogger } from '../middleware/logging';
+import { z } from 'zod';
+import { listQuerySchema, paginate } from '../utils/pagination';
+import { uploadRoot } from '../utils/uploads';
 
 const router = Router();
 
-const uploadRoot = process.env.UPLOAD_DIR || path.join(__dirname, '..', '..', 'uploads');
-if (!fs.existsSync(uploadRoot)) {
-  fs.mkdirSync(uploadRoot, { recursive: true });
-}
-
 const storage = multer.diskStorage({
   destination: (_req, _file, cb) => {
     cb(null, uploadRoot);
@@ -74,6 +72,7 @@ interface FileUploadRow {
   mime_type: string;
   size: number;
   created_at: string;
+  deleted_at: string | null;
 }
 
 router.post(
@@ -135,50 +134,83 @@ router.post(
   },
 );
 
+const listFilesQuerySchema = listQuerySchema(['createdAt', 'size', 'originalName'], 'createdAt', {
+  mimeType: z.string().max(100).optional(),
+  userId: z.coerce.number().int().positive().optional(),
+});
+
 /**
- * List user's own files (or all files for admin)
+ * List user's own files (or all files with files.manage.any), paginated
+ * - Filters: `mimeType`, and `userId` with files.manage.any; sort by `createdAt`, `size` or `originalName`
  */
 router.get('/list', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = listFilesQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  const { mimeType, userId: ownerFilter, ...page } = parsed.data;
   const userId = req.user!.id;
-  const isAdmin = req.user!.role === 'admin';
-
-  const query = isAdmin
-    ? 'SELECT * FROM file_uploads ORDER BY created_at DESC'
-    : 'SELECT * FROM file_uploads WHERE user_id = ? ORDER BY created_at DESC';
-  const params = isAdmin ? [] : [userId];
-
-  db.all<FileUploadRow>(query, params, (err, rows) => {
-    if (err) return next(err);
-    res.json({
-      files: (rows || []).map((r) => ({
-        id: r.id,
-        originalName: r.original_name,
-        storedName: r.stored_name,
-        mimeType: r.mime_type,
-        size: r.size,
-        createdAt: r.created_at,
-        userId: r.user_id,
-      })),
-    });
-  });
+  const canManageAny = hasPermission(req, 'files.manage.any');
+
+  const where: string[] = ['deleted_at IS NULL'];
+  const params: unknown[] = [];
+  if (!canManageAny) {
+    where.push('user_id = ?');
+    params.push(userId);
+  } else if (ownerFilter) {
+    where.push('user_id = ?');
+    params.push(ownerFilter);
+  }
+  if (mimeType) {
+    where.push('mime_type = ?');
+    params.push(mimeType);
+  }
+
+  paginate<FileUploadRow>(
+    {
+      select: '*',
+      from: 'file_uploads',
+      where,
+      params,
+      sortColumns: { createdAt: 'created_at', size: 'size', originalName: 'original_name' },
+      idColumn: 'id',
+    },
+    page,
+  )
+    .then((result) => {
+      res.json({
+        files: result.items.map((r) => ({
+          id: r.id,
+          originalName: r.original_name,
+          storedName: r.stored_name,
+          mimeType: r.mime_type,
+          size: r.size,
+          createdAt: r.created_at,
+          userId: r.user_id,
+        })),
+        nextCursor: result.nextCursor,
+        total: result.total,
+      });
+    })
+    .catch(next);
 });
 
 /**
- * Secure file download - only owner or admin can download
+ * Secure file download - only owner (or files.manage.any) can download
  */
 router.get('/download/:id', requireAuth, (req: AuthedRequest, res, next) => {
   const fileId = parseInt(req.params.id, 10);
   const userId = req.user!.id;
-  const isAdmin = req.user!.role === 'admin';
+  const canManageAny = hasPermission(req, 'files.manage.any');
 
-  db.get<FileUploadRow>('SELECT * FROM file_uploads WHERE id = ?', [fileId], (err, row) => {
+  db.get<FileUploadRow>('SELECT * FROM file_uploads WHERE id = ? AND deleted_at IS NULL', [fileId], (err, row) => {
     if (err) return next(err);
     if (!row) {
       return res.status(404).json({ error: 'File not found' });
     }
 
-    // Authorization check: only owner or admin can download
-    if (row.user_id !== userId && !isAdmin) {
+    // Authorization check: only owner (or files.manage.any) can download
+    if (row.user_id !== userId && !canManageAny) {
       securityLogger.warn('unauthorized_download_attempt', {
         userId,
         fileId,
@@ -203,20 +235,21 @@ router.get('/download/:id', requireAuth, (req: AuthedRequest, res, next) => {
 });
 
 /**
- * Delete file - only owner or admin can delete
+ * Delete file - only owner (or files.manage.any) can delete
+ * The file goes to the trash and stays on disk until purged
  */
 router.delete('/:id', requireAuth, (req: AuthedRequest, res, next) => {
   const fileId = parseInt(req.params.id, 10);
   const userId = req.user!.id;
-  const isAdmin = req.user!.role === 'admin';
+  const canManageAny = hasPermission(req, 'files.manage.any');
 
-  db.get<FileUploadRow>('SELECT * FROM file_uploads WHERE id = ?', [fileId], (err, row) => {
+  db.get<FileUploadRow>('SELECT * FROM file_uploads WHERE id = ? AND deleted_at IS NULL', [fileId], (err, row) => {
     if (err) return next(err);
     if (!row) {
       return res.status(404).json({ error: 'File not found' });
     }
 
-    if (row.user_id !== userId && !isAdmin) {
+    if (row.user_id !== userId && !canManageAny) {
       securityLogger.warn('unauthorized_delete_attempt', {
         userId,
         fileId,
@@ -225,27 +258,23 @@ router.delete('/:id', requireAuth, (req: AuthedRequest, res, next) => {
       return res.status(403).json({ error: 'Not authorized to delete this file' });
     }
 
-    const filePath = path.join(uploadRoot, row.stored_name);
-
-    db.run('DELETE FROM file_uploads WHERE id = ?', [fileId], (delErr) => {
-      if (delErr) return next(delErr);
-
-      // Remove file from disk
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
-
-      securityLogger.info('file_deleted', {
-        userId,
-        fileId,
-        original: row.original_name,
-      });
+    db.run(
+      'UPDATE file_uploads SET deleted_at = ?, deleted_by = ? WHERE id = ?',
+      [new Date().toISOString(), userId, fileId],
+      (delErr) => {
+        if (delErr) return next(delErr);
+
+        securityLogger.info('file_deleted', {
+          userId,
+          fileId,
+          original: row.original_name,
+          description: `File "${row.original_name}" moved to the trash`,
+        });
 
-      res.status(204).end();
-    });
+        res.status(204).end();
+      },
+    );
   });
 });
 
 export { router as fileRouter };
-
-
@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, requireAuth, requirePermission } from '../middleware/auth';
+import { securityLogger } from '../middleware/logging';
+import { DbLoginThrottle, deleteThrottle, findThrottleById } from '../utils/loginThrottle';
+import { listQuerySchema, paginate } from '../utils/pagination';
+
+// Mounted under /api/admin/lockouts
+const router = Router();
+
+interface LockoutRow extends DbLoginThrottle {
+  user_id: number | null;
+  user_name: string | null;
+}
+
+const listLockoutsQuerySchema = listQuerySchema(['lockedUntil', 'lastFailureAt'], 'lockedUntil', {
+  scope: z.enum(['account', 'ip']).optional(),
+});
+
+function serializeLockout(row: LockoutRow) {
+  return {
+    id: row.id,
+    scope: row.scope,
+    key: row.key,
+    userId: row.user_id,
+    userName: row.user_name,
+    failures: row.failures,
+    lastFailureAt: row.last_failure_at,
+    lockedUntil: row.locked_until,
+  };
+}
+
+/**
+ * GET /api/admin/lockouts - Accounts and IPs whose sign-in is locked right now, paginated (requires users.unlock)
+ * Filter: `scope` (account or ip); sort by `lockedUntil` or `lastFailureAt`
+ */
+router.get('/', requireAuth, requirePermission('users.unlock'), (req: AuthedRequest, res, next) => {
+  const parsed = listLockoutsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  const { scope, ...page } = parsed.data;
+
+  const where: string[] = ['t.locked_until > ?'];
+  const params: unknown[] = [new Date().toISOString()];
+  if (scope) {
+    where.push('t.scope = ?');
+    params.push(scope);
+  }
+
+  paginate<LockoutRow>(
+    {
+      select: 't.*, u.id AS user_id, u.name AS user_name',
+      // Account locks are keyed by email, which may not belong to any account
+      from: "login_throttles t LEFT JOIN users u ON t.scope = 'account' AND u.email = t.key AND u.deleted_at IS NULL",
+      where,
+      params,
+      sortColumns: { lockedUntil: 't.locked_until', lastFailureAt: 't.last_failure_at' },
+      idColumn: 't.id',
+    },
+    page,
+  )
+    .then((result) => {
+      res.json({
+        lockouts: result.items.map(serializeLockout),
+        nextCursor: result.nextCursor,
+        total: result.total,
+      });
+    })
+    .catch(next);
+});
+
+/**
+ * PUT /api/admin/lockouts/:id/unlock - Lift a lock and forget its failed attempts (requires users.unlock)
+ */
+router.put('/:id/unlock', requireAuth, requirePermission('users.unlock'), async (req: AuthedRequest, res, next) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const throttle = Number.isInteger(id) ? await findThrottleById(id) : undefined;
+    if (!throttle) {
+      return res.status(404).json({ error: 'Lockout not found' });
+    }
+
+    await deleteThrottle(throttle.id);
+    const admin = req.user!;
+    securityLogger.info('sign_in_unlocked', {
+      scope: throttle.scope,
+      key: throttle.key,
+      unlockedBy: admin.id,
+      unlockedByName: admin.name,
+      description:
+        throttle.scope === 'account'
+          ? `${admin.name} unlocked sign-in to "${throttle.key}"`
+          : `${admin.name} unlocked sign-in from IP ${throttle.key}`,
+    });
+    res.json({ message: 'Unlocked' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export { router as lockoutsRouter };
@@ -0,0 +1,272 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, requireAuth } from '../middleware/auth';
+import { db } from '../db';
+import { canViewPost, visiblePostsFilter } from '../utils/postVisibility';
+import { addDays, daysBetween, isoDateSchema, MEAL_TYPES, toIsoDate, weekStart } from '../utils/dates';
+
+const router = Router();
+
+// Longest range a single GET may ask for (six weeks covers any month view)
+const MAX_RANGE_DAYS = 42;
+
+const rangeQuerySchema = z
+  .object({
+    week: isoDateSchema.optional(),
+    start: isoDateSchema.optional(),
+    end: isoDateSchema.optional(),
+  })
+  .refine((q) => !q.start === !q.end, { message: 'start and end must be given together' })
+  .refine((q) => !(q.week && q.start), { message: 'Use either week or start/end' });
+
+const servingsField = z.coerce.number().int().min(1).max(100).nullable().optional();
+
+const slotSchema = z.object({
+  date: isoDateSchema,
+  meal: z.enum(MEAL_TYPES),
+  postId: z.coerce.number().int().positive(),
+  servings: servingsField,
+});
+
+const updateSlotSchema = z.object({
+  servings: servingsField,
+});
+
+const copyWeekSchema = z.object({
+  from: isoDateSchema,
+  to: isoDateSchema,
+  overwrite: z.boolean().optional(),
+});
+
+const clearWeekSchema = z.object({
+  week: isoDateSchema,
+});
+
+interface SlotRow {
+  id: number;
+  user_id: number;
+  plan_date: string;
+  meal: string;
+  post_id: number;
+  servings: number | null;
+  created_at: string;
+  updated_at: string;
+  title: string;
+  image_url: string | null;
+  nationality: string | null;
+  post_servings: number | null;
+}
+
+const SLOT_COLUMNS = `s.*, p.title, p.image_url, p.nationality, p.servings AS post_servings`;
+
+function serializeSlot(s: SlotRow) {
+  return {
+    id: s.id,
+    date: s.plan_date,
+    meal: s.meal,
+    servings: s.servings,
+    post: {
+      id: s.post_id,
+      title: s.title,
+      imageUrl: s.image_url,
+      nationality: s.nationality,
+      servings: s.post_servings,
+    },
+    createdAt: s.created_at,
+    updatedAt: s.updated_at,
+  };
+}
+
+function sendSlot(req: AuthedRequest, res: Response, next: NextFunction, slotId: number) {
+  db.get<SlotRow>(
+    `SELECT ${SLOT_COLUMNS} FROM meal_plan_slots s JOIN posts p ON p.id = s.post_id WHERE s.id = ? AND s.user_id = ?`,
+    [slotId, req.user!.id],
+    (err, slot) => {
+      if (err) return next(err);
+      if (!slot) {
+        return res.status(404).json({ error: 'Meal plan slot not found' });
+      }
+      res.json({ slot: serializeSlot(slot) });
+    }
+  );
+}
+
+/**
+ * GET /api/meal-plans - The current user's planned meals for a date range
+ * `week` (any day of it) selects Monday-Sunday; `start`/`end` select an explicit
+ * range. Defaults to the current week. Recipes that are no longer visible are left out.
+ */
+router.get('/', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = rangeQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  const { week, start: rawStart, end: rawEnd } = parsed.data;
+  const start = rawStart ?? weekStart(week ?? toIsoDate(new Date()));
+  const end = rawEnd ?? addDays(start, 6);
+  const span = daysBetween(start, end);
+  if (span < 0 || span >= MAX_RANGE_DAYS) {
+    return res.status(400).json({ error: `Date range must be between 1 and ${MAX_RANGE_DAYS} days` });
+  }
+
+  const visibility = visiblePostsFilter(req);
+  db.all<SlotRow>(
+    `SELECT ${SLOT_COLUMNS}
+    FROM meal_plan_slots s JOIN posts p ON p.id = s.post_id
+    WHERE s.user_id = ? AND s.plan_date BETWEEN ? AND ? AND ${visibility.clause}
+    ORDER BY s.plan_date ASC, CASE s.meal ${MEAL_TYPES.map((m, i) => `WHEN '${m}' THEN ${i}`).join(' ')} END`,
+    [req.user!.id, start, end, ...visibility.params],
+    (err, rows) => {
+      if (err) return next(err);
+      res.json({ start, end, slots: (rows || []).map(serializeSlot) });
+    }
+  );
+});
+
+/**
+ * PUT /api/meal-plans/slots - Put a published recipe in a day/meal slot, replacing what was there
+ */
+router.put('/slots', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { date, meal, postId, servings } = slotSchema.parse(req.body);
+    const user = req.user!;
+
+    db.get<{ id: number; status: string; author_id: number; deleted_at: string | null }>('SELECT id, status, author_id, deleted_at FROM posts WHERE id = ?', [postId], (err, post) => {
+      if (err) return next(err);
+      if (!post || !canViewPost(req, post)) {
+        return res.status(404).json({ error: 'Post not found' });
+      }
+      if (post.status !== 'approved') {
+        return res.status(400).json({ error: 'Only published recipes can be planned' });
+      }
+
+      const now = new Date().toISOString();
+      db.run(
+        `INSERT INTO meal_plan_slots (user_id, plan_date, meal, post_id, servings, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (user_id, plan_date, meal)
+        DO UPDATE SET post_id = excluded.post_id, servings = excluded.servings, updated_at = excluded.updated_at`,
+        [user.id, date, meal, postId, servings ?? null, now, now],
+        (insertErr) => {
+          if (insertErr) return next(insertErr);
+          db.get<{ id: number }>(
+            'SELECT id FROM meal_plan_slots WHERE user_id = ? AND plan_date = ? AND meal = ?',
+            [user.id, date, meal],
+            (getErr, row) => {
+              if (getErr) return next(getErr);
+              sendSlot(req, res, next, row!.id);
+            }
+          );
+        }
+      );
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * PUT /api/meal-plans/slots/:id - Change a slot's servings override (null resets to the recipe's own)
+ */
+router.put('/slots/:id', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { servings } = updateSlotSchema.parse(req.body);
+    const slotId = parseInt(req.params.id, 10);
+
+    db.run(
+      'UPDATE meal_plan_slots SET servings = ?, updated_at = ? WHERE id = ? AND user_id = ?',
+      [servings ?? null, new Date().toISOString(), slotId, req.user!.id],
+      function (err) {
+        if (err) return next(err);
+        if (!this.changes) {
+          return res.status(404).json({ error: 'Meal plan slot not found' });
+        }
+        sendSlot(req, res, next, slotId);
+      }
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /api/meal-plans/slots/:id - Empty a slot
+ */
+router.delete('/slots/:id', requireAuth, (req: AuthedRequest, res, next) => {
+  const slotId = parseInt(req.params.id, 10);
+  db.run('DELETE FROM meal_plan_slots WHERE id = ? AND user_id = ?', [slotId, req.user!.id], function (err) {
+    if (err) return next(err);
+    if (!this.changes) {
+      return res.status(404).json({ error: 'Meal plan slot not found' });
+    }
+    res.status(204).end();
+  });
+});
+
+/**
+ * POST /api/meal-plans/copy-week - Copy one week's plan onto another
+ * Both dates may be any day of their week. Occupied target slots are kept
+ * unless `overwrite` is set.
+ */
+router.post('/copy-week', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { from, to, overwrite } = copyWeekSchema.parse(req.body);
+    const fromStart = weekStart(from);
+    const toStart = weekStart(to);
+    if (fromStart === toStart) {
+      return res.status(400).json({ error: 'Source and target weeks must differ' });
+    }
+
+    const now = new Date().toISOString();
+    const offset = daysBetween(fromStart, toStart);
+    db.run(
+      `INSERT OR ${overwrite ? 'REPLACE' : 'IGNORE'} INTO meal_plan_slots (user_id, plan_date, meal, post_id, servings, created_at, updated_at)
+      SELECT s.user_id, date(s.plan_date, ?), s.meal, s.post_id, s.servings, ?, ?
+      FROM meal_plan_slots s JOIN posts p ON p.id = s.post_id
+      WHERE s.user_id = ? AND s.plan_date BETWEEN ? AND ? AND p.status = 'approved' AND p.deleted_at IS NULL`,
+      [`${offset >= 0 ? '+' : ''}${offset} days`, now, now, req.user!.id, fromStart, addDays(fromStart, 6)],
+      function (err) {
+        if (err) return next(err);
+        res.json({ from: fromStart, to: toStart, copied: this.changes });
+      }
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * POST /api/meal-plans/clear-week - Remove every slot in a week
+ */
+router.post('/clear-week', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { week } = clearWeekSchema.parse(req.body);
+    const start = weekStart(week);
+
+    db.run(
+      'DELETE FROM meal_plan_slots WHERE user_id = ? AND plan_date BETWEEN ? AND ?',
+      [req.user!.id, start, addDays(start, 6)],
+      function (err) {
+        if (err) return next(err);
+        res.json({ week: start, cleared: this.changes });
+      }
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+export { router as mealPlansRouter };
@@ -0,0 +1,270 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, requireAuth, requirePermission } from '../middleware/auth';
+import { db } from '../db';
+import { securityLogger } from '../middleware/logging';
+import { listQuerySchema, paginate } from '../utils/pagination';
+import {
+  RULE_ACTIONS,
+  RULE_MATCH_TYPES,
+  ModerationRuleRow,
+  compileRule,
+  loadModerationRules,
+  moderateText,
+} from '../utils/moderationRules';
+
+// Mounted under /api/admin/moderation-rules
+const router = Router();
+
+const ruleSchema = z.object({
+  pattern: z.string().trim().min(1).max(200),
+  matchType: z.enum(RULE_MATCH_TYPES),
+  action: z.enum(RULE_ACTIONS),
+  description: z.string().trim().max(200).optional(),
+  enabled: z.boolean().optional(),
+});
+
+const updateRuleSchema = ruleSchema.partial();
+
+const testRuleSchema = z.object({
+  text: z.string().max(10000),
+  // Try out a rule before saving it; without one the saved, enabled rules are used
+  rule: ruleSchema.pick({ pattern: true, matchType: true, action: true }).optional(),
+});
+
+const listRulesQuerySchema = listQuerySchema(['createdAt', 'pattern'], 'createdAt', {
+  action: z.enum(RULE_ACTIONS).optional(),
+  matchType: z.enum(RULE_MATCH_TYPES).optional(),
+});
+
+function serializeRule(r: ModerationRuleRow) {
+  return {
+    id: r.id,
+    pattern: r.pattern,
+    matchType: r.match_type,
+    action: r.action,
+    description: r.description,
+    enabled: !!r.enabled,
+    createdBy: r.created_by,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+// Answers 400 and returns false when a regex rule does not compile
+function checkPattern(res: Response, pattern: string, matchType: z.infer<typeof ruleSchema>['matchType']): boolean {
+  try {
+    compileRule(pattern, matchType);
+    return true;
+  } catch (err) {
+    res.status(400).json({ error: (err as Error).message });
+    return false;
+  }
+}
+
+function withRule(req: AuthedRequest, res: Response, next: NextFunction, cb: (rule: ModerationRuleRow) => void) {
+  const ruleId = parseInt(req.params.id, 10);
+  db.get<ModerationRuleRow>('SELECT * FROM moderation_rules WHERE id = ?', [ruleId], (err, rule) => {
+    if (err) return next(err);
+    if (!rule) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+    cb(rule);
+  });
+}
+
+/**
+ * GET /api/admin/moderation-rules - All rules, paginated (requires moderation_rules.manage)
+ * Filters: `action`, `matchType`
+ */
+router.get('/', requireAuth, requirePermission('moderation_rules.manage'), (req: AuthedRequest, res, next) => {
+  const parsed = listRulesQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  const { action, matchType, ...page } = parsed.data;
+
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (action) {
+    where.push('action = ?');
+    params.push(action);
+  }
+  if (matchType) {
+    where.push('match_type = ?');
+    params.push(matchType);
+  }
+
+  paginate<ModerationRuleRow>(
+    {
+      select: '*',
+      from: 'moderation_rules',
+      where,
+      params,
+      sortColumns: { createdAt: 'created_at', pattern: 'pattern' },
+      idColumn: 'id',
+    },
+    page,
+  )
+    .then((result) => {
+      res.json({
+        rules: result.items.map(serializeRule),
+        nextCursor: result.nextCursor,
+        total: result.total,
+      });
+    })
+    .catch(next);
+});
+
+/**
+ * POST /api/admin/moderation-rules/test - Run text through the rules without saving anything (requires moderation_rules.manage)
+ * MUST be before /:id routes
+ */
+router.post('/test', requireAuth, requirePermission('moderation_rules.manage'), (req: AuthedRequest, res, next) => {
+  try {
+    const { text, rule } = testRuleSchema.parse(req.body);
+    if (rule && !checkPattern(res, rule.pattern, rule.matchType)) return;
+
+    res.json({ result: moderateText(text, rule ? [rule] : undefined) });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * POST /api/admin/moderation-rules - Add a rule (requires moderation_rules.manage)
+ */
+router.post('/', requireAuth, requirePermission('moderation_rules.manage'), (req: AuthedRequest, res, next) => {
+  try {
+    const { pattern, matchType, action, description, enabled } = ruleSchema.parse(req.body);
+    if (!checkPattern(res, pattern, matchType)) return;
+    const user = req.user!;
+    const now = new Date().toISOString();
+
+    db.run(
+      'INSERT INTO moderation_rules (pattern, match_type, action, description, enabled, created_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [pattern, matchType, action, description || null, enabled === false ? 0 : 1, user.id, now, now],
+      function (err) {
+        if (err) {
+          if (/UNIQUE constraint failed/.test(err.message)) {
+            return res.status(409).json({ error: 'A rule with that pattern and match type already exists' });
+          }
+          return next(err);
+        }
+
+        const ruleId = this.lastID;
+        loadModerationRules()
+          .then(() => {
+            securityLogger.info('moderation_rule_created', {
+              ruleId,
+              pattern,
+              matchType,
+              action,
+              createdBy: user.id,
+              createdByName: user.name,
+              description: `${user.name} added ${matchType} moderation rule "${pattern}" (${action})`,
+            });
+
+            db.get<ModerationRuleRow>('SELECT * FROM moderation_rules WHERE id = ?', [ruleId], (getErr, row) => {
+              if (getErr) return next(getErr);
+              res.status(201).json({ rule: serializeRule(row!) });
+            });
+          })
+          .catch(next);
+      }
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * PUT /api/admin/moderation-rules/:id - Change a rule, or enable/disable it (requires moderation_rules.manage)
+ */
+router.put('/:id', requireAuth, requirePermission('moderation_rules.manage'), (req: AuthedRequest, res, next) => {
+  try {
+    const changes = updateRuleSchema.parse(req.body);
+    const user = req.user!;
+
+    withRule(req, res, next, (rule) => {
+      const updated: ModerationRuleRow = {
+        ...rule,
+        pattern: changes.pattern ?? rule.pattern,
+        match_type: changes.matchType ?? rule.match_type,
+        action: changes.action ?? rule.action,
+        description: changes.description !== undefined ? changes.description || null : rule.description,
+        enabled: changes.enabled !== undefined ? (changes.enabled ? 1 : 0) : rule.enabled,
+        updated_at: new Date().toISOString(),
+      };
+      if (!checkPattern(res, updated.pattern, updated.match_type)) return;
+
+      db.run(
+        'UPDATE moderation_rules SET pattern = ?, match_type = ?, action = ?, description = ?, enabled = ?, updated_at = ? WHERE id = ?',
+        [updated.pattern, updated.match_type, updated.action, updated.description, updated.enabled, updated.updated_at, rule.id],
+        (err) => {
+          if (err) {
+            if (/UNIQUE constraint failed/.test(err.message)) {
+              return res.status(409).json({ error: 'A rule with that pattern and match type already exists' });
+            }
+            return next(err);
+          }
+
+          loadModerationRules()
+            .then(() => {
+              securityLogger.info('moderation_rule_updated', {
+                ruleId: rule.id,
+                pattern: updated.pattern,
+                matchType: updated.match_type,
+                action: updated.action,
+                enabled: !!updated.enabled,
+                updatedBy: user.id,
+                updatedByName: user.name,
+                description: `${user.name} updated moderation rule "${updated.pattern}"`,
+              });
+              res.json({ rule: serializeRule(updated) });
+            })
+            .catch(next);
+        }
+      );
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /api/admin/moderation-rules/:id - Remove a rule (requires moderation_rules.manage)
+ */
+router.delete('/:id', requireAuth, requirePermission('moderation_rules.manage'), (req: AuthedRequest, res, next) => {
+  const user = req.user!;
+
+  withRule(req, res, next, (rule) => {
+    db.run('DELETE FROM moderation_rules WHERE id = ?', [rule.id], (err) => {
+      if (err) return next(err);
+
+      loadModerationRules()
+        .then(() => {
+          securityLogger.info('moderation_rule_deleted', {
+            ruleId: rule.id,
+            pattern: rule.pattern,
+            deletedBy: user.id,
+            deletedByName: user.name,
+            description: `${user.name} deleted moderation rule "${rule.pattern}"`,
+          });
+          res.json({ success: true });
+        })
+        .catch(next);
+    });
+  });
+});
+
+export { router as moderationRulesRouter };
@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, requireAuth, requirePermission } from '../middleware/auth';
+import { securityLogger } from '../middleware/logging';
+import {
+  LOCKED_PERMISSIONS,
+  PERMISSIONS,
+  PERMISSION_KEYS,
+  ROLES,
+  permissionsForRole,
+  setRolePermissions,
+} from '../utils/permissions';
+
+// Mounted under /api/admin/permissions
+const router = Router();
+
+const roleParamSchema = z.enum(ROLES);
+
+const updateRolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(PERMISSION_KEYS)).max(PERMISSION_KEYS.length),
+});
+
+function serializeRole(role: (typeof ROLES)[number]) {
+  return {
+    role,
+    permissions: permissionsForRole(role),
+    locked: LOCKED_PERMISSIONS[role],
+  };
+}
+
+/**
+ * GET /api/admin/permissions - Every permission and which roles have it (requires permissions.manage)
+ */
+router.get('/', requireAuth, requirePermission('permissions.manage'), (_req, res) => {
+  res.json({
+    permissions: Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description })),
+    roles: ROLES.map(serializeRole),
+  });
+});
+
+/**
+ * PUT /api/admin/permissions/:role - Replace the permissions of a role (requires permissions.manage)
+ * Takes effect on the next request of every user with that role.
+ */
+router.put('/:role', requireAuth, requirePermission('permissions.manage'), (req: AuthedRequest, res, next) => {
+  const role = roleParamSchema.safeParse(req.params.role);
+  if (!role.success) {
+    return res.status(404).json({ error: 'Role not found' });
+  }
+
+  try {
+    const { permissions } = updateRolePermissionsSchema.parse(req.body);
+    const user = req.user!;
+    const before = permissionsForRole(role.data);
+
+    setRolePermissions(role.data, permissions)
+      .then((after) => {
+        const granted = after.filter((p) => !before.includes(p));
+        const revoked = before.filter((p) => !after.includes(p));
+
+        securityLogger.info('role_permissions_updated', {
+          role: role.data,
+          granted,
+          revoked,
+          updatedBy: user.id,
+          updatedByName: user.name,
+          description: `${user.name} changed the permissions of the ${role.data} role${
+            granted.length ? ` (granted ${granted.join(', ')})` : ''
+          }${revoked.length ? ` (revoked ${revoked.join(', ')})` : ''}`,
+        });
+
+        res.json({ role: serializeRole(role.data) });
+      })
+      .catch(next);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+export { router as permissionsRouter };
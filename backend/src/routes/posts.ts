@@ -1,25 +1,48 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { z } from 'zod';
-import { AuthedRequest, requireAuth, requireRole } from '../middleware/auth';
-import { db } from '../db';
+import { AuthedRequest, hasPermission, requireAuth, requirePermission } from '../middleware/auth';
+import {
+  db,
+  PostIngredient,
+  PostStep,
+  getPostIngredients,
+  getPostSteps,
+  replacePostIngredients,
+  replacePostSteps,
+} from '../db';
 import { securityLogger } from '../middleware/logging';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import crypto from 'crypto';
+import { extractIngredients, parseQuantity, scaleIngredient } from '../utils/ingredients';
+import { convertTemperaturesInText } from '../utils/units';
+import { buildMatchQuery, escapeLike, HIGHLIGHT_END, HIGHLIGHT_START } from '../utils/search';
+import { listQuerySchema, paginate } from '../utils/pagination';
+import { checkContent, moderateText } from '../utils/moderationRules';
+import { canViewPost, visiblePostsFilter } from '../utils/postVisibility';
+import { recordRevision } from '../utils/revisions';
+import { postImageDir } from '../utils/uploads';
+import { notifyModerationOutcome } from '../utils/notifications';
+import {
+  ModerationEventRow,
+  REJECTION_REASONS,
+  REJECTION_REASON_KEYS,
+  recordModerationEvent,
+  rejectionReasonLabel,
+  serializeModerationEvent,
+} from '../utils/moderationHistory';
+import { reviewsRouter } from './reviews';
+import { postCommentsRouter } from './comments';
+import { postRevisionsRouter } from './revisions';
+import { postReportRouter } from './reports';
 
 const router = Router();
 
-// Setup upload directory for post images
-const uploadDir = path.join(__dirname, '..', '..', 'uploads', 'posts');
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
 // Multer configuration for post images
 const storage = multer.diskStorage({
   destination: (_req, _file, cb) => {
-    cb(null, uploadDir);
+    cb(null, postImageDir);
   },
   filename: (_req, file, cb) => {
     const ext = path.extname(file.originalname).toLowerCase();
@@ -41,43 +64,265 @@ const upload = multer({
   },
 });
 
-// Forbidden words list - posts cannot contain these words
-const FORBIDDEN_WORDS = ['security'];
-
-function containsForbiddenWords(text: string): { hasForbidden: boolean; word?: string } {
-  const lowerText = text.toLowerCase();
-  for (const word of FORBIDDEN_WORDS) {
-    if (lowerText.includes(word.toLowerCase())) {
-      return { hasForbidden: true, word };
-    }
+// Multipart form fields always arrive as strings, so structured fields are sent as JSON
+function parseJsonField(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  if (value.trim() === '') return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
   }
-  return { hasForbidden: false };
 }
 
+// Quantities may be numbers or friendly text such as "1 1/2" or "½"
+const quantityField = z
+  .union([z.number(), z.string().max(20)])
+  .transform((value, ctx) => {
+    if (typeof value === 'string' && value.trim() === '') return null;
+    const quantity = typeof value === 'number' ? value : parseQuantity(value);
+    if (quantity === null || quantity <= 0 || quantity > 100000) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid quantity' });
+      return z.NEVER;
+    }
+    return quantity;
+  })
+  .nullable()
+  .optional();
+
+const ingredientSchema = z.object({
+  quantity: quantityField,
+  unit: z.string().max(30).optional(),
+  name: z.string().min(1).max(120),
+  note: z.string().max(200).optional(),
+});
+
+const stepSchema = z.object({
+  instruction: z.string().min(1).max(2000),
+});
+
+// Multipart booleans arrive as "true"/"false"
+const formBoolean = z.preprocess(
+  (value) => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean().optional(),
+);
+
+const publishAtField = z.preprocess(
+  (value) => (value === '' ? undefined : value),
+  z.string().datetime({ offset: true }).optional(),
+);
+
+const ingredientsField = z.preprocess(parseJsonField, z.array(ingredientSchema).max(100).optional());
+const stepsField = z.preprocess(parseJsonField, z.array(stepSchema).max(100).optional());
+
 const createPostSchema = z.object({
   title: z.string().min(1).max(200),
   content: z.string().min(1).max(10000),
   nationality: z.string().max(100).optional(),
+  servings: z.coerce.number().int().min(1).max(100).optional(),
+  ingredients: ingredientsField,
+  steps: stepsField,
+  draft: formBoolean,
+  publishAt: publishAtField,
+});
+
+const approvePostSchema = z.object({
+  publishAt: z.string().datetime({ offset: true }).optional(),
+});
+
+const schedulePostSchema = z.object({
+  publishAt: z.string().datetime({ offset: true }).nullable(),
 });
 
+const rejectPostSchema = z
+  .object({
+    reason: z.enum(REJECTION_REASON_KEYS),
+    note: z.string().trim().max(1000).optional(),
+  })
+  .refine((body) => body.reason !== 'other' || !!body.note, {
+    message: 'A note is required when the reason is "other"',
+    path: ['note'],
+  });
+
 const updatePostSchema = z.object({
   title: z.string().min(1).max(200).optional(),
   content: z.string().min(1).max(10000).optional(),
   nationality: z.string().max(100).optional(),
+  servings: z.coerce.number().int().min(1).max(100).optional(),
+  ingredients: ingredientsField,
+  steps: stepsField,
+});
+
+const recipeViewSchema = z.object({
+  servings: z.coerce.number().int().min(1).max(100).optional(),
+  units: z.enum(['metric', 'imperial']).optional(),
+});
+
+const postStatusField = z.enum(['draft', 'pending', 'scheduled', 'approved', 'rejected']).optional();
+
+const listPostsQuerySchema = listQuerySchema(['createdAt', 'updatedAt', 'title', 'rating'], 'createdAt', {
+  status: postStatusField,
+  cuisine: z.string().max(100).optional(),
+  authorId: z.coerce.number().int().positive().optional(),
+});
+
+const pendingPostsQuerySchema = listQuerySchema(['createdAt', 'title'], 'createdAt', {
+  cuisine: z.string().max(100).optional(),
 });
 
-interface PostRow {
+const searchQuerySchema = listQuerySchema(['relevance', 'createdAt', 'title'], 'relevance', {
+  q: z.string().max(200).optional(),
+  cuisine: z.string().max(100).optional(),
+  author: z.string().max(100).optional(),
+  status: postStatusField,
+});
+
+
+function normalizeIngredients(ingredients: z.infer<typeof ingredientSchema>[]): PostIngredient[] {
+  return ingredients.map((ing) => ({
+    quantity: ing.quantity ?? null,
+    unit: ing.unit?.trim() || null,
+    name: ing.name.trim(),
+    note: ing.note?.trim() || null,
+  }));
+}
+
+interface PostText {
+  title?: string;
+  content?: string;
+  ingredients?: PostIngredient[];
+  steps?: PostStep[];
+}
+
+/**
+ * Runs every free-text part of a post through the moderation rules. Returns the texts
+ * with masked words starred and whether a rule wants the post reviewed by a moderator,
+ * or null once a 400 has been sent.
+ */
+function moderatePost(
+  req: AuthedRequest,
+  res: Response,
+  post: PostText,
+  postId?: number,
+): (PostText & { review: boolean }) | null {
+  let review = false;
+  const check = (field: string, text: string) => {
+    const result = checkContent(req, res, field, text, { postId, canQueue: true });
+    if (result?.action === 'review') review = true;
+    return result && result.text;
+  };
+  // Optional parts pass through untouched when missing
+  const checkOptional = (field: string, text: string | null | undefined) => (text ? check(field, text) : text);
+
+  const title = checkOptional('title', post.title);
+  if (title === null) return null;
+  const content = checkOptional('content', post.content);
+  if (content === null) return null;
+
+  let ingredients: PostIngredient[] | undefined;
+  if (post.ingredients) {
+    ingredients = [];
+    for (const ing of post.ingredients) {
+      const unit = checkOptional('ingredients', ing.unit);
+      if (unit === null && ing.unit) return null;
+      const name = check('ingredients', ing.name);
+      if (name === null) return null;
+      const note = checkOptional('ingredients', ing.note);
+      if (note === null && ing.note) return null;
+      ingredients.push({ ...ing, unit: unit ?? null, name, note: note ?? null });
+    }
+  }
+
+  let steps: PostStep[] | undefined;
+  if (post.steps) {
+    steps = [];
+    for (const step of post.steps) {
+      const instruction = check('steps', step.instruction);
+      if (instruction === null) return null;
+      steps.push({ instruction });
+    }
+  }
+
+  return { title, content, ingredients, steps, review };
+}
+
+// Whether any text of a stored post matches a `review` rule
+async function postNeedsReview(post: { id: number; title: string; content: string }): Promise<boolean> {
+  const texts = [post.title, post.content];
+  for (const ing of await getPostIngredients(post.id)) texts.push(`${ing.unit || ''} ${ing.name} ${ing.note || ''}`);
+  for (const step of await getPostSteps(post.id)) texts.push(step.instruction);
+  return texts.some((text) => moderateText(text).action === 'review');
+}
+
+// Appended to log descriptions of newly created posts
+const STATUS_NOTES: Record<string, string> = {
+  draft: ' as a draft',
+  pending: ' (pending approval)',
+  scheduled: ' (scheduled)',
+  approved: '',
+};
+
+// Statuses in which the author may still edit a post themselves
+const AUTHOR_EDITABLE_STATUSES = ['draft', 'rejected'];
+
+export interface PostRow {
   id: number;
   title: string;
   content: string;
   image_url: string | null;
   nationality: string | null;
+  servings: number | null;
   author_id: number;
   author_name: string;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'draft' | 'pending' | 'scheduled' | 'approved' | 'rejected';
   approved_by: number | null;
+  publish_at: string | null;
+  rejection_reason: string | null;
+  rejection_note: string | null;
+  deleted_at: string | null;
+  deleted_by: number | null;
   created_at: string;
   updated_at: string;
+  rating_average?: number | null;
+  rating_count?: number;
+}
+
+// Review aggregates are selected alongside the post columns wherever posts are returned
+const RATING_AVERAGE = '(SELECT AVG(r.rating) FROM reviews r WHERE r.post_id = p.id)';
+const POST_COLUMNS = `p.*, ${RATING_AVERAGE} AS rating_average,
+  (SELECT COUNT(*) FROM reviews r WHERE r.post_id = p.id) AS rating_count`;
+
+const POST_SORT_COLUMNS = {
+  createdAt: 'p.created_at',
+  updatedAt: 'p.updated_at',
+  title: 'p.title',
+  rating: `COALESCE(${RATING_AVERAGE}, 0)`,
+};
+
+function serializePost(p: PostRow) {
+  return {
+    id: p.id,
+    title: p.title,
+    content: p.content,
+    imageUrl: p.image_url,
+    nationality: p.nationality,
+    servings: p.servings,
+    authorId: p.author_id,
+    authorName: p.author_name,
+    status: p.status,
+    approvedBy: p.approved_by,
+    publishAt: p.publish_at,
+    rejection:
+      p.status === 'rejected' && p.rejection_reason
+        ? { reason: p.rejection_reason, label: rejectionReasonLabel(p.rejection_reason), note: p.rejection_note }
+        : null,
+    createdAt: p.created_at,
+    updatedAt: p.updated_at,
+    rating: {
+      average: p.rating_average != null ? Math.round(p.rating_average * 10) / 10 : null,
+      count: p.rating_count ?? 0,
+    },
+  };
 }
 
 /**
@@ -85,7 +330,7 @@ interface PostRow {
  */
 router.get('/image/:filename', (req, res) => {
   const filename = req.params.filename.replace(/[^a-zA-Z0-9._-]/g, '');
-  const filePath = path.join(uploadDir, filename);
+  const filePath = path.join(postImageDir, filename);
   
   if (fs.existsSync(filePath)) {
     res.sendFile(filePath);
@@ -94,104 +339,230 @@ router.get('/image/:filename', (req, res) => {
   }
 });
 
+router.use('/:id/reviews', reviewsRouter);
+router.use('/:id/comments', postCommentsRouter);
+router.use('/:id/revisions', postRevisionsRouter);
+router.use('/:id/report', postReportRouter);
+
 /**
- * GET /api/posts/pending - Get pending posts (admin only)
+ * GET /api/posts/rejection-reasons - Canned reasons an admin can give when rejecting a post
  * MUST be before /:id route
  */
-router.get('/pending', requireAuth, requireRole(['admin']), (req: AuthedRequest, res, next) => {
-  db.all<PostRow>('SELECT * FROM posts WHERE status = ? ORDER BY created_at DESC', ['pending'], (err, rows) => {
-    if (err) return next(err);
-    res.json({
-      posts: (rows || []).map((p) => ({
-        id: p.id,
-        title: p.title,
-        content: p.content,
-        imageUrl: p.image_url,
-        nationality: p.nationality,
-        authorId: p.author_id,
-        authorName: p.author_name,
-        status: p.status,
-        approvedBy: p.approved_by,
-        createdAt: p.created_at,
-        updatedAt: p.updated_at,
-      })),
-    });
+router.get('/rejection-reasons', requireAuth, (_req, res) => {
+  res.json({
+    reasons: Object.entries(REJECTION_REASONS).map(([value, label]) => ({ value, label })),
   });
 });
 
 /**
- * GET /api/posts - List posts
+ * GET /api/posts/pending - Get pending posts (requires posts.approve)
+ * MUST be before /:id route
+ */
+router.get('/pending', requireAuth, requirePermission('posts.approve'), (req: AuthedRequest, res, next) => {
+  const parsed = pendingPostsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  const { cuisine, ...page } = parsed.data;
+
+  const where = ['p.status = ?', 'p.deleted_at IS NULL'];
+  const params: unknown[] = ['pending'];
+  if (cuisine) {
+    where.push('p.nationality = ? COLLATE NOCASE');
+    params.push(cuisine);
+  }
+
+  paginate<PostRow>({ select: POST_COLUMNS, from: 'posts p', where, params, sortColumns: POST_SORT_COLUMNS, idColumn: 'p.id' }, page)
+    .then((result) => {
+      res.json({
+        posts: result.items.map(serializePost),
+        nextCursor: result.nextCursor,
+        total: result.total,
+      });
+    })
+    .catch(next);
+});
+
+/**
+ * GET /api/posts - List posts, paginated
  * - Regular users see only approved posts
- * - Editors and admins see all posts
+ * - Users with `posts.view.all` see all posts
+ * - Filters: `status`, `cuisine`, `authorId`; sort by `createdAt`, `updatedAt` or `title`
  */
 router.get('/', requireAuth, (req: AuthedRequest, res, next) => {
-  const isPrivileged = req.user?.role === 'admin' || req.user?.role === 'editor';
-  
-  const query = isPrivileged
-    ? 'SELECT * FROM posts ORDER BY created_at DESC'
-    : 'SELECT * FROM posts WHERE status = ? ORDER BY created_at DESC';
-  const params = isPrivileged ? [] : ['approved'];
+  const parsed = listPostsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  const { status, cuisine, authorId, ...page } = parsed.data;
 
-  db.all<PostRow>(query, params, (err, rows) => {
-    if (err) return next(err);
-    res.json({
-      posts: (rows || []).map((p) => ({
-        id: p.id,
-        title: p.title,
-        content: p.content,
-        imageUrl: p.image_url,
-        nationality: p.nationality,
-        authorId: p.author_id,
-        authorName: p.author_name,
-        status: p.status,
-        approvedBy: p.approved_by,
-        createdAt: p.created_at,
-        updatedAt: p.updated_at,
-      })),
-    });
-  });
+  const visibility = visiblePostsFilter(req);
+  const where = [visibility.clause];
+  const params: unknown[] = [...visibility.params];
+  if (status) {
+    where.push('p.status = ?');
+    params.push(status);
+  }
+  if (cuisine) {
+    where.push('p.nationality = ? COLLATE NOCASE');
+    params.push(cuisine);
+  }
+  if (authorId) {
+    where.push('p.author_id = ?');
+    params.push(authorId);
+  }
+
+  paginate<PostRow>({ select: POST_COLUMNS, from: 'posts p', where, params, sortColumns: POST_SORT_COLUMNS, idColumn: 'p.id' }, page)
+    .then((result) => {
+      res.json({
+        posts: result.items.map(serializePost),
+        nextCursor: result.nextCursor,
+        total: result.total,
+      });
+    })
+    .catch(next);
 });
 
+interface SearchRow extends PostRow {
+  title_highlight: string;
+  snippet: string | null;
+  score: number | null;
+}
+
 /**
- * GET /api/posts/:id - Get single post
+ * GET /api/posts/search - Full-text search over titles, descriptions, ingredients, cuisine and author
+ * - `q` is optional; without it the filters alone are applied and `relevance` falls back to newest first
+ * - `cuisine`, `author` and `status` narrow the results
+ * - Visibility matches the list route, so regular users only ever get approved posts
+ * - Matches in `titleHighlight`/`snippet` are wrapped in \u0002 ... \u0003 markers
+ * MUST be before /:id route
+ */
+router.get('/search', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = searchQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid search parameters' });
+  }
+  const { q, cuisine, author, status, ...page } = parsed.data;
+  const match = q ? buildMatchQuery(q) : null;
+
+  const visibility = visiblePostsFilter(req);
+  const where = [visibility.clause];
+  const params: unknown[] = [...visibility.params];
+
+  if (match) {
+    where.push('posts_fts MATCH ?');
+    params.push(match);
+  }
+  if (cuisine) {
+    where.push('p.nationality = ? COLLATE NOCASE');
+    params.push(cuisine);
+  }
+  if (author) {
+    where.push("p.author_name LIKE ? ESCAPE '\\'");
+    params.push(`%${escapeLike(author)}%`);
+  }
+  if (status) {
+    where.push('p.status = ?');
+    params.push(status);
+  }
+
+  // Title matches weigh the most, then ingredients, then cuisine/author, then the description.
+  // bm25 is lower-is-better, so it is negated to make "desc" mean best match first.
+  const relevance = '-bm25(posts_fts, 10.0, 1.0, 5.0, 2.0, 2.0)';
+  const select = match
+    ? `${POST_COLUMNS},
+      highlight(posts_fts, 0, char(2), char(3)) AS title_highlight,
+      snippet(posts_fts, 1, char(2), char(3), '…', 16) AS snippet,
+      ${relevance} AS score`
+    : `${POST_COLUMNS}, p.title AS title_highlight, NULL AS snippet, NULL AS score`;
+
+  paginate<SearchRow>(
+    {
+      select,
+      from: match ? 'posts_fts JOIN posts p ON p.id = posts_fts.rowid' : 'posts p',
+      where,
+      params,
+      sortColumns: { ...POST_SORT_COLUMNS, relevance: match ? relevance : 'p.created_at' },
+      idColumn: 'p.id',
+    },
+    page,
+  )
+    .then((result) => {
+      res.json({
+        posts: result.items.map((row) => ({
+          ...serializePost(row),
+          titleHighlight: row.title_highlight,
+          snippet: row.snippet,
+          score: row.score,
+        })),
+        nextCursor: result.nextCursor,
+        total: result.total,
+        highlight: { start: HIGHLIGHT_START, end: HIGHLIGHT_END },
+      });
+    })
+    .catch(next);
+});
+
+/**
+ * GET /api/posts/:id - Get single post with its ingredients and steps
+ * Optional `servings` rescales every quantity and `units=metric|imperial` converts
+ * quantities and oven temperatures. Free-text posts get ingredients parsed from `content`.
  */
 router.get('/:id', requireAuth, (req: AuthedRequest, res, next) => {
   const postId = parseInt(req.params.id, 10);
-  const isPrivileged = req.user?.role === 'admin' || req.user?.role === 'editor';
 
-  db.get<PostRow>('SELECT * FROM posts WHERE id = ?', [postId], (err, row) => {
+  const view = recipeViewSchema.safeParse(req.query);
+  if (!view.success) {
+    return res.status(400).json({ error: 'Invalid servings or units' });
+  }
+  const { servings, units } = view.data;
+
+  db.get<PostRow>(`SELECT ${POST_COLUMNS} FROM posts p WHERE p.id = ?`, [postId], (err, row) => {
     if (err) return next(err);
     if (!row) {
       return res.status(404).json({ error: 'Post not found' });
     }
     
     // Regular users can only see approved posts
-    if (!isPrivileged && row.status !== 'approved') {
+    if (!canViewPost(req, row)) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
-    res.json({
-      post: {
-        id: row.id,
-        title: row.title,
-        content: row.content,
-        imageUrl: row.image_url,
-        nationality: row.nationality,
-        authorId: row.author_id,
-        authorName: row.author_name,
-        status: row.status,
-        approvedBy: row.approved_by,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-      },
-    });
+    Promise.all([getPostIngredients(row.id), getPostSteps(row.id)])
+      .then(([structured, steps]) => {
+        // Posts created before structured recipes have no ingredient rows, so parse the free text
+        const ingredients = structured.length > 0 ? structured : extractIngredients(row.content);
+        const ingredientSource = structured.length > 0 ? 'structured' : ingredients.length > 0 ? 'parsed' : 'none';
+
+        // Scaling needs a known base yield; without one quantities are shown as written
+        const targetServings = row.servings && servings ? servings : row.servings;
+        const factor = row.servings && servings ? servings / row.servings : 1;
+        const convertText = (text: string) => (units ? convertTemperaturesInText(text, units) : text);
+
+        res.json({
+          post: {
+            ...serializePost(row),
+            content: convertText(row.content),
+            ingredients: ingredients.map((ing) => scaleIngredient(ing, { factor, units })),
+            ingredientSource,
+            steps: steps.map((step) => ({ instruction: convertText(step.instruction) })),
+            scale: {
+              servings: targetServings,
+              factor,
+              units: units || null,
+            },
+          },
+        });
+      })
+      .catch(next);
   });
 });
 
 /**
  * POST /api/posts - Create new post with optional image
+ * `ingredients` and `steps` are optional JSON arrays (sent as strings in multipart forms)
  * ALL authenticated users can create posts
- * Admin posts are auto-approved, others need approval
+ * Posts by users with `posts.publish` are auto-approved, others need approval
  */
 router.post(
   '/',
@@ -199,50 +570,47 @@ router.post(
   upload.single('image'),
   (req: AuthedRequest, res, next) => {
     try {
-      const { title, content, nationality } = createPostSchema.parse(req.body);
+      const parsed = createPostSchema.parse(req.body);
+      const { nationality, servings, draft, publishAt } = parsed;
+      let ingredients = normalizeIngredients(parsed.ingredients || []);
+      let steps: PostStep[] = parsed.steps || [];
 
-      // Check for forbidden words in title
-      const titleCheck = containsForbiddenWords(title);
-      if (titleCheck.hasForbidden) {
-        // Delete uploaded file if validation fails
+      if (publishAt && (draft || !hasPermission(req, 'posts.publish'))) {
         if (req.file) fs.unlinkSync(req.file.path);
-        securityLogger.warn('forbidden_word_attempt', {
-          userId: req.user?.id,
-          field: 'title',
-          word: titleCheck.word,
-        });
         return res.status(400).json({
-          error: `The word "${titleCheck.word}" is not allowed in the title`,
+          error: draft ? 'Drafts cannot be scheduled until they are submitted' : 'You are not allowed to schedule publishing',
         });
       }
 
-      // Check for forbidden words in content
-      const contentCheck = containsForbiddenWords(content);
-      if (contentCheck.hasForbidden) {
+      // Run the moderation rules over the title, content, ingredients and steps
+      const moderated = moderatePost(req, res, { title: parsed.title, content: parsed.content, ingredients, steps });
+      if (!moderated) {
+        // Delete uploaded file if validation fails
         if (req.file) fs.unlinkSync(req.file.path);
-        securityLogger.warn('forbidden_word_attempt', {
-          userId: req.user?.id,
-          field: 'content',
-          word: contentCheck.word,
-        });
-        return res.status(400).json({
-          error: `The word "${contentCheck.word}" is not allowed in the content`,
-        });
+        return;
       }
+      const title = moderated.title!;
+      const content = moderated.content!;
+      ingredients = moderated.ingredients!;
+      steps = moderated.steps!;
 
       const now = new Date().toISOString();
       const user = req.user!;
       
-      // Admin posts are auto-approved, all others need approval
-      const status = user.role === 'admin' ? 'approved' : 'pending';
-      const approvedBy = user.role === 'admin' ? user.id : null;
+      // Drafts stay private until submitted. Posts by users with `posts.publish` are auto-approved (or
+      // scheduled when given a future publishAt) unless a moderation rule flags them, all others need approval.
+      const needsApproval = !hasPermission(req, 'posts.publish') || moderated.review;
+      const publishAtIso =
+        !needsApproval && publishAt && new Date(publishAt) > new Date() ? new Date(publishAt).toISOString() : null;
+      const status = draft ? 'draft' : needsApproval ? 'pending' : publishAtIso ? 'scheduled' : 'approved';
+      const approvedBy = status === 'approved' || status === 'scheduled' ? user.id : null;
       
       // Get image URL if uploaded
       const imageUrl = req.file ? `/api/posts/image/${req.file.filename}` : null;
 
       db.run(
-        'INSERT INTO posts (title, content, image_url, nationality, author_id, author_name, status, approved_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [title, content, imageUrl, nationality || null, user.id, user.name, status, approvedBy, now, now],
+        'INSERT INTO posts (title, content, image_url, nationality, servings, author_id, author_name, status, approved_by, publish_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [title, content, imageUrl, nationality || null, servings ?? null, user.id, user.name, status, approvedBy, publishAtIso, now, now],
         function (err) {
           if (err) {
             if (req.file) fs.unlinkSync(req.file.path);
@@ -250,31 +618,49 @@ router.post(
           }
 
           const newId = this.lastID;
-          securityLogger.info('post_created', {
-            postId: newId,
-            authorId: user.id,
-            authorName: user.name,
-            title,
-            status,
-            hasImage: !!req.file,
-            description: `${user.name} created post "${title}"${status === 'pending' ? ' (pending approval)' : ''}`,
-          });
+          replacePostIngredients(newId, ingredients)
+            .then(() => replacePostSteps(newId, steps))
+            .then(() => recordRevision(newId, user))
+            .then(() => {
+              if (status === 'draft') return;
+              return recordModerationEvent(newId, status === 'pending' ? 'submitted' : 'approved', user, { at: now });
+            })
+            .then(() => {
+              securityLogger.info('post_created', {
+                postId: newId,
+                authorId: user.id,
+                authorName: user.name,
+                title,
+                status,
+                publishAt: publishAtIso,
+                hasImage: !!req.file,
+                ingredientCount: ingredients.length,
+                stepCount: steps.length,
+                description: `${user.name} created post "${title}"${STATUS_NOTES[status]}`,
+              });
 
-          res.status(201).json({
-            post: {
-              id: newId,
-              title,
-              content,
-              imageUrl,
-              nationality: nationality || null,
-              authorId: user.id,
-              authorName: user.name,
-              status,
-              approvedBy,
-              createdAt: now,
-              updatedAt: now,
-            },
-          });
+              res.status(201).json({
+                post: {
+                  id: newId,
+                  title,
+                  content,
+                  imageUrl,
+                  nationality: nationality || null,
+                  servings: servings ?? null,
+                  authorId: user.id,
+                  authorName: user.name,
+                  status,
+                  approvedBy,
+                  publishAt: publishAtIso,
+                  rejection: null,
+                  createdAt: now,
+                  updatedAt: now,
+                  ingredients,
+                  steps,
+                },
+              });
+            })
+            .catch(next);
         }
       );
     } catch (err) {
@@ -288,186 +674,442 @@ router.post(
 );
 
 /**
- * PUT /api/posts/:id/approve - Approve a post (admin only)
+ * POST /api/posts/:id/submit - Submit a draft, or resubmit a rejected post, for review (author only)
+ * Posts by users with `posts.publish` are approved straight away, as when they create a post
+ * directly, unless a moderation rule flags them for review.
+ */
+router.post('/:id/submit', requireAuth, (req: AuthedRequest, res, next) => {
+  const postId = parseInt(req.params.id, 10);
+  const user = req.user!;
+
+  db.get<PostRow>(`SELECT ${POST_COLUMNS} FROM posts p WHERE p.id = ?`, [postId], (err, existing) => {
+    if (err) return next(err);
+    if (!existing || !canViewPost(req, existing)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (existing.author_id !== user.id) {
+      return res.status(403).json({ error: 'Only the author can submit this post' });
+    }
+    if (!AUTHOR_EDITABLE_STATUSES.includes(existing.status)) {
+      return res.status(400).json({ error: 'Only drafts and rejected posts can be submitted' });
+    }
+
+    const resubmitted = existing.status === 'rejected';
+
+    // Trusted authors skip the queue unless a moderation rule flags their text
+    (hasPermission(req, 'posts.publish') ? postNeedsReview(existing) : Promise.resolve(true))
+      .then((needsApproval) => {
+        const status = needsApproval ? 'pending' : 'approved';
+        const approvedBy = needsApproval ? null : user.id;
+        const now = new Date().toISOString();
+
+        db.run(
+          'UPDATE posts SET status = ?, approved_by = ?, rejection_reason = NULL, rejection_note = NULL, updated_at = ? WHERE id = ?',
+          [status, approvedBy, now, postId],
+          (updateErr) => {
+            if (updateErr) return next(updateErr);
+
+            recordModerationEvent(postId, resubmitted ? 'resubmitted' : 'submitted', user, { at: now })
+              .then(() => (status === 'approved' ? recordModerationEvent(postId, 'approved', user, { at: now }) : undefined))
+              .then(() => {
+                securityLogger.info(resubmitted ? 'post_resubmitted' : 'post_submitted', {
+                  postId,
+                  authorId: user.id,
+                  authorName: user.name,
+                  title: existing.title,
+                  status,
+                  description: resubmitted
+                    ? `${user.name} resubmitted rejected post "${existing.title}"${STATUS_NOTES[status]}`
+                    : `${user.name} submitted draft "${existing.title}"${STATUS_NOTES[status]}`,
+                });
+
+                res.json({
+                  post: serializePost({
+                    ...existing,
+                    status,
+                    approved_by: approvedBy,
+                    rejection_reason: null,
+                    rejection_note: null,
+                    updated_at: now,
+                  }),
+                });
+              })
+              .catch(next);
+          }
+        );
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * GET /api/posts/:id/moderation - A post's moderation history, oldest first (author, or anyone with posts.approve)
+ */
+router.get('/:id/moderation', requireAuth, (req: AuthedRequest, res, next) => {
+  const postId = parseInt(req.params.id, 10);
+
+  db.get<PostRow>('SELECT * FROM posts WHERE id = ?', [postId], (err, post) => {
+    if (err) return next(err);
+    if (!post || !canViewPost(req, post)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!hasPermission(req, 'posts.approve') && post.author_id !== req.user!.id) {
+      return res.status(403).json({ error: 'Not authorized to view this recipe\'s moderation history' });
+    }
+
+    db.all<ModerationEventRow>(
+      'SELECT * FROM post_moderation_events WHERE post_id = ? ORDER BY created_at, id',
+      [postId],
+      (eventsErr, rows) => {
+        if (eventsErr) return next(eventsErr);
+        res.json({
+          status: post.status,
+          events: (rows || []).map(serializeModerationEvent),
+        });
+      }
+    );
+  });
+});
+
+/**
+ * PUT /api/posts/:id/approve - Approve a pending post (requires posts.approve)
+ * Approving your own post also needs `posts.publish`.
+ * With a future `publishAt` the post is scheduled and goes live at that time.
  */
 router.put(
   '/:id/approve',
   requireAuth,
-  requireRole(['admin']),
+  requirePermission('posts.approve'),
   (req: AuthedRequest, res, next) => {
-    const postId = parseInt(req.params.id, 10);
+    try {
+      const postId = parseInt(req.params.id, 10);
+      const { publishAt } = approvePostSchema.parse(req.body ?? {});
 
-    db.get<PostRow>('SELECT * FROM posts WHERE id = ?', [postId], (err, existing) => {
-      if (err) return next(err);
-      if (!existing) {
-        return res.status(404).json({ error: 'Post not found' });
-      }
+      db.get<PostRow>('SELECT * FROM posts WHERE id = ?', [postId], (err, existing) => {
+        if (err) return next(err);
+        if (!existing || !canViewPost(req, existing)) {
+          return res.status(404).json({ error: 'Post not found' });
+        }
+        if (existing.author_id === req.user!.id && !hasPermission(req, 'posts.publish')) {
+          return res.status(403).json({ error: 'You cannot approve your own post' });
+        }
 
-      const now = new Date().toISOString();
+        const now = new Date().toISOString();
+        const publishAtIso = publishAt && new Date(publishAt) > new Date(now) ? new Date(publishAt).toISOString() : null;
+        const status = publishAtIso ? 'scheduled' : 'approved';
 
-      db.run(
-        'UPDATE posts SET status = ?, approved_by = ?, updated_at = ? WHERE id = ?',
-        ['approved', req.user!.id, now, postId],
-        (updateErr) => {
-          if (updateErr) return next(updateErr);
+        db.run(
+          `UPDATE posts SET status = ?, approved_by = ?, publish_at = ?, rejection_reason = NULL, rejection_note = NULL, updated_at = ?
+          WHERE id = ? AND status = 'pending'`,
+          [status, req.user!.id, publishAtIso, now, postId],
+          async function (updateErr) {
+            if (updateErr) return next(updateErr);
+            // Checked in the UPDATE so two moderators acting at once cannot both win
+            if (this.changes === 0) {
+              return res.status(409).json({ error: 'Only pending posts can be approved' });
+            }
 
-          securityLogger.info('post_approved', {
-            postId,
-            approvedBy: req.user?.id,
-            approvedByName: req.user?.name,
-            postTitle: existing.title,
-            postAuthor: existing.author_name,
-            description: `${req.user?.name} approved post "${existing.title}" by ${existing.author_name}`,
-          });
+            try {
+              await recordModerationEvent(postId, 'approved', req.user!, {
+                note: publishAtIso ? `Scheduled for ${publishAtIso}` : null,
+                at: now,
+              });
+            } catch (eventErr) {
+              return next(eventErr);
+            }
 
-          res.json({
-            post: {
-              id: postId,
-              title: existing.title,
-              content: existing.content,
-              imageUrl: existing.image_url,
-              nationality: existing.nationality,
-              authorId: existing.author_id,
-              authorName: existing.author_name,
-              status: 'approved',
-              approvedBy: req.user!.id,
-              createdAt: existing.created_at,
-              updatedAt: now,
-            },
-          });
+            securityLogger.info('post_approved', {
+              postId,
+              approvedBy: req.user?.id,
+              approvedByName: req.user?.name,
+              postTitle: existing.title,
+              postAuthor: existing.author_name,
+              publishAt: publishAtIso,
+              description: `${req.user?.name} approved post "${existing.title}" by ${existing.author_name}${
+                publishAtIso ? ` (scheduled for ${publishAtIso})` : ''
+              }`,
+            });
+
+            if (existing.author_id !== req.user!.id) {
+              notifyModerationOutcome(
+                existing.author_id,
+                existing.title,
+                publishAtIso ? { outcome: 'scheduled', publishAt: publishAtIso } : { outcome: 'approved' },
+              );
+            }
+
+            res.json({
+              post: {
+                id: postId,
+                title: existing.title,
+                content: existing.content,
+                imageUrl: existing.image_url,
+                nationality: existing.nationality,
+                servings: existing.servings,
+                authorId: existing.author_id,
+                authorName: existing.author_name,
+                status,
+                approvedBy: req.user!.id,
+                publishAt: publishAtIso,
+                rejection: null,
+                createdAt: existing.created_at,
+                updatedAt: now,
+              },
+            });
+          }
+        );
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+      }
+      next(err);
+    }
+  }
+);
+
+/**
+ * PUT /api/posts/:id/schedule - Change when an approved post goes live (requires posts.approve)
+ * A future `publishAt` (re)schedules the post; `null` or a past time publishes it now.
+ */
+router.put(
+  '/:id/schedule',
+  requireAuth,
+  requirePermission('posts.approve'),
+  (req: AuthedRequest, res, next) => {
+    try {
+      const postId = parseInt(req.params.id, 10);
+      const { publishAt } = schedulePostSchema.parse(req.body);
+
+      db.get<PostRow>(`SELECT ${POST_COLUMNS} FROM posts p WHERE p.id = ?`, [postId], (err, existing) => {
+        if (err) return next(err);
+        if (!existing || !canViewPost(req, existing)) {
+          return res.status(404).json({ error: 'Post not found' });
         }
-      );
-    });
+        if (existing.status !== 'scheduled' && existing.status !== 'approved') {
+          return res.status(400).json({ error: 'Only approved posts can be scheduled' });
+        }
+
+        const now = new Date().toISOString();
+        const publishAtIso = publishAt && new Date(publishAt) > new Date(now) ? new Date(publishAt).toISOString() : null;
+        const status = publishAtIso ? 'scheduled' : 'approved';
+
+        db.run(
+          'UPDATE posts SET status = ?, publish_at = ?, updated_at = ? WHERE id = ?',
+          [status, publishAtIso ?? (existing.status === 'scheduled' ? now : existing.publish_at), now, postId],
+          (updateErr) => {
+            if (updateErr) return next(updateErr);
+
+            if (status === 'approved' && existing.status === 'scheduled') {
+              securityLogger.info('post_published', {
+                postId,
+                postTitle: existing.title,
+                publishedBy: req.user?.id,
+                publishedByName: req.user?.name,
+                scheduledFor: existing.publish_at,
+                description: `${req.user?.name} published scheduled post "${existing.title}" early`,
+              });
+            } else if (status === 'scheduled') {
+              securityLogger.info('post_scheduled', {
+                postId,
+                postTitle: existing.title,
+                scheduledBy: req.user?.id,
+                scheduledByName: req.user?.name,
+                publishAt: publishAtIso,
+                description: `${req.user?.name} scheduled post "${existing.title}" for ${publishAtIso}`,
+              });
+            }
+
+            db.get<PostRow>(`SELECT ${POST_COLUMNS} FROM posts p WHERE p.id = ?`, [postId], (getErr, row) => {
+              if (getErr) return next(getErr);
+              res.json({ post: serializePost(row!) });
+            });
+          }
+        );
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+      }
+      next(err);
+    }
   }
 );
 
 /**
- * PUT /api/posts/:id/reject - Reject a post (admin only)
+ * PUT /api/posts/:id/reject - Reject a pending post with a reason (requires posts.approve)
+ * `reason` is one of the canned rejection reasons; `note` is free text and required for "other".
  */
 router.put(
   '/:id/reject',
   requireAuth,
-  requireRole(['admin']),
+  requirePermission('posts.approve'),
   (req: AuthedRequest, res, next) => {
-    const postId = parseInt(req.params.id, 10);
+    try {
+      const postId = parseInt(req.params.id, 10);
+      const { reason, note } = rejectPostSchema.parse(req.body ?? {});
 
-    db.get<PostRow>('SELECT * FROM posts WHERE id = ?', [postId], (err, existing) => {
-      if (err) return next(err);
-      if (!existing) {
-        return res.status(404).json({ error: 'Post not found' });
-      }
+      db.get<PostRow>(`SELECT ${POST_COLUMNS} FROM posts p WHERE p.id = ?`, [postId], (err, existing) => {
+        if (err) return next(err);
+        if (!existing || !canViewPost(req, existing)) {
+          return res.status(404).json({ error: 'Post not found' });
+        }
 
-      const now = new Date().toISOString();
+        const now = new Date().toISOString();
+        const rejectionNote = note || null;
 
-      db.run(
-        'UPDATE posts SET status = ?, updated_at = ? WHERE id = ?',
-        ['rejected', now, postId],
-        (updateErr) => {
-          if (updateErr) return next(updateErr);
+        db.run(
+          `UPDATE posts SET status = ?, rejection_reason = ?, rejection_note = ?, updated_at = ?
+          WHERE id = ? AND status = 'pending'`,
+          ['rejected', reason, rejectionNote, now, postId],
+          function (updateErr) {
+            if (updateErr) return next(updateErr);
+            if (this.changes === 0) {
+              return res.status(409).json({ error: 'Only pending posts can be rejected' });
+            }
 
-          securityLogger.info('post_rejected', {
-            postId,
-            rejectedBy: req.user?.id,
-            rejectedByName: req.user?.name,
-            postTitle: existing.title,
-            postAuthor: existing.author_name,
-            description: `${req.user?.name} rejected post "${existing.title}" by ${existing.author_name}`,
-          });
+            recordModerationEvent(postId, 'rejected', req.user!, { reason, note: rejectionNote, at: now })
+              .then(() => {
+                securityLogger.info('post_rejected', {
+                  postId,
+                  rejectedBy: req.user?.id,
+                  rejectedByName: req.user?.name,
+                  postTitle: existing.title,
+                  postAuthor: existing.author_name,
+                  reason,
+                  description: `${req.user?.name} rejected post "${existing.title}" by ${existing.author_name} (${REJECTION_REASONS[reason]})`,
+                });
 
-          res.json({ success: true });
-        }
-      );
-    });
+                if (existing.author_id !== req.user!.id) {
+                  notifyModerationOutcome(existing.author_id, existing.title, {
+                    outcome: 'rejected',
+                    reason: REJECTION_REASONS[reason],
+                    note: rejectionNote,
+                  });
+                }
+
+                res.json({
+                  success: true,
+                  post: serializePost({
+                    ...existing,
+                    status: 'rejected',
+                    rejection_reason: reason,
+                    rejection_note: rejectionNote,
+                    updated_at: now,
+                  }),
+                });
+              })
+              .catch(next);
+          }
+        );
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+      }
+      next(err);
+    }
   }
 );
 
 /**
- * PUT /api/posts/:id - Update post (editors and admins only)
+ * PUT /api/posts/:id - Update post (requires posts.edit.any, or the author of a draft or rejected post)
+ * Editing a rejected post keeps it rejected until the author resubmits it.
  */
 router.put(
   '/:id',
   requireAuth,
-  requireRole(['admin', 'editor']),
   (req: AuthedRequest, res, next) => {
     try {
       const postId = parseInt(req.params.id, 10);
       const updates = updatePostSchema.parse(req.body);
 
-      if (!updates.title && !updates.content && !updates.nationality) {
+      const ingredients = updates.ingredients ? normalizeIngredients(updates.ingredients) : undefined;
+      const steps = updates.steps;
+
+      if (!updates.title && !updates.content && !updates.nationality && !updates.servings && !ingredients && !steps) {
         return res.status(400).json({ error: 'Nothing to update' });
       }
 
-      // Check for forbidden words
-      if (updates.title) {
-        const titleCheck = containsForbiddenWords(updates.title);
-        if (titleCheck.hasForbidden) {
-          securityLogger.warn('forbidden_word_attempt', {
-            userId: req.user?.id,
-            field: 'title',
-            word: titleCheck.word,
-            postId,
-          });
-          return res.status(400).json({
-            error: `The word "${titleCheck.word}" is not allowed in the title`,
-          });
+      db.get<PostRow>('SELECT * FROM posts WHERE id = ?', [postId], (err, existing) => {
+        if (err) return next(err);
+        if (!existing || !canViewPost(req, existing)) {
+          return res.status(404).json({ error: 'Post not found' });
         }
-      }
 
-      if (updates.content) {
-        const contentCheck = containsForbiddenWords(updates.content);
-        if (contentCheck.hasForbidden) {
-          securityLogger.warn('forbidden_word_attempt', {
-            userId: req.user?.id,
-            field: 'content',
-            word: contentCheck.word,
+        const isPrivileged = hasPermission(req, 'posts.edit.any');
+        const isAuthorEditable = existing.author_id === req.user!.id && AUTHOR_EDITABLE_STATUSES.includes(existing.status);
+        if (!isPrivileged && !isAuthorEditable) {
+          securityLogger.warn('forbidden_access_attempt', {
+            path: req.path,
+            method: req.method,
+            ip: req.ip,
+            userId: req.user!.id,
+            userRole: req.user!.role,
             postId,
+            reason: 'not_editable',
           });
-          return res.status(400).json({
-            error: `The word "${contentCheck.word}" is not allowed in the content`,
-          });
+          return res.status(403).json({ error: 'Forbidden' });
         }
-      }
 
-      db.get<PostRow>('SELECT * FROM posts WHERE id = ?', [postId], (err, existing) => {
-        if (err) return next(err);
-        if (!existing) {
-          return res.status(404).json({ error: 'Post not found' });
-        }
+        // Run the moderation rules over whatever text is being changed
+        const moderated = moderatePost(req, res, { title: updates.title, content: updates.content, ingredients, steps }, postId);
+        if (!moderated) return;
 
-        const newTitle = updates.title || existing.title;
-        const newContent = updates.content || existing.content;
+        const newTitle = moderated.title || existing.title;
+        const newContent = moderated.content || existing.content;
         const newNationality = updates.nationality !== undefined ? updates.nationality : existing.nationality;
+        const newServings = updates.servings !== undefined ? updates.servings : existing.servings;
+        // Live posts edited into text a moderation rule flags go back to the approval queue
+        const sentToReview = moderated.review && (existing.status === 'approved' || existing.status === 'scheduled');
+        const newStatus = sentToReview ? 'pending' : existing.status;
+        const newApprovedBy = sentToReview ? null : existing.approved_by;
         const now = new Date().toISOString();
 
         db.run(
-          'UPDATE posts SET title = ?, content = ?, nationality = ?, updated_at = ? WHERE id = ?',
-          [newTitle, newContent, newNationality, now, postId],
-          (updateErr) => {
+          'UPDATE posts SET title = ?, content = ?, nationality = ?, servings = ?, status = ?, approved_by = ?, updated_at = ? WHERE id = ?',
+          [newTitle, newContent, newNationality, newServings, newStatus, newApprovedBy, now, postId],
+          async (updateErr) => {
             if (updateErr) return next(updateErr);
 
-            securityLogger.info('post_updated', {
-              postId,
-              updatedBy: req.user?.id,
-              updatedByName: req.user?.name,
-              postTitle: newTitle,
-              description: `${req.user?.name} updated post "${newTitle}"`,
-            });
+            try {
+              // Omitted structure fields are left untouched; provided ones replace the whole list
+              if (moderated.ingredients) await replacePostIngredients(postId, moderated.ingredients);
+              if (moderated.steps) await replacePostSteps(postId, moderated.steps);
+              await recordRevision(postId, req.user!);
 
-            res.json({
-              post: {
-                id: postId,
-                title: newTitle,
-                content: newContent,
-                imageUrl: existing.image_url,
-                nationality: newNationality,
-                authorId: existing.author_id,
-                authorName: existing.author_name,
-                status: existing.status,
-                approvedBy: existing.approved_by,
-                createdAt: existing.created_at,
-                updatedAt: now,
-              },
-            });
+              securityLogger.info('post_updated', {
+                postId,
+                updatedBy: req.user?.id,
+                updatedByName: req.user?.name,
+                postTitle: newTitle,
+                status: newStatus,
+                description: `${req.user?.name} updated post "${newTitle}"${sentToReview ? ' (sent back for approval)' : ''}`,
+              });
+
+              res.json({
+                post: {
+                  id: postId,
+                  title: newTitle,
+                  content: newContent,
+                  imageUrl: existing.image_url,
+                  nationality: newNationality,
+                  servings: newServings,
+                  authorId: existing.author_id,
+                  authorName: existing.author_name,
+                  status: newStatus,
+                  approvedBy: newApprovedBy,
+                  publishAt: existing.publish_at,
+                  rejection: serializePost(existing).rejection,
+                  createdAt: existing.created_at,
+                  updatedAt: now,
+                  ingredients: await getPostIngredients(postId),
+                  steps: await getPostSteps(postId),
+                },
+              });
+            } catch (structureErr) {
+              next(structureErr);
+            }
           }
         );
       });
@@ -481,9 +1123,10 @@ router.put(
 );
 
 /**
- * DELETE /api/posts/:id - Delete post
+ * DELETE /api/posts/:id - Move a post to the trash
  * - Users can only delete their own posts
- * - Admins can delete any post
+ * - Users with `posts.delete.any` can delete any post
+ * - The post can be restored from the trash until it is purged
  */
 router.delete(
   '/:id',
@@ -491,16 +1134,16 @@ router.delete(
   (req: AuthedRequest, res, next) => {
     const postId = parseInt(req.params.id, 10);
     const userId = req.user!.id;
-    const isAdmin = req.user!.role === 'admin';
+    const canDeleteAny = hasPermission(req, 'posts.delete.any');
 
-    db.get<PostRow>('SELECT * FROM posts WHERE id = ?', [postId], (err, existing) => {
+    db.get<PostRow>('SELECT * FROM posts WHERE id = ? AND deleted_at IS NULL', [postId], (err, existing) => {
       if (err) return next(err);
       if (!existing) {
         return res.status(404).json({ error: 'Post not found' });
       }
 
-      // Check ownership: only author or admin can delete
-      if (existing.author_id !== userId && !isAdmin) {
+      // Check ownership: only the author or posts.delete.any can delete
+      if (existing.author_id !== userId && !canDeleteAny) {
         securityLogger.warn('unauthorized_post_delete_attempt', {
           userId,
           postId,
@@ -509,33 +1152,28 @@ router.delete(
         return res.status(403).json({ error: 'You can only delete your own posts' });
       }
 
-      // Delete associated image if exists
-      if (existing.image_url) {
-        const filename = existing.image_url.split('/').pop();
-        if (filename) {
-          const filePath = path.join(uploadDir, filename);
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-          }
-        }
-      }
-
-      db.run('DELETE FROM posts WHERE id = ?', [postId], (delErr) => {
-        if (delErr) return next(delErr);
+      db.run(
+        'UPDATE posts SET deleted_at = ?, deleted_by = ? WHERE id = ?',
+        [new Date().toISOString(), userId, postId],
+        (delErr) => {
+          if (delErr) return next(delErr);
 
-        securityLogger.info('post_deleted', {
-          postId,
-          deletedBy: userId,
-          deletedByName: req.user?.name,
-          title: existing.title,
-          authorName: existing.author_name,
-          description: `${req.user?.name} deleted post "${existing.title}"${existing.author_id !== userId ? ` (by ${existing.author_name})` : ''}`,
-        });
+          securityLogger.info('post_deleted', {
+            postId,
+            deletedBy: userId,
+            deletedByName: req.user?.name,
+            title: existing.title,
+            authorName: existing.author_name,
+            description: `${req.user?.name} moved post "${existing.title}"${
+              existing.author_id !== userId ? ` (by ${existing.author_name})` : ''
+            } to the trash`,
+          });
 
-        res.status(204).end();
-      });
+          res.status(204).end();
+        },
+      );
     });
   }
 );
 
-export { router as postsRouter };
+export { router as postsRouter, POST_COLUMNS, serializePost };
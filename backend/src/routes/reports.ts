@@ -0,0 +1,390 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, requireAuth, requirePermission } from '../middleware/auth';
+import { db, runStatement } from '../db';
+import { securityLogger } from '../middleware/logging';
+import { canViewPost } from '../utils/postVisibility';
+import { listQuerySchema, paginate } from '../utils/pagination';
+import { notifyModerationOutcome } from '../utils/notifications';
+
+// A published post is taken down for review once this many different users have open reports on it (0 = never)
+const HIDE_THRESHOLD = Math.max(0, parseInt(process.env.REPORT_HIDE_THRESHOLD || '3', 10) || 0);
+
+// Why a user may report a published recipe
+const REPORT_REASONS = {
+  plagiarism: 'Plagiarized or copied without credit',
+  unsafe: 'Unsafe food handling or dangerous instructions',
+  offensive: 'Offensive or hateful content',
+  spam: 'Spam or advertising',
+  other: 'Other',
+} as const;
+
+type ReportReason = keyof typeof REPORT_REASONS;
+
+const REPORT_REASON_KEYS = Object.keys(REPORT_REASONS) as [ReportReason, ...ReportReason[]];
+
+const createReportSchema = z
+  .object({
+    reason: z.enum(REPORT_REASON_KEYS),
+    note: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => data.reason !== 'other' || !!data.note, {
+    message: 'A note is required when the reason is "other"',
+    path: ['note'],
+  });
+
+const listReportsQuerySchema = listQuerySchema(['createdAt'], 'createdAt', {
+  status: z.enum(['open', 'dismissed', 'resolved']).default('open'),
+  reason: z.enum(REPORT_REASON_KEYS).optional(),
+});
+
+interface ReportPostRow {
+  id: number;
+  title: string;
+  status: string;
+  author_id: number;
+  author_name: string;
+  deleted_at: string | null;
+}
+
+interface ReportRow {
+  id: number;
+  post_id: number;
+  reporter_id: number;
+  reason: ReportReason;
+  note: string | null;
+  status: 'open' | 'dismissed' | 'resolved';
+  resolved_by: number | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+interface ReportQueueRow extends ReportRow {
+  reporter_name: string | null;
+  post_title: string;
+  post_status: string;
+  post_author_id: number;
+  post_author_name: string;
+  open_reports: number;
+}
+
+function reportReasonList() {
+  return Object.entries(REPORT_REASONS).map(([value, label]) => ({ value, label }));
+}
+
+function serializeReport(r: ReportQueueRow) {
+  return {
+    id: r.id,
+    postId: r.post_id,
+    postTitle: r.post_title,
+    postStatus: r.post_status,
+    postAuthorId: r.post_author_id,
+    postAuthorName: r.post_author_name,
+    // Distinct users with an open report on the same post
+    openReports: r.open_reports,
+    reporterId: r.reporter_id,
+    reporterName: r.reporter_name,
+    reason: r.reason,
+    reasonLabel: REPORT_REASONS[r.reason] ?? r.reason,
+    note: r.note,
+    status: r.status,
+    resolvedBy: r.resolved_by,
+    resolvedAt: r.resolved_at,
+    createdAt: r.created_at,
+  };
+}
+
+function countOpenReports(postId: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    db.get<{ total: number }>(
+      "SELECT COUNT(*) AS total FROM post_reports WHERE post_id = ? AND status = 'open'",
+      [postId],
+      (err, row) => (err ? reject(err) : resolve(row?.total ?? 0))
+    );
+  });
+}
+
+// Closes every open report on a post, e.g. once it has been unpublished
+function resolveOpenReports(postId: number, userId: number, at: string): Promise<void> {
+  return runStatement(
+    "UPDATE post_reports SET status = 'resolved', resolved_by = ?, resolved_at = ? WHERE post_id = ? AND status = 'open'",
+    [userId, at, postId],
+  );
+}
+
+// ---------------------------------------------------------------------------
+// /api/posts/:id/report
+// ---------------------------------------------------------------------------
+
+const postReportRouter = Router({ mergeParams: true });
+
+function withReportablePost(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+  cb: (post: ReportPostRow) => void,
+) {
+  const postId = parseInt(req.params.id, 10);
+  db.get<ReportPostRow>(
+    'SELECT id, title, status, author_id, author_name, deleted_at FROM posts WHERE id = ?',
+    [postId],
+    (err, post) => {
+      if (err) return next(err);
+      if (!post || !canViewPost(req, post)) {
+        return res.status(404).json({ error: 'Post not found' });
+      }
+      cb(post);
+    }
+  );
+}
+
+/**
+ * GET /api/posts/:id/report - The report reasons, and whether the current user already reported the post
+ */
+postReportRouter.get('/', requireAuth, (req: AuthedRequest, res, next) => {
+  withReportablePost(req, res, next, (post) => {
+    db.get<{ id: number }>(
+      'SELECT id FROM post_reports WHERE post_id = ? AND reporter_id = ?',
+      [post.id, req.user!.id],
+      (err, existing) => {
+        if (err) return next(err);
+        res.json({
+          reasons: reportReasonList(),
+          reported: !!existing,
+          canReport: post.status === 'approved' && post.author_id !== req.user!.id,
+        });
+      }
+    );
+  });
+});
+
+/**
+ * POST /api/posts/:id/report - Report a published post to the admins
+ * `reason` is one of the report reasons; `note` is free text and required for "other".
+ * Each user can report a post once. Past REPORT_HIDE_THRESHOLD open reports the post goes back to `pending`.
+ */
+postReportRouter.post('/', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { reason, note } = createReportSchema.parse(req.body ?? {});
+    const user = req.user!;
+
+    withReportablePost(req, res, next, (post) => {
+      if (post.author_id === user.id) {
+        return res.status(403).json({ error: 'You cannot report your own recipe' });
+      }
+      if (post.status !== 'approved') {
+        return res.status(400).json({ error: 'Only published recipes can be reported' });
+      }
+
+      const now = new Date().toISOString();
+      db.run(
+        'INSERT INTO post_reports (post_id, reporter_id, reason, note, created_at) VALUES (?, ?, ?, ?, ?)',
+        [post.id, user.id, reason, note || null, now],
+        function (err) {
+          if (err) {
+            if (/UNIQUE constraint failed/.test(err.message)) {
+              return res.status(409).json({ error: 'You have already reported this recipe' });
+            }
+            return next(err);
+          }
+
+          const reportId = this.lastID;
+          securityLogger.info('post_reported', {
+            reportId,
+            postId: post.id,
+            postTitle: post.title,
+            reporterId: user.id,
+            reporterName: user.name,
+            reason,
+            description: `${user.name} reported post "${post.title}" (${REPORT_REASONS[reason]})`,
+          });
+
+          countOpenReports(post.id)
+            .then(async (openReports) => {
+              let hidden = false;
+              if (HIDE_THRESHOLD > 0 && openReports >= HIDE_THRESHOLD) {
+                await runStatement(
+                  "UPDATE posts SET status = 'pending', approved_by = NULL, updated_at = ? WHERE id = ? AND status = 'approved'",
+                  [now, post.id],
+                );
+                hidden = true;
+                securityLogger.warn('post_auto_hidden', {
+                  postId: post.id,
+                  postTitle: post.title,
+                  postAuthor: post.author_name,
+                  openReports,
+                  threshold: HIDE_THRESHOLD,
+                  description: `Post "${post.title}" by ${post.author_name} was hidden for review after ${openReports} reports`,
+                });
+              }
+
+              res.status(201).json({ success: true, reportId, hidden });
+            })
+            .catch(next);
+        }
+      );
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// /api/admin/reports
+// ---------------------------------------------------------------------------
+
+const reportsRouter = Router();
+
+const REPORT_QUEUE_COLUMNS = `r.*, u.name AS reporter_name, p.title AS post_title, p.status AS post_status,
+  p.author_id AS post_author_id, p.author_name AS post_author_name,
+  (SELECT COUNT(*) FROM post_reports o WHERE o.post_id = r.post_id AND o.status = 'open') AS open_reports`;
+const REPORT_QUEUE_FROM = 'post_reports r JOIN posts p ON p.id = r.post_id LEFT JOIN users u ON u.id = r.reporter_id';
+
+function withReport(req: AuthedRequest, res: Response, next: NextFunction, cb: (report: ReportQueueRow) => void) {
+  const reportId = parseInt(req.params.id, 10);
+  db.get<ReportQueueRow>(
+    `SELECT ${REPORT_QUEUE_COLUMNS} FROM ${REPORT_QUEUE_FROM} WHERE r.id = ? AND p.deleted_at IS NULL`,
+    [reportId],
+    (err, report) => {
+      if (err) return next(err);
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+      cb(report);
+    }
+  );
+}
+
+/**
+ * GET /api/admin/reports - Report queue, paginated (requires reports.manage)
+ * Filters: `status` (defaults to `open`), `reason`
+ */
+reportsRouter.get('/', requireAuth, requirePermission('reports.manage'), (req: AuthedRequest, res, next) => {
+  const parsed = listReportsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  const { status, reason, ...page } = parsed.data;
+
+  const where = ['r.status = ?', 'p.deleted_at IS NULL'];
+  const params: unknown[] = [status];
+  if (reason) {
+    where.push('r.reason = ?');
+    params.push(reason);
+  }
+
+  paginate<ReportQueueRow>(
+    {
+      select: REPORT_QUEUE_COLUMNS,
+      from: REPORT_QUEUE_FROM,
+      where,
+      params,
+      sortColumns: { createdAt: 'r.created_at' },
+      idColumn: 'r.id',
+    },
+    page,
+  )
+    .then((result) => {
+      res.json({
+        reports: result.items.map(serializeReport),
+        nextCursor: result.nextCursor,
+        total: result.total,
+      });
+    })
+    .catch(next);
+});
+
+/**
+ * PUT /api/admin/reports/:id/dismiss - Close a report without touching the post (requires reports.manage)
+ */
+reportsRouter.put('/:id/dismiss', requireAuth, requirePermission('reports.manage'), (req: AuthedRequest, res, next) => {
+  const user = req.user!;
+
+  withReport(req, res, next, (report) => {
+    if (report.status !== 'open') {
+      return res.status(400).json({ error: 'Report is already closed' });
+    }
+
+    const now = new Date().toISOString();
+    runStatement("UPDATE post_reports SET status = 'dismissed', resolved_by = ?, resolved_at = ? WHERE id = ?", [
+      user.id,
+      now,
+      report.id,
+    ])
+      .then(() => {
+        securityLogger.info('report_dismissed', {
+          reportId: report.id,
+          postId: report.post_id,
+          postTitle: report.post_title,
+          reason: report.reason,
+          dismissedBy: user.id,
+          dismissedByName: user.name,
+          description: `${user.name} dismissed a report on post "${report.post_title}" (${REPORT_REASONS[report.reason] ?? report.reason})`,
+        });
+
+        res.json({
+          report: serializeReport({
+            ...report,
+            status: 'dismissed',
+            resolved_by: user.id,
+            resolved_at: now,
+            open_reports: report.open_reports - 1,
+          }),
+        });
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * PUT /api/admin/reports/:id/unpublish - Move the reported post back to `pending` and
+ * resolve every open report on it (requires reports.manage)
+ */
+reportsRouter.put('/:id/unpublish', requireAuth, requirePermission('reports.manage'), (req: AuthedRequest, res, next) => {
+  const user = req.user!;
+
+  withReport(req, res, next, (report) => {
+    if (report.status !== 'open') {
+      return res.status(400).json({ error: 'Report is already closed' });
+    }
+
+    const now = new Date().toISOString();
+    (async () => {
+      // Checks the status again so a post rejected or unpublished in the meantime is left alone
+      const published = await new Promise<boolean>((resolve, reject) => {
+        db.run(
+          `UPDATE posts SET status = 'pending', approved_by = NULL, publish_at = NULL, updated_at = ?
+          WHERE id = ? AND status IN ('approved', 'scheduled')`,
+          [now, report.post_id],
+          function (err) {
+            if (err) return reject(err);
+            resolve(this.changes > 0);
+          },
+        );
+      });
+      await resolveOpenReports(report.post_id, user.id, now);
+
+      securityLogger.info('post_unpublished', {
+        reportId: report.id,
+        postId: report.post_id,
+        postTitle: report.post_title,
+        postAuthor: report.post_author_name,
+        resolvedReports: report.open_reports,
+        unpublishedBy: user.id,
+        unpublishedByName: user.name,
+        description: `${user.name} unpublished post "${report.post_title}" by ${report.post_author_name} after ${report.open_reports} report(s)`,
+      });
+
+      if (published) {
+        notifyModerationOutcome(report.post_author_id, report.post_title, { outcome: 'unpublished' });
+      }
+
+      res.json({ success: true, postStatus: published ? 'pending' : report.post_status });
+    })().catch(next);
+  });
+});
+
+export { postReportRouter, reportsRouter };
@@ -0,0 +1,309 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, hasPermission, requireAuth } from '../middleware/auth';
+import { db } from '../db';
+import { securityLogger } from '../middleware/logging';
+import { checkContent } from '../utils/moderationRules';
+import { canViewPost } from '../utils/postVisibility';
+import { listQuerySchema, paginate } from '../utils/pagination';
+
+// Mounted under /api/posts/:id/reviews
+const router = Router({ mergeParams: true });
+
+const reviewSchema = z.object({
+  rating: z.coerce.number().int().min(1).max(5),
+  body: z.string().max(2000).optional(),
+});
+
+const listReviewsQuerySchema = listQuerySchema(['createdAt', 'rating'], 'createdAt', {});
+
+interface ReviewPostRow {
+  id: number;
+  title: string;
+  author_id: number;
+  status: string;
+  deleted_at: string | null;
+}
+
+interface ReviewRow {
+  id: number;
+  post_id: number;
+  user_id: number;
+  user_name: string;
+  rating: number;
+  body: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function serializeReview(r: ReviewRow) {
+  return {
+    id: r.id,
+    postId: r.post_id,
+    userId: r.user_id,
+    userName: r.user_name,
+    rating: r.rating,
+    body: r.body,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+// Loads the post from the URL, answering 404 for posts the user is not allowed to see
+function withVisiblePost(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+  cb: (post: ReviewPostRow) => void,
+) {
+  const postId = parseInt(req.params.id, 10);
+  db.get<ReviewPostRow>('SELECT id, title, author_id, status, deleted_at FROM posts WHERE id = ?', [postId], (err, post) => {
+    if (err) return next(err);
+    if (!post || !canViewPost(req, post)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    cb(post);
+  });
+}
+
+// Returns the review text with masked words starred, or null once a 400 has been sent.
+// Reviews have no moderation queue, so text a rule sends to review is refused.
+function checkReviewBody(req: AuthedRequest, res: Response, postId: number, body: string | undefined): string | null {
+  if (!body) return '';
+  const check = checkContent(req, res, 'review', body, { postId });
+  return check && check.text;
+}
+
+/**
+ * GET /api/posts/:id/reviews - Paginated reviews with the post's rating summary
+ * Also returns the current user's own review (if any) so clients can offer edit/delete.
+ */
+router.get('/', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = listReviewsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  withVisiblePost(req, res, next, (post) => {
+    db.get<{ average: number | null; count: number }>(
+      'SELECT AVG(rating) AS average, COUNT(*) AS count FROM reviews WHERE post_id = ?',
+      [post.id],
+      (summaryErr, summary) => {
+        if (summaryErr) return next(summaryErr);
+
+        db.get<ReviewRow>(
+          'SELECT * FROM reviews WHERE post_id = ? AND user_id = ?',
+          [post.id, req.user!.id],
+          (mineErr, mine) => {
+            if (mineErr) return next(mineErr);
+
+            paginate<ReviewRow>(
+              {
+                select: '*',
+                from: 'reviews',
+                where: ['post_id = ?'],
+                params: [post.id],
+                sortColumns: { createdAt: 'created_at', rating: 'rating' },
+                idColumn: 'id',
+              },
+              parsed.data,
+            )
+              .then((result) => {
+                res.json({
+                  reviews: result.items.map(serializeReview),
+                  nextCursor: result.nextCursor,
+                  total: result.total,
+                  summary: {
+                    average: summary?.average != null ? Math.round(summary.average * 10) / 10 : null,
+                    count: summary?.count ?? 0,
+                  },
+                  myReview: mine ? serializeReview(mine) : null,
+                  canReview: post.status === 'approved' && post.author_id !== req.user!.id,
+                });
+              })
+              .catch(next);
+          }
+        );
+      }
+    );
+  });
+});
+
+/**
+ * POST /api/posts/:id/reviews - Review a published recipe (one review per user per post)
+ * Authors cannot review their own recipes.
+ */
+router.post('/', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { rating, body } = reviewSchema.parse(req.body);
+    const text = body?.trim() || undefined;
+    const user = req.user!;
+
+    withVisiblePost(req, res, next, (post) => {
+      if (post.status !== 'approved') {
+        return res.status(400).json({ error: 'Only published recipes can be reviewed' });
+      }
+      if (post.author_id === user.id) {
+        securityLogger.warn('self_review_attempt', {
+          userId: user.id,
+          postId: post.id,
+        });
+        return res.status(403).json({ error: 'You cannot review your own recipe' });
+      }
+      const checked = checkReviewBody(req, res, post.id, text);
+      if (checked === null) return;
+
+      const now = new Date().toISOString();
+      db.run(
+        'INSERT INTO reviews (post_id, user_id, user_name, rating, body, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [post.id, user.id, user.name, rating, checked || null, now, now],
+        function (err) {
+          if (err) {
+            if (/UNIQUE constraint failed/.test(err.message)) {
+              return res.status(409).json({ error: 'You have already reviewed this recipe' });
+            }
+            return next(err);
+          }
+
+          securityLogger.info('review_created', {
+            reviewId: this.lastID,
+            postId: post.id,
+            userId: user.id,
+            userName: user.name,
+            rating,
+            description: `${user.name} rated "${post.title}" ${rating}/5`,
+          });
+
+          res.status(201).json({
+            review: serializeReview({
+              id: this.lastID,
+              post_id: post.id,
+              user_id: user.id,
+              user_name: user.name,
+              rating,
+              body: checked || null,
+              created_at: now,
+              updated_at: now,
+            }),
+          });
+        }
+      );
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * PUT /api/posts/:id/reviews - Update the current user's review
+ */
+router.put('/', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { rating, body } = reviewSchema.parse(req.body);
+    const text = body?.trim() || undefined;
+    const user = req.user!;
+
+    withVisiblePost(req, res, next, (post) => {
+      db.get<ReviewRow>('SELECT * FROM reviews WHERE post_id = ? AND user_id = ?', [post.id, user.id], (err, existing) => {
+        if (err) return next(err);
+        if (!existing) {
+          return res.status(404).json({ error: 'Review not found' });
+        }
+        const checked = checkReviewBody(req, res, post.id, text);
+        if (checked === null) return;
+
+        const now = new Date().toISOString();
+        db.run(
+          'UPDATE reviews SET rating = ?, body = ?, updated_at = ? WHERE id = ?',
+          [rating, checked || null, now, existing.id],
+          (updateErr) => {
+            if (updateErr) return next(updateErr);
+
+            securityLogger.info('review_updated', {
+              reviewId: existing.id,
+              postId: post.id,
+              userId: user.id,
+              userName: user.name,
+              rating,
+              description: `${user.name} updated their review of "${post.title}" (${rating}/5)`,
+            });
+
+            res.json({
+              review: serializeReview({ ...existing, rating, body: checked || null, updated_at: now }),
+            });
+          }
+        );
+      });
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+function deleteReview(req: AuthedRequest, res: Response, next: NextFunction, post: ReviewPostRow, review: ReviewRow) {
+  db.run('DELETE FROM reviews WHERE id = ?', [review.id], (err) => {
+    if (err) return next(err);
+
+    const byOwner = review.user_id === req.user!.id;
+    securityLogger.info('review_deleted', {
+      reviewId: review.id,
+      postId: post.id,
+      reviewerId: review.user_id,
+      deletedBy: req.user!.id,
+      deletedByName: req.user!.name,
+      description: byOwner
+        ? `${req.user!.name} deleted their review of "${post.title}"`
+        : `${req.user!.name} deleted ${review.user_name}'s review of "${post.title}"`,
+    });
+
+    res.status(204).end();
+  });
+}
+
+/**
+ * DELETE /api/posts/:id/reviews - Delete the current user's review
+ */
+router.delete('/', requireAuth, (req: AuthedRequest, res, next) => {
+  withVisiblePost(req, res, next, (post) => {
+    db.get<ReviewRow>('SELECT * FROM reviews WHERE post_id = ? AND user_id = ?', [post.id, req.user!.id], (err, review) => {
+      if (err) return next(err);
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      deleteReview(req, res, next, post, review);
+    });
+  });
+});
+
+/**
+ * DELETE /api/posts/:id/reviews/:reviewId - Delete a specific review (reviewer, or anyone with reviews.delete.any)
+ */
+router.delete('/:reviewId', requireAuth, (req: AuthedRequest, res, next) => {
+  const reviewId = parseInt(req.params.reviewId, 10);
+
+  withVisiblePost(req, res, next, (post) => {
+    db.get<ReviewRow>('SELECT * FROM reviews WHERE id = ? AND post_id = ?', [reviewId, post.id], (err, review) => {
+      if (err) return next(err);
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      if (review.user_id !== req.user!.id && !hasPermission(req, 'reviews.delete.any')) {
+        securityLogger.warn('unauthorized_review_delete_attempt', {
+          userId: req.user!.id,
+          reviewId,
+          postId: post.id,
+        });
+        return res.status(403).json({ error: 'You can only delete your own reviews' });
+      }
+      deleteReview(req, res, next, post, review);
+    });
+  });
+});
+
+export { router as reviewsRouter };
@@ -0,0 +1,215 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, hasPermission, requireAuth, requirePermission } from '../middleware/auth';
+import { db, replacePostIngredients, replacePostSteps, runStatement } from '../db';
+import { securityLogger } from '../middleware/logging';
+import { canViewPost } from '../utils/postVisibility';
+import { listQuerySchema, paginate } from '../utils/pagination';
+import { RevisionSnapshot, diffSnapshots, recordRevision } from '../utils/revisions';
+
+// Mounted under /api/posts/:id/revisions
+const router = Router({ mergeParams: true });
+
+const listRevisionsQuerySchema = listQuerySchema(['revision'], 'revision', {});
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
+});
+
+interface RevisionPostRow {
+  id: number;
+  title: string;
+  author_id: number;
+  author_name: string;
+  status: string;
+  deleted_at: string | null;
+}
+
+interface RevisionRow {
+  id: number;
+  post_id: number;
+  revision: number;
+  editor_id: number | null;
+  editor_name: string;
+  snapshot: string;
+  restored_from: number | null;
+  created_at: string;
+}
+
+function serializeRevision(r: RevisionRow, includeSnapshot = false) {
+  const snapshot = JSON.parse(r.snapshot) as RevisionSnapshot;
+  return {
+    revision: r.revision,
+    editorId: r.editor_id,
+    editorName: r.editor_name,
+    title: snapshot.title,
+    restoredFrom: r.restored_from,
+    createdAt: r.created_at,
+    ...(includeSnapshot ? { snapshot } : {}),
+  };
+}
+
+// History is shown to the people who edit recipes and to the recipe's author
+function withRevisionAccess(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+  cb: (post: RevisionPostRow) => void,
+) {
+  const postId = parseInt(req.params.id, 10);
+  db.get<RevisionPostRow>(
+    'SELECT id, title, author_id, author_name, status, deleted_at FROM posts WHERE id = ?',
+    [postId],
+    (err, post) => {
+      if (err) return next(err);
+      if (!post || !canViewPost(req, post)) {
+        return res.status(404).json({ error: 'Post not found' });
+      }
+      if (!hasPermission(req, 'posts.edit.any') && post.author_id !== req.user!.id) {
+        return res.status(403).json({ error: 'Not authorized to view this recipe\'s history' });
+      }
+      cb(post);
+    }
+  );
+}
+
+function getRevisions(postId: number, revisions: number[]): Promise<RevisionRow[]> {
+  return new Promise((resolve, reject) => {
+    db.all<RevisionRow>(
+      `SELECT * FROM post_revisions WHERE post_id = ? AND revision IN (${revisions.map(() => '?').join(', ')})`,
+      [postId, ...revisions],
+      (err, rows) => {
+        if (err) return reject(err);
+        resolve(rows || []);
+      }
+    );
+  });
+}
+
+/**
+ * GET /api/posts/:id/revisions - A post's revisions, newest first by default
+ */
+router.get('/', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = listRevisionsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  withRevisionAccess(req, res, next, (post) => {
+    paginate<RevisionRow>(
+      {
+        select: 'r.*',
+        from: 'post_revisions r',
+        where: ['r.post_id = ?'],
+        params: [post.id],
+        sortColumns: { revision: 'r.revision' },
+        idColumn: 'r.id',
+      },
+      parsed.data,
+    )
+      .then((result) => {
+        res.json({
+          revisions: result.items.map((r) => serializeRevision(r)),
+          nextCursor: result.nextCursor,
+          total: result.total,
+        });
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * GET /api/posts/:id/revisions/diff?from=&to= - Side-by-side diff of two revisions
+ * Each field lists its lines as rows of `same`, `changed`, `added` or `removed`.
+ */
+router.get('/diff', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = diffQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  const { from, to } = parsed.data;
+
+  withRevisionAccess(req, res, next, (post) => {
+    getRevisions(post.id, [from, to])
+      .then((rows) => {
+        const before = rows.find((r) => r.revision === from);
+        const after = rows.find((r) => r.revision === to);
+        if (!before || !after) {
+          return res.status(404).json({ error: 'Revision not found' });
+        }
+
+        res.json({
+          from: serializeRevision(before),
+          to: serializeRevision(after),
+          fields: diffSnapshots(JSON.parse(before.snapshot), JSON.parse(after.snapshot)),
+        });
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * GET /api/posts/:id/revisions/:rev - One revision with its full snapshot
+ */
+router.get('/:rev', requireAuth, (req: AuthedRequest, res, next) => {
+  const rev = parseInt(req.params.rev, 10);
+
+  withRevisionAccess(req, res, next, (post) => {
+    getRevisions(post.id, [rev])
+      .then(([row]) => {
+        if (!row) {
+          return res.status(404).json({ error: 'Revision not found' });
+        }
+        res.json({ revision: serializeRevision(row, true) });
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * POST /api/posts/:id/revisions/:rev/restore - Put an earlier revision back (requires posts.revisions.restore)
+ * The restore is itself recorded as a new revision, so it can be undone the same way.
+ */
+router.post('/:rev/restore', requireAuth, requirePermission('posts.revisions.restore'), (req: AuthedRequest, res, next) => {
+  const rev = parseInt(req.params.rev, 10);
+  const user = req.user!;
+
+  withRevisionAccess(req, res, next, (post) => {
+    (async () => {
+      const [row] = await getRevisions(post.id, [rev]);
+      if (!row) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+
+      const snapshot = JSON.parse(row.snapshot) as RevisionSnapshot;
+      await runStatement(
+        'UPDATE posts SET title = ?, content = ?, nationality = ?, servings = ?, updated_at = ? WHERE id = ?',
+        [snapshot.title, snapshot.content, snapshot.nationality, snapshot.servings, new Date().toISOString(), post.id],
+      );
+      await replacePostIngredients(post.id, snapshot.ingredients);
+      await replacePostSteps(post.id, snapshot.steps);
+      await recordRevision(post.id, user, { restoredFrom: rev });
+
+      securityLogger.info('post_revision_restored', {
+        postId: post.id,
+        revision: rev,
+        restoredBy: user.id,
+        restoredByName: user.name,
+        postTitle: snapshot.title,
+        description: `${user.name} restored post "${snapshot.title}" to revision ${rev}`,
+      });
+
+      db.get<RevisionRow>(
+        'SELECT * FROM post_revisions WHERE post_id = ? ORDER BY revision DESC LIMIT 1',
+        [post.id],
+        (err, latest) => {
+          if (err) return next(err);
+          res.json({ revision: serializeRevision(latest!, true) });
+        }
+      );
+    })().catch(next);
+  });
+});
+
+export { router as postRevisionsRouter };
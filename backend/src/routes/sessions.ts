@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, requireAuth } from '../middleware/auth';
+import { securityLogger } from '../middleware/logging';
+import { listUserSessions, revokeUserSessions, serializeUserSession } from '../utils/sessions';
+
+// Mounted under /api/auth/sessions
+const router = Router();
+
+const sessionIdSchema = z.coerce.number().int().positive();
+
+/**
+ * GET /api/auth/sessions - Where the current user is signed in, most recently active first
+ */
+router.get('/', requireAuth, (req: AuthedRequest, res, next) => {
+  listUserSessions(req.user!.id)
+    .then((rows) => res.json({ sessions: rows.map((row) => serializeUserSession(row, req.sessionID)) }))
+    .catch(next);
+});
+
+/**
+ * DELETE /api/auth/sessions/:id - Sign out one of the current user's other sessions
+ */
+router.delete('/:id', requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = sessionIdSchema.safeParse(req.params.id);
+    const user = req.user!;
+    const row = id.success ? (await listUserSessions(user.id)).find((s) => s.id === id.data) : undefined;
+    if (!row) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (row.session_id === req.sessionID) {
+      return res.status(400).json({ error: 'Use log out to end the session you are using' });
+    }
+
+    await revokeUserSessions(req, [row]);
+    securityLogger.info('session_revoked', {
+      userId: user.id,
+      email: user.email,
+      sessionRowId: row.id,
+      sessionIp: row.ip,
+      description: `${user.name} signed out one of their other sessions`,
+    });
+    res.json({ message: 'Session signed out' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions - Sign out every session of the current user except this one
+ */
+router.delete('/', requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const user = req.user!;
+    const others = (await listUserSessions(user.id)).filter((row) => row.session_id !== req.sessionID);
+
+    await revokeUserSessions(req, others);
+    if (others.length > 0) {
+      securityLogger.info('session_revoked', {
+        userId: user.id,
+        email: user.email,
+        count: others.length,
+        description: `${user.name} signed out ${others.length} other session${others.length === 1 ? '' : 's'}`,
+      });
+    }
+    res.json({ revoked: others.length });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export { router as sessionsRouter };
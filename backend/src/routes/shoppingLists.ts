@@ -0,0 +1,384 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AuthedRequest, hasPermission, requireAuth } from '../middleware/auth';
+import { db, getPostIngredients, insertRow, runStatement } from '../db';
+import { securityLogger } from '../middleware/logging';
+import { extractIngredients } from '../utils/ingredients';
+import { canViewPost } from '../utils/postVisibility';
+import { listQuerySchema, paginate } from '../utils/pagination';
+import { toIsoDate } from '../utils/dates';
+import { checkContent } from '../utils/moderationRules';
+import { AISLES, ShoppingSource, consolidateIngredients, formatItemLine, toCsv, toPlainText } from '../utils/shoppingList';
+
+const router = Router();
+
+const MAX_RECIPES = 30;
+
+const createListSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  recipes: z
+    .array(
+      z.object({
+        postId: z.coerce.number().int().positive(),
+        servings: z.coerce.number().int().min(1).max(100).optional(),
+      }),
+    )
+    .min(1)
+    .max(MAX_RECIPES),
+});
+
+const updateItemSchema = z.object({
+  checked: z.boolean(),
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(['text', 'csv']).default('text'),
+});
+
+const listListsQuerySchema = listQuerySchema(['createdAt'], 'createdAt', {});
+
+interface ShoppingListRow {
+  id: number;
+  user_id: number;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  item_count?: number;
+  checked_count?: number;
+}
+
+interface ShoppingListItemRow {
+  id: number;
+  list_id: number;
+  position: number;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  aisle: string;
+  recipes: string;
+  checked: number;
+}
+
+interface ShoppingListRecipeRow {
+  post_id: number;
+  title: string;
+  servings: number | null;
+}
+
+interface SourcePostRow {
+  id: number;
+  title: string;
+  content: string;
+  servings: number | null;
+  status: string;
+  author_id: number;
+  deleted_at: string | null;
+}
+
+function serializeList(l: ShoppingListRow) {
+  return {
+    id: l.id,
+    name: l.name,
+    itemCount: l.item_count ?? 0,
+    checkedCount: l.checked_count ?? 0,
+    createdAt: l.created_at,
+    updatedAt: l.updated_at,
+  };
+}
+
+function serializeItem(i: ShoppingListItemRow) {
+  return {
+    id: i.id,
+    name: i.name,
+    quantity: i.quantity,
+    unit: i.unit,
+    display: formatItemLine(i),
+    aisle: i.aisle,
+    recipes: JSON.parse(i.recipes) as string[],
+    checked: !!i.checked,
+  };
+}
+
+// Loads the list from the URL; only its owner (or anyone with shopping_lists.manage.any) may use it
+function withOwnedList(
+  req: AuthedRequest,
+  res: Response,
+  next: NextFunction,
+  action: string,
+  cb: (list: ShoppingListRow) => void,
+) {
+  const listId = parseInt(req.params.id, 10);
+  const userId = req.user!.id;
+  const canManageAny = hasPermission(req, 'shopping_lists.manage.any');
+
+  db.get<ShoppingListRow>('SELECT * FROM shopping_lists WHERE id = ?', [listId], (err, list) => {
+    if (err) return next(err);
+    if (!list) {
+      return res.status(404).json({ error: 'Shopping list not found' });
+    }
+
+    if (list.user_id !== userId && !canManageAny) {
+      securityLogger.warn('unauthorized_shopping_list_access', {
+        userId,
+        listId,
+        listOwner: list.user_id,
+        action,
+      });
+      return res.status(403).json({ error: 'Not authorized to access this shopping list' });
+    }
+
+    cb(list);
+  });
+}
+
+function loadListDetails(listId: number): Promise<{ recipes: ShoppingListRecipeRow[]; items: ShoppingListItemRow[] }> {
+  return new Promise((resolve, reject) => {
+    db.all<ShoppingListRecipeRow>(
+      'SELECT post_id, title, servings FROM shopping_list_recipes WHERE list_id = ? ORDER BY id',
+      [listId],
+      (err, recipes) => {
+        if (err) return reject(err);
+        db.all<ShoppingListItemRow>(
+          'SELECT * FROM shopping_list_items WHERE list_id = ? ORDER BY position',
+          [listId],
+          (itemsErr, items) => {
+            if (itemsErr) return reject(itemsErr);
+            resolve({ recipes: recipes || [], items: items || [] });
+          }
+        );
+      }
+    );
+  });
+}
+
+function sendList(res: Response, next: NextFunction, list: ShoppingListRow, status = 200) {
+  loadListDetails(list.id)
+    .then(({ recipes, items }) => {
+      const serialized = items.map(serializeItem);
+      res.status(status).json({
+        list: {
+          ...serializeList({
+            ...list,
+            item_count: items.length,
+            checked_count: items.filter((i) => i.checked).length,
+          }),
+          recipes: recipes.map((r) => ({ postId: r.post_id, title: r.title, servings: r.servings })),
+          aisles: AISLES.map((aisle) => ({ aisle, items: serialized.filter((i) => i.aisle === aisle) })).filter(
+            (group) => group.items.length > 0,
+          ),
+        },
+      });
+    })
+    .catch(next);
+}
+
+/**
+ * GET /api/shopping-lists - The current user's shopping lists, newest first
+ */
+router.get('/', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = listListsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  paginate<ShoppingListRow>(
+    {
+      select: `l.*,
+        (SELECT COUNT(*) FROM shopping_list_items i WHERE i.list_id = l.id) AS item_count,
+        (SELECT COUNT(*) FROM shopping_list_items i WHERE i.list_id = l.id AND i.checked = 1) AS checked_count`,
+      from: 'shopping_lists l',
+      where: ['l.user_id = ?'],
+      params: [req.user!.id],
+      sortColumns: { createdAt: 'l.created_at' },
+      idColumn: 'l.id',
+    },
+    parsed.data,
+  )
+    .then((result) => {
+      res.json({ lists: result.items.map(serializeList), nextCursor: result.nextCursor, total: result.total });
+    })
+    .catch(next);
+});
+
+/**
+ * POST /api/shopping-lists - Build a consolidated list from published recipes
+ * Each recipe may be scaled with `servings`. Recipes without structured ingredients
+ * have their ingredient lines extracted from the recipe text.
+ */
+router.post('/', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { name, recipes } = createListSchema.parse(req.body);
+    const user = req.user!;
+    let listName = `Shopping list ${toIsoDate(new Date())}`;
+
+    // Lists have no moderation queue, so a name a rule sends to review is refused
+    if (name) {
+      const check = checkContent(req, res, 'shopping_list', name, { label: 'list name' });
+      if (!check) return;
+      listName = check.text;
+    }
+
+    const postIds = [...new Set(recipes.map((r) => r.postId))];
+    db.all<SourcePostRow>(
+      `SELECT id, title, content, servings, status, author_id, deleted_at FROM posts WHERE id IN (${postIds.map(() => '?').join(', ')})`,
+      postIds,
+      (err, rows) => {
+        if (err) return next(err);
+
+        const posts = new Map((rows || []).map((p) => [p.id, p]));
+        const unavailable = postIds.filter((id) => {
+          const post = posts.get(id);
+          return !post || !canViewPost(req, post) || post.status !== 'approved';
+        });
+        if (unavailable.length > 0) {
+          return res.status(400).json({ error: 'Only published recipes can be added to a shopping list', postIds: unavailable });
+        }
+
+        (async () => {
+          const sources: ShoppingSource[] = [];
+          for (const recipe of recipes) {
+            const post = posts.get(recipe.postId)!;
+            const structured = await getPostIngredients(post.id);
+            sources.push({
+              recipeTitle: post.title,
+              ingredients: structured.length > 0 ? structured : extractIngredients(post.content),
+              // Without a base yield there is nothing to scale against
+              factor: recipe.servings && post.servings ? recipe.servings / post.servings : 1,
+            });
+          }
+          const items = consolidateIngredients(sources);
+
+          const now = new Date().toISOString();
+          const listId = await insertRow(
+            'INSERT INTO shopping_lists (user_id, name, created_at, updated_at) VALUES (?, ?, ?, ?)',
+            [user.id, listName, now, now],
+          );
+          for (const recipe of recipes) {
+            await runStatement(
+              'INSERT INTO shopping_list_recipes (list_id, post_id, title, servings) VALUES (?, ?, ?, ?)',
+              [listId, recipe.postId, posts.get(recipe.postId)!.title, recipe.servings ?? null],
+            );
+          }
+          for (const [position, item] of items.entries()) {
+            await runStatement(
+              'INSERT INTO shopping_list_items (list_id, position, name, quantity, unit, aisle, recipes) VALUES (?, ?, ?, ?, ?, ?, ?)',
+              [listId, position, item.name, item.quantity, item.unit, item.aisle, JSON.stringify(item.recipes)],
+            );
+          }
+
+          securityLogger.info('shopping_list_created', {
+            listId,
+            userId: user.id,
+            userName: user.name,
+            name: listName,
+            recipeCount: recipes.length,
+            itemCount: items.length,
+            description: `${user.name} created shopping list "${listName}" from ${recipes.length} recipe${recipes.length === 1 ? '' : 's'}`,
+          });
+
+          sendList(res, next, { id: listId, user_id: user.id, name: listName, created_at: now, updated_at: now }, 201);
+        })().catch(next);
+      }
+    );
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * GET /api/shopping-lists/:id - A shopping list with its items grouped by aisle
+ */
+router.get('/:id', requireAuth, (req: AuthedRequest, res, next) => {
+  withOwnedList(req, res, next, 'view', (list) => sendList(res, next, list));
+});
+
+/**
+ * GET /api/shopping-lists/:id/export?format=text|csv - Download the list
+ */
+router.get('/:id/export', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = exportQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  withOwnedList(req, res, next, 'export', (list) => {
+    loadListDetails(list.id)
+      .then(({ items }) => {
+        const exportItems = items.map((i) => ({ ...i, checked: !!i.checked, recipes: JSON.parse(i.recipes) as string[] }));
+        const baseName = list.name.replace(/[^a-zA-Z0-9 _-]/g, '').trim().replace(/\s+/g, '-') || 'shopping-list';
+
+        if (parsed.data.format === 'csv') {
+          res.type('text/csv; charset=utf-8');
+          res.attachment(`${baseName}.csv`);
+          return res.send(toCsv(exportItems));
+        }
+        res.type('text/plain; charset=utf-8');
+        res.attachment(`${baseName}.txt`);
+        res.send(toPlainText(list.name, exportItems));
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * PUT /api/shopping-lists/:id/items/:itemId - Check an item off (or back on)
+ */
+router.put('/:id/items/:itemId', requireAuth, (req: AuthedRequest, res, next) => {
+  try {
+    const { checked } = updateItemSchema.parse(req.body);
+    const itemId = parseInt(req.params.itemId, 10);
+
+    withOwnedList(req, res, next, 'update', (list) => {
+      db.run(
+        'UPDATE shopping_list_items SET checked = ? WHERE id = ? AND list_id = ?',
+        [checked ? 1 : 0, itemId, list.id],
+        function (err) {
+          if (err) return next(err);
+          if (!this.changes) {
+            return res.status(404).json({ error: 'Item not found' });
+          }
+          db.run('UPDATE shopping_lists SET updated_at = ? WHERE id = ?', [new Date().toISOString(), list.id], (touchErr) => {
+            if (touchErr) return next(touchErr);
+            db.get<ShoppingListItemRow>('SELECT * FROM shopping_list_items WHERE id = ?', [itemId], (getErr, item) => {
+              if (getErr) return next(getErr);
+              res.json({ item: serializeItem(item!) });
+            });
+          });
+        }
+      );
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload', details: err.errors });
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /api/shopping-lists/:id - Delete a shopping list
+ */
+router.delete('/:id', requireAuth, (req: AuthedRequest, res, next) => {
+  withOwnedList(req, res, next, 'delete', (list) => {
+    (async () => {
+      await runStatement('DELETE FROM shopping_list_items WHERE list_id = ?', [list.id]);
+      await runStatement('DELETE FROM shopping_list_recipes WHERE list_id = ?', [list.id]);
+      await runStatement('DELETE FROM shopping_lists WHERE id = ?', [list.id]);
+
+      securityLogger.info('shopping_list_deleted', {
+        listId: list.id,
+        userId: req.user!.id,
+        userName: req.user!.name,
+        name: list.name,
+        description: `${req.user!.name} deleted shopping list "${list.name}"`,
+      });
+
+      res.status(204).end();
+    })().catch(next);
+  });
+});
+
+export { router as shoppingListsRouter };
@@ -0,0 +1,462 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { db, runStatement } from '../db';
+import { AuthedRequest, hasPermission, requireAuth, requirePermission } from '../middleware/auth';
+import { securityLogger } from '../middleware/logging';
+import { listQuerySchema, paginate } from '../utils/pagination';
+import { purgeAt, purgeFile, purgePost, purgeUser, restoreUser } from '../utils/trash';
+
+// Mounted under /api/trash (the current user's trash) and /api/admin/trash (everyone's)
+const trashRouter = Router();
+const adminTrashRouter = Router();
+
+const listTrashQuerySchema = listQuerySchema(['deletedAt'], 'deletedAt', {});
+
+const listAllTrashQuerySchema = listQuerySchema(['deletedAt'], 'deletedAt', {
+  userId: z.coerce.number().int().positive().optional(),
+});
+
+interface TrashedPostRow {
+  id: number;
+  title: string;
+  status: string;
+  image_url: string | null;
+  author_id: number;
+  author_name: string;
+  author_deleted_at: string | null;
+  deleted_at: string;
+  deleted_by: number | null;
+  deleted_by_name: string | null;
+}
+
+interface TrashedFileRow {
+  id: number;
+  original_name: string;
+  mime_type: string;
+  size: number;
+  user_id: number;
+  owner_name: string | null;
+  owner_deleted_at: string | null;
+  deleted_at: string;
+  deleted_by: number | null;
+  deleted_by_name: string | null;
+}
+
+interface TrashedUserRow {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  deleted_at: string;
+  deleted_by: number | null;
+  deleted_by_name: string | null;
+}
+
+interface TrashListQuery {
+  select: string;
+  from: string;
+  ownerColumn: string;
+  deletedColumn: string;
+  sortColumns: Record<string, string>;
+  idColumn: string;
+}
+
+const TRASHED_POSTS: TrashListQuery = {
+  select: `p.id, p.title, p.status, p.image_url, p.author_id, p.author_name, a.deleted_at AS author_deleted_at,
+    p.deleted_at, p.deleted_by, d.name AS deleted_by_name`,
+  from: 'posts p LEFT JOIN users a ON a.id = p.author_id LEFT JOIN users d ON d.id = p.deleted_by',
+  ownerColumn: 'p.author_id',
+  deletedColumn: 'p.deleted_at',
+  sortColumns: { deletedAt: 'p.deleted_at' },
+  idColumn: 'p.id',
+};
+
+const TRASHED_FILES: TrashListQuery = {
+  select: `f.id, f.original_name, f.mime_type, f.size, f.user_id, u.name AS owner_name, u.deleted_at AS owner_deleted_at,
+    f.deleted_at, f.deleted_by, d.name AS deleted_by_name`,
+  from: 'file_uploads f LEFT JOIN users u ON u.id = f.user_id LEFT JOIN users d ON d.id = f.deleted_by',
+  ownerColumn: 'f.user_id',
+  deletedColumn: 'f.deleted_at',
+  sortColumns: { deletedAt: 'f.deleted_at' },
+  idColumn: 'f.id',
+};
+
+/**
+ * Whether the current user may take an item out of the trash. Owners can undo their own
+ * deletions; anything removed by someone else, or with its owner, needs trash.manage.
+ * Content deleted together with its owner comes back when the owner is restored.
+ */
+function canRestore(
+  req: AuthedRequest,
+  item: { ownerId: number; ownerDeletedAt: string | null; deletedBy: number | null },
+): boolean {
+  if (item.ownerDeletedAt) return false;
+  if (hasPermission(req, 'trash.manage')) return true;
+  return item.ownerId === req.user!.id && item.deletedBy === req.user!.id;
+}
+
+function serializeTrashedPost(req: AuthedRequest, p: TrashedPostRow) {
+  return {
+    id: p.id,
+    title: p.title,
+    status: p.status,
+    imageUrl: p.image_url,
+    authorId: p.author_id,
+    authorName: p.author_name,
+    deletedAt: p.deleted_at,
+    deletedByName: p.deleted_by_name,
+    purgeAt: purgeAt(p.deleted_at),
+    canRestore: canRestore(req, { ownerId: p.author_id, ownerDeletedAt: p.author_deleted_at, deletedBy: p.deleted_by }),
+  };
+}
+
+function serializeTrashedFile(req: AuthedRequest, f: TrashedFileRow) {
+  return {
+    id: f.id,
+    originalName: f.original_name,
+    mimeType: f.mime_type,
+    size: f.size,
+    userId: f.user_id,
+    ownerName: f.owner_name,
+    deletedAt: f.deleted_at,
+    deletedByName: f.deleted_by_name,
+    purgeAt: purgeAt(f.deleted_at),
+    canRestore: canRestore(req, { ownerId: f.user_id, ownerDeletedAt: f.owner_deleted_at, deletedBy: f.deleted_by }),
+  };
+}
+
+function serializeTrashedUser(u: TrashedUserRow) {
+  return {
+    id: u.id,
+    name: u.name,
+    email: u.email,
+    role: u.role,
+    deletedAt: u.deleted_at,
+    deletedByName: u.deleted_by_name,
+    purgeAt: purgeAt(u.deleted_at),
+  };
+}
+
+/**
+ * Lists trashed posts or files, only the given owner's when `ownerId` is set.
+ */
+function listTrashed<Row extends { id: number }>(
+  res: Response,
+  next: NextFunction,
+  query: TrashListQuery,
+  ownerId: number | undefined,
+  page: z.infer<typeof listTrashQuerySchema>,
+  key: string,
+  serialize: (row: Row) => unknown,
+) {
+  const where = [`${query.deletedColumn} IS NOT NULL`];
+  const params: unknown[] = [];
+  if (ownerId) {
+    where.push(`${query.ownerColumn} = ?`);
+    params.push(ownerId);
+  }
+
+  paginate<Row>(
+    {
+      select: query.select,
+      from: query.from,
+      where,
+      params,
+      sortColumns: query.sortColumns,
+      idColumn: query.idColumn,
+    },
+    page,
+  )
+    .then((result) => {
+      res.json({
+        [key]: result.items.map(serialize),
+        nextCursor: result.nextCursor,
+        total: result.total,
+      });
+    })
+    .catch(next);
+}
+
+function withTrashedPost(req: AuthedRequest, res: Response, next: NextFunction, cb: (post: TrashedPostRow) => void) {
+  db.get<TrashedPostRow>(
+    `SELECT ${TRASHED_POSTS.select} FROM ${TRASHED_POSTS.from} WHERE p.id = ? AND p.deleted_at IS NOT NULL`,
+    [parseInt(req.params.id, 10)],
+    (err, post) => {
+      if (err) return next(err);
+      if (!post) {
+        return res.status(404).json({ error: 'Post not found in the trash' });
+      }
+      cb(post);
+    },
+  );
+}
+
+function withTrashedFile(req: AuthedRequest, res: Response, next: NextFunction, cb: (file: TrashedFileRow) => void) {
+  db.get<TrashedFileRow>(
+    `SELECT ${TRASHED_FILES.select} FROM ${TRASHED_FILES.from} WHERE f.id = ? AND f.deleted_at IS NOT NULL`,
+    [parseInt(req.params.id, 10)],
+    (err, file) => {
+      if (err) return next(err);
+      if (!file) {
+        return res.status(404).json({ error: 'File not found in the trash' });
+      }
+      cb(file);
+    },
+  );
+}
+
+/**
+ * GET /api/trash/posts - The current user's posts in the trash, newest deletion first
+ */
+trashRouter.get('/posts', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = listTrashQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  listTrashed<TrashedPostRow>(res, next, TRASHED_POSTS, req.user!.id, parsed.data, 'posts', (p) =>
+    serializeTrashedPost(req, p),
+  );
+});
+
+/**
+ * GET /api/trash/files - The current user's files in the trash
+ */
+trashRouter.get('/files', requireAuth, (req: AuthedRequest, res, next) => {
+  const parsed = listTrashQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  listTrashed<TrashedFileRow>(res, next, TRASHED_FILES, req.user!.id, parsed.data, 'files', (f) =>
+    serializeTrashedFile(req, f),
+  );
+});
+
+/**
+ * PUT /api/trash/posts/:id/restore - Take a post out of the trash
+ * - Authors can restore posts they deleted themselves; trash.manage can restore any
+ */
+trashRouter.put('/posts/:id/restore', requireAuth, (req: AuthedRequest, res, next) => {
+  const user = req.user!;
+
+  withTrashedPost(req, res, next, (post) => {
+    const isOwner = post.author_id === user.id;
+    if (!isOwner && !hasPermission(req, 'trash.manage')) {
+      return res.status(404).json({ error: 'Post not found in the trash' });
+    }
+    if (post.author_deleted_at) {
+      return res.status(409).json({ error: 'The author is in the trash; restore the author instead' });
+    }
+    if (!canRestore(req, { ownerId: post.author_id, ownerDeletedAt: null, deletedBy: post.deleted_by })) {
+      return res.status(403).json({ error: 'This post was removed by a moderator' });
+    }
+
+    runStatement('UPDATE posts SET deleted_at = NULL, deleted_by = NULL WHERE id = ?', [post.id])
+      .then(() => {
+        securityLogger.info('post_restored', {
+          postId: post.id,
+          title: post.title,
+          restoredBy: user.id,
+          restoredByName: user.name,
+          description: `${user.name} restored post "${post.title}" from the trash`,
+        });
+        res.json({ success: true });
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * PUT /api/trash/files/:id/restore - Take a file out of the trash
+ * - Owners can restore files they deleted themselves; trash.manage can restore any
+ */
+trashRouter.put('/files/:id/restore', requireAuth, (req: AuthedRequest, res, next) => {
+  const user = req.user!;
+
+  withTrashedFile(req, res, next, (file) => {
+    const isOwner = file.user_id === user.id;
+    if (!isOwner && !hasPermission(req, 'trash.manage')) {
+      return res.status(404).json({ error: 'File not found in the trash' });
+    }
+    if (file.owner_deleted_at) {
+      return res.status(409).json({ error: 'The owner is in the trash; restore the owner instead' });
+    }
+    if (!canRestore(req, { ownerId: file.user_id, ownerDeletedAt: null, deletedBy: file.deleted_by })) {
+      return res.status(403).json({ error: 'This file was removed by a moderator' });
+    }
+
+    runStatement('UPDATE file_uploads SET deleted_at = NULL, deleted_by = NULL WHERE id = ?', [file.id])
+      .then(() => {
+        securityLogger.info('file_restored', {
+          fileId: file.id,
+          original: file.original_name,
+          restoredBy: user.id,
+          restoredByName: user.name,
+          description: `${user.name} restored file "${file.original_name}" from the trash`,
+        });
+        res.json({ success: true });
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * GET /api/admin/trash/posts - Every trashed post (requires trash.manage)
+ * - `userId` narrows to one author
+ */
+adminTrashRouter.get('/posts', requireAuth, requirePermission('trash.manage'), (req: AuthedRequest, res, next) => {
+  const parsed = listAllTrashQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  const { userId, ...page } = parsed.data;
+  listTrashed<TrashedPostRow>(res, next, TRASHED_POSTS, userId, page, 'posts', (p) => serializeTrashedPost(req, p));
+});
+
+/**
+ * GET /api/admin/trash/files - Every trashed file (requires trash.manage)
+ * - `userId` narrows to one owner
+ */
+adminTrashRouter.get('/files', requireAuth, requirePermission('trash.manage'), (req: AuthedRequest, res, next) => {
+  const parsed = listAllTrashQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+  const { userId, ...page } = parsed.data;
+  listTrashed<TrashedFileRow>(res, next, TRASHED_FILES, userId, page, 'files', (f) => serializeTrashedFile(req, f));
+});
+
+/**
+ * GET /api/admin/trash/users - Every trashed user (requires trash.manage)
+ */
+adminTrashRouter.get('/users', requireAuth, requirePermission('trash.manage'), (req: AuthedRequest, res, next) => {
+  const parsed = listTrashQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid query parameters' });
+  }
+
+  paginate<TrashedUserRow>(
+    {
+      select: 'u.id, u.name, u.email, u.role, u.deleted_at, u.deleted_by, d.name AS deleted_by_name',
+      from: 'users u LEFT JOIN users d ON d.id = u.deleted_by',
+      where: ['u.deleted_at IS NOT NULL'],
+      params: [],
+      sortColumns: { deletedAt: 'u.deleted_at' },
+      idColumn: 'u.id',
+    },
+    parsed.data,
+  )
+    .then((result) => {
+      res.json({
+        users: result.items.map(serializeTrashedUser),
+        nextCursor: result.nextCursor,
+        total: result.total,
+      });
+    })
+    .catch(next);
+});
+
+function withTrashedUser(req: AuthedRequest, res: Response, next: NextFunction, cb: (user: TrashedUserRow) => void) {
+  db.get<TrashedUserRow>(
+    'SELECT u.id, u.name, u.email, u.role, u.deleted_at, u.deleted_by, NULL AS deleted_by_name FROM users u WHERE u.id = ? AND u.deleted_at IS NOT NULL',
+    [parseInt(req.params.id, 10)],
+    (err, user) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found in the trash' });
+      }
+      cb(user);
+    },
+  );
+}
+
+/**
+ * PUT /api/admin/trash/users/:id/restore - Restore a user with the posts and files deleted along with them
+ * (requires trash.manage)
+ */
+adminTrashRouter.put('/users/:id/restore', requireAuth, requirePermission('trash.manage'), (req: AuthedRequest, res, next) => {
+  const actor = req.user!;
+
+  withTrashedUser(req, res, next, (user) => {
+    restoreUser(user.id, user.deleted_at)
+      .then(() => {
+        securityLogger.info('user_restored', {
+          targetUserId: user.id,
+          targetUserName: user.name,
+          restoredBy: actor.id,
+          restoredByName: actor.name,
+          description: `${actor.name} restored user "${user.name}" (${user.email}) from the trash`,
+        });
+        res.json({ success: true });
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * DELETE /api/admin/trash/posts/:id - Permanently delete a trashed post now (requires trash.manage)
+ */
+adminTrashRouter.delete('/posts/:id', requireAuth, requirePermission('trash.manage'), (req: AuthedRequest, res, next) => {
+  const actor = req.user!;
+
+  withTrashedPost(req, res, next, (post) => {
+    purgePost(post.id)
+      .then(() => {
+        securityLogger.info('post_purged', {
+          postId: post.id,
+          title: post.title,
+          purgedBy: actor.id,
+          purgedByName: actor.name,
+          description: `${actor.name} permanently deleted post "${post.title}"`,
+        });
+        res.status(204).end();
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * DELETE /api/admin/trash/files/:id - Permanently delete a trashed file now (requires trash.manage)
+ */
+adminTrashRouter.delete('/files/:id', requireAuth, requirePermission('trash.manage'), (req: AuthedRequest, res, next) => {
+  const actor = req.user!;
+
+  withTrashedFile(req, res, next, (file) => {
+    purgeFile(file.id)
+      .then(() => {
+        securityLogger.info('file_purged', {
+          fileId: file.id,
+          original: file.original_name,
+          purgedBy: actor.id,
+          purgedByName: actor.name,
+          description: `${actor.name} permanently deleted file "${file.original_name}"`,
+        });
+        res.status(204).end();
+      })
+      .catch(next);
+  });
+});
+
+/**
+ * DELETE /api/admin/trash/users/:id - Permanently delete a trashed user and everything they own now
+ * (requires trash.manage)
+ */
+adminTrashRouter.delete('/users/:id', requireAuth, requirePermission('trash.manage'), (req: AuthedRequest, res, next) => {
+  const actor = req.user!;
+
+  withTrashedUser(req, res, next, (user) => {
+    purgeUser(user.id)
+      .then(() => {
+        securityLogger.info('user_purged', {
+          targetUserId: user.id,
+          targetUserName: user.name,
+          purgedBy: actor.id,
+          purgedByName: actor.name,
+          description: `${actor.name} permanently deleted user "${user.name}" (${user.email})`,
+        });
+        res.status(204).end();
+      })
+      .catch(next);
+  });
+});
+
+export { trashRouter, adminTrashRouter };
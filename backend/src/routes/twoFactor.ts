@@ -0,0 +1,210 @@
+import { Router } from 'express';
+import bcrypt from 'bcryptjs';
+import QRCode from 'qrcode';
+import { z } from 'zod';
+import { findUserById, runStatement } from '../db';
+import { AuthedRequest, requireAuthForTwoFactorSetup } from '../middleware/auth';
+import { securityLogger } from '../middleware/logging';
+import { accountKey, ipKey, recordSignInFailure, rejectIfThrottled } from '../utils/loginThrottle';
+import { generateTotpSecret, totpProvisioningUri } from '../utils/totp';
+import {
+  acceptTotp,
+  countRecoveryCodes,
+  replaceRecoveryCodes,
+  roleRequiresTwoFactor,
+  verifySecondFactor,
+} from '../utils/twoFactor';
+
+// Mounted under /api/auth/2fa
+const router = Router();
+
+const codeSchema = z.object({
+  code: z.string().min(6).max(32),
+});
+
+const disableSchema = z.object({
+  password: z.string().min(1),
+});
+
+/**
+ * GET /api/auth/2fa - Whether the current user has 2FA on and how many recovery codes are left
+ */
+router.get('/', requireAuthForTwoFactorSetup, async (req: AuthedRequest, res, next) => {
+  try {
+    const user = await findUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json({
+      enabled: !!user.totp_enabled_at,
+      enabledAt: user.totp_enabled_at,
+      recoveryCodesRemaining: user.totp_enabled_at ? await countRecoveryCodes(user.id) : 0,
+      required: roleRequiresTwoFactor(user.role),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/auth/2fa/setup - Start setting up 2FA: a new secret and its QR code.
+ * The secret is kept in the session until /enable confirms a code from it.
+ */
+router.post('/setup', requireAuthForTwoFactorSetup, async (req: AuthedRequest, res, next) => {
+  try {
+    const user = await findUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.totp_enabled_at) {
+      return res.status(400).json({ error: 'Two-factor authentication is already on' });
+    }
+
+    const secret = generateTotpSecret();
+    (req.session as any).pendingTotpSecret = secret;
+
+    const otpauthUri = totpProvisioningUri(secret, user.email);
+    res.json({
+      secret,
+      otpauthUri,
+      qrCode: await QRCode.toDataURL(otpauthUri),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/auth/2fa/enable - Finish setup with a code from the authenticator app.
+ * Returns the recovery codes; they are not shown again.
+ */
+router.post('/enable', requireAuthForTwoFactorSetup, async (req: AuthedRequest, res, next) => {
+  try {
+    const { code } = codeSchema.parse(req.body);
+    const secret = (req.session as any).pendingTotpSecret as string | undefined;
+    if (!secret) {
+      return res.status(400).json({ error: 'Start the two-factor setup first' });
+    }
+
+    const user = await findUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.totp_enabled_at) {
+      return res.status(400).json({ error: 'Two-factor authentication is already on' });
+    }
+
+    if (!(await acceptTotp(user.id, secret, code.trim(), null))) {
+      securityLogger.warn('two_factor_failed', { userId: user.id, email: user.email, action: 'enable' });
+      return res.status(400).json({ error: 'That code is not valid. Check the time on your device and try again.' });
+    }
+
+    await runStatement('UPDATE users SET totp_secret = ?, totp_enabled_at = ? WHERE id = ?', [
+      secret,
+      new Date().toISOString(),
+      user.id,
+    ]);
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+    delete (req.session as any).pendingTotpSecret;
+
+    securityLogger.info('two_factor_enabled', {
+      userId: user.id,
+      email: user.email,
+      description: `${user.name} turned on two-factor authentication`,
+    });
+    res.json({ enabled: true, recoveryCodes });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload' });
+    }
+    next(err);
+  }
+});
+
+/**
+ * POST /api/auth/2fa/recovery-codes - Replace the recovery codes (needs a current code).
+ * Wrong codes count towards the sign-in throttle like they do at login.
+ */
+router.post('/recovery-codes', requireAuthForTwoFactorSetup, async (req: AuthedRequest, res, next) => {
+  try {
+    const { code } = codeSchema.parse(req.body);
+    const user = await findUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.totp_enabled_at) {
+      return res.status(400).json({ error: 'Two-factor authentication is not on' });
+    }
+
+    const throttleKeys = [accountKey(user.email), ipKey(req.ip)];
+    if (await rejectIfThrottled(req, res, throttleKeys, user.email)) return;
+
+    if (!(await verifySecondFactor(user, code))) {
+      securityLogger.warn('two_factor_failed', { userId: user.id, email: user.email, action: 'recovery_codes' });
+      await recordSignInFailure(req, throttleKeys);
+      return res.status(400).json({ error: 'That code is not valid' });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+    securityLogger.info('recovery_codes_regenerated', {
+      userId: user.id,
+      email: user.email,
+      description: `${user.name} generated new 2FA recovery codes`,
+    });
+    res.json({ recoveryCodes });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload' });
+    }
+    next(err);
+  }
+});
+
+/**
+ * POST /api/auth/2fa/disable - Turn 2FA off (needs the password).
+ * Not possible while the user's role requires 2FA. Wrong passwords count towards the sign-in throttle.
+ */
+router.post('/disable', requireAuthForTwoFactorSetup, async (req: AuthedRequest, res, next) => {
+  try {
+    const { password } = disableSchema.parse(req.body);
+    const user = await findUserById(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.totp_enabled_at) {
+      return res.status(400).json({ error: 'Two-factor authentication is not on' });
+    }
+    if (roleRequiresTwoFactor(user.role)) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+    }
+
+    const throttleKeys = [accountKey(user.email), ipKey(req.ip)];
+    if (await rejectIfThrottled(req, res, throttleKeys, user.email)) return;
+
+    if (!(await bcrypt.compare(password, user.password_hash))) {
+      securityLogger.warn('two_factor_failed', { userId: user.id, email: user.email, action: 'disable' });
+      await recordSignInFailure(req, throttleKeys);
+      return res.status(401).json({ error: 'Incorrect password' });
+    }
+
+    await runStatement(
+      'UPDATE users SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL WHERE id = ?',
+      [user.id],
+    );
+    await runStatement('DELETE FROM recovery_codes WHERE user_id = ?', [user.id]);
+
+    securityLogger.info('two_factor_disabled', {
+      userId: user.id,
+      email: user.email,
+      description: `${user.name} turned off two-factor authentication`,
+    });
+    res.json({ enabled: false });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload' });
+    }
+    next(err);
+  }
+});
+
+export { router as twoFactorRouter };
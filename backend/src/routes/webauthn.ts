@@ -0,0 +1,290 @@
+import { Router } from 'express';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
+import { z } from 'zod';
+import { findUserById } from '../db';
+import { AuthedRequest, requireAuth } from '../middleware/auth';
+import { securityLogger } from '../middleware/logging';
+import { accountKey, clearThrottle } from '../utils/loginThrottle';
+import { serializeAuthUser, startAuthenticatedSession } from '../utils/sessions';
+import { isSuspended, suspendedResponse } from '../utils/suspension';
+import {
+  WEBAUTHN_CHALLENGE_TTL_MS,
+  WEBAUTHN_ORIGINS,
+  WEBAUTHN_RP_ID,
+  WEBAUTHN_RP_NAME,
+  addCredential,
+  deleteCredential,
+  findCredential,
+  listCredentials,
+  recordCredentialUse,
+  serializeCredential,
+  toWebAuthnCredential,
+} from '../utils/webauthn';
+
+// Mounted under /api/auth/webauthn
+const router = Router();
+
+interface PendingChallenge {
+  challenge: string;
+  expiresAt: number;
+}
+
+// The browser's PublicKeyCredential as JSON; the library checks its contents
+const credentialResponseSchema = z
+  .object({
+    id: z.string().min(1),
+    rawId: z.string().min(1),
+    type: z.literal('public-key'),
+    response: z.object({}).passthrough(),
+  })
+  .passthrough();
+
+const registerVerifySchema = z.object({
+  name: z.string().trim().max(60).optional(),
+  response: credentialResponseSchema,
+});
+
+const loginVerifySchema = z.object({
+  response: credentialResponseSchema,
+});
+
+const credentialIdSchema = z.coerce.number().int().positive();
+
+// Challenges live in the session and are used up by the first answer, right or wrong
+function takeChallenge(req: AuthedRequest, key: 'webauthnRegistration' | 'webauthnLogin'): string | null {
+  const pending = (req.session as any)[key] as PendingChallenge | undefined;
+  delete (req.session as any)[key];
+  if (!pending || pending.expiresAt < Date.now()) return null;
+  return pending.challenge;
+}
+
+function storeChallenge(req: AuthedRequest, key: 'webauthnRegistration' | 'webauthnLogin', challenge: string) {
+  (req.session as any)[key] = { challenge, expiresAt: Date.now() + WEBAUTHN_CHALLENGE_TTL_MS } satisfies PendingChallenge;
+}
+
+/**
+ * GET /api/auth/webauthn/credentials - The current user's passkeys
+ */
+router.get('/credentials', requireAuth, (req: AuthedRequest, res, next) => {
+  listCredentials(req.user!.id)
+    .then((rows) => res.json({ credentials: rows.map(serializeCredential) }))
+    .catch(next);
+});
+
+/**
+ * POST /api/auth/webauthn/register/options - Options for navigator.credentials.create()
+ */
+router.post('/register/options', requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const user = req.user!;
+    const existing = await listCredentials(user.id);
+
+    const options = await generateRegistrationOptions({
+      rpName: WEBAUTHN_RP_NAME,
+      rpID: WEBAUTHN_RP_ID,
+      userName: user.email,
+      userDisplayName: user.name,
+      userID: new Uint8Array(Buffer.from(String(user.id))),
+      attestationType: 'none',
+      // The same authenticator cannot be registered twice
+      excludeCredentials: existing.map((row) => {
+        const { id, transports } = toWebAuthnCredential(row);
+        return { id, transports };
+      }),
+      // Discoverable, so the login page can offer passkeys without asking for an email
+      authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+      timeout: WEBAUTHN_CHALLENGE_TTL_MS,
+    });
+
+    storeChallenge(req, 'webauthnRegistration', options.challenge);
+    res.json(options);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/auth/webauthn/register/verify - Store the passkey the browser created
+ */
+router.post('/register/verify', requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const { name, response } = registerVerifySchema.parse(req.body);
+    const user = req.user!;
+
+    const expectedChallenge = takeChallenge(req, 'webauthnRegistration');
+    if (!expectedChallenge) {
+      return res.status(400).json({ error: 'The passkey setup has expired, please try again' });
+    }
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response: response as unknown as RegistrationResponseJSON,
+        expectedChallenge,
+        expectedOrigin: WEBAUTHN_ORIGINS,
+        expectedRPID: WEBAUTHN_RP_ID,
+        requireUserVerification: true,
+      });
+    } catch (err) {
+      securityLogger.warn('passkey_failed', {
+        userId: user.id,
+        action: 'register',
+        reason: err instanceof Error ? err.message : String(err),
+      });
+      return res.status(400).json({ error: 'The passkey could not be verified' });
+    }
+    if (!verification.verified) {
+      securityLogger.warn('passkey_failed', { userId: user.id, action: 'register', reason: 'not_verified' });
+      return res.status(400).json({ error: 'The passkey could not be verified' });
+    }
+
+    const { credential } = verification.registrationInfo;
+    if (await findCredential(credential.id)) {
+      return res.status(409).json({ error: 'This passkey is already registered' });
+    }
+
+    const row = await addCredential(user.id, credential, name || 'Passkey');
+    securityLogger.info('passkey_registered', {
+      userId: user.id,
+      email: user.email,
+      credentialId: row.id,
+      passkeyName: row.name,
+      description: `${user.name} added the passkey "${row.name}"`,
+    });
+    res.status(201).json({ credential: serializeCredential(row) });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload' });
+    }
+    next(err);
+  }
+});
+
+/**
+ * DELETE /api/auth/webauthn/credentials/:id - Revoke one of the current user's passkeys
+ */
+router.delete('/credentials/:id', requireAuth, async (req: AuthedRequest, res, next) => {
+  try {
+    const id = credentialIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(404).json({ error: 'Passkey not found' });
+    }
+
+    const user = req.user!;
+    const row = await deleteCredential(user.id, id.data);
+    if (!row) {
+      return res.status(404).json({ error: 'Passkey not found' });
+    }
+
+    securityLogger.info('passkey_revoked', {
+      userId: user.id,
+      email: user.email,
+      credentialId: row.id,
+      passkeyName: row.name,
+      description: `${user.name} removed the passkey "${row.name}"`,
+    });
+    res.json({ message: 'Passkey removed' });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/auth/webauthn/login/options - Options for navigator.credentials.get().
+ * No account is named: the browser offers whichever passkeys it has for this site.
+ */
+router.post('/login/options', async (req, res, next) => {
+  try {
+    const options = await generateAuthenticationOptions({
+      rpID: WEBAUTHN_RP_ID,
+      userVerification: 'required',
+      timeout: WEBAUTHN_CHALLENGE_TTL_MS,
+    });
+    storeChallenge(req, 'webauthnLogin', options.challenge);
+    res.json(options);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/auth/webauthn/login/verify - Sign in with the passkey's assertion.
+ * A passkey replaces both the password and the second factor.
+ */
+router.post('/login/verify', async (req, res, next) => {
+  try {
+    const { response } = loginVerifySchema.parse(req.body);
+
+    const expectedChallenge = takeChallenge(req, 'webauthnLogin');
+    if (!expectedChallenge) {
+      return res.status(400).json({ error: 'The passkey sign-in has expired, please try again' });
+    }
+
+    const row = await findCredential(response.id);
+    const user = row ? await findUserById(row.user_id) : undefined;
+    if (!row || !user) {
+      securityLogger.warn('passkey_failed', { action: 'login', reason: 'unknown_credential', ip: req.ip });
+      return res.status(401).json({ error: 'This passkey is not registered' });
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response: response as unknown as AuthenticationResponseJSON,
+        expectedChallenge,
+        expectedOrigin: WEBAUTHN_ORIGINS,
+        expectedRPID: WEBAUTHN_RP_ID,
+        credential: toWebAuthnCredential(row),
+        requireUserVerification: true,
+      });
+    } catch (err) {
+      securityLogger.warn('passkey_failed', {
+        userId: user.id,
+        action: 'login',
+        reason: err instanceof Error ? err.message : String(err),
+      });
+      return res.status(401).json({ error: 'The passkey could not be verified' });
+    }
+
+    const userHandle = (response.response as { userHandle?: string }).userHandle;
+    const ownedByUser = !userHandle || Buffer.from(userHandle, 'base64url').toString() === String(user.id);
+    if (!verification.verified || !ownedByUser) {
+      securityLogger.warn('passkey_failed', { userId: user.id, action: 'login', reason: 'not_verified' });
+      return res.status(401).json({ error: 'The passkey could not be verified' });
+    }
+
+    if (!(await recordCredentialUse(row, verification.authenticationInfo.newCounter))) {
+      securityLogger.warn('passkey_failed', { userId: user.id, action: 'login', reason: 'replayed' });
+      return res.status(401).json({ error: 'The passkey could not be verified' });
+    }
+
+    if (isSuspended(user)) {
+      securityLogger.warn('login_failed', { email: user.email, userId: user.id, reason: 'account_suspended' });
+      return res.status(403).json(suspendedResponse(user));
+    }
+
+    await clearThrottle(accountKey(user.email));
+    await startAuthenticatedSession(req, user);
+    securityLogger.info('login_success', {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      method: 'passkey',
+      description: `${user.name} logged in with a passkey`,
+    });
+    res.json({ user: serializeAuthUser(user) });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid payload' });
+    }
+    next(err);
+  }
+});
+
+export { router as webauthnRouter };
@@ -1,5 +1,9 @@
 import { createServer } from './setup/app';
 import { initDb, db } from './db';
+import { startPublishScheduler } from './jobs/publishScheduler';
+import { startTrashPurger } from './jobs/trashPurger';
+import { startSessionCleanup } from './jobs/sessionCleanup';
+import { refreshPolicies } from './utils/policyCache';
 import bcrypt from 'bcryptjs';
 import fs from 'fs';
 import path from 'path';
@@ -70,11 +74,21 @@ async function startServer() {
     
     // Then seed if needed
     await autoSeed();
+
+    // Permissions, the sign-in policy and the moderation rules are checked from memory
+    await refreshPolicies();
     
     // Create Express app (this also calls initDb but it's idempotent)
     const app = createServer();
     const port = process.env.PORT || 4000;
     
+    // Background job that puts scheduled posts live once their time comes
+    startPublishScheduler();
+    // Background job that permanently removes what has been in the trash too long
+    startTrashPurger();
+    // Background job that removes expired sessions
+    startSessionCleanup();
+
     app.listen(port, () => {
       console.log(`\n🚀 Backend server listening on port ${port}`);
       console.log(`📍 API: http://localhost:${port}/api`);
@@ -10,7 +10,14 @@ import { authRouter } from '../routes/auth';
 import { adminRouter } from '../routes/admin';
 import { fileRouter } from '../routes/files';
 import { postsRouter } from '../routes/posts';
+import { commentsRouter } from '../routes/comments';
+import { collectionsRouter } from '../routes/collections';
+import { mealPlansRouter } from '../routes/mealPlans';
+import { shoppingListsRouter } from '../routes/shoppingLists';
+import { trashRouter } from '../routes/trash';
 import { errorHandler } from '../middleware/errorHandler';
+import { sessionStore } from '../utils/sessionStore';
+import { policyRefresh } from '../utils/policyCache';
 import { securityLogger, requestLogger } from '../middleware/logging';
 
 const ONE_HOUR_MS = 1000 * 60 * 60;
@@ -69,6 +76,8 @@ export function createServer() {
     session({
       name: 'sid',
       secret: sessionSecret,
+      // Kept in SQLite so sessions survive restarts and are shared between instances
+      store: sessionStore,
       resave: false,
       saveUninitialized: false,
       cookie: {
@@ -91,6 +100,9 @@ export function createServer() {
   });
   app.use('/api/', limiter);
 
+  // Picks up permission, sign-in policy and moderation rule changes made by other instances
+  app.use('/api/', policyRefresh);
+
   // CSRF protection (uses session + cookies)
   const csrfProtection = csrf({
     cookie: false,
@@ -134,6 +146,11 @@ export function createServer() {
   app.use('/api/admin', csrfProtection, adminRouter);
   app.use('/api/files', csrfProtection, fileRouter);
   app.use('/api/posts', csrfProtection, postsRouter);
+  app.use('/api/comments', csrfProtection, commentsRouter);
+  app.use('/api/collections', csrfProtection, collectionsRouter);
+  app.use('/api/meal-plans', csrfProtection, mealPlansRouter);
+  app.use('/api/shopping-lists', csrfProtection, shoppingListsRouter);
+  app.use('/api/trash', csrfProtection, trashRouter);
 
   // Static serving for uploaded files is intentionally avoided.
   // Files are served via authenticated download endpoints only.
@@ -0,0 +1,46 @@
+/**
+ * Calendar-date helpers for features that work in whole days (meal planning).
+ * Dates travel as `YYYY-MM-DD` strings and are treated as UTC so the same plan
+ * shows on the same day regardless of the server's time zone.
+ */
+
+import { z } from 'zod';
+
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+export type MealType = (typeof MEAL_TYPES)[number];
+
+export const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD')
+  .refine(
+    (value) => {
+      // Rejects impossible dates such as 2025-02-30, which Date would roll over into March
+      const date = parseIsoDate(value);
+      return !Number.isNaN(date.getTime()) && toIsoDate(date) === value;
+    },
+    { message: 'Invalid date' },
+  );
+
+export function parseIsoDate(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(value: string, days: number): string {
+  const date = parseIsoDate(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIsoDate(date);
+}
+
+/** Monday of the week containing `value` */
+export function weekStart(value: string): string {
+  const day = parseIsoDate(value).getUTCDay();
+  return addDays(value, -((day + 6) % 7));
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / 86_400_000);
+}
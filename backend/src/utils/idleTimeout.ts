@@ -0,0 +1,64 @@
+/**
+ * Signing out idle sessions. Every authenticated request stamps the session's
+ * `lastActivity`; a request that comes after the role's idle timeout has run out ends
+ * the session instead. The timeout is set per role in `role_settings.idle_timeout_minutes`
+ * and falls back to IDLE_TIMEOUT_MINUTES. The policy is cached in memory and reloaded
+ * when the table changes (see policyCache.ts).
+ */
+
+import { Session } from 'express-session';
+import { allRows, runStatement } from '../db';
+import { Role, ROLES } from './permissions';
+import { watchPolicyTable } from './policyCache';
+
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = parseInt(process.env.IDLE_TIMEOUT_MINUTES || '25', 10) || 25;
+
+// The client warns two minutes ahead, and a session ends after an hour without requests anyway
+export const MIN_IDLE_TIMEOUT_MINUTES = 5;
+export const MAX_IDLE_TIMEOUT_MINUTES = 60;
+
+let roleTimeouts: Partial<Record<Role, number>> = {};
+
+export function loadIdleTimeoutPolicy(): Promise<void> {
+  return allRows<{ role: Role; idle_timeout_minutes: number }>(
+    'SELECT role, idle_timeout_minutes FROM role_settings WHERE idle_timeout_minutes IS NOT NULL',
+    [],
+  ).then((rows) => {
+    roleTimeouts = Object.fromEntries(rows.map((r) => [r.role, r.idle_timeout_minutes]));
+  });
+}
+
+watchPolicyTable('role_settings', loadIdleTimeoutPolicy);
+
+/**
+ * Sets the role's idle timeout in minutes; null goes back to the default.
+ */
+export async function setRoleIdleTimeout(role: Role, minutes: number | null): Promise<void> {
+  await runStatement(
+    'INSERT INTO role_settings (role, idle_timeout_minutes) VALUES (?, ?) ON CONFLICT(role) DO UPDATE SET idle_timeout_minutes = excluded.idle_timeout_minutes',
+    [role, minutes],
+  );
+  await loadIdleTimeoutPolicy();
+}
+
+export function idleTimeoutMinutes(role: Role): number {
+  return roleTimeouts[role] ?? DEFAULT_IDLE_TIMEOUT_MINUTES;
+}
+
+// null where the role uses the default
+export function idleTimeoutPolicy(): { role: Role; idleTimeoutMinutes: number | null }[] {
+  return ROLES.map((role) => ({ role, idleTimeoutMinutes: roleTimeouts[role] ?? null }));
+}
+
+/**
+ * Whether the session has seen no request for longer than the role's idle timeout.
+ */
+export function isSessionIdle(session: Session, role: Role): boolean {
+  const lastActivity = (session as any).lastActivity as number | undefined;
+  if (!lastActivity) return false;
+  return Date.now() - lastActivity > idleTimeoutMinutes(role) * 60 * 1000;
+}
+
+export function recordActivity(session: Session): void {
+  (session as any).lastActivity = Date.now();
+}
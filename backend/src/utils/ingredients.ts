@@ -0,0 +1,172 @@
+/**
+ * Ingredient parsing, scaling and formatting.
+ * Handles free-text lines such as "1 1/2 cups flour, sifted" as well as
+ * structured ingredient rows, and renders quantities back as friendly fractions.
+ */
+
+import { PostIngredient } from '../db';
+import { UnitSystem, convertToSystem, isMetricUnit, normalizeUnit } from './units';
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅛': 1 / 8,
+  '⅜': 3 / 8,
+  '⅝': 5 / 8,
+  '⅞': 7 / 8,
+};
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+const QUANTITY_SOURCE = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?\\s*[${FRACTION_CHARS}]?|[${FRACTION_CHARS}])`;
+const LEADING_QUANTITY = new RegExp(`^(${QUANTITY_SOURCE})(?:\\s*(?:-|–|to)\\s*${QUANTITY_SOURCE})?\\s*`);
+
+// Units that cannot be converted but still read as units rather than part of the name
+const COUNT_UNITS = new Set([
+  'pinch', 'pinches', 'dash', 'dashes', 'clove', 'cloves', 'can', 'cans', 'slice', 'slices',
+  'stick', 'sticks', 'bunch', 'bunches', 'sprig', 'sprigs', 'piece', 'pieces', 'handful', 'handfuls',
+]);
+
+/**
+ * Parses "1 1/2", "3/4", "1.5", "1,5", "½" or "1½" into a number. Returns null for anything else.
+ */
+export function parseQuantity(input: string): number | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = parseInt(mixed[3], 10);
+    return denominator ? parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / denominator : null;
+  }
+
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = parseInt(fraction[2], 10);
+    return denominator ? parseInt(fraction[1], 10) / denominator : null;
+  }
+
+  const unicode = text.match(new RegExp(`^(\\d+(?:[.,]\\d+)?)?\\s*([${FRACTION_CHARS}])$`));
+  if (unicode) {
+    return (unicode[1] ? parseFloat(unicode[1].replace(',', '.')) : 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+
+  if (/^\d+(?:[.,]\d+)?$/.test(text)) {
+    return parseFloat(text.replace(',', '.'));
+  }
+
+  return null;
+}
+
+const FRIENDLY_DENOMINATORS = [2, 3, 4, 8];
+
+/**
+ * Renders a quantity for display. Imperial and count quantities use fractions
+ * ("1 1/2"), metric ones use rounded decimals ("250", "1.5").
+ */
+export function formatQuantity(value: number, unit?: string | null): string {
+  if (isMetricUnit(unit)) {
+    const rounded = value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+    return String(rounded);
+  }
+
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+  if (remainder < 0.02) return String(whole || Math.round(value * 100) / 100);
+  if (remainder > 0.98) return String(whole + 1);
+
+  for (const denominator of FRIENDLY_DENOMINATORS) {
+    const numerator = Math.round(remainder * denominator);
+    if (numerator > 0 && Math.abs(remainder - numerator / denominator) < 0.02) {
+      const fraction = `${numerator}/${denominator}`;
+      return whole ? `${whole} ${fraction}` : fraction;
+    }
+  }
+
+  if (value >= 10) return String(Math.round(value));
+  return String(value < 1 ? Math.round(value * 100) / 100 : Math.round(value * 10) / 10);
+}
+
+/**
+ * Parses a single free-text ingredient line. Returns null for lines that do not
+ * start with a quantity, since those are usually headings or prose.
+ */
+export function parseIngredientLine(line: string): PostIngredient | null {
+  // Strip list markers such as "-", "*", "•" or "1." (but not a leading quantity like "1 cup")
+  const text = line.replace(/^\s*(?:[-*•]|\d+[.)](?=\s))\s*/, '').trim();
+  const quantityMatch = text.match(LEADING_QUANTITY);
+  if (!quantityMatch) return null;
+
+  const quantity = parseQuantity(quantityMatch[1]);
+  if (quantity === null) return null;
+
+  let rest = text.slice(quantityMatch[0].length).trim();
+  let unit: string | null = null;
+
+  const twoWords = rest.match(/^(\S+\s+\S+?)\.?(?=\s|$)/);
+  const oneWord = rest.match(/^(\S+?)\.?(?=\s|$)/);
+  if (twoWords && normalizeUnit(twoWords[1])) {
+    unit = twoWords[1];
+    rest = rest.slice(twoWords[0].length).trim();
+  } else if (oneWord && (normalizeUnit(oneWord[1]) || COUNT_UNITS.has(oneWord[1].toLowerCase()))) {
+    unit = oneWord[1];
+    rest = rest.slice(oneWord[0].length).trim();
+  }
+
+  rest = rest.replace(/^of\s+/i, '');
+  const commaIndex = rest.indexOf(',');
+  const name = (commaIndex >= 0 ? rest.slice(0, commaIndex) : rest).trim();
+  const note = commaIndex >= 0 ? rest.slice(commaIndex + 1).trim() : '';
+  if (!name) return null;
+
+  return { quantity, unit, name, note: note || null };
+}
+
+/**
+ * Extracts every line of free text that parses as an ingredient.
+ */
+export function extractIngredients(text: string): PostIngredient[] {
+  return text
+    .split(/\r?\n/)
+    .map(parseIngredientLine)
+    .filter((ing): ing is PostIngredient => ing !== null);
+}
+
+export interface ScaleOptions {
+  factor?: number;
+  units?: UnitSystem;
+}
+
+export interface DisplayIngredient extends PostIngredient {
+  display: string;
+}
+
+/**
+ * Scales and optionally converts an ingredient, adding a human friendly `display` string.
+ */
+export function scaleIngredient(ingredient: PostIngredient, options: ScaleOptions = {}): DisplayIngredient {
+  let { quantity, unit } = ingredient;
+
+  if (quantity !== null) {
+    quantity *= options.factor ?? 1;
+    if (options.units) {
+      const converted = convertToSystem(quantity, unit, options.units);
+      quantity = converted.quantity;
+      unit = converted.unit;
+    }
+  }
+
+  const display = [quantity !== null ? formatQuantity(quantity, unit) : '', unit || '', ingredient.name]
+    .filter(Boolean)
+    .join(' ');
+
+  return {
+    quantity: quantity !== null ? Math.round(quantity * 1000) / 1000 : null,
+    unit,
+    name: ingredient.name,
+    note: ingredient.note,
+    display,
+  };
+}
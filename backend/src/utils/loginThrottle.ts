@@ -0,0 +1,184 @@
+/**
+ * Brute-force protection for signing in. Wrong passwords and wrong second-factor codes
+ * are counted per account (by email, whether or not the account exists) and per IP in
+ * `login_throttles`. After a few free attempts every further failure doubles the wait
+ * before the next try, and at the lockout threshold the account or IP is locked for
+ * LOGIN_LOCKOUT_MINUTES. A counter starts over after an hour without failures; the
+ * account's is also cleared by a full sign-in or a password reset, and admins can
+ * clear any of them.
+ */
+
+import { Request, Response } from 'express';
+import { db, allRows, runStatement } from '../db';
+import { securityLogger } from '../middleware/logging';
+
+export type ThrottleScope = 'account' | 'ip';
+
+export interface ThrottleKey {
+  scope: ThrottleScope;
+  key: string;
+}
+
+export interface DbLoginThrottle {
+  id: number;
+  scope: ThrottleScope;
+  key: string;
+  failures: number;
+  last_failure_at: string;
+  locked_until: string | null;
+}
+
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) || 15;
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// An IP is shared by everyone behind it, so it gets more room than one account
+const LIMITS: Record<ThrottleScope, { freeAttempts: number; lockAfter: number }> = {
+  account: { freeAttempts: 3, lockAfter: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10', 10) || 10 },
+  ip: { freeAttempts: 10, lockAfter: parseInt(process.env.LOGIN_IP_LOCKOUT_THRESHOLD || '50', 10) || 50 },
+};
+
+export function accountKey(email: string): ThrottleKey {
+  return { scope: 'account', key: email.trim().toLowerCase() };
+}
+
+export function ipKey(ip: string | undefined): ThrottleKey {
+  return { scope: 'ip', key: ip || 'unknown' };
+}
+
+function backoffMs(scope: ThrottleScope, failures: number): number {
+  const extra = failures - LIMITS[scope].freeAttempts;
+  if (extra < 0) return 0;
+  return Math.min(1000 * 2 ** extra, MAX_BACKOFF_MS);
+}
+
+function findThrottles(keys: ThrottleKey[]): Promise<DbLoginThrottle[]> {
+  if (keys.length === 0) return Promise.resolve([]);
+  return allRows<DbLoginThrottle>(
+    `SELECT * FROM login_throttles WHERE ${keys.map(() => '(scope = ? AND key = ?)').join(' OR ')}`,
+    keys.flatMap((k) => [k.scope, k.key]),
+  );
+}
+
+export interface ThrottleBlock {
+  scope: ThrottleScope;
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Whether another attempt is allowed right now for all of `keys`. Returns the longest
+ * wait if not.
+ */
+export async function checkThrottle(keys: ThrottleKey[]): Promise<ThrottleBlock | null> {
+  const now = Date.now();
+  let block: ThrottleBlock | null = null;
+  for (const row of await findThrottles(keys)) {
+    const lockedUntil = row.locked_until ? new Date(row.locked_until).getTime() : 0;
+    const locked = lockedUntil > now;
+    const waitUntil = locked ? lockedUntil : new Date(row.last_failure_at).getTime() + backoffMs(row.scope, row.failures);
+    if (waitUntil <= now) continue;
+
+    const retryAfterSeconds = Math.ceil((waitUntil - now) / 1000);
+    if (!block || retryAfterSeconds > block.retryAfterSeconds) {
+      block = { scope: row.scope, locked, retryAfterSeconds };
+    }
+  }
+  return block;
+}
+
+/**
+ * Counts a failed attempt against each key. Returns the keys this failure locked.
+ */
+export async function recordFailure(keys: ThrottleKey[]): Promise<ThrottleKey[]> {
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MS).toISOString();
+  const lockedUntil = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000).toISOString();
+
+  const locked: ThrottleKey[] = [];
+  for (const k of keys) {
+    // Starts over when the last failure is older than the window and no lock is running
+    await runStatement(
+      `INSERT INTO login_throttles (scope, key, failures, last_failure_at) VALUES (?, ?, 1, ?)
+      ON CONFLICT(scope, key) DO UPDATE SET
+        failures = CASE
+          WHEN login_throttles.last_failure_at < ? AND (login_throttles.locked_until IS NULL OR login_throttles.locked_until < ?)
+          THEN 1 ELSE login_throttles.failures + 1 END,
+        last_failure_at = excluded.last_failure_at`,
+      [k.scope, k.key, nowIso, windowStart, nowIso],
+    );
+    const lockedNow = await new Promise<boolean>((resolve, reject) => {
+      db.run(
+        `UPDATE login_throttles SET locked_until = ?
+        WHERE scope = ? AND key = ? AND failures >= ? AND (locked_until IS NULL OR locked_until < ?)`,
+        [lockedUntil, k.scope, k.key, LIMITS[k.scope].lockAfter, nowIso],
+        function (err) {
+          if (err) return reject(err);
+          resolve(this.changes > 0);
+        },
+      );
+    });
+    if (lockedNow) locked.push(k);
+  }
+  return locked;
+}
+
+export function clearThrottle(key: ThrottleKey): Promise<void> {
+  return runStatement('DELETE FROM login_throttles WHERE scope = ? AND key = ?', [key.scope, key.key]);
+}
+
+export function findThrottleById(id: number): Promise<DbLoginThrottle | undefined> {
+  return allRows<DbLoginThrottle>('SELECT * FROM login_throttles WHERE id = ?', [id]).then((rows) => rows[0]);
+}
+
+export function deleteThrottle(id: number): Promise<void> {
+  return runStatement('DELETE FROM login_throttles WHERE id = ?', [id]);
+}
+
+export function throttleResponse(block: ThrottleBlock) {
+  const wait =
+    block.retryAfterSeconds >= 120
+      ? `${Math.ceil(block.retryAfterSeconds / 60)} minutes`
+      : `${block.retryAfterSeconds} second${block.retryAfterSeconds === 1 ? '' : 's'}`;
+  return {
+    error: block.locked
+      ? `Too many failed sign-in attempts. Sign-in is locked; try again in ${wait}.`
+      : `Too many failed sign-in attempts. Try again in ${wait}.`,
+    locked: block.locked,
+    retryAfter: block.retryAfterSeconds,
+  };
+}
+
+/**
+ * Answers 429 when `keys` have failed too often recently; returns whether it did.
+ */
+export async function rejectIfThrottled(req: Request, res: Response, keys: ThrottleKey[], email: string): Promise<boolean> {
+  const block = await checkThrottle(keys);
+  if (!block) return false;
+  securityLogger.warn('login_throttled', {
+    email,
+    ip: req.ip,
+    scope: block.scope,
+    locked: block.locked,
+    retryAfter: block.retryAfterSeconds,
+  });
+  res.set('Retry-After', String(block.retryAfterSeconds));
+  res.status(429).json(throttleResponse(block));
+  return true;
+}
+
+// Counts a wrong password or code and logs the locks it causes
+export async function recordSignInFailure(req: Request, keys: ThrottleKey[]): Promise<void> {
+  for (const locked of await recordFailure(keys)) {
+    securityLogger.warn('sign_in_locked', {
+      scope: locked.scope,
+      key: locked.key,
+      ip: req.ip,
+      description:
+        locked.scope === 'account'
+          ? `Sign-in to "${locked.key}" locked after repeated failures`
+          : `Sign-in from IP ${locked.key} locked after repeated failures`,
+    });
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Email templates. Each one renders a plain-text and an HTML version of the same
+ * message; user-supplied values are escaped in the HTML.
+ */
+
+import { MailMessage } from './mailer';
+
+export type MailContent = Omit<MailMessage, 'to'>;
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// `paragraphs` are already escaped HTML
+function layout(title: string, paragraphs: string[]): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<body style="margin:0;padding:24px;background:#faf6f0;font-family:Helvetica,Arial,sans-serif;color:#2f2a24;">',
+    '<div style="max-width:520px;margin:0 auto;background:#ffffff;border-radius:12px;padding:28px;">',
+    `<h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(title)}</h1>`,
+    ...paragraphs.map((p) => `<p style="margin:0 0 14px;line-height:1.5;">${p}</p>`),
+    '<p style="margin:24px 0 0;font-size:12px;color:#8a8178;">CulinaryHub</p>',
+    '</div>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+function button(url: string, label: string): string {
+  return `<a href="${escapeHtml(url)}" style="display:inline-block;padding:10px 18px;background:#6b8c5a;color:#ffffff;border-radius:8px;text-decoration:none;">${escapeHtml(label)}</a>`;
+}
+
+export function otpMail(options: { name: string; code: string; expiresInMinutes: number }): MailContent {
+  const { name, code, expiresInMinutes } = options;
+  return {
+    subject: `Your CulinaryHub code is ${code}`,
+    text: [
+      `Hi ${name},`,
+      '',
+      `Your CulinaryHub verification code is: ${code}`,
+      '',
+      `It expires in ${expiresInMinutes} minutes. If you did not try to sign in, someone may know your password; please reset it.`,
+    ].join('\n'),
+    html: layout('Your verification code', [
+      `Hi ${escapeHtml(name)},`,
+      'Your CulinaryHub verification code is:',
+      `<strong style="font-family:monospace;font-size:26px;letter-spacing:6px;">${escapeHtml(code)}</strong>`,
+      `It expires in ${expiresInMinutes} minutes. If you did not try to sign in, someone may know your password; please reset it.`,
+    ]),
+  };
+}
+
+export function passwordResetMail(options: { name: string; resetUrl: string; expiresInMinutes: number }): MailContent {
+  const { name, resetUrl, expiresInMinutes } = options;
+  return {
+    subject: 'Reset your CulinaryHub password',
+    text: [
+      `Hi ${name},`,
+      '',
+      'Someone asked to reset the password of your CulinaryHub account. To choose a new one, open:',
+      '',
+      resetUrl,
+      '',
+      `The link works once and expires in ${expiresInMinutes} minutes.`,
+      'If you did not ask for this, you can ignore this email; your password stays the same.',
+    ].join('\n'),
+    html: layout('Reset your password', [
+      `Hi ${escapeHtml(name)},`,
+      'Someone asked to reset the password of your CulinaryHub account. To choose a new one, use the button below.',
+      button(resetUrl, 'Choose a new password'),
+      `The link works once and expires in ${expiresInMinutes} minutes.`,
+      'If you did not ask for this, you can ignore this email; your password stays the same.',
+    ]),
+  };
+}
+
+export type ModerationOutcome =
+  | { outcome: 'approved' }
+  | { outcome: 'scheduled'; publishAt: string }
+  | { outcome: 'rejected'; reason: string; note: string | null }
+  | { outcome: 'unpublished' };
+
+export function moderationOutcomeMail(options: { name: string; postTitle: string } & ModerationOutcome): MailContent {
+  const { name, postTitle } = options;
+  const contentUrl = `${FRONTEND_URL}/content`;
+
+  let subject: string;
+  let summary: string;
+  let details: string[] = [];
+  switch (options.outcome) {
+    case 'approved':
+      subject = `Your recipe "${postTitle}" is published`;
+      summary = 'was approved and is now live for everyone to see.';
+      break;
+    case 'scheduled':
+      subject = `Your recipe "${postTitle}" was approved`;
+      summary = `was approved and will be published on ${new Date(options.publishAt).toUTCString()}.`;
+      break;
+    case 'rejected':
+      subject = `Your recipe "${postTitle}" needs changes`;
+      summary = 'was not approved.';
+      details = [`Reason: ${options.reason}`, ...(options.note ? [`Note from the moderator: ${options.note}`] : [])];
+      details.push('You can edit the recipe and submit it again.');
+      break;
+    case 'unpublished':
+      subject = `Your recipe "${postTitle}" was unpublished`;
+      summary = 'was taken down after being reported and is back in review.';
+      break;
+  }
+
+  return {
+    subject,
+    text: [`Hi ${name},`, '', `Your recipe "${postTitle}" ${summary}`, ...details, '', `Your recipes: ${contentUrl}`].join('\n'),
+    html: layout(subject, [
+      `Hi ${escapeHtml(name)},`,
+      `Your recipe <strong>${escapeHtml(postTitle)}</strong> ${escapeHtml(summary)}`,
+      ...details.map(escapeHtml),
+      button(contentUrl, 'Go to your recipes'),
+    ]),
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Outgoing mail. Everything is sent through one MailTransport, picked with
+ * MAIL_TRANSPORT:
+ *
+ * - `file` (default): each message is written as an .eml file to MAIL_OUTBOX_DIR
+ *   (`outbox/`) so it can be read locally
+ * - `smtp`: delivered through SMTP_HOST / SMTP_PORT, with SMTP_USER / SMTP_PASS if set
+ * - `memory`: messages are kept in `memoryTransport.sent`, for tests
+ *
+ * The messages themselves come from utils/mailTemplates.ts.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'CulinaryHub <no-reply@culinaryhub.local>';
+
+export function smtpTransport(options: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+}
+
+export function fileTransport(dir: string): MailTransport {
+  // Builds the MIME message without delivering it
+  const builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await builder.sendMail({ from: MAIL_FROM, ...message });
+      await fs.promises.mkdir(dir, { recursive: true });
+      // Sortable by time, unique within the same millisecond
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+      await fs.promises.writeFile(path.join(dir, fileName), info.message as Buffer);
+    },
+  };
+}
+
+export function memoryTransport(): MailTransport & { sent: MailMessage[] } {
+  const sent: MailMessage[] = [];
+  return {
+    name: 'memory',
+    sent,
+    send(message) {
+      sent.push(message);
+      return Promise.resolve();
+    },
+  };
+}
+
+function transportFromEnv(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT || 'file') {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('MAIL_TRANSPORT=smtp needs SMTP_HOST');
+      }
+      return smtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+    case 'memory':
+      return memoryTransport();
+    case 'file':
+      return fileTransport(process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '..', '..', 'outbox'));
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}"`);
+  }
+}
+
+let transport = transportFromEnv();
+
+export function getMailTransport(): MailTransport {
+  return transport;
+}
+
+/**
+ * Swaps the transport, e.g. for a memoryTransport in tests.
+ */
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  return transport.send(message);
+}
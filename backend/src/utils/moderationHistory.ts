@@ -0,0 +1,70 @@
+/**
+ * Post moderation history.
+ * Each step of a post's review (submitted, rejected, resubmitted, approved) is
+ * kept as an event, so the author and admins can follow how it got to its status.
+ */
+
+import { runStatement } from '../db';
+
+// Canned reasons offered to admins when rejecting a post
+export const REJECTION_REASONS = {
+  incomplete_recipe: 'Recipe is incomplete (missing ingredients or steps)',
+  unclear_instructions: 'Instructions are unclear',
+  poor_photo: 'Photo is missing or low quality',
+  duplicate: 'Duplicate of an existing recipe',
+  not_a_recipe: 'Not a recipe',
+  inappropriate_content: 'Inappropriate content',
+  other: 'Other',
+} as const;
+
+export type RejectionReason = keyof typeof REJECTION_REASONS;
+
+export const REJECTION_REASON_KEYS = Object.keys(REJECTION_REASONS) as [RejectionReason, ...RejectionReason[]];
+
+export function rejectionReasonLabel(reason: string | null): string | null {
+  if (!reason) return null;
+  return REJECTION_REASONS[reason as RejectionReason] ?? reason;
+}
+
+export type ModerationAction = 'submitted' | 'rejected' | 'resubmitted' | 'approved';
+
+export interface ModerationActor {
+  id: number;
+  name: string;
+}
+
+export interface ModerationEventRow {
+  id: number;
+  post_id: number;
+  action: ModerationAction;
+  actor_id: number | null;
+  actor_name: string;
+  reason: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export function recordModerationEvent(
+  postId: number,
+  action: ModerationAction,
+  actor: ModerationActor,
+  details: { reason?: string | null; note?: string | null; at?: string } = {},
+): Promise<void> {
+  return runStatement(
+    'INSERT INTO post_moderation_events (post_id, action, actor_id, actor_name, reason, note, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [postId, action, actor.id, actor.name, details.reason ?? null, details.note ?? null, details.at ?? new Date().toISOString()],
+  );
+}
+
+export function serializeModerationEvent(e: ModerationEventRow) {
+  return {
+    id: e.id,
+    action: e.action,
+    actorId: e.actor_id,
+    actorName: e.actor_name,
+    reason: e.reason,
+    reasonLabel: rejectionReasonLabel(e.reason),
+    note: e.note,
+    createdAt: e.created_at,
+  };
+}
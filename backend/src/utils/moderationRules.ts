@@ -0,0 +1,267 @@
+/**
+ * Moderation rules engine shared by every piece of user-written content
+ * (posts, recipe structure, reviews, comments, collections, shopping lists).
+ *
+ * Rules live in the `moderation_rules` table and are managed by admins. The enabled
+ * rules are compiled and cached in memory, and reloaded when the table changes (see
+ * policyCache.ts).
+ */
+
+import { Response } from 'express';
+import { db } from '../db';
+import { AuthedRequest } from '../middleware/auth';
+import { securityLogger } from '../middleware/logging';
+import { watchPolicyTable } from './policyCache';
+import { assertSafeRegex } from './regexSafety';
+
+export const RULE_MATCH_TYPES = ['word', 'regex', 'normalized'] as const;
+export const RULE_ACTIONS = ['block', 'review', 'mask'] as const;
+
+export type RuleMatchType = (typeof RULE_MATCH_TYPES)[number];
+export type RuleAction = (typeof RULE_ACTIONS)[number];
+
+export interface ModerationRuleRow {
+  id: number;
+  pattern: string;
+  match_type: RuleMatchType;
+  action: RuleAction;
+  description: string | null;
+  enabled: number;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ModerationRuleInput {
+  id?: number;
+  pattern: string;
+  matchType: RuleMatchType;
+  action: RuleAction;
+}
+
+interface CompiledRule extends Required<Pick<ModerationRuleInput, 'pattern' | 'matchType' | 'action'>> {
+  id: number | null;
+  regex: RegExp;
+}
+
+export interface ModerationMatch {
+  ruleId: number | null;
+  pattern: string;
+  matchType: RuleMatchType;
+  action: RuleAction;
+  // The matched part of the original text
+  match: string;
+}
+
+export interface ModerationResult {
+  // The strongest action of any matching rule: block > review > mask
+  action: 'allow' | RuleAction;
+  // The text with every `mask` match replaced by asterisks
+  text: string;
+  matches: ModerationMatch[];
+}
+
+// Characters commonly swapped in for letters to get around filters
+const LEET_MAP: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+};
+
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Lower-cases, strips diacritics and undoes leetspeak, keeping for each
+ * character of the result the range of the original text it came from.
+ */
+function normalizeWithMap(text: string): { normalized: string; starts: number[]; ends: number[] } {
+  let normalized = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let offset = 0;
+  for (const ch of text) {
+    const folded = ch.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+    for (const c of folded) {
+      const mapped = LEET_MAP[c] ?? c;
+      normalized += mapped;
+      for (let k = 0; k < mapped.length; k++) {
+        starts.push(offset);
+        ends.push(offset + ch.length);
+      }
+    }
+    offset += ch.length;
+  }
+  return { normalized, starts, ends };
+}
+
+export function normalizeText(text: string): string {
+  return normalizeWithMap(text).normalized;
+}
+
+// The longest text any field accepts; `regex` rules never see more than this
+export const MAX_MODERATED_TEXT_LENGTH = 10000;
+
+/**
+ * Builds the regular expression for a rule. Throws a SyntaxError for an invalid or unsafe
+ * `regex` pattern.
+ */
+export function compileRule(pattern: string, matchType: RuleMatchType): RegExp {
+  switch (matchType) {
+    case 'regex': {
+      const regex = new RegExp(pattern, 'giu');
+      assertSafeRegex(pattern);
+      return regex;
+    }
+    case 'normalized':
+      return new RegExp(`(?<!${WORD_CHAR})${escapeRegex(normalizeText(pattern))}(?!${WORD_CHAR})`, 'gu');
+    default:
+      return new RegExp(`(?<!${WORD_CHAR})${escapeRegex(pattern)}(?!${WORD_CHAR})`, 'giu');
+  }
+}
+
+let activeRules: CompiledRule[] = [];
+
+/**
+ * (Re)loads the enabled rules from the database. Rules that no longer compile are skipped.
+ */
+export function loadModerationRules(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.all<ModerationRuleRow>('SELECT * FROM moderation_rules WHERE enabled = 1 ORDER BY id', [], (err, rows) => {
+      if (err) return reject(err);
+      const compiled: CompiledRule[] = [];
+      for (const row of rows || []) {
+        try {
+          compiled.push({
+            id: row.id,
+            pattern: row.pattern,
+            matchType: row.match_type,
+            action: row.action,
+            regex: compileRule(row.pattern, row.match_type),
+          });
+        } catch (compileErr) {
+          console.error(`❌ Moderation rule ${row.id} does not compile:`, compileErr);
+        }
+      }
+      activeRules = compiled;
+      resolve();
+    });
+  });
+}
+
+watchPolicyTable('moderation_rules', loadModerationRules);
+
+const ACTION_RANK: Record<ModerationResult['action'], number> = { allow: 0, mask: 1, review: 2, block: 3 };
+
+function maskSpans(text: string, spans: [number, number][]): string {
+  if (spans.length === 0) return text;
+  spans.sort((a, b) => a[0] - b[0]);
+  let result = '';
+  let cursor = 0;
+  for (const [start, end] of spans) {
+    if (end <= cursor) continue;
+    const from = Math.max(start, cursor);
+    result += text.slice(cursor, from) + '*'.repeat(Array.from(text.slice(from, end)).length);
+    cursor = end;
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * Runs text through the active rules, or through `rules` when given (used to try out a rule).
+ */
+export function moderateText(text: string, rules?: ModerationRuleInput[]): ModerationResult {
+  const ruleset: CompiledRule[] = rules
+    ? rules.map((r) => ({ ...r, id: r.id ?? null, regex: compileRule(r.pattern, r.matchType) }))
+    : activeRules;
+
+  let action: ModerationResult['action'] = 'allow';
+  const matches: ModerationMatch[] = [];
+  const masked: [number, number][] = [];
+  let normalized: ReturnType<typeof normalizeWithMap> | null = null;
+
+  for (const rule of ruleset) {
+    const isNormalized = rule.matchType === 'normalized';
+    if (isNormalized && !normalized) normalized = normalizeWithMap(text);
+    const haystack = isNormalized
+      ? normalized!.normalized
+      : rule.matchType === 'regex'
+        ? text.slice(0, MAX_MODERATED_TEXT_LENGTH)
+        : text;
+
+    for (const m of haystack.matchAll(rule.regex)) {
+      if (!m[0]) continue;
+      const start = isNormalized ? normalized!.starts[m.index!] : m.index!;
+      const end = isNormalized ? normalized!.ends[m.index! + m[0].length - 1] : m.index! + m[0].length;
+
+      matches.push({
+        ruleId: rule.id,
+        pattern: rule.pattern,
+        matchType: rule.matchType,
+        action: rule.action,
+        match: text.slice(start, end),
+      });
+      if (rule.action === 'mask') masked.push([start, end]);
+      if (ACTION_RANK[rule.action] > ACTION_RANK[action]) action = rule.action;
+    }
+  }
+
+  return { action, text: maskSpans(text, masked), matches };
+}
+
+/**
+ * The first match that blocks the text, if any.
+ */
+export function blockingMatch(result: ModerationResult): ModerationMatch | undefined {
+  return result.matches.find((m) => m.action === 'block');
+}
+
+/**
+ * Checks one field of a request against the active rules and logs what matched.
+ * Answers 400 and returns null when the text is blocked. Content without a manual
+ * review queue (`canQueue: false`) is blocked by `review` rules too.
+ */
+export function checkContent(
+  req: AuthedRequest,
+  res: Response,
+  field: string,
+  text: string,
+  options: { label?: string; canQueue?: boolean; postId?: number } = {},
+): ModerationResult | null {
+  const result = moderateText(text);
+  const blocked =
+    blockingMatch(result) ?? (options.canQueue ? undefined : result.matches.find((m) => m.action === 'review'));
+
+  if (blocked) {
+    securityLogger.warn('forbidden_word_attempt', {
+      userId: req.user?.id,
+      field,
+      word: blocked.match,
+      ruleId: blocked.ruleId,
+      postId: options.postId,
+    });
+    res.status(400).json({ error: `"${blocked.match}" is not allowed in the ${options.label ?? field}` });
+    return null;
+  }
+
+  if (result.action === 'review') {
+    securityLogger.warn('content_flagged', {
+      userId: req.user?.id,
+      field,
+      words: result.matches.filter((m) => m.action === 'review').map((m) => m.match),
+      ruleIds: result.matches.filter((m) => m.action === 'review').map((m) => m.ruleId),
+      postId: options.postId,
+      description: `Content in ${field} by user ID ${req.user?.id} was sent to manual review`,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,17 @@
+/**
+ * Emails to users about their content. Delivery is best effort: a failure is logged
+ * and never fails the action that triggered it.
+ */
+
+import { findUserById } from '../db';
+import { sendMail } from './mailer';
+import { ModerationOutcome, moderationOutcomeMail } from './mailTemplates';
+
+export function notifyModerationOutcome(authorId: number, postTitle: string, outcome: ModerationOutcome): void {
+  findUserById(authorId)
+    .then((author) => {
+      if (!author) return;
+      return sendMail({ to: author.email, ...moderationOutcomeMail({ name: author.name, postTitle, ...outcome }) });
+    })
+    .catch((err) => console.error('❌ Failed to send moderation email:', err));
+}
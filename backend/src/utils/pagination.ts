@@ -0,0 +1,147 @@
+/**
+ * Cursor-based (keyset) pagination shared by the list endpoints.
+ * A cursor encodes the sort key and the sort value/id of the last item on the
+ * previous page, so pages stay stable while new rows are being inserted.
+ */
+
+import { z } from 'zod';
+import { db } from '../db';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+type SortValue = string | number | null;
+
+export interface Cursor {
+  sort: string;
+  value: SortValue;
+  id: number;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString('base64url');
+}
+
+export function decodeCursor(raw: string): Cursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null;
+    const [sort, value, id] = decoded;
+    if (typeof sort !== 'string' || !Number.isInteger(id)) return null;
+    if (value !== null && typeof value !== 'string' && typeof value !== 'number') return null;
+    return { sort, value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the query-string schema for a list endpoint: `limit`, `cursor`, `sort`
+ * and `order`, plus the endpoint's own typed filters. A cursor issued for a
+ * different sort key is rejected rather than silently producing a wrong page.
+ */
+export function listQuerySchema<Sort extends string, Filters extends z.ZodRawShape>(
+  sortKeys: readonly [Sort, ...Sort[]],
+  defaultSort: Sort,
+  filters: Filters,
+) {
+  return z
+    .object({
+      ...filters,
+      limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+      cursor: z
+        .string()
+        .max(1000)
+        .transform((raw, ctx) => {
+          const cursor = decodeCursor(raw);
+          if (!cursor) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+            return z.NEVER;
+          }
+          return cursor;
+        })
+        .optional(),
+      sort: z.enum(sortKeys).default(defaultSort),
+      order: z.enum(['asc', 'desc']).default('desc'),
+    })
+    .superRefine((query, ctx) => {
+      if (query.cursor && query.cursor.sort !== query.sort) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cursor'], message: 'Cursor does not match sort' });
+      }
+    });
+}
+
+export interface PageRequest {
+  limit: number;
+  cursor?: Cursor;
+  sort: string;
+  order: 'asc' | 'desc';
+}
+
+export interface PageQuery {
+  /** Selected columns, e.g. "p.*" */
+  select: string;
+  /** FROM clause including any joins, e.g. "posts p" */
+  from: string;
+  /** Filter conditions, joined with AND */
+  where: string[];
+  params: unknown[];
+  /** SQL expression for each sort key the endpoint accepts */
+  sortColumns: Record<string, string>;
+  /** Unique column used to break ties between equal sort values */
+  idColumn: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+}
+
+/**
+ * Runs a paginated query and its total count. The select is extended with the
+ * sort expression as `sort_value`; rows must also include the tie-breaking `id`.
+ */
+export function paginate<T extends { id: number }>(query: PageQuery, page: PageRequest): Promise<Page<T>> {
+  const sortColumn = query.sortColumns[page.sort];
+  if (!sortColumn) {
+    return Promise.reject(new Error(`Unknown sort key: ${page.sort}`));
+  }
+
+  const direction = page.order === 'asc' ? 'ASC' : 'DESC';
+  const where = query.where.length > 0 ? query.where.join(' AND ') : '1 = 1';
+
+  const pageWhere = [where];
+  const pageParams = [...query.params];
+  if (page.cursor) {
+    pageWhere.push(`(${sortColumn}, ${query.idColumn}) ${page.order === 'asc' ? '>' : '<'} (?, ?)`);
+    pageParams.push(page.cursor.value, page.cursor.id);
+  }
+
+  const countSql = `SELECT COUNT(*) AS total FROM ${query.from} WHERE ${where}`;
+  // One extra row tells us whether another page exists without a second query
+  const pageSql = `SELECT ${query.select}, ${sortColumn} AS sort_value FROM ${query.from}
+    WHERE ${pageWhere.join(' AND ')}
+    ORDER BY ${sortColumn} ${direction}, ${query.idColumn} ${direction}
+    LIMIT ?`;
+
+  return new Promise((resolve, reject) => {
+    db.get<{ total: number }>(countSql, query.params, (countErr, countRow) => {
+      if (countErr) return reject(countErr);
+
+      db.all<T & { sort_value: SortValue }>(pageSql, [...pageParams, page.limit + 1], (err, rows) => {
+        if (err) return reject(err);
+
+        const items = (rows || []).slice(0, page.limit);
+        const last = items[items.length - 1];
+        const hasMore = (rows || []).length > page.limit;
+
+        resolve({
+          items,
+          nextCursor: hasMore && last ? encodeCursor({ sort: page.sort, value: last.sort_value, id: last.id }) : null,
+          total: countRow?.total ?? 0,
+        });
+      });
+    });
+  });
+}
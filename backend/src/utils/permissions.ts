@@ -0,0 +1,132 @@
+/**
+ * Role-based permissions.
+ * Routes and the UI check capabilities (`posts.approve`, `logs.read`, ...) rather than
+ * role names, and each role maps to a set of capabilities.
+ *
+ * The mapping lives in the `role_permissions` table and admins can change it at
+ * runtime. It is cached in memory and reloaded when the table changes (see policyCache.ts).
+ */
+
+import { db, runStatement } from '../db';
+import { watchPolicyTable } from './policyCache';
+
+export const ROLES = ['admin', 'editor', 'user'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = {
+  'posts.view.all': 'See pending, scheduled and rejected posts by other users',
+  'posts.edit.any': 'Edit any post',
+  'posts.publish': 'Publish and schedule own posts without review',
+  'posts.approve': 'Work the pending queue: approve, schedule and reject posts',
+  'posts.delete.any': 'Delete any post',
+  'posts.revisions.restore': 'Restore a post to an earlier revision',
+  'comments.moderate': 'Approve, reject and delete comments; own comments skip the queue',
+  'reviews.delete.any': 'Delete any review',
+  'reports.manage': 'Work the report queue: dismiss reports and unpublish reported posts',
+  'moderation_rules.manage': 'Manage the moderation rules',
+  'files.manage.any': 'List and delete files uploaded by any user',
+  'shopping_lists.manage.any': 'Open and change shopping lists of any user',
+  'users.read': 'List registered users',
+  'users.delete': 'Delete users',
+  'users.roles.manage': 'Promote and demote users between roles',
+  'users.suspend': 'Suspend and unsuspend users',
+  'users.sessions.revoke': 'Sign users out of every device',
+  'users.unlock': 'See accounts and IPs locked out after failed sign-ins and unlock them',
+  'trash.manage': 'See, restore and permanently delete everything in the trash',
+  'logs.read': 'Read the activity logs',
+  'permissions.manage': 'Change which permissions each role has',
+  'auth.policy.manage': 'Require two-factor authentication and set the idle timeout for a role',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as [Permission, ...Permission[]];
+
+// Used to fill `role_permissions` the first time the server starts
+const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [...PERMISSION_KEYS],
+  editor: ['posts.view.all', 'posts.edit.any', 'posts.approve', 'comments.moderate', 'reports.manage'],
+  user: [],
+};
+
+// Admins always keep these, so nobody can lock themselves out of the permission editor
+export const LOCKED_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['permissions.manage'],
+  editor: [],
+  user: [],
+};
+
+let rolePermissions = toRoleSets(DEFAULT_ROLE_PERMISSIONS);
+
+function toRoleSets(mapping: Record<Role, Permission[]>): Record<Role, Set<Permission>> {
+  return {
+    admin: new Set([...mapping.admin, ...LOCKED_PERMISSIONS.admin]),
+    editor: new Set([...mapping.editor, ...LOCKED_PERMISSIONS.editor]),
+    user: new Set([...mapping.user, ...LOCKED_PERMISSIONS.user]),
+  };
+}
+
+function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
+
+async function seedDefaultPermissions(): Promise<void> {
+  for (const role of ROLES) {
+    for (const permission of DEFAULT_ROLE_PERMISSIONS[role]) {
+      await runStatement('INSERT OR IGNORE INTO role_permissions (role, permission) VALUES (?, ?)', [role, permission]);
+    }
+  }
+}
+
+/**
+ * (Re)loads the role→permission mapping, seeding the defaults into an empty table.
+ * Permissions that are no longer known are ignored.
+ */
+export function loadRolePermissions(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.all<{ role: Role; permission: string }>('SELECT role, permission FROM role_permissions', [], (err, rows) => {
+      if (err) return reject(err);
+      if (!rows || rows.length === 0) {
+        seedDefaultPermissions()
+          .then(() => {
+            rolePermissions = toRoleSets(DEFAULT_ROLE_PERMISSIONS);
+            resolve();
+          })
+          .catch(reject);
+        return;
+      }
+
+      const mapping: Record<Role, Permission[]> = { admin: [], editor: [], user: [] };
+      for (const row of rows) {
+        if (mapping[row.role] && isPermission(row.permission)) mapping[row.role].push(row.permission);
+      }
+      rolePermissions = toRoleSets(mapping);
+      resolve();
+    });
+  });
+}
+
+watchPolicyTable('role_permissions', loadRolePermissions);
+
+/**
+ * Replaces the permissions of a role. Locked permissions are kept whatever is passed.
+ */
+export async function setRolePermissions(role: Role, permissions: Permission[]): Promise<Permission[]> {
+  const granted = Array.from(new Set([...permissions, ...LOCKED_PERMISSIONS[role]]));
+  await runStatement('DELETE FROM role_permissions WHERE role = ?', [role]);
+  for (const permission of granted) {
+    await runStatement('INSERT INTO role_permissions (role, permission) VALUES (?, ?)', [role, permission]);
+  }
+  await loadRolePermissions();
+  return permissionsForRole(role);
+}
+
+export function permissionsForRole(role: Role): Permission[] {
+  const granted = rolePermissions[role];
+  return granted ? PERMISSION_KEYS.filter((p) => granted.has(p)) : [];
+}
+
+export function roleHasPermission(role: Role | undefined, permission: Permission): boolean {
+  return !!role && !!rolePermissions[role]?.has(permission);
+}
@@ -0,0 +1,54 @@
+/**
+ * Keeps the in-memory copies of the policy tables (role permissions, role settings,
+ * moderation rules) in step with the database when several backend processes share it.
+ * Triggers bump the table's row in `policy_versions` on every change; each process
+ * checks the versions at most every POLICY_REFRESH_SECONDS, before handling a request,
+ * and reloads the tables that changed.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { allRows } from '../db';
+
+export type PolicyTable = 'role_permissions' | 'role_settings' | 'moderation_rules';
+
+const REFRESH_MS = (parseInt(process.env.POLICY_REFRESH_SECONDS || '5', 10) || 5) * 1000;
+
+const loaders = new Map<PolicyTable, (() => Promise<void>)[]>();
+const loadedVersions = new Map<PolicyTable, number>();
+let checkedAt = 0;
+let refreshing: Promise<void> | null = null;
+
+/**
+ * Registers `load` to run whenever `table` has changed since it last ran.
+ */
+export function watchPolicyTable(table: PolicyTable, load: () => Promise<void>): void {
+  loaders.set(table, [...(loaders.get(table) ?? []), load]);
+}
+
+async function reloadChanged(): Promise<void> {
+  const rows = await allRows<{ name: PolicyTable; version: number }>('SELECT name, version FROM policy_versions', []);
+  for (const { name, version } of rows) {
+    if (loadedVersions.get(name) === version) continue;
+    // The version is read first, so a change made while loading is picked up next time
+    for (const load of loaders.get(name) ?? []) await load();
+    loadedVersions.set(name, version);
+  }
+  checkedAt = Date.now();
+}
+
+/**
+ * Reloads the tables that changed, or all of them on the first call. Checks at most
+ * every POLICY_REFRESH_SECONDS.
+ */
+export function refreshPolicies(): Promise<void> {
+  if (!refreshing && Date.now() - checkedAt >= REFRESH_MS) {
+    refreshing = reloadChanged().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing ?? Promise.resolve();
+}
+
+export function policyRefresh(req: Request, res: Response, next: NextFunction): void {
+  refreshPolicies().then(() => next(), next);
+}
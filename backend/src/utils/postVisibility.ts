@@ -0,0 +1,34 @@
+/**
+ * Who may see which posts. Every route that returns posts, or content hanging
+ * off a post (reviews, ...), goes through these so the rules cannot drift apart.
+ */
+
+import { AuthedRequest, hasPermission } from '../middleware/auth';
+
+function isPrivileged(req: AuthedRequest): boolean {
+  return hasPermission(req, 'posts.view.all');
+}
+
+/**
+ * Which posts the current user may see, as a WHERE fragment over `posts p`.
+ * Regular users see approved posts plus their own; `posts.view.all` sees everything.
+ * Drafts are private to their author whatever the viewer's role, and posts in the
+ * trash are only reachable through the trash routes.
+ */
+export function visiblePostsFilter(req: AuthedRequest): { clause: string; params: unknown[] } {
+  const userId = req.user?.id ?? null;
+  if (isPrivileged(req)) {
+    return { clause: "p.deleted_at IS NULL AND (p.status != 'draft' OR p.author_id = ?)", params: [userId] };
+  }
+  return { clause: "p.deleted_at IS NULL AND (p.status = 'approved' OR p.author_id = ?)", params: [userId] };
+}
+
+export function canViewPost(
+  req: AuthedRequest,
+  post: { status: string; author_id: number; deleted_at: string | null },
+): boolean {
+  if (post.deleted_at) return false;
+  if (post.author_id === req.user?.id) return true;
+  if (post.status === 'draft') return false;
+  return isPrivileged(req) || post.status === 'approved';
+}
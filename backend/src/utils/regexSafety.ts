@@ -0,0 +1,327 @@
+/**
+ * Static checks that keep admin-written regular expressions from backtracking
+ * catastrophically. JavaScript's engine backtracks, and a moderation rule runs on the
+ * single event loop against every post, review and comment, so a pattern is refused when
+ * the same text can be split between its repeated parts in very many ways:
+ * - a repeated group that holds a quantifier or `|`, such as `(a+)+`, `(a|aa)*` or `(a?){25}`
+ * - two unbounded quantifiers that can match the same characters with nothing between
+ *   them that stops the first one, such as `.*.*`, `\w+x\w+` or `(a+)(a+)`
+ * - optional parts that can match the same characters and together allow too many
+ *   splits, such as `a?a?a?a?a?a?a?a?a?`
+ * Backreferences are refused too. Patterns are read as compiled by compileRule, with the
+ * `giu` flags; check that they compile before calling assertSafeRegex.
+ */
+
+// Admin-written patterns run against every piece of content on the single event loop
+export const MAX_REGEX_PATTERN_LENGTH = 100;
+
+// How many ways optional parts matching the same characters may split a piece of text
+const MAX_BOUNDED_SPLITS = 256;
+
+interface CharSet {
+  // When set, the characters NOT in `ranges`
+  negated: boolean;
+  ranges: [number, number][];
+}
+
+// A part of the pattern matching `min` to `max` characters from `set`
+interface Atom {
+  set: CharSet;
+  min: number;
+  max: number;
+}
+
+const ANY: CharSet = { negated: true, ranges: [] };
+const DIGIT: [number, number][] = [[0x30, 0x39]];
+const WORD: [number, number][] = [[0x30, 0x39], [0x41, 0x5a], [0x5f, 0x5f], [0x61, 0x7a]];
+const SPACE: [number, number][] = [
+  [0x09, 0x0d], [0x20, 0x20], [0xa0, 0xa0], [0x1680, 0x1680], [0x2000, 0x200a],
+  [0x2028, 0x2029], [0x202f, 0x202f], [0x205f, 0x205f], [0x3000, 0x3000], [0xfeff, 0xfeff],
+];
+const LINE_TERMINATORS: [number, number][] = [[0x0a, 0x0a], [0x0d, 0x0d], [0x2028, 0x2029]];
+
+function unsafe(message: string): never {
+  throw new SyntaxError(`${message}; it can hang the server, simplify the pattern`);
+}
+
+function covers(ranges: [number, number][], [lo, hi]: [number, number]): boolean {
+  let next = lo;
+  for (const [from, to] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    if (from > next) break;
+    next = Math.max(next, to + 1);
+    if (next > hi) return true;
+  }
+  return false;
+}
+
+function overlaps(a: CharSet, b: CharSet): boolean {
+  if (a.negated && b.negated) return true;
+  if (a.negated) return b.ranges.some((range) => !covers(a.ranges, range));
+  if (b.negated) return a.ranges.some((range) => !covers(b.ranges, range));
+  return a.ranges.some(([aLo, aHi]) => b.ranges.some(([bLo, bHi]) => aLo <= bHi && bLo <= aHi));
+}
+
+function union(sets: CharSet[]): CharSet {
+  if (sets.some((s) => s.negated)) return ANY;
+  return { negated: false, ranges: sets.flatMap((s) => s.ranges) };
+}
+
+// The `i` flag: both cases of every letter
+function caseFolded(ranges: [number, number][]): [number, number][] {
+  const folded = [...ranges];
+  for (const [lo, hi] of ranges) {
+    const upperLo = Math.max(lo, 0x41);
+    const upperHi = Math.min(hi, 0x5a);
+    if (upperLo <= upperHi) folded.push([upperLo + 0x20, upperHi + 0x20]);
+    const lowerLo = Math.max(lo, 0x61);
+    const lowerHi = Math.min(hi, 0x7a);
+    if (lowerLo <= lowerHi) folded.push([lowerLo - 0x20, lowerHi - 0x20]);
+    if (lo === hi && lo > 0x7f) {
+      const ch = String.fromCodePoint(lo);
+      for (const variant of [ch.toLowerCase(), ch.toUpperCase()]) {
+        const code = variant.codePointAt(0)!;
+        if ([...variant].length === 1 && code !== lo) folded.push([code, code]);
+      }
+    }
+  }
+  return folded;
+}
+
+function chars(ranges: [number, number][], negated = false): CharSet {
+  return { negated, ranges: caseFolded(ranges) };
+}
+
+/**
+ * The variable parts `atoms` can split text between. Refuses the pattern when two
+ * unbounded parts can share characters, or when bounded ones allow too many splits.
+ */
+function checkSequence(atoms: Atom[]): void {
+  const ambiguous = new Set<Atom>();
+  atoms.forEach((first, i) => {
+    if (first.min === first.max) return;
+    for (let j = i + 1; j < atoms.length; j++) {
+      const between = atoms[j];
+      if (between.min !== between.max && overlaps(first.set, between.set)) {
+        if (first.max === Infinity && between.max === Infinity) {
+          unsafe('Two unbounded quantifiers here can match the same characters');
+        }
+        ambiguous.add(first).add(between);
+      }
+      // A required part the first cannot match stops it
+      if (between.min > 0 && !overlaps(first.set, between.set)) break;
+    }
+  });
+
+  let splits = 1;
+  for (const atom of ambiguous) {
+    if (atom.max !== Infinity) splits *= atom.max - atom.min + 1;
+  }
+  if (splits > MAX_BOUNDED_SPLITS) {
+    unsafe('Too many optional parts here can match the same characters');
+  }
+}
+
+class PatternReader {
+  private i = 0;
+
+  constructor(private readonly pattern: string) {}
+
+  /**
+   * Reads alternatives up to the end of the pattern or the enclosing group and checks
+   * each of them. Returns the atoms of every alternative.
+   */
+  alternatives(): Atom[][] {
+    const branches: Atom[][] = [[]];
+    while (this.i < this.pattern.length && this.peek() !== ')') {
+      if (this.peek() === '|') {
+        this.i++;
+        branches.push([]);
+      } else {
+        branches[branches.length - 1].push(...this.term());
+      }
+    }
+    branches.forEach(checkSequence);
+    return branches;
+  }
+
+  private peek(offset = 0): string {
+    return this.pattern[this.i + offset];
+  }
+
+  private codePoint(): number {
+    const code = this.pattern.codePointAt(this.i)!;
+    this.i += code > 0xffff ? 2 : 1;
+    return code;
+  }
+
+  // One atom or group with its quantifier, as the atoms it adds to the sequence
+  private term(): Atom[] {
+    const ch = this.peek();
+    if (ch === '^' || ch === '$') {
+      this.i++;
+      return [];
+    }
+    if (ch === '\\' && (this.peek(1) === 'b' || this.peek(1) === 'B')) {
+      this.i += 2;
+      return [];
+    }
+    if (ch === '(') return this.group();
+
+    const set = ch === '.' ? this.dot() : ch === '[' ? this.charClass() : ch === '\\' ? this.escape() : this.literal();
+    const [min, max] = this.quantifier() ?? [1, 1];
+    return [{ set, min, max }];
+  }
+
+  private dot(): CharSet {
+    this.i++;
+    return { negated: true, ranges: LINE_TERMINATORS };
+  }
+
+  private literal(): CharSet {
+    const code = this.codePoint();
+    return chars([[code, code]]);
+  }
+
+  private escape(): CharSet {
+    this.i++;
+    const ch = this.peek();
+    switch (ch) {
+      case 'd':
+      case 'D':
+        this.i++;
+        return chars(DIGIT, ch === 'D');
+      case 'w':
+      case 'W':
+        this.i++;
+        return chars(WORD, ch === 'W');
+      case 's':
+      case 'S':
+        this.i++;
+        return chars(SPACE, ch === 'S');
+      case 'p':
+      case 'P':
+        this.i = this.pattern.indexOf('}', this.i) + 1;
+        return ANY;
+    }
+    const code = this.escapedCode();
+    return chars([[code, code]]);
+  }
+
+  // The character of an escape that stands for one character, such as \n, \x41 or \.
+  private escapedCode(): number {
+    const ch = this.peek();
+    const simple: Record<string, number> = { n: 0x0a, r: 0x0d, t: 0x09, v: 0x0b, f: 0x0c, '0': 0 };
+    if (ch in simple) {
+      this.i++;
+      return simple[ch];
+    }
+    const hex = /^(?:x([0-9a-fA-F]{2})|u([0-9a-fA-F]{4})|u\{([0-9a-fA-F]+)\})/.exec(this.pattern.slice(this.i));
+    if (hex) {
+      this.i += hex[0].length;
+      return parseInt(hex[1] ?? hex[2] ?? hex[3], 16);
+    }
+    if (ch === 'c') {
+      this.i += 2;
+      return this.pattern.charCodeAt(this.i - 1) % 32;
+    }
+    return this.codePoint();
+  }
+
+  private charClass(): CharSet {
+    this.i++;
+    const negated = this.peek() === '^';
+    if (negated) this.i++;
+
+    const ranges: [number, number][] = [];
+    let any = false;
+    while (this.peek() !== ']') {
+      let lo: number;
+      if (this.peek() === '\\' && /[dDwWsSpP]/.test(this.peek(1))) {
+        const set = this.escape();
+        if (set.negated) any = true;
+        else ranges.push(...set.ranges);
+        continue;
+      } else if (this.peek() === '\\') {
+        this.i++;
+        lo = this.peek() === 'b' ? (this.i++, 0x08) : this.escapedCode();
+      } else {
+        lo = this.codePoint();
+      }
+
+      let hi = lo;
+      if (this.peek() === '-' && this.peek(1) !== ']') {
+        this.i++;
+        if (this.peek() === '\\') {
+          this.i++;
+          hi = this.escapedCode();
+        } else {
+          hi = this.codePoint();
+        }
+      }
+      ranges.push([lo, hi]);
+    }
+    this.i++;
+
+    if (any) return negated ? chars(ranges) : ANY;
+    return chars(ranges, negated);
+  }
+
+  private group(): Atom[] {
+    this.i++;
+    const prefix = /^\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(this.pattern.slice(this.i));
+    if (prefix) this.i += prefix[0].length;
+    const lookaround = !!prefix && /[=!]$/.test(prefix[0]);
+
+    const branches = this.alternatives();
+    this.i++;
+    const quantifier = this.quantifier();
+
+    // Matches nothing itself; what it looks at was checked above
+    if (lookaround) return [];
+
+    const inner = branches.flat();
+    const risky = branches.length > 1 || inner.some((atom) => atom.min !== atom.max);
+    if (!quantifier) {
+      if (branches.length === 1) return inner;
+    } else if (risky && quantifier[1] > 1) {
+      unsafe('Repeating a group that contains a quantifier or | is not allowed');
+    }
+
+    const lengths = branches.map((branch) => ({
+      min: branch.reduce((sum, atom) => sum + atom.min, 0),
+      max: branch.reduce((sum, atom) => sum + atom.max, 0),
+    }));
+    const [times, maxTimes] = quantifier ?? [1, 1];
+    const min = Math.min(...lengths.map((l) => l.min)) * times;
+    const max = Math.max(...lengths.map((l) => l.max)) * maxTimes;
+    return [{ set: union(inner.map((atom) => atom.set)), min, max: Number.isNaN(max) ? 0 : max }];
+  }
+
+  // [min, max] of the quantifier at the current position, if there is one
+  private quantifier(): [number, number] | null {
+    const match = /^(?:([*+?])|\{(\d+)(?:(,)(\d*))?\})\??/.exec(this.pattern.slice(this.i));
+    if (!match) return null;
+    this.i += match[0].length;
+
+    if (match[1] === '*') return [0, Infinity];
+    if (match[1] === '+') return [1, Infinity];
+    if (match[1] === '?') return [0, 1];
+    const min = parseInt(match[2], 10);
+    if (!match[3]) return [min, min];
+    return [min, match[4] ? parseInt(match[4], 10) : Infinity];
+  }
+}
+
+/**
+ * Throws a SyntaxError naming the problem when a `regex` rule's pattern could backtrack
+ * catastrophically (see above).
+ */
+export function assertSafeRegex(pattern: string): void {
+  if (pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+    throw new SyntaxError(`Regular expressions are limited to ${MAX_REGEX_PATTERN_LENGTH} characters`);
+  }
+  if (/\\(?:[1-9]|k<)/.test(pattern)) {
+    throw new SyntaxError('Backreferences are not allowed in moderation rules');
+  }
+  new PatternReader(pattern).alternatives();
+}
@@ -0,0 +1,177 @@
+/**
+ * Post revision history.
+ * Every change to a post stores a full snapshot, so any two revisions can be
+ * compared and any revision can be put back.
+ */
+
+import { db, getPostIngredients, getPostSteps, PostIngredient, PostStep, runStatement } from '../db';
+import { formatQuantity } from './ingredients';
+
+export interface RevisionSnapshot {
+  title: string;
+  content: string;
+  nationality: string | null;
+  servings: number | null;
+  ingredients: PostIngredient[];
+  steps: PostStep[];
+}
+
+export interface RevisionEditor {
+  id: number;
+  name: string;
+}
+
+interface SnapshotPostRow {
+  title: string;
+  content: string;
+  nationality: string | null;
+  servings: number | null;
+}
+
+function getSnapshotPost(postId: number): Promise<SnapshotPostRow | undefined> {
+  return new Promise((resolve, reject) => {
+    db.get<SnapshotPostRow>(
+      'SELECT title, content, nationality, servings FROM posts WHERE id = ?',
+      [postId],
+      (err, row) => {
+        if (err) return reject(err);
+        resolve(row);
+      }
+    );
+  });
+}
+
+async function snapshotOf(postId: number, post: SnapshotPostRow): Promise<RevisionSnapshot> {
+  return {
+    title: post.title,
+    content: post.content,
+    nationality: post.nationality,
+    servings: post.servings,
+    ingredients: await getPostIngredients(postId),
+    steps: await getPostSteps(postId),
+  };
+}
+
+/**
+ * Stores the post's current state as its newest revision.
+ */
+export async function recordRevision(
+  postId: number,
+  editor: RevisionEditor,
+  options: { restoredFrom?: number } = {},
+): Promise<void> {
+  const post = await getSnapshotPost(postId);
+  if (!post) return;
+  const snapshot = await snapshotOf(postId, post);
+  // Numbered in the same statement so concurrent edits cannot claim the same revision
+  await runStatement(
+    `INSERT INTO post_revisions (post_id, revision, editor_id, editor_name, snapshot, restored_from, created_at)
+    SELECT ?, COALESCE(MAX(revision), 0) + 1, ?, ?, ?, ?, ? FROM post_revisions WHERE post_id = ?`,
+    [postId, editor.id, editor.name, JSON.stringify(snapshot), options.restoredFrom ?? null, new Date().toISOString(), postId],
+  );
+}
+
+export type DiffRowType = 'same' | 'changed' | 'added' | 'removed';
+
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null;
+  right: string | null;
+}
+
+export interface FieldDiff {
+  field: keyof RevisionSnapshot;
+  changed: boolean;
+  rows: DiffRow[];
+}
+
+// Above this many line comparisons a changed field is shown as one replaced block
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line diff laid out side by side: unchanged lines share a row, and runs of
+ * removed and added lines are paired up as changed rows.
+ */
+export function diffLines(before: string[], after: string[]): DiffRow[] {
+  const n = before.length;
+  const m = after.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    return pairChanges(before, after);
+  }
+
+  // Longest common subsequence lengths of the suffixes, row-major (n + 1) x (m + 1)
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        before[i] === after[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    rows.push(...pairChanges(removed, added));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      flush();
+      rows.push({ type: 'same', left: before[i], right: after[j] });
+      i++;
+      j++;
+    } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+      added.push(after[j++]);
+    } else {
+      removed.push(before[i++]);
+    }
+  }
+  flush();
+  return rows;
+}
+
+function pairChanges(removed: string[], added: string[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+    const left = k < removed.length ? removed[k] : null;
+    const right = k < added.length ? added[k] : null;
+    rows.push({ type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+  }
+  return rows;
+}
+
+function ingredientLine(ing: PostIngredient): string {
+  const amount = ing.quantity !== null ? formatQuantity(ing.quantity, ing.unit) : '';
+  return [amount, ing.unit || '', ing.name].filter(Boolean).join(' ') + (ing.note ? `, ${ing.note}` : '');
+}
+
+function snapshotLines(snapshot: RevisionSnapshot, field: keyof RevisionSnapshot): string[] {
+  switch (field) {
+    case 'content':
+      return snapshot.content.split(/\r?\n/);
+    case 'ingredients':
+      return snapshot.ingredients.map(ingredientLine);
+    case 'steps':
+      return snapshot.steps.map((s) => s.instruction);
+    default: {
+      const value = snapshot[field];
+      return value === null || value === undefined || value === '' ? [] : [String(value)];
+    }
+  }
+}
+
+const DIFF_FIELDS: (keyof RevisionSnapshot)[] = ['title', 'nationality', 'servings', 'content', 'ingredients', 'steps'];
+
+export function diffSnapshots(before: RevisionSnapshot, after: RevisionSnapshot): FieldDiff[] {
+  return DIFF_FIELDS.map((field) => {
+    const rows = diffLines(snapshotLines(before, field), snapshotLines(after, field));
+    return { field, changed: rows.some((r) => r.type !== 'same'), rows };
+  });
+}
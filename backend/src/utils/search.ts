@@ -0,0 +1,33 @@
+/**
+ * Helpers for building FTS5 queries from user input.
+ * Raw input is never passed to MATCH, since quotes, parentheses and bare
+ * operators such as AND/NEAR are FTS5 syntax and would either error or change the query.
+ */
+
+const MAX_TERMS = 10;
+
+// Highlight markers are control characters so they can never collide with recipe text
+// and the client can split on them instead of rendering HTML
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+/**
+ * Turns free text into an FTS5 query where every word must match, each as a
+ * prefix so results update while the user is still typing. Returns null when
+ * the input contains no searchable words.
+ */
+export function buildMatchQuery(input: string): string | null {
+  const terms = input.match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return terms
+    .slice(0, MAX_TERMS)
+    .map((term) => `"${term}"*`)
+    .join(' ');
+}
+
+/**
+ * Escapes LIKE wildcards so user input is matched literally (use with ESCAPE '\').
+ */
+export function escapeLike(input: string): string {
+  return input.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
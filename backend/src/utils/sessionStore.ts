@@ -0,0 +1,126 @@
+/**
+ * express-session store backed by the `sessions` table, so sessions survive restarts
+ * and deploys and every backend process pointed at the same database shares them.
+ *
+ * A session expires with its cookie (`maxAge` in setup/app.ts); express-session
+ * touches it on every request, which moves the expiry forward. Expired rows are
+ * ignored on read and removed by jobs/sessionCleanup.ts. Rows carry the signed-in
+ * user's id so all sessions of a user can be found and ended at once.
+ */
+
+import { SessionData, Store } from 'express-session';
+import { allRows, db, runStatement } from '../db';
+
+// Only used for a session whose cookie has no maxAge; matches the cookie in setup/app.ts
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+interface SessionRow {
+  sid: string;
+  data: string;
+}
+
+function expiresAt(session: SessionData): number {
+  const { expires, originalMaxAge } = session.cookie;
+  if (expires) return new Date(expires).getTime();
+  return Date.now() + (originalMaxAge ?? DEFAULT_TTL_MS);
+}
+
+function userIdOf(session: SessionData): number | null {
+  return ((session as any).userId as number | undefined) ?? null;
+}
+
+// Node-style callbacks are optional in the Store API
+function settle<T>(promise: Promise<T>, callback?: (err: any, result?: T) => void): void {
+  promise.then(
+    (result) => callback?.(null, result),
+    (err) => callback?.(err),
+  );
+}
+
+export class SqliteSessionStore extends Store {
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    settle(
+      allRows<SessionRow>('SELECT sid, data FROM sessions WHERE sid = ? AND expires_at > ?', [sid, Date.now()]).then(
+        (rows) => (rows[0] ? (JSON.parse(rows[0].data) as SessionData) : null),
+      ),
+      callback,
+    );
+  }
+
+  set(sid: string, session: SessionData, callback?: (err?: any) => void): void {
+    settle(
+      runStatement(
+        `INSERT INTO sessions (sid, user_id, data, expires_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(sid) DO UPDATE SET user_id = excluded.user_id, data = excluded.data, expires_at = excluded.expires_at`,
+        [sid, userIdOf(session), JSON.stringify(session), expiresAt(session)],
+      ),
+      callback,
+    );
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    settle(runStatement('DELETE FROM sessions WHERE sid = ?', [sid]), callback);
+  }
+
+  /**
+   * Moves the expiry forward without rewriting the data of an unchanged session.
+   */
+  touch(sid: string, session: SessionData, callback?: () => void): void {
+    settle(runStatement('UPDATE sessions SET expires_at = ? WHERE sid = ?', [expiresAt(session), sid]), callback);
+  }
+
+  all(callback: (err: any, obj?: { [sid: string]: SessionData } | null) => void): void {
+    settle(
+      allRows<SessionRow>('SELECT sid, data FROM sessions WHERE expires_at > ?', [Date.now()]).then((rows) =>
+        Object.fromEntries(rows.map((row) => [row.sid, JSON.parse(row.data) as SessionData])),
+      ),
+      callback,
+    );
+  }
+
+  length(callback: (err: any, length?: number) => void): void {
+    settle(
+      allRows<{ count: number }>('SELECT COUNT(*) AS count FROM sessions WHERE expires_at > ?', [Date.now()]).then(
+        (rows) => rows[0].count,
+      ),
+      callback,
+    );
+  }
+
+  clear(callback?: (err?: any) => void): void {
+    settle(runStatement('DELETE FROM sessions', []), callback);
+  }
+
+  /**
+   * Ids of the user's sessions that have not expired.
+   */
+  sessionIdsOfUser(userId: number): Promise<string[]> {
+    return allRows<{ sid: string }>('SELECT sid FROM sessions WHERE user_id = ? AND expires_at > ?', [
+      userId,
+      Date.now(),
+    ]).then((rows) => rows.map((row) => row.sid));
+  }
+
+  /**
+   * Ends every session of the user. Returns how many were still active.
+   */
+  async destroyUserSessions(userId: number): Promise<number> {
+    const active = await this.sessionIdsOfUser(userId);
+    await runStatement('DELETE FROM sessions WHERE user_id = ?', [userId]);
+    return active.length;
+  }
+
+  /**
+   * Deletes expired sessions. Returns how many were removed.
+   */
+  destroyExpired(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      db.run('DELETE FROM sessions WHERE expires_at <= ?', [Date.now()], function (err) {
+        if (err) return reject(err);
+        resolve(this.changes);
+      });
+    });
+  }
+}
+
+export const sessionStore = new SqliteSessionStore();
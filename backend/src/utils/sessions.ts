@@ -0,0 +1,177 @@
+import { Request } from 'express';
+import { Session } from 'express-session';
+import { DbUser, allRows, runStatement, updateSessionActivity } from '../db';
+import { idleTimeoutMinutes } from './idleTimeout';
+import { permissionsForRole } from './permissions';
+import { needsTwoFactorSetup } from './twoFactor';
+
+/**
+ * Whether a session was opened before the user's sessions were revoked (a password
+ * reset sets `sessions_valid_after`). Sessions carry `authenticatedAt` from the
+ * moment they were logged in; one without it predates revocation and is rejected too.
+ */
+export function isSessionRevoked(user: Pick<DbUser, 'sessions_valid_after'>, session: Session): boolean {
+  if (!user.sessions_valid_after) return false;
+  const authenticatedAt = (session as any).authenticatedAt as number | undefined;
+  return !authenticatedAt || authenticatedAt < new Date(user.sessions_valid_after).getTime();
+}
+
+/**
+ * Logs `user` in on a new session. Every way of signing in ends here: the session id
+ * is regenerated so one fixed before login is worthless, and anything left over from
+ * the sign-in steps (pending second factor, WebAuthn challenge) is dropped with it.
+ */
+export function startAuthenticatedSession(req: Request, user: Pick<DbUser, 'id'>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      (req.session as any).userId = user.id;
+      (req.session as any).lastActivity = Date.now();
+      (req.session as any).authenticatedAt = Date.now();
+      updateSessionActivity(user.id, req.sessionID, clientDetails(req)).then(resolve, reject);
+    });
+  });
+}
+
+/**
+ * A row of `user_sessions`: one per signed-in session, from login until it is signed
+ * out or revoked. requireAuth rejects a session whose row is gone, so deleting the row
+ * is what revokes it.
+ */
+export interface DbUserSession {
+  id: number;
+  user_id: number;
+  session_id: string;
+  user_agent: string | null;
+  ip: string | null;
+  last_activity: string;
+  created_at: string;
+}
+
+// Last activity is written at most this often, not on every request
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+function clientDetails(req: Request) {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 512) || null,
+    ip: req.ip || null,
+  };
+}
+
+export function findUserSession(sessionId: string): Promise<DbUserSession | undefined> {
+  return allRows<DbUserSession>('SELECT * FROM user_sessions WHERE session_id = ?', [sessionId]).then(
+    (rows) => rows[0],
+  );
+}
+
+/**
+ * The user's sessions that are still open, most recently active first.
+ */
+export function listUserSessions(userId: number): Promise<DbUserSession[]> {
+  return allRows<DbUserSession>(
+    `SELECT us.* FROM user_sessions us JOIN sessions s ON s.sid = us.session_id
+    WHERE us.user_id = ? AND s.expires_at > ? ORDER BY us.last_activity DESC`,
+    [userId, Date.now()],
+  );
+}
+
+/**
+ * Removes the rows of sessions that expired or were dropped from the session store.
+ * A row is written just before its session is first saved, so new rows are left alone.
+ */
+export function forgetEndedSessions(): Promise<void> {
+  const cutoff = new Date(Date.now() - ACTIVITY_WRITE_INTERVAL_MS).toISOString();
+  return runStatement(
+    'DELETE FROM user_sessions WHERE created_at < ? AND session_id NOT IN (SELECT sid FROM sessions)',
+    [cutoff],
+  );
+}
+
+// When all of a user's sessions were ended in the session store at once
+export function forgetAllUserSessions(userId: number): Promise<void> {
+  return runStatement('DELETE FROM user_sessions WHERE user_id = ?', [userId]);
+}
+
+/**
+ * Refreshes the last activity (and IP) of the session behind `req`.
+ */
+export function touchUserSession(req: Request, row: DbUserSession): Promise<void> {
+  if (Date.now() - new Date(row.last_activity).getTime() < ACTIVITY_WRITE_INTERVAL_MS) {
+    return Promise.resolve();
+  }
+  return updateSessionActivity(row.user_id, row.session_id, clientDetails(req));
+}
+
+// Logging out ends the session itself; its row goes with it
+export function forgetUserSession(sessionId: string): Promise<void> {
+  return runStatement('DELETE FROM user_sessions WHERE session_id = ?', [sessionId]);
+}
+
+/**
+ * Signs the given sessions out: their rows are deleted and the sessions are dropped
+ * from the session store, so they end on their next request.
+ */
+export async function revokeUserSessions(req: Request, rows: DbUserSession[]): Promise<void> {
+  for (const row of rows) {
+    await runStatement('DELETE FROM user_sessions WHERE id = ?', [row.id]);
+    await new Promise<void>((resolve, reject) => {
+      req.sessionStore.destroy(row.session_id, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+}
+
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome claims to be Safari
+const BROWSERS: [string, RegExp][] = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Firefox', /Firefox\//],
+  ['Chrome', /Chrome\//],
+  ['Safari', /Version\/.*Safari\//],
+];
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Macintosh|Mac OS X/],
+  ['Linux', /Linux/],
+];
+
+/**
+ * "Chrome on Windows" and the like, good enough to recognise one's own devices.
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.split(' ')[0];
+}
+
+export function serializeUserSession(row: DbUserSession, currentSessionId: string) {
+  return {
+    id: row.id,
+    device: describeUserAgent(row.user_agent),
+    userAgent: row.user_agent,
+    ip: row.ip,
+    createdAt: row.created_at,
+    lastActivity: row.last_activity,
+    current: row.session_id === currentSessionId,
+  };
+}
+
+/**
+ * The signed-in user as the frontend sees it (`/me` and every login response).
+ */
+export function serializeAuthUser(user: DbUser) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    permissions: permissionsForRole(user.role),
+    twoFactorEnabled: !!user.totp_enabled_at,
+    twoFactorSetupRequired: needsTwoFactorSetup(user),
+    idleTimeoutMinutes: idleTimeoutMinutes(user.role),
+  };
+}
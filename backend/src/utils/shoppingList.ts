@@ -0,0 +1,220 @@
+/**
+ * Shopping list consolidation.
+ * Ingredients from several recipes are merged by name once their quantities are
+ * normalized (volumes to millilitres, masses to grams), then sorted into aisles.
+ */
+
+import { PostIngredient } from '../db';
+import { formatQuantity } from './ingredients';
+import { UnitSystem, convertToSystem, isMetricUnit, toBaseUnit } from './units';
+
+export const AISLES = [
+  'Produce',
+  'Meat & Seafood',
+  'Dairy & Eggs',
+  'Bakery',
+  'Pantry',
+  'Spices & Seasonings',
+  'Frozen',
+  'Beverages',
+  'Other',
+] as const;
+export type Aisle = (typeof AISLES)[number];
+
+// Checked in order and matched at word starts, so more specific aisles win:
+// "coconut milk" is pantry rather than dairy and "eggplant" is produce rather than eggs
+const AISLE_KEYWORDS: [Aisle, string[]][] = [
+  ['Frozen', ['frozen', 'ice cream']],
+  ['Beverages', ['wine', 'beer', 'coffee', 'tea', 'soda', 'sparkling water']],
+  ['Spices & Seasonings', [
+    'salt', 'black pepper', 'peppercorn', 'cayenne', 'cumin', 'paprika', 'cinnamon', 'nutmeg', 'oregano', 'thyme',
+    'rosemary', 'chili powder', 'chilli powder', 'curry', 'turmeric', 'cardamom', 'bay lea', 'spice', 'seasoning',
+    'coriander seed',
+  ]],
+  ['Pantry', [
+    'coconut milk', 'flour', 'cornflour', 'cornstarch', 'sugar', 'rice', 'pasta', 'noodle', 'spaghetti', 'oil',
+    'vinegar', 'stock', 'broth', 'bean', 'lentil', 'chickpea', 'oat', 'honey', 'syrup', 'sauce', 'paste', 'canned',
+    'tinned', 'nut', 'almond', 'walnut', 'peanut', 'baking', 'yeast', 'cocoa', 'chocolate', 'vanilla', 'breadcrumb',
+    'mustard', 'ketchup', 'mayonnaise', 'jam', 'raisin', 'quinoa', 'couscous',
+  ]],
+  ['Meat & Seafood', [
+    'chicken', 'beef', 'pork', 'lamb', 'turkey', 'bacon', 'sausage', 'ham', 'mince', 'steak', 'fish', 'salmon',
+    'tuna', 'cod', 'shrimp', 'prawn', 'crab', 'mussel', 'clam', 'anchov',
+  ]],
+  ['Produce', [
+    'onion', 'garlic', 'tomato', 'potato', 'carrot', 'celery', 'pepper', 'lettuce', 'spinach', 'kale', 'cabbage',
+    'broccoli', 'cauliflower', 'zucchini', 'courgette', 'eggplant', 'aubergine', 'mushroom', 'cucumber', 'avocado',
+    'lemon', 'lime', 'orange', 'apple', 'banana', 'berry', 'berries', 'grape', 'mango', 'pear', 'peach', 'ginger',
+    'herb', 'basil', 'parsley', 'cilantro', 'coriander', 'mint', 'dill', 'chive', 'scallion', 'shallot', 'leek',
+    'pea', 'corn', 'squash', 'pumpkin', 'beet', 'radish', 'chili', 'chilli', 'jalapeno', 'fruit', 'vegetable',
+  ]],
+  ['Dairy & Eggs', ['milk', 'butter', 'cheese', 'cream', 'yogurt', 'yoghurt', 'egg', 'parmesan', 'mozzarella', 'feta']],
+  ['Bakery', ['bread', 'bun', 'roll', 'tortilla', 'pita', 'baguette', 'croissant', 'bagel']],
+];
+
+const AISLE_PATTERNS = AISLE_KEYWORDS.map(
+  ([aisle, keywords]) => [aisle, new RegExp(`\\b(?:${keywords.join('|')})`, 'i')] as const,
+);
+
+export function aisleFor(name: string): Aisle {
+  for (const [aisle, pattern] of AISLE_PATTERNS) {
+    if (pattern.test(name)) return aisle;
+  }
+  return 'Other';
+}
+
+// Rough singular form used only as a merge key, so "eggs" and "egg" end up on one line
+function singularize(word: string): string {
+  if (/ies$/.test(word)) return word.replace(/ies$/, 'y');
+  if (/(?:oes|ches|shes|sses|xes)$/.test(word)) return word.replace(/es$/, '');
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function mergeKeyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ');
+}
+
+export interface ShoppingSource {
+  recipeTitle: string;
+  ingredients: PostIngredient[];
+  factor: number;
+}
+
+export interface ShoppingItem {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  aisle: Aisle;
+  recipes: string[];
+}
+
+interface Accumulator {
+  name: string;
+  // Millilitres or grams for convertible units, otherwise the amount in `unit`
+  quantity: number | null;
+  unit: string | null;
+  dimension: 'volume' | 'mass' | 'count';
+  metricOnly: boolean;
+  recipes: Set<string>;
+}
+
+/**
+ * Merges the ingredients of every recipe into one list. Lines merge when their
+ * names match and their units can be added up (both volumes, both masses, or
+ * the same count unit); otherwise they stay separate.
+ */
+export function consolidateIngredients(sources: ShoppingSource[]): ShoppingItem[] {
+  const merged = new Map<string, Accumulator>();
+
+  for (const source of sources) {
+    for (const ing of source.ingredients) {
+      const scaled = ing.quantity !== null ? ing.quantity * source.factor : null;
+      const base = scaled !== null ? toBaseUnit(scaled, ing.unit) : null;
+      const dimension = (base ?? toBaseUnit(1, ing.unit)).dimension;
+      const countUnit = dimension === 'count' ? (ing.unit?.trim().toLowerCase() || null) : null;
+      const key = `${mergeKeyName(ing.name)}|${dimension}|${countUnit ?? ''}`;
+
+      const existing = merged.get(key);
+      if (existing) {
+        if (base) existing.quantity = (existing.quantity ?? 0) + base.quantity;
+        existing.metricOnly = existing.metricOnly && (dimension === 'count' || isMetricUnit(ing.unit));
+        existing.recipes.add(source.recipeTitle);
+        continue;
+      }
+
+      merged.set(key, {
+        name: ing.name.trim(),
+        quantity: base?.quantity ?? null,
+        unit: dimension === 'count' ? ing.unit?.trim() || null : base?.unit ?? null,
+        dimension,
+        metricOnly: dimension === 'count' || isMetricUnit(ing.unit),
+        recipes: new Set([source.recipeTitle]),
+      });
+    }
+  }
+
+  const items: ShoppingItem[] = [];
+  for (const acc of merged.values()) {
+    let { quantity, unit } = acc;
+    // Show merged amounts in the system the recipes used, in the most readable unit
+    if (quantity !== null && acc.dimension !== 'count') {
+      const system: UnitSystem = acc.metricOnly ? 'metric' : 'imperial';
+      const converted = convertToSystem(quantity, unit, system);
+      quantity = converted.quantity;
+      unit = converted.unit;
+    }
+    items.push({
+      name: acc.name,
+      quantity: quantity !== null ? Math.round(quantity * 1000) / 1000 : null,
+      unit,
+      aisle: aisleFor(acc.name),
+      recipes: [...acc.recipes],
+    });
+  }
+
+  return items.sort(
+    (a, b) => AISLES.indexOf(a.aisle) - AISLES.indexOf(b.aisle) || a.name.localeCompare(b.name),
+  );
+}
+
+export function formatItemLine(item: { name: string; quantity: number | null; unit: string | null }): string {
+  return [item.quantity !== null ? formatQuantity(item.quantity, item.unit) : '', item.unit || '', item.name]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function csvField(value: string): string {
+  // Quote every field and neutralize spreadsheet formulas
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export interface ExportItem {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  aisle: string;
+  checked: boolean;
+  recipes: string[];
+}
+
+export function toPlainText(title: string, items: ExportItem[]): string {
+  const lines = [title, ''];
+  for (const aisle of AISLES) {
+    const inAisle = items.filter((item) => item.aisle === aisle);
+    if (inAisle.length === 0) continue;
+    lines.push(`${aisle}:`);
+    for (const item of inAisle) {
+      lines.push(`  [${item.checked ? 'x' : ' '}] ${formatItemLine(item)}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+export function toCsv(items: ExportItem[]): string {
+  const rows = [['Aisle', 'Item', 'Quantity', 'Unit', 'Checked', 'Recipes'].map(csvField).join(',')];
+  for (const item of items) {
+    rows.push(
+      [
+        item.aisle,
+        item.name,
+        item.quantity !== null ? formatQuantity(item.quantity, item.unit) : '',
+        item.unit || '',
+        item.checked ? 'yes' : 'no',
+        item.recipes.join('; '),
+      ]
+        .map(csvField)
+        .join(','),
+    );
+  }
+  return rows.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,32 @@
+/**
+ * User suspension. A suspension with an expiry simply stops applying once it has
+ * passed; nothing needs to clear it.
+ */
+
+import type { DbUser } from '../db';
+
+type SuspensionFields = Pick<DbUser, 'suspended_at' | 'suspended_until' | 'suspended_reason'>;
+
+/**
+ * WHERE fragment matching users whose suspension is in force, as of the `?` timestamp.
+ */
+export const ACTIVE_SUSPENSION_SQL = '(suspended_at IS NOT NULL AND (suspended_until IS NULL OR suspended_until > ?))';
+
+export function isSuspended(user: SuspensionFields, now = new Date()): boolean {
+  if (!user.suspended_at) return false;
+  return !user.suspended_until || new Date(user.suspended_until) > now;
+}
+
+/**
+ * Response body for a request rejected because the account is suspended.
+ */
+export function suspendedResponse(user: SuspensionFields) {
+  const period = user.suspended_until ? ` until ${user.suspended_until}` : '';
+  const reason = user.suspended_reason ? `. Reason: ${user.suspended_reason}` : '';
+  return {
+    error: `Your account is suspended${period}${reason}`,
+    suspended: true,
+    suspendedUntil: user.suspended_until,
+    reason: user.suspended_reason,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Trash. Deleting a post, file or user only stamps `deleted_at`; the row and its
+ * files on disk stay until the purger removes them TRASH_RETENTION_DAYS later, and
+ * can be restored until then.
+ *
+ * The purge* functions are the permanent deletes and remove everything hanging off the row.
+ */
+
+import { allRows, runInTransaction, runStatement } from '../db';
+import { removePostImage, removeStoredFile } from './uploads';
+
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10) || 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When an item deleted at `deletedAt` is purged for good.
+ */
+export function purgeAt(deletedAt: string): string {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+}
+
+/**
+ * Items deleted before this timestamp are due for purging.
+ */
+export function purgeCutoff(now = new Date()): string {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+}
+
+/**
+ * Moves a user to the trash together with their posts and files. The posts and files
+ * share the user's `deleted_at`, which is how restoreUser finds them again.
+ */
+export async function trashUser(userId: number, deletedBy: number): Promise<string> {
+  const deletedAt = new Date().toISOString();
+  await runStatement(
+    'UPDATE posts SET deleted_at = ?, deleted_by = ? WHERE author_id = ? AND deleted_at IS NULL',
+    [deletedAt, deletedBy, userId],
+  );
+  await runStatement(
+    'UPDATE file_uploads SET deleted_at = ?, deleted_by = ? WHERE user_id = ? AND deleted_at IS NULL',
+    [deletedAt, deletedBy, userId],
+  );
+  await runStatement('UPDATE users SET deleted_at = ?, deleted_by = ? WHERE id = ?', [deletedAt, deletedBy, userId]);
+  return deletedAt;
+}
+
+/**
+ * Takes a user out of the trash along with the posts and files that were deleted with them.
+ * Content the user had already deleted before stays in the trash.
+ */
+export async function restoreUser(userId: number, deletedAt: string): Promise<void> {
+  await runStatement(
+    'UPDATE posts SET deleted_at = NULL, deleted_by = NULL WHERE author_id = ? AND deleted_at = ?',
+    [userId, deletedAt],
+  );
+  await runStatement(
+    'UPDATE file_uploads SET deleted_at = NULL, deleted_by = NULL WHERE user_id = ? AND deleted_at = ?',
+    [userId, deletedAt],
+  );
+  await runStatement('UPDATE users SET deleted_at = NULL, deleted_by = NULL WHERE id = ?', [userId]);
+}
+
+// Everything hanging off a post, removed before the post row itself
+const POST_CLEANUP = [
+  'DELETE FROM post_ingredients WHERE post_id = ?',
+  'DELETE FROM post_steps WHERE post_id = ?',
+  'DELETE FROM reviews WHERE post_id = ?',
+  'DELETE FROM comments WHERE post_id = ?',
+  'DELETE FROM collection_items WHERE post_id = ?',
+  'DELETE FROM meal_plan_slots WHERE post_id = ?',
+  'DELETE FROM post_revisions WHERE post_id = ?',
+  'DELETE FROM post_moderation_events WHERE post_id = ?',
+  'DELETE FROM post_reports WHERE post_id = ?',
+  'DELETE FROM posts WHERE id = ?',
+];
+
+export async function purgePost(postId: number): Promise<void> {
+  const [post] = await allRows<{ image_url: string | null }>('SELECT image_url FROM posts WHERE id = ?', [postId]);
+  await runInTransaction(POST_CLEANUP.map((sql) => ({ sql, params: [postId] })));
+  if (post) removePostImage(post.image_url);
+}
+
+export async function purgeFile(fileId: number): Promise<void> {
+  const [file] = await allRows<{ stored_name: string }>('SELECT stored_name FROM file_uploads WHERE id = ?', [fileId]);
+  await runStatement('DELETE FROM file_uploads WHERE id = ?', [fileId]);
+  if (file) removeStoredFile(file.stored_name);
+}
+
+// Everything a user owns, removed before the user row itself
+const USER_CLEANUP = [
+  'DELETE FROM post_ingredients WHERE post_id IN (SELECT id FROM posts WHERE author_id = ?)',
+  'DELETE FROM post_steps WHERE post_id IN (SELECT id FROM posts WHERE author_id = ?)',
+  'DELETE FROM post_revisions WHERE post_id IN (SELECT id FROM posts WHERE author_id = ?)',
+  'UPDATE post_revisions SET editor_id = NULL WHERE editor_id = ?',
+  'DELETE FROM post_moderation_events WHERE post_id IN (SELECT id FROM posts WHERE author_id = ?)',
+  'UPDATE post_moderation_events SET actor_id = NULL WHERE actor_id = ?',
+  'UPDATE moderation_rules SET created_by = NULL WHERE created_by = ?',
+  'DELETE FROM post_reports WHERE post_id IN (SELECT id FROM posts WHERE author_id = ?)',
+  'DELETE FROM post_reports WHERE reporter_id = ?',
+  'UPDATE post_reports SET resolved_by = NULL WHERE resolved_by = ?',
+  'DELETE FROM reviews WHERE post_id IN (SELECT id FROM posts WHERE author_id = ?)',
+  'DELETE FROM reviews WHERE user_id = ?',
+  'DELETE FROM comments WHERE post_id IN (SELECT id FROM posts WHERE author_id = ?)',
+  'DELETE FROM collection_items WHERE post_id IN (SELECT id FROM posts WHERE author_id = ?)',
+  'DELETE FROM collection_items WHERE collection_id IN (SELECT id FROM collections WHERE user_id = ?)',
+  'DELETE FROM collections WHERE user_id = ?',
+  'DELETE FROM meal_plan_slots WHERE post_id IN (SELECT id FROM posts WHERE author_id = ?)',
+  'DELETE FROM meal_plan_slots WHERE user_id = ?',
+  'DELETE FROM shopping_list_items WHERE list_id IN (SELECT id FROM shopping_lists WHERE user_id = ?)',
+  'DELETE FROM shopping_list_recipes WHERE list_id IN (SELECT id FROM shopping_lists WHERE user_id = ?)',
+  'DELETE FROM shopping_lists WHERE user_id = ?',
+  "UPDATE comments SET body = '', deleted_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE author_id = ?",
+  'DELETE FROM posts WHERE author_id = ?',
+  'DELETE FROM file_uploads WHERE user_id = ?',
+  'DELETE FROM otp_codes WHERE user_id = ?',
+  'DELETE FROM password_reset_tokens WHERE user_id = ?',
+  'DELETE FROM recovery_codes WHERE user_id = ?',
+  'DELETE FROM webauthn_credentials WHERE user_id = ?',
+  'DELETE FROM user_sessions WHERE user_id = ?',
+  'DELETE FROM sessions WHERE user_id = ?',
+  'UPDATE users SET suspended_by = NULL WHERE suspended_by = ?',
+  'UPDATE posts SET deleted_by = NULL WHERE deleted_by = ?',
+  'UPDATE file_uploads SET deleted_by = NULL WHERE deleted_by = ?',
+  'UPDATE users SET deleted_by = NULL WHERE deleted_by = ?',
+  'DELETE FROM users WHERE id = ?',
+];
+
+/**
+ * Permanently deletes a user, all their posts and files (trashed or not) and whatever hangs off them.
+ */
+export async function purgeUser(userId: number): Promise<void> {
+  // Collected up front: the rows pointing at the files are removed below
+  const storedFiles = await allRows<{ stored_name: string }>(
+    'SELECT stored_name FROM file_uploads WHERE user_id = ?',
+    [userId],
+  );
+  const postImages = await allRows<{ image_url: string | null }>(
+    'SELECT image_url FROM posts WHERE author_id = ? AND image_url IS NOT NULL',
+    [userId],
+  );
+
+  await runInTransaction(USER_CLEANUP.map((sql) => ({ sql, params: [userId] })));
+
+  storedFiles.forEach((f) => removeStoredFile(f.stored_name));
+  postImages.forEach((p) => removePostImage(p.image_url));
+}
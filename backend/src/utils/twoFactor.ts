@@ -0,0 +1,134 @@
+/**
+ * Two-factor authentication with an authenticator app.
+ *
+ * A user with `totp_enabled_at` set signs in with their password and then a TOTP code
+ * or one of their one-time recovery codes. Admins can make 2FA mandatory per role
+ * (`role_settings.require_two_factor`); users of such a role who have not set it up
+ * can only reach the 2FA setup endpoints until they do. The policy is cached in memory
+ * and reloaded when the table changes (see policyCache.ts).
+ */
+
+import crypto from 'crypto';
+import { db, DbUser, allRows, runStatement } from '../db';
+import { Role, ROLES } from './permissions';
+import { watchPolicyTable } from './policyCache';
+import { verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+let requiredRoles = new Set<Role>();
+
+export function loadTwoFactorPolicy(): Promise<void> {
+  return allRows<{ role: Role }>('SELECT role FROM role_settings WHERE require_two_factor = 1', []).then((rows) => {
+    requiredRoles = new Set(rows.map((r) => r.role));
+  });
+}
+
+watchPolicyTable('role_settings', loadTwoFactorPolicy);
+
+export async function setRoleRequiresTwoFactor(role: Role, required: boolean): Promise<void> {
+  await runStatement(
+    'INSERT INTO role_settings (role, require_two_factor) VALUES (?, ?) ON CONFLICT(role) DO UPDATE SET require_two_factor = excluded.require_two_factor',
+    [role, required ? 1 : 0],
+  );
+  await loadTwoFactorPolicy();
+}
+
+export function roleRequiresTwoFactor(role: Role): boolean {
+  return requiredRoles.has(role);
+}
+
+export function twoFactorPolicy(): { role: Role; requireTwoFactor: boolean }[] {
+  return ROLES.map((role) => ({ role, requireTwoFactor: requiredRoles.has(role) }));
+}
+
+/**
+ * The user's role requires 2FA and they have not set it up yet.
+ */
+export function needsTwoFactorSetup(user: Pick<DbUser, 'role' | 'totp_enabled_at'>): boolean {
+  return !user.totp_enabled_at && roleRequiresTwoFactor(user.role);
+}
+
+// Case, spaces and dashes do not matter when a code is typed back in
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+function generateRecoveryCode(): string {
+  const raw = crypto.randomBytes(5).toString('hex');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+/**
+ * Replaces the user's recovery codes with a fresh set and returns them. Only their
+ * hashes are stored, so this is the one time they can be shown.
+ */
+export async function replaceRecoveryCodes(userId: number): Promise<string[]> {
+  const now = new Date().toISOString();
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await runStatement('DELETE FROM recovery_codes WHERE user_id = ?', [userId]);
+  for (const code of codes) {
+    await runStatement('INSERT INTO recovery_codes (user_id, code_hash, created_at) VALUES (?, ?, ?)', [
+      userId,
+      hashRecoveryCode(code),
+      now,
+    ]);
+  }
+  return codes;
+}
+
+export function countRecoveryCodes(userId: number): Promise<number> {
+  return allRows<{ count: number }>('SELECT COUNT(*) AS count FROM recovery_codes WHERE user_id = ? AND used_at IS NULL', [
+    userId,
+  ]).then((rows) => rows[0]?.count ?? 0);
+}
+
+function consumeRecoveryCode(userId: number, code: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    db.run(
+      `UPDATE recovery_codes SET used_at = ?
+      WHERE id = (SELECT id FROM recovery_codes WHERE user_id = ? AND code_hash = ? AND used_at IS NULL LIMIT 1)`,
+      [new Date().toISOString(), userId, hashRecoveryCode(code)],
+      function (err) {
+        if (err) return reject(err);
+        resolve(this.changes > 0);
+      },
+    );
+  });
+}
+
+/**
+ * Checks a TOTP code against `secret`, the user's own or the one being set up.
+ * Remembers the code's time step so it cannot be replayed.
+ */
+export function acceptTotp(userId: number, secret: string, code: string, lastUsedStep: number | null): Promise<boolean> {
+  const step = verifyTotp(secret, code, lastUsedStep);
+  if (step === null) return Promise.resolve(false);
+
+  return new Promise((resolve, reject) => {
+    // Guarded so two requests with the same code cannot both pass
+    db.run(
+      'UPDATE users SET totp_last_step = ? WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)',
+      [step, userId, step],
+      function (err) {
+        if (err) return reject(err);
+        resolve(this.changes > 0);
+      },
+    );
+  });
+}
+
+/**
+ * Checks the second factor of a user with 2FA enabled: a 6-digit TOTP code or a
+ * recovery code, which is used up. Returns which one matched, or null.
+ */
+export async function verifySecondFactor(user: DbUser, code: string): Promise<'totp' | 'recovery_code' | null> {
+  const trimmed = code.trim();
+  if (!user.totp_secret) return null;
+
+  if (/^\d{6}$/.test(trimmed)) {
+    return (await acceptTotp(user.id, user.totp_secret, trimmed, user.totp_last_step)) ? 'totp' : null;
+  }
+  return (await consumeRecoveryCode(user.id, trimmed)) ? 'recovery_code' : null;
+}
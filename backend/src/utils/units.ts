@@ -0,0 +1,128 @@
+/**
+ * Unit conversion for recipe quantities.
+ * Volumes are normalized to millilitres and masses to grams before converting
+ * into the requested measurement system.
+ */
+
+export type UnitSystem = 'metric' | 'imperial';
+export type Dimension = 'volume' | 'mass' | 'count';
+
+interface UnitDefinition {
+  key: string;
+  dimension: 'volume' | 'mass';
+  system: UnitSystem;
+  toBase: number; // millilitres for volume, grams for mass
+  aliases: string[];
+}
+
+const UNITS: UnitDefinition[] = [
+  { key: 'ml', dimension: 'volume', system: 'metric', toBase: 1, aliases: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  { key: 'l', dimension: 'volume', system: 'metric', toBase: 1000, aliases: ['l', 'liter', 'liters', 'litre', 'litres'] },
+  { key: 'tsp', dimension: 'volume', system: 'imperial', toBase: 4.92892, aliases: ['tsp', 'tsps', 'teaspoon', 'teaspoons', 't'] },
+  { key: 'tbsp', dimension: 'volume', system: 'imperial', toBase: 14.7868, aliases: ['tbsp', 'tbsps', 'tbs', 'tablespoon', 'tablespoons', 'T'] },
+  { key: 'fl oz', dimension: 'volume', system: 'imperial', toBase: 29.5735, aliases: ['fl oz', 'fl. oz', 'fl. oz.', 'fluid ounce', 'fluid ounces'] },
+  { key: 'cup', dimension: 'volume', system: 'imperial', toBase: 236.588, aliases: ['cup', 'cups', 'c'] },
+  { key: 'pint', dimension: 'volume', system: 'imperial', toBase: 473.176, aliases: ['pint', 'pints', 'pt'] },
+  { key: 'quart', dimension: 'volume', system: 'imperial', toBase: 946.353, aliases: ['quart', 'quarts', 'qt'] },
+  { key: 'gallon', dimension: 'volume', system: 'imperial', toBase: 3785.41, aliases: ['gallon', 'gallons', 'gal'] },
+  { key: 'g', dimension: 'mass', system: 'metric', toBase: 1, aliases: ['g', 'gram', 'grams', 'gramme', 'grammes'] },
+  { key: 'kg', dimension: 'mass', system: 'metric', toBase: 1000, aliases: ['kg', 'kilogram', 'kilograms', 'kilo', 'kilos'] },
+  { key: 'oz', dimension: 'mass', system: 'imperial', toBase: 28.3495, aliases: ['oz', 'ounce', 'ounces'] },
+  { key: 'lb', dimension: 'mass', system: 'imperial', toBase: 453.592, aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+];
+
+// Single-letter aliases are case sensitive (t = teaspoon, T = tablespoon), everything else is not
+const ALIAS_LOOKUP = new Map<string, UnitDefinition>();
+for (const unit of UNITS) {
+  for (const alias of unit.aliases) {
+    ALIAS_LOOKUP.set(alias.length === 1 ? alias : alias.toLowerCase(), unit);
+  }
+}
+
+function lookupUnit(unit: string | null | undefined): UnitDefinition | undefined {
+  if (!unit) return undefined;
+  const trimmed = unit.trim().replace(/\.$/, '');
+  if (trimmed.length === 1) return ALIAS_LOOKUP.get(trimmed);
+  return ALIAS_LOOKUP.get(trimmed.toLowerCase());
+}
+
+/**
+ * Returns the canonical key for a known unit (e.g. "Tablespoons" -> "tbsp"), or null.
+ */
+export function normalizeUnit(unit: string | null | undefined): string | null {
+  return lookupUnit(unit)?.key ?? null;
+}
+
+export function unitDimension(unit: string | null | undefined): Dimension {
+  return lookupUnit(unit)?.dimension ?? 'count';
+}
+
+/**
+ * Converts a quantity into millilitres/grams. Unknown units are returned unchanged.
+ */
+export function toBaseUnit(quantity: number, unit: string | null | undefined): { quantity: number; unit: string | null; dimension: Dimension } {
+  const def = lookupUnit(unit);
+  if (!def) return { quantity, unit: unit?.trim() || null, dimension: 'count' };
+  return {
+    quantity: quantity * def.toBase,
+    unit: def.dimension === 'volume' ? 'ml' : 'g',
+    dimension: def.dimension,
+  };
+}
+
+// Picks the most readable unit for a base quantity in the target system
+function pickUnit(baseQuantity: number, dimension: 'volume' | 'mass', system: UnitSystem): UnitDefinition {
+  const byKey = (key: string) => UNITS.find((u) => u.key === key)!;
+  if (dimension === 'volume') {
+    if (system === 'metric') return baseQuantity >= 1000 ? byKey('l') : byKey('ml');
+    if (baseQuantity < 14.7868) return byKey('tsp');
+    if (baseQuantity < 59.147) return byKey('tbsp');
+    return byKey('cup');
+  }
+  if (system === 'metric') return baseQuantity >= 1000 ? byKey('kg') : byKey('g');
+  return baseQuantity >= 453.592 ? byKey('lb') : byKey('oz');
+}
+
+/**
+ * Converts a quantity/unit pair into the requested system. Units that cannot be
+ * converted (pinch, clove, unknown) are passed through untouched.
+ */
+export function convertToSystem(
+  quantity: number,
+  unit: string | null | undefined,
+  system: UnitSystem,
+): { quantity: number; unit: string | null } {
+  const def = lookupUnit(unit);
+  if (!def) return { quantity, unit: unit?.trim() || null };
+  const base = quantity * def.toBase;
+  const target = pickUnit(base, def.dimension, system);
+  return { quantity: base / target.toBase, unit: target.key };
+}
+
+export function isMetricUnit(unit: string | null | undefined): boolean {
+  return lookupUnit(unit)?.system === 'metric';
+}
+
+// Single-letter scales must be upper case so "2 c flour" is never read as a temperature
+const TEMPERATURE_PATTERN = /(\d{2,3}(?:\.\d+)?)\s*(?:°\s*|degrees?\s+)?(F\b|C\b|[Ff]ahrenheit|[Cc]elsius)/g;
+
+function roundToFive(value: number): number {
+  return Math.round(value / 5) * 5;
+}
+
+/**
+ * Rewrites oven temperatures such as "350°F" or "180 degrees C" into the target system.
+ */
+export function convertTemperaturesInText(text: string, system: UnitSystem): string {
+  return text.replace(TEMPERATURE_PATTERN, (match, rawValue: string, rawScale: string) => {
+    const value = parseFloat(rawValue);
+    const isFahrenheit = rawScale[0].toUpperCase() === 'F';
+    if (system === 'metric' && isFahrenheit) {
+      return `${roundToFive(((value - 32) * 5) / 9)}°C`;
+    }
+    if (system === 'imperial' && !isFahrenheit) {
+      return `${roundToFive((value * 9) / 5 + 32)}°F`;
+    }
+    return match;
+  });
+}
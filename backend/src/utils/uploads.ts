@@ -0,0 +1,39 @@
+/**
+ * Where uploaded files live on disk. User files go to `uploads/` (or UPLOAD_DIR),
+ * post images to `uploads/posts/`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export const uploadRoot = process.env.UPLOAD_DIR || path.join(__dirname, '..', '..', 'uploads');
+if (!fs.existsSync(uploadRoot)) {
+  fs.mkdirSync(uploadRoot, { recursive: true });
+}
+
+export const postImageDir = path.join(__dirname, '..', '..', 'uploads', 'posts');
+if (!fs.existsSync(postImageDir)) {
+  fs.mkdirSync(postImageDir, { recursive: true });
+}
+
+function removeIfPresent(filePath: string): void {
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+/**
+ * Removes an uploaded file from disk; a file that is already gone is ignored.
+ */
+export function removeStoredFile(storedName: string): void {
+  removeIfPresent(path.join(uploadRoot, path.basename(storedName)));
+}
+
+/**
+ * Removes the image file behind a post's `image_url`, if there is one.
+ */
+export function removePostImage(imageUrl: string | null): void {
+  const filename = imageUrl?.split('/').pop();
+  if (!filename) return;
+  removeIfPresent(path.join(postImageDir, path.basename(filename)));
+}
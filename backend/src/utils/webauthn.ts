@@ -0,0 +1,117 @@
+/**
+ * Passkeys (WebAuthn). A user can register any number of passkeys and sign in with
+ * one instead of their password and second factor; the authenticator checks the user
+ * itself (user verification is required). The relying party is the frontend:
+ * WEBAUTHN_RP_ID is its hostname and WEBAUTHN_ORIGIN the origin(s) the browser runs
+ * on, comma-separated; both default to FRONTEND_URL.
+ */
+
+import type { AuthenticatorTransportFuture, WebAuthnCredential } from '@simplewebauthn/server';
+import { db, allRows, insertRow, runStatement } from '../db';
+
+const frontendUrl = new URL(process.env.FRONTEND_URL || 'http://localhost:5173');
+
+export const WEBAUTHN_RP_NAME = 'CulinaryHub';
+export const WEBAUTHN_RP_ID = process.env.WEBAUTHN_RP_ID || frontendUrl.hostname;
+export const WEBAUTHN_ORIGINS = (process.env.WEBAUTHN_ORIGIN || frontendUrl.origin)
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+// How long a registration or sign-in challenge can be answered
+export const WEBAUTHN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export interface DbWebauthnCredential {
+  id: number;
+  user_id: number;
+  credential_id: string;
+  public_key: string;
+  sign_count: number;
+  transports: string | null;
+  name: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+/**
+ * The stored credential in the shape @simplewebauthn/server verifies against.
+ */
+export function toWebAuthnCredential(row: DbWebauthnCredential): WebAuthnCredential {
+  return {
+    id: row.credential_id,
+    publicKey: new Uint8Array(Buffer.from(row.public_key, 'base64url')),
+    counter: row.sign_count,
+    transports: row.transports ? (JSON.parse(row.transports) as AuthenticatorTransportFuture[]) : undefined,
+  };
+}
+
+export function serializeCredential(row: DbWebauthnCredential) {
+  return {
+    id: row.id,
+    name: row.name,
+    transports: row.transports ? (JSON.parse(row.transports) as AuthenticatorTransportFuture[]) : [],
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+export function listCredentials(userId: number): Promise<DbWebauthnCredential[]> {
+  return allRows<DbWebauthnCredential>('SELECT * FROM webauthn_credentials WHERE user_id = ? ORDER BY created_at ASC', [
+    userId,
+  ]);
+}
+
+export function findCredential(credentialId: string): Promise<DbWebauthnCredential | undefined> {
+  return allRows<DbWebauthnCredential>('SELECT * FROM webauthn_credentials WHERE credential_id = ?', [credentialId]).then(
+    (rows) => rows[0],
+  );
+}
+
+export async function addCredential(
+  userId: number,
+  credential: WebAuthnCredential,
+  name: string,
+): Promise<DbWebauthnCredential> {
+  const id = await insertRow(
+    `INSERT INTO webauthn_credentials (user_id, credential_id, public_key, sign_count, transports, name, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      userId,
+      credential.id,
+      Buffer.from(credential.publicKey).toString('base64url'),
+      credential.counter,
+      credential.transports ? JSON.stringify(credential.transports) : null,
+      name,
+      new Date().toISOString(),
+    ],
+  );
+  const rows = await allRows<DbWebauthnCredential>('SELECT * FROM webauthn_credentials WHERE id = ?', [id]);
+  return rows[0];
+}
+
+/**
+ * Stores the sign counter of a successful sign-in. Guarded so that two requests
+ * replaying the same assertion cannot both pass.
+ */
+export function recordCredentialUse(row: DbWebauthnCredential, newCounter: number): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    db.run(
+      'UPDATE webauthn_credentials SET sign_count = ?, last_used_at = ? WHERE id = ? AND sign_count = ?',
+      [newCounter, new Date().toISOString(), row.id, row.sign_count],
+      function (err) {
+        if (err) return reject(err);
+        resolve(this.changes > 0);
+      },
+    );
+  });
+}
+
+export function deleteCredential(userId: number, id: number): Promise<DbWebauthnCredential | undefined> {
+  return allRows<DbWebauthnCredential>('SELECT * FROM webauthn_credentials WHERE id = ? AND user_id = ?', [id, userId]).then(
+    async (rows) => {
+      if (!rows[0]) return undefined;
+      await runStatement('DELETE FROM webauthn_credentials WHERE id = ?', [id]);
+      return rows[0];
+    },
+  );
+}
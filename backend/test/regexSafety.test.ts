@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { assertSafeRegex, MAX_REGEX_PATTERN_LENGTH } from '../src/utils/regexSafety';
+
+const ACCEPTED = [
+  'viagra',
+  'free\\s+money',
+  'buy\\s+(?:cheap|now)',
+  '\\w+\\s+\\w+',
+  '[^\\s@]+@[^\\s@]+\\.com',
+  '(cat|dog)s?',
+  '(?:cat)+',
+  '(x){2,}',
+  'colou?r',
+  '\\d{3}-\\d{3}-\\d{4}',
+  'https?://[^\\s/]+',
+  '^spam.*$',
+  'a{0,25}a{25}',
+  '[a-z]+\\d+[a-z]+',
+  '(?<word>casino)\\b',
+  'bad(?=word)',
+  'a?a?a?a?a?a?a?a?aaaaaaaa',
+];
+
+const REFUSED: [string, RegExp][] = [
+  ['(a+)+$', /Repeating a group/],
+  ['(a|aa)*', /Repeating a group/],
+  ['(\\w+\\s?)+', /Repeating a group/],
+  ['([a-z]+)*', /Repeating a group/],
+  ['(a?){25}a{25}', /Repeating a group/],
+  ['(?:a|b){2}', /Repeating a group/],
+  ['.*.*.*.*.*x', /Two unbounded quantifiers/],
+  ['.*x.*', /Two unbounded quantifiers/],
+  ['\\w+x\\w+', /Two unbounded quantifiers/],
+  ['(a+)(a+)', /Two unbounded quantifiers/],
+  ['\\s*(?=x)\\s*y', /Two unbounded quantifiers/],
+  ['A+a+', /Two unbounded quantifiers/],
+  ['(x.*.*|y)', /Two unbounded quantifiers/],
+  ['(?:a.*)?.*', /Two unbounded quantifiers/],
+  ['\\d+[0-9]*', /Two unbounded quantifiers/],
+  ['[^x]+y[^z]+', /Two unbounded quantifiers/],
+  ['\\S+@\\S+\\.com', /Two unbounded quantifiers/],
+  ['a?a?a?a?a?a?a?a?a?aaaaaaaaa', /Too many optional parts/],
+  ['\\1', /Backreferences/],
+  ['(?<n>a)\\k<n>', /Backreferences/],
+  ['a'.repeat(MAX_REGEX_PATTERN_LENGTH + 1), /limited to/],
+];
+
+// Text that makes a backtracking engine try as many splits as it can
+const HOSTILE_TEXTS = ['a'.repeat(10000), ' '.repeat(10000), 'ab'.repeat(5000), 'x'.repeat(10000), '1'.repeat(10000)];
+
+describe('assertSafeRegex', () => {
+  it.each(ACCEPTED)('accepts %s', (pattern) => {
+    expect(() => assertSafeRegex(pattern)).not.toThrow();
+  });
+
+  it.each(REFUSED)('refuses %s', (pattern, message) => {
+    expect(() => assertSafeRegex(pattern)).toThrow(message);
+  });
+
+  it.each(ACCEPTED)('runs %s over hostile text quickly', (pattern) => {
+    const regex = new RegExp(pattern, 'giu');
+    const started = Date.now();
+    for (const text of HOSTILE_TEXTS) text.match(regex);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
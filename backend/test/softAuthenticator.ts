@@ -0,0 +1,156 @@
+/**
+ * A passkey authenticator in software for driving the WebAuthn ceremonies in tests.
+ * It creates one P-256 credential with "none" attestation and signs assertions with
+ * it, always reporting user presence and user verification.
+ */
+
+import crypto from 'crypto';
+
+type CborValue = number | string | Buffer | Map<CborValue, CborValue>;
+
+// Just enough CBOR for an attestation object and a COSE key
+function cbor(value: CborValue): Buffer {
+  const head = (major: number, n: number) =>
+    n < 24
+      ? Buffer.from([(major << 5) | n])
+      : n < 256
+        ? Buffer.from([(major << 5) | 24, n])
+        : Buffer.from([(major << 5) | 25, n >> 8, n & 255]);
+
+  if (Buffer.isBuffer(value)) return Buffer.concat([head(2, value.length), value]);
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value);
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value);
+  return Buffer.concat([head(5, value.size), ...[...value].flatMap(([k, v]) => [cbor(k), cbor(v)])]);
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+interface CreationOptions {
+  challenge: string;
+  rp: { id?: string };
+  user: { id: string };
+}
+
+interface RequestOptions {
+  challenge: string;
+  rpId?: string;
+}
+
+export interface AssertionOverrides {
+  // Added to the sign counter before signing; 0 or less makes it stand still or go back
+  counterStep?: number;
+  // base64url user handle to report instead of the credential's own
+  userHandle?: string;
+}
+
+export class SoftAuthenticator {
+  private readonly keys = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  private readonly credentialId = crypto.randomBytes(16);
+  private userHandle = '';
+  counter = 0;
+
+  constructor(private readonly origin: string) {}
+
+  get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  /**
+   * Answers the options of POST /register/options like navigator.credentials.create().
+   */
+  create(options: CreationOptions) {
+    this.userHandle = options.user.id;
+
+    const jwk = this.keys.publicKey.export({ format: 'jwk' });
+    const coseKey = cbor(
+      new Map<CborValue, CborValue>([
+        [1, 2], // EC2
+        [3, -7], // ES256
+        [-1, 1], // P-256
+        [-2, Buffer.from(jwk.x!, 'base64url')],
+        [-3, Buffer.from(jwk.y!, 'base64url')],
+      ]),
+    );
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      rpIdHash(options.rp.id!),
+      Buffer.from([FLAG_USER_PRESENT | FLAG_USER_VERIFIED | FLAG_ATTESTED_CREDENTIAL]),
+      signCount(this.counter),
+      Buffer.alloc(16), // AAGUID
+      idLength,
+      this.credentialId,
+      coseKey,
+    ]);
+    const attestationObject = cbor(
+      new Map<CborValue, CborValue>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authData],
+      ]),
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      clientExtensionResults: {},
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', options.challenge).toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal'],
+      },
+    };
+  }
+
+  /**
+   * Answers the options of POST /login/options like navigator.credentials.get().
+   */
+  get(options: RequestOptions, overrides: AssertionOverrides = {}) {
+    this.counter += overrides.counterStep ?? 1;
+
+    const authData = Buffer.concat([
+      rpIdHash(options.rpId!),
+      Buffer.from([FLAG_USER_PRESENT | FLAG_USER_VERIFIED]),
+      signCount(this.counter),
+    ]);
+    const clientData = this.clientData('webauthn.get', options.challenge);
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.concat([authData, crypto.createHash('sha256').update(clientData).digest()]),
+      this.keys.privateKey,
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      clientExtensionResults: {},
+      response: {
+        clientDataJSON: clientData.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: overrides.userHandle ?? this.userHandle,
+      },
+    };
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false }));
+  }
+}
+
+function rpIdHash(rpId: string): Buffer {
+  return crypto.createHash('sha256').update(rpId).digest();
+}
+
+function signCount(counter: number): Buffer {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32BE(counter);
+  return bytes;
+}
@@ -0,0 +1,225 @@
+import bcrypt from 'bcryptjs';
+import request from 'supertest';
+import type { Express } from 'express';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createUser, initDb } from '../src/db';
+import { securityLogger } from '../src/middleware/logging';
+import { createServer } from '../src/setup/app';
+import { WEBAUTHN_CHALLENGE_TTL_MS } from '../src/utils/webauthn';
+import { SoftAuthenticator } from './softAuthenticator';
+
+const ORIGIN = 'http://localhost:5173';
+const PASSWORD = 'Passkey123!';
+
+let app: Express;
+let userCount = 0;
+
+type Agent = ReturnType<typeof request.agent>;
+
+// One token per session keeps the tests under the API rate limit
+const csrfTokens = new WeakMap<Agent, string>();
+
+async function csrfToken(agent: Agent): Promise<string> {
+  if (!csrfTokens.has(agent)) {
+    const res = await agent.get('/api/csrf-token').expect(200);
+    csrfTokens.set(agent, res.body.csrfToken);
+  }
+  return csrfTokens.get(agent)!;
+}
+
+async function post(agent: Agent, path: string, body: object = {}) {
+  const token = await csrfToken(agent);
+  const res = await agent.post(path).set('X-CSRF-Token', token).send(body);
+  // Signing in starts a new session, which comes with a new token
+  if (res.ok && res.body.user) csrfTokens.delete(agent);
+  return res;
+}
+
+// Editors sign in with the password alone, which keeps the setup short
+async function signedInUser() {
+  userCount++;
+  const email = `cook${userCount}@example.com`;
+  const user = await createUser(`Cook ${userCount}`, email, await bcrypt.hash(PASSWORD, 4), 'editor');
+  const agent = request.agent(app);
+  const res = await post(agent, '/api/auth/login', { email, password: PASSWORD });
+  expect(res.status).toBe(200);
+  expect(res.body.user?.id).toBe(user.id);
+  return { user, agent };
+}
+
+async function registerPasskey(agent: Agent): Promise<SoftAuthenticator> {
+  const authenticator = new SoftAuthenticator(ORIGIN);
+  const options = await post(agent, '/api/auth/webauthn/register/options');
+  expect(options.status).toBe(200);
+
+  const res = await post(agent, '/api/auth/webauthn/register/verify', {
+    name: 'Laptop',
+    response: authenticator.create(options.body),
+  });
+  expect(res.status).toBe(201);
+  expect(res.body.credential.name).toBe('Laptop');
+  return authenticator;
+}
+
+async function loginOptions(agent: Agent) {
+  const res = await post(agent, '/api/auth/webauthn/login/options');
+  expect(res.status).toBe(200);
+  return res.body;
+}
+
+beforeAll(async () => {
+  securityLogger.silent = true;
+  await initDb();
+  app = createServer();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('passkey registration', () => {
+  it('stores the passkey and lists it', async () => {
+    const { agent } = await signedInUser();
+    await registerPasskey(agent);
+
+    const res = await agent.get('/api/auth/webauthn/credentials').expect(200);
+    expect(res.body.credentials).toHaveLength(1);
+    expect(res.body.credentials[0]).toMatchObject({ name: 'Laptop', lastUsedAt: null });
+  });
+
+  it('refuses an answer when no registration was started', async () => {
+    const { agent } = await signedInUser();
+
+    const res = await post(agent, '/api/auth/webauthn/register/verify', {
+      response: new SoftAuthenticator(ORIGIN).create({
+        challenge: 'bm90LWlzc3VlZA',
+        rp: { id: 'localhost' },
+        user: { id: 'MQ' },
+      }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('refuses an answer to an expired challenge', async () => {
+    const { agent } = await signedInUser();
+    const options = await post(agent, '/api/auth/webauthn/register/options');
+
+    const later = Date.now() + WEBAUTHN_CHALLENGE_TTL_MS + 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(later);
+    const res = await post(agent, '/api/auth/webauthn/register/verify', {
+      response: new SoftAuthenticator(ORIGIN).create(options.body),
+    });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/expired/);
+  });
+});
+
+describe('passkey sign-in', () => {
+  it('signs in with a registered passkey', async () => {
+    const { user, agent } = await signedInUser();
+    const authenticator = await registerPasskey(agent);
+
+    const browser = request.agent(app);
+    const options = await loginOptions(browser);
+    const res = await post(browser, '/api/auth/webauthn/login/verify', { response: authenticator.get(options) });
+    expect(res.status).toBe(200);
+    expect(res.body.user.id).toBe(user.id);
+
+    const me = await browser.get('/api/auth/me').expect(200);
+    expect(me.body.user.id).toBe(user.id);
+  });
+
+  it('refuses a replayed assertion', async () => {
+    const { agent } = await signedInUser();
+    const authenticator = await registerPasskey(agent);
+
+    const browser = request.agent(app);
+    const assertion = authenticator.get(await loginOptions(browser));
+    expect((await post(browser, '/api/auth/webauthn/login/verify', { response: assertion })).status).toBe(200);
+
+    // The same assertion again, with and without a fresh challenge in the session
+    const attacker = request.agent(app);
+    expect((await post(attacker, '/api/auth/webauthn/login/verify', { response: assertion })).status).toBe(400);
+    await loginOptions(attacker);
+    const res = await post(attacker, '/api/auth/webauthn/login/verify', { response: assertion });
+    expect(res.status).toBe(401);
+    expect(await attacker.get('/api/auth/me').then((me) => me.body.user)).toBeNull();
+  });
+
+  it('refuses a sign counter that did not go up', async () => {
+    const { agent } = await signedInUser();
+    const authenticator = await registerPasskey(agent);
+
+    const browser = request.agent(app);
+    const first = await post(browser, '/api/auth/webauthn/login/verify', {
+      response: authenticator.get(await loginOptions(browser)),
+    });
+    expect(first.status).toBe(200);
+
+    // A cloned authenticator keeps signing with the counter it was copied at
+    const clone = request.agent(app);
+    const same = await post(clone, '/api/auth/webauthn/login/verify', {
+      response: authenticator.get(await loginOptions(clone), { counterStep: 0 }),
+    });
+    expect(same.status).toBe(401);
+
+    const lower = await post(clone, '/api/auth/webauthn/login/verify', {
+      response: authenticator.get(await loginOptions(clone), { counterStep: -1 }),
+    });
+    expect(lower.status).toBe(401);
+  });
+
+  it('refuses an assertion whose user handle names another account', async () => {
+    const { agent } = await signedInUser();
+    const authenticator = await registerPasskey(agent);
+    const { user: other } = await signedInUser();
+
+    const browser = request.agent(app);
+    const res = await post(browser, '/api/auth/webauthn/login/verify', {
+      response: authenticator.get(await loginOptions(browser), {
+        userHandle: Buffer.from(String(other.id)).toString('base64url'),
+      }),
+    });
+    expect(res.status).toBe(401);
+    expect(await browser.get('/api/auth/me').then((me) => me.body.user)).toBeNull();
+  });
+
+  it('refuses an assertion when no sign-in was started', async () => {
+    const { agent } = await signedInUser();
+    const authenticator = await registerPasskey(agent);
+
+    const browser = request.agent(app);
+    const res = await post(browser, '/api/auth/webauthn/login/verify', {
+      response: authenticator.get({ challenge: 'bm90LWlzc3VlZA', rpId: 'localhost' }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('refuses an answer to an expired challenge', async () => {
+    const { agent } = await signedInUser();
+    const authenticator = await registerPasskey(agent);
+
+    const browser = request.agent(app);
+    const options = await loginOptions(browser);
+    const later = Date.now() + WEBAUTHN_CHALLENGE_TTL_MS + 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(later);
+    const res = await post(browser, '/api/auth/webauthn/login/verify', { response: authenticator.get(options) });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatch(/expired/);
+  });
+
+  it('uses up the challenge on a failed attempt', async () => {
+    const { agent } = await signedInUser();
+    const authenticator = await registerPasskey(agent);
+
+    const browser = request.agent(app);
+    const options = await loginOptions(browser);
+    const wrong = await post(browser, '/api/auth/webauthn/login/verify', {
+      response: authenticator.get(options, { userHandle: Buffer.from('0').toString('base64url') }),
+    });
+    expect(wrong.status).toBe(401);
+
+    const retry = await post(browser, '/api/auth/webauthn/login/verify', { response: authenticator.get(options) });
+    expect(retry.status).toBe(400);
+  });
+});
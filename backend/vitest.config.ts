@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Each test file gets its own in-memory database
+    env: {
+      DB_FILE: ':memory:',
+      MAIL_TRANSPORT: 'memory',
+      FRONTEND_URL: 'http://localhost:5173',
+    },
+  },
+});
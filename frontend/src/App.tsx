@@ -3,15 +3,22 @@ import { Routes, Route } from 'react-router-dom'
 import { LandingPage } from './pages/LandingPage'
 import { LoginPage } from './pages/LoginPage'
 import { RegisterPage } from './pages/RegisterPage'
+import { PasswordResetPage } from './pages/PasswordResetPage'
 import { DashboardPage } from './pages/DashboardPage'
 import { AdminPage } from './pages/AdminPage'
 import { ContentPage } from './pages/ContentPage'
+import { CollectionsPage } from './pages/CollectionsPage'
+import { PlannerPage } from './pages/PlannerPage'
+import { ShoppingListsPage } from './pages/ShoppingListsPage'
+import { TrashPage } from './pages/TrashPage'
+import { SecurityPage } from './pages/SecurityPage'
 import { Error403Page } from './pages/Error403Page'
 import { Error404Page } from './pages/Error404Page'
 import { Error500Page } from './pages/Error500Page'
 import { MainLayout } from './layouts/MainLayout'
 import { AuthProvider } from './hooks/useAuth'
 import { ProtectedRoute, RoleProtectedRoute } from './components/ProtectedRoute'
+import { ADMIN_PANEL_PERMISSIONS } from './utils/permissions'
 
 function App() {
   return (
@@ -21,6 +28,7 @@ function App() {
           <Route path="/" element={<LandingPage />} />
           <Route path="/login" element={<LoginPage />} />
           <Route path="/register" element={<RegisterPage />} />
+          <Route path="/reset-password" element={<PasswordResetPage />} />
 
           <Route
             path="/dashboard"
@@ -34,7 +42,7 @@ function App() {
           <Route
             path="/admin"
             element={
-              <RoleProtectedRoute allowedRoles={['admin']}>
+              <RoleProtectedRoute permissions={ADMIN_PANEL_PERMISSIONS}>
                 <AdminPage />
               </RoleProtectedRoute>
             }
@@ -49,6 +57,51 @@ function App() {
             }
           />
 
+          <Route
+            path="/collections"
+            element={
+              <ProtectedRoute>
+                <CollectionsPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/planner"
+            element={
+              <ProtectedRoute>
+                <PlannerPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/shopping-lists"
+            element={
+              <ProtectedRoute>
+                <ShoppingListsPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/trash"
+            element={
+              <ProtectedRoute>
+                <TrashPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/security"
+            element={
+              <ProtectedRoute>
+                <SecurityPage />
+              </ProtectedRoute>
+            }
+          />
+
           <Route path="/403" element={<Error403Page />} />
           <Route path="/500" element={<Error500Page />} />
           <Route path="*" element={<Error404Page />} />
@@ -0,0 +1,18 @@
+/**
+ * Heart toggle overlaid on a recipe card's image.
+ */
+export function FavoriteButton({ saved, onToggle }: { saved: boolean; onToggle: () => void }) {
+  return (
+    <button
+      type="button"
+      className="favorite-toggle"
+      onClick={onToggle}
+      aria-pressed={saved}
+      aria-label={saved ? 'Remove from favorites' : 'Save to favorites'}
+      title={saved ? 'Remove from favorites' : 'Save to favorites'}
+      style={{ color: saved ? '#d9534f' : 'var(--color-text-muted)' }}
+    >
+      {saved ? '♥' : '♡'}
+    </button>
+  )
+}
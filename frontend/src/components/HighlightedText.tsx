@@ -0,0 +1,26 @@
+// Search results wrap matched terms in these control characters (see GET /api/posts/search)
+const HIGHLIGHT_START = '\u0002'
+const HIGHLIGHT_END = '\u0003'
+
+/**
+ * Renders text from the search API with matched terms in <mark>, without
+ * ever treating the recipe text as HTML.
+ */
+export function HighlightedText({ text }: { text: string }) {
+  const parts = text.split(HIGHLIGHT_START)
+
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (i === 0) return <span key={i}>{part}</span>
+        const [matched, rest = ''] = part.split(HIGHLIGHT_END)
+        return (
+          <span key={i}>
+            <mark className="search-highlight">{matched}</mark>
+            {rest}
+          </span>
+        )
+      })}
+    </>
+  )
+}
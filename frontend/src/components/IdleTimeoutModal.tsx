@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * Warns that the session is about to end for inactivity and counts down to it.
+ * Only the buttons close it; moving the mouse does not count as staying.
+ */
+export function IdleTimeoutModal({
+  deadline,
+  onStaySignedIn,
+  onSignOut,
+}: {
+  deadline: number
+  onStaySignedIn: () => void
+  onSignOut: () => void
+}) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(interval)
+  }, [])
+
+  const secondsLeft = Math.max(0, Math.ceil((deadline - now) / 1000))
+  const countdown = `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`
+
+  return (
+    <div className="modal-overlay" style={{ alignItems: 'center' }}>
+      <div className="modal-panel" style={{ maxWidth: 420 }} role="alertdialog" aria-modal="true" aria-labelledby="idle-timeout-title">
+        <h3 id="idle-timeout-title" className="card-title" style={{ marginTop: 0 }}>
+          Are you still there? ⏳
+        </h3>
+        <p className="muted" style={{ fontSize: '0.92rem' }}>
+          You have been inactive for a while. For your security you will be signed out in
+        </p>
+        <div style={{ fontSize: '2rem', fontWeight: 600, textAlign: 'center', margin: '0.5rem 0 1.25rem' }} aria-live="polite">
+          {countdown}
+        </div>
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+          <button type="button" className="btn btn-ghost" onClick={onSignOut}>
+            Sign out
+          </button>
+          <button type="button" className="btn btn-primary" onClick={onStaySignedIn} autoFocus>
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+type Role = 'admin' | 'editor' | 'user'
+
+interface RolePolicy {
+  role: Role
+  // null: the server's default
+  idleTimeoutMinutes: number | null
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: '👑 Admin',
+  editor: '✏️ Editor',
+  user: '👤 User',
+}
+
+const TIMEOUT_CHOICES = [5, 10, 15, 20, 25, 30, 45, 60]
+
+/**
+ * Admin setting per role for how long a session may sit idle before the server signs
+ * it out. Users see a countdown two minutes before.
+ */
+export function IdleTimeoutPolicyEditor() {
+  const [roles, setRoles] = useState<RolePolicy[]>([])
+  const [defaultMinutes, setDefaultMinutes] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<Role | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    axios
+      .get(`${API_URL}/admin/auth-policy`, { withCredentials: true })
+      .then((res) => {
+        if (cancelled) return
+        setRoles(res.data.roles || [])
+        setDefaultMinutes(res.data.defaultIdleTimeoutMinutes ?? null)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load the idle timeouts')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  async function handleChange(policy: RolePolicy, value: string) {
+    setSaving(policy.role)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      const res = await axios.put(
+        `${API_URL}/admin/auth-policy/${policy.role}`,
+        { idleTimeoutMinutes: value ? Number(value) : null },
+        { withCredentials: true, headers: { 'X-CSRF-Token': csrfRes.data.csrfToken } }
+      )
+      setRoles(res.data.roles || [])
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to update the idle timeout')
+      }
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <div className="card-surface">
+      <div className="card-header">
+        <h3 className="card-title">Idle Timeout</h3>
+      </div>
+      <p className="muted" style={{ marginTop: 0, fontSize: '0.88rem' }}>
+        Sessions with no activity for this long are signed out. Changes apply to sessions that are already open.
+      </p>
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+
+      {loading ? (
+        <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>Loading...</div>
+      ) : (
+        <div style={{ display: 'grid', gap: '0.75rem' }}>
+          {roles.map((policy) => (
+            <div
+              key={policy.role}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '1rem',
+                padding: '0.75rem 1rem',
+                background: 'var(--color-bg)',
+                borderRadius: 'var(--border-radius-md)',
+                border: '1px solid var(--color-border)',
+              }}
+            >
+              <div style={{ fontWeight: 500 }}>{ROLE_LABELS[policy.role]}</div>
+              <select
+                className="input-control"
+                value={policy.idleTimeoutMinutes ?? ''}
+                disabled={saving !== null}
+                onChange={(e) => handleChange(policy, e.target.value)}
+                aria-label={`Idle timeout for ${policy.role}`}
+                style={{ padding: '0.3rem 0.6rem', fontSize: '0.85rem', width: 'auto' }}
+              >
+                <option value="">Default ({defaultMinutes} min)</option>
+                {TIMEOUT_CHOICES.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes} min
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react'
+
+/**
+ * "Load more" control for paginated lists. With `auto` it also loads the next
+ * page as soon as it scrolls into view (infinite scroll); the button stays as a
+ * fallback for keyboard users and browsers without IntersectionObserver.
+ */
+export function LoadMore({
+  hasMore,
+  loading,
+  onLoadMore,
+  auto = false,
+}: {
+  hasMore: boolean
+  loading: boolean
+  onLoadMore: () => void
+  auto?: boolean
+}) {
+  const ref = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const el = ref.current
+    if (!auto || !hasMore || loading || !el || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) onLoadMore()
+      },
+      { rootMargin: '200px' },
+    )
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [auto, hasMore, loading, onLoadMore])
+
+  if (!hasMore) return null
+
+  return (
+    <div ref={ref} style={{ textAlign: 'center', marginTop: '1.25rem' }}>
+      <button className="btn btn-outline" onClick={onLoadMore} disabled={loading}>
+        {loading ? 'Loading...' : 'Load more'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+import { usePaginatedList } from '../hooks/usePaginatedList'
+import { LoadMore } from './LoadMore'
+
+type LockoutScope = 'account' | 'ip'
+
+interface Lockout {
+  id: number
+  scope: LockoutScope
+  key: string
+  userId: number | null
+  userName: string | null
+  failures: number
+  lastFailureAt: string
+  lockedUntil: string
+}
+
+const SCOPE_LABELS: Record<LockoutScope, string> = {
+  account: '👤 Accounts',
+  ip: '🌐 IP addresses',
+}
+
+/**
+ * Accounts and IPs whose sign-in is locked after too many failed passwords or codes.
+ * Locks lift by themselves; unlocking ends one early and forgets the failures.
+ */
+export function LockedAccounts() {
+  const [scope, setScope] = useState<LockoutScope>('account')
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+  const lockouts = usePaginatedList<Lockout>('/admin/lockouts', 'lockouts', { scope, limit: 20 })
+
+  async function handleUnlock(lockout: Lockout) {
+    setError('')
+    setSuccess('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(`${API_URL}/admin/lockouts/${lockout.id}/unlock`, {}, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setSuccess(`${lockout.key} can sign in again`)
+      lockouts.reload()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to unlock')
+      }
+    }
+  }
+
+  return (
+    <div className="card-surface">
+      <div className="card-header">
+        <h3 className="card-title">Locked Sign-ins ({lockouts.total})</h3>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          {(Object.keys(SCOPE_LABELS) as LockoutScope[]).map((s) => (
+            <button
+              key={s}
+              className={`btn ${scope === s ? 'btn-primary' : 'btn-ghost'}`}
+              style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
+              onClick={() => setScope(s)}
+            >
+              {SCOPE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="muted" style={{ marginTop: 0, fontSize: '0.88rem' }}>
+        Too many wrong passwords or codes lock sign-in for a while. Unlocking lets them try again at once.
+      </p>
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+      {success && <div style={{ color: 'var(--color-accent-strong)', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{success}</div>}
+
+      {lockouts.items.length === 0 ? (
+        <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
+          {lockouts.loading ? 'Loading...' : 'Nothing is locked.'}
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gap: '0.75rem' }}>
+          {lockouts.items.map((lockout) => (
+            <div
+              key={lockout.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '1rem',
+                padding: '0.75rem 1rem',
+                background: 'var(--color-bg)',
+                borderRadius: 'var(--border-radius-md)',
+                border: '1px solid var(--color-border)',
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: 500 }}>
+                  {lockout.userName ? `${lockout.userName} (${lockout.key})` : lockout.key}
+                </div>
+                <div className="muted" style={{ fontSize: '0.8rem' }}>
+                  {lockout.scope === 'account' && !lockout.userId && 'No account with this email · '}
+                  {lockout.failures} failed attempts, last {new Date(lockout.lastFailureAt).toLocaleString()}
+                  {' · '}locked until {new Date(lockout.lockedUntil).toLocaleTimeString()}
+                </div>
+              </div>
+              <button
+                className="btn btn-ghost"
+                style={{ fontSize: '0.75rem', padding: '0.35rem 0.6rem', flexShrink: 0 }}
+                onClick={() => handleUnlock(lockout)}
+              >
+                🔓 Unlock
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <LoadMore hasMore={lockouts.hasMore} loading={lockouts.loading} onLoadMore={lockouts.loadMore} />
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+interface ModerationEvent {
+  id: number
+  action: 'submitted' | 'rejected' | 'resubmitted' | 'approved'
+  actorName: string
+  reasonLabel: string | null
+  note: string | null
+  createdAt: string
+}
+
+const ACTION_LABELS: Record<ModerationEvent['action'], string> = {
+  submitted: '📤 Submitted for review',
+  rejected: '✗ Rejected',
+  resubmitted: '🔁 Resubmitted',
+  approved: '✓ Approved',
+}
+
+/**
+ * Timeline of a recipe's trips through moderation, for its author and admins.
+ */
+export function ModerationHistory({ postId }: { postId: number }) {
+  const [events, setEvents] = useState<ModerationEvent[] | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    axios
+      .get(`${API_URL}/posts/${postId}/moderation`, { withCredentials: true })
+      .then((res) => {
+        if (!cancelled) setEvents(res.data.events)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load moderation history')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [postId])
+
+  return (
+    <section>
+      <h3 className="card-title" style={{ fontSize: '1.15rem', marginBottom: '0.5rem' }}>
+        🛡️ Moderation History
+      </h3>
+      {error ? (
+        <div className="muted">{error}</div>
+      ) : events === null ? (
+        <div className="muted">Loading...</div>
+      ) : events.length === 0 ? (
+        <div className="muted" style={{ fontSize: '0.88rem' }}>Not submitted for review yet.</div>
+      ) : (
+        <ol style={{ margin: 0, paddingLeft: '1.25rem', display: 'grid', gap: '0.6rem' }}>
+          {events.map((event) => (
+            <li key={event.id}>
+              <div style={{ fontWeight: 600, fontSize: '0.9rem' }}>{ACTION_LABELS[event.action]}</div>
+              <div className="muted" style={{ fontSize: '0.8rem' }}>
+                {event.actorName} • {new Date(event.createdAt).toLocaleString()}
+              </div>
+              {event.reasonLabel && <div style={{ fontSize: '0.88rem' }}>Reason: {event.reasonLabel}</div>}
+              {event.note && (
+                <div className="muted" style={{ fontSize: '0.88rem', whiteSpace: 'pre-wrap' }}>{event.note}</div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,282 @@
+import { useState, type FormEvent } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+import { usePaginatedList } from '../hooks/usePaginatedList'
+import { LoadMore } from './LoadMore'
+
+type MatchType = 'word' | 'regex' | 'normalized'
+type RuleAction = 'block' | 'review' | 'mask'
+
+interface ModerationRule {
+  id: number
+  pattern: string
+  matchType: MatchType
+  action: RuleAction
+  description: string | null
+  enabled: boolean
+  createdAt: string
+}
+
+interface TestResult {
+  action: 'allow' | RuleAction
+  text: string
+  matches: { ruleId: number | null; pattern: string; action: RuleAction; match: string }[]
+}
+
+const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  word: 'Whole word',
+  regex: 'Regular expression',
+  normalized: 'Normalized (leetspeak, accents)',
+}
+
+const ACTION_LABELS: Record<RuleAction, string> = {
+  block: '⛔ Block',
+  review: '⏳ Manual review',
+  mask: '✱ Mask',
+}
+
+const RESULT_LABELS: Record<TestResult['action'], string> = {
+  allow: '✓ Allowed',
+  block: '⛔ Blocked',
+  review: '⏳ Sent to manual review',
+  mask: '✱ Allowed with words masked',
+}
+
+function errorMessage(err: unknown, fallback: string) {
+  return axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : fallback
+}
+
+/**
+ * Admin editor for the moderation rules applied to all user content,
+ * with a sandbox to see what the rules do to a piece of text.
+ */
+export function ModerationRulesEditor() {
+  const rules = usePaginatedList<ModerationRule>('/admin/moderation-rules', 'rules', { limit: 50 })
+  const [pattern, setPattern] = useState('')
+  const [matchType, setMatchType] = useState<MatchType>('word')
+  const [action, setAction] = useState<RuleAction>('block')
+  const [description, setDescription] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const [sample, setSample] = useState('')
+  const [result, setResult] = useState<TestResult | null>(null)
+  const [testing, setTesting] = useState(false)
+
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault()
+    if (!pattern.trim()) return
+    setSaving(true)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.post(
+        `${API_URL}/admin/moderation-rules`,
+        { pattern, matchType, action, description: description || undefined },
+        { withCredentials: true, headers: { 'X-CSRF-Token': csrfRes.data.csrfToken } }
+      )
+      setPattern('')
+      setDescription('')
+      rules.reload()
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to add rule'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleToggle(rule: ModerationRule) {
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(
+        `${API_URL}/admin/moderation-rules/${rule.id}`,
+        { enabled: !rule.enabled },
+        { withCredentials: true, headers: { 'X-CSRF-Token': csrfRes.data.csrfToken } }
+      )
+      rules.reload()
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to update rule'))
+    }
+  }
+
+  async function handleDelete(rule: ModerationRule) {
+    if (!confirm(`Delete the rule "${rule.pattern}"?`)) return
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.delete(`${API_URL}/admin/moderation-rules/${rule.id}`, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      rules.reload()
+    } catch (err: unknown) {
+      setError(errorMessage(err, 'Failed to delete rule'))
+    }
+  }
+
+  // With `useDraft` the text is checked against the unsaved rule in the form instead of the saved rules
+  async function handleTest(useDraft: boolean) {
+    setTesting(true)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      const res = await axios.post(
+        `${API_URL}/admin/moderation-rules/test`,
+        { text: sample, rule: useDraft ? { pattern, matchType, action } : undefined },
+        { withCredentials: true, headers: { 'X-CSRF-Token': csrfRes.data.csrfToken } }
+      )
+      setResult(res.data.result)
+    } catch (err: unknown) {
+      setResult(null)
+      setError(errorMessage(err, 'Failed to test text'))
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: '1.5rem' }}>
+      <div className="card-surface">
+        <div className="card-header">
+          <h3 className="card-title">Moderation Rules ({rules.total})</h3>
+        </div>
+
+        {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+
+        <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+          <input
+            className="input-control"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder={matchType === 'regex' ? 'Pattern, e.g. free\\s+money' : 'Word or phrase'}
+            maxLength={200}
+            style={{ flex: '2 1 200px' }}
+          />
+          <select
+            className="input-control"
+            value={matchType}
+            onChange={(e) => setMatchType(e.target.value as MatchType)}
+            aria-label="Match type"
+            style={{ flex: '1 1 160px' }}
+          >
+            {(Object.keys(MATCH_TYPE_LABELS) as MatchType[]).map((t) => (
+              <option key={t} value={t}>{MATCH_TYPE_LABELS[t]}</option>
+            ))}
+          </select>
+          <select
+            className="input-control"
+            value={action}
+            onChange={(e) => setAction(e.target.value as RuleAction)}
+            aria-label="Action"
+            style={{ flex: '1 1 140px' }}
+          >
+            {(Object.keys(ACTION_LABELS) as RuleAction[]).map((a) => (
+              <option key={a} value={a}>{ACTION_LABELS[a]}</option>
+            ))}
+          </select>
+          <input
+            className="input-control"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Note (optional)"
+            maxLength={200}
+            style={{ flex: '2 1 200px' }}
+          />
+          <button type="submit" className="btn btn-primary" disabled={saving || !pattern.trim()}>
+            {saving ? 'Adding...' : '+ Add Rule'}
+          </button>
+        </form>
+
+        {rules.loading && rules.items.length === 0 ? (
+          <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>Loading...</div>
+        ) : rules.items.length === 0 ? (
+          <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>No moderation rules yet.</div>
+        ) : (
+          <div style={{ display: 'grid', gap: '0.5rem' }}>
+            {rules.items.map((rule) => (
+              <div
+                key={rule.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: '1rem',
+                  padding: '0.6rem 1rem',
+                  background: 'var(--color-bg)',
+                  borderRadius: 'var(--border-radius-md)',
+                  border: '1px solid var(--color-border)',
+                  opacity: rule.enabled ? 1 : 0.6,
+                }}
+              >
+                <div>
+                  <code style={{ fontWeight: 600 }}>{rule.pattern}</code>
+                  <div className="muted" style={{ fontSize: '0.8rem' }}>
+                    {MATCH_TYPE_LABELS[rule.matchType]} • {ACTION_LABELS[rule.action]}
+                    {rule.description && ` • ${rule.description}`}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                  <label className="muted" style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.82rem' }}>
+                    <input type="checkbox" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                    Enabled
+                  </label>
+                  <button
+                    className="btn btn-danger"
+                    onClick={() => handleDelete(rule)}
+                    style={{ fontSize: '0.78rem', padding: '0.3rem 0.6rem' }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <LoadMore hasMore={rules.hasMore} loading={rules.loading} onLoadMore={rules.loadMore} />
+      </div>
+
+      <div className="card-surface">
+        <h3 className="card-title" style={{ marginBottom: '0.75rem' }}>🧪 Test This Text</h3>
+        <textarea
+          className="input-control"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder="Paste a title, comment or review to see how the rules treat it..."
+          rows={4}
+          maxLength={10000}
+        />
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginTop: '0.75rem' }}>
+          <button className="btn btn-primary" onClick={() => handleTest(false)} disabled={testing || !sample}>
+            Test against saved rules
+          </button>
+          <button
+            className="btn btn-outline"
+            onClick={() => handleTest(true)}
+            disabled={testing || !sample || !pattern.trim()}
+          >
+            Test the rule in the form
+          </button>
+        </div>
+
+        {result && (
+          <div style={{ marginTop: '1rem', fontSize: '0.9rem' }}>
+            <strong>{RESULT_LABELS[result.action]}</strong>
+            {result.action !== 'block' && result.text !== sample && (
+              <p style={{ whiteSpace: 'pre-wrap', margin: '0.5rem 0' }}>{result.text}</p>
+            )}
+            {result.matches.length > 0 && (
+              <ul className="muted" style={{ margin: '0.5rem 0 0', paddingLeft: '1.25rem' }}>
+                {result.matches.map((m, i) => (
+                  <li key={i}>
+                    "{m.match}" matched <code>{m.pattern}</code> ({ACTION_LABELS[m.action]})
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
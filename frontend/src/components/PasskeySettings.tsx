@@ -0,0 +1,175 @@
+import { type FormEvent, useEffect, useState } from 'react'
+import axios from 'axios'
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser'
+import { API_URL } from '../config'
+
+interface Passkey {
+  id: number
+  name: string
+  transports: string[]
+  createdAt: string
+  lastUsedAt: string | null
+}
+
+/**
+ * The current user's passkeys: adding one on this device and removing any of them.
+ * A passkey signs in without the password or a second factor.
+ */
+export function PasskeySettings() {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([])
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+  const supported = browserSupportsWebAuthn()
+
+  function loadPasskeys() {
+    return axios
+      .get(`${API_URL}/auth/webauthn/credentials`, { withCredentials: true })
+      .then((res) => setPasskeys(res.data.credentials || []))
+      .catch(() => setError('Failed to load your passkeys'))
+      .finally(() => setLoading(false))
+  }
+
+  useEffect(() => {
+    loadPasskeys()
+  }, [])
+
+  async function csrfHeaders() {
+    const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+    return { 'X-CSRF-Token': csrfRes.data.csrfToken }
+  }
+
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+    setSuccess('')
+    try {
+      const options = await axios.post(`${API_URL}/auth/webauthn/register/options`, {}, {
+        withCredentials: true,
+        headers: await csrfHeaders(),
+      })
+      const response = await startRegistration({ optionsJSON: options.data })
+      await axios.post(
+        `${API_URL}/auth/webauthn/register/verify`,
+        { name: name.trim() || undefined, response },
+        { withCredentials: true, headers: await csrfHeaders() }
+      )
+      setName('')
+      setSuccess('Passkey added. You can now sign in with it.')
+      await loadPasskeys()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else if (err instanceof Error && err.name === 'InvalidStateError') {
+        setError('This device already has a passkey for your account.')
+      } else if (err instanceof Error && err.name === 'NotAllowedError') {
+        setError('Adding the passkey was cancelled.')
+      } else {
+        setError('Failed to add the passkey')
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  async function handleRemove(passkey: Passkey) {
+    if (!confirm(`Remove the passkey "${passkey.name}"? It will no longer sign you in.`)) return
+    setError('')
+    setSuccess('')
+    try {
+      await axios.delete(`${API_URL}/auth/webauthn/credentials/${passkey.id}`, {
+        withCredentials: true,
+        headers: await csrfHeaders(),
+      })
+      setSuccess(`"${passkey.name}" removed`)
+      await loadPasskeys()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to remove the passkey')
+      }
+    }
+  }
+
+  return (
+    <div className="card-surface">
+      <div className="card-header">
+        <h3 className="card-title">Passkeys ({passkeys.length})</h3>
+      </div>
+      <p className="muted" style={{ marginTop: 0, fontSize: '0.88rem' }}>
+        Sign in with your fingerprint, face or device PIN instead of your password and code.
+      </p>
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+      {success && <div style={{ color: 'var(--color-accent-strong)', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{success}</div>}
+
+      {loading ? (
+        <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>Loading...</div>
+      ) : passkeys.length === 0 ? (
+        <div className="muted" style={{ textAlign: 'center', padding: '1rem' }}>No passkeys yet.</div>
+      ) : (
+        <div style={{ display: 'grid', gap: '0.75rem', marginBottom: '1rem' }}>
+          {passkeys.map((passkey) => (
+            <div
+              key={passkey.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '1rem',
+                padding: '0.75rem 1rem',
+                background: 'var(--color-bg)',
+                borderRadius: 'var(--border-radius-md)',
+                border: '1px solid var(--color-border)',
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: 500 }}>🔑 {passkey.name}</div>
+                <div className="muted" style={{ fontSize: '0.8rem' }}>
+                  Added {new Date(passkey.createdAt).toLocaleDateString()}
+                  {' · '}
+                  {passkey.lastUsedAt ? `last used ${new Date(passkey.lastUsedAt).toLocaleString()}` : 'never used'}
+                </div>
+              </div>
+              <button
+                className="btn btn-danger"
+                style={{ fontSize: '0.75rem', padding: '0.35rem 0.6rem', flexShrink: 0 }}
+                onClick={() => handleRemove(passkey)}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {supported ? (
+        <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-end', flexWrap: 'wrap' }}>
+          <div className="input-group" style={{ flex: 1, minWidth: '200px', marginBottom: 0 }}>
+            <label className="input-label" htmlFor="passkey-name">
+              Name for this device
+            </label>
+            <input
+              id="passkey-name"
+              className="input-control"
+              type="text"
+              maxLength={60}
+              placeholder="e.g. Kitchen phone"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <button className="btn btn-primary" type="submit" disabled={submitting}>
+            {submitting ? 'Waiting for device…' : 'Add Passkey'}
+          </button>
+        </form>
+      ) : (
+        <div className="muted" style={{ fontSize: '0.88rem' }}>This browser does not support passkeys.</div>
+      )}
+    </div>
+  )
+}
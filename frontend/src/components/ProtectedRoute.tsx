@@ -1,6 +1,10 @@
 import { Navigate, useLocation } from 'react-router-dom'
 import { type ReactNode } from 'react'
 import { useAuth } from '../hooks/useAuth'
+import { hasAnyPermission, type Permission } from '../utils/permissions'
+
+// Users whose role requires 2FA can only reach the security page until they set it up
+const TWO_FACTOR_SETUP_PATH = '/security'
 
 export function ProtectedRoute({ children }: { children: ReactNode }) {
   const { user, loading } = useAuth()
@@ -14,17 +18,22 @@ export function ProtectedRoute({ children }: { children: ReactNode }) {
     return <Navigate to="/login" replace state={{ from: location }} />
   }
 
+  if (user.twoFactorSetupRequired && location.pathname !== TWO_FACTOR_SETUP_PATH) {
+    return <Navigate to={TWO_FACTOR_SETUP_PATH} replace />
+  }
+
   return <>{children}</>
 }
 
 interface RoleProtectedRouteProps {
   children: ReactNode
-  allowedRoles: Array<'admin' | 'editor' | 'user'>
+  // The user needs at least one of these
+  permissions: Permission[]
 }
 
 export function RoleProtectedRoute({
   children,
-  allowedRoles,
+  permissions,
 }: RoleProtectedRouteProps) {
   const { user, loading } = useAuth()
   const location = useLocation()
@@ -37,7 +46,11 @@ export function RoleProtectedRoute({
     return <Navigate to="/login" replace state={{ from: location }} />
   }
 
-  if (!allowedRoles.includes(user.role)) {
+  if (user.twoFactorSetupRequired) {
+    return <Navigate to={TWO_FACTOR_SETUP_PATH} replace />
+  }
+
+  if (!hasAnyPermission(user, permissions)) {
     return <Navigate to="/403" replace />
   }
 
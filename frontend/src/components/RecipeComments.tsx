@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+import { useAuth } from '../hooks/useAuth'
+import { hasPermission } from '../utils/permissions'
+
+interface Comment {
+  id: number
+  parentId: number | null
+  depth: number
+  authorId: number
+  authorName: string | null
+  body: string | null
+  status: 'pending' | 'approved' | 'rejected'
+  deleted: boolean
+  edited: boolean
+  createdAt: string
+  replies: Comment[]
+}
+
+interface CommentsResponse {
+  comments: Comment[]
+  nextCursor: string | null
+  total: number
+}
+
+const PAGE_SIZE = 10
+// Mirrors the backend's nesting limit so the reply button disappears where replies would be refused
+const MAX_DEPTH = 4
+
+function CommentForm({
+  initial = '',
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: string
+  submitLabel: string
+  onSubmit: (body: string) => Promise<boolean>
+  onCancel?: () => void
+}) {
+  const [body, setBody] = useState(initial)
+  const [submitting, setSubmitting] = useState(false)
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    if (!body.trim()) return
+    setSubmitting(true)
+    try {
+      if (await onSubmit(body.trim())) setBody('')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '0.5rem', margin: '0.5rem 0' }}>
+      <textarea
+        className="input-control"
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Share a tip or ask a question..."
+        rows={2}
+        maxLength={2000}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button type="submit" className="btn btn-primary" disabled={submitting || !body.trim()} style={{ fontSize: '0.82rem' }}>
+          {submitting ? 'Saving...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" className="btn btn-ghost" onClick={onCancel} style={{ fontSize: '0.82rem' }}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
+
+export function RecipeComments({ postId, canComment }: { postId: number; canComment: boolean }) {
+  const { user } = useAuth()
+  const [data, setData] = useState<CommentsResponse | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [replyTo, setReplyTo] = useState<number | null>(null)
+  const [editing, setEditing] = useState<number | null>(null)
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const res = await axios.get<CommentsResponse>(`${API_URL}/posts/${postId}/comments`, {
+        withCredentials: true,
+        params: { limit: PAGE_SIZE },
+      })
+      setData(res.data)
+    } catch {
+      setError('Failed to load comments')
+    }
+  }, [postId])
+
+  useEffect(() => {
+    fetchComments()
+  }, [fetchComments])
+
+  async function loadMore() {
+    if (!data?.nextCursor) return
+    setLoadingMore(true)
+    try {
+      const res = await axios.get<CommentsResponse>(`${API_URL}/posts/${postId}/comments`, {
+        withCredentials: true,
+        params: { limit: PAGE_SIZE, cursor: data.nextCursor },
+      })
+      setData({ ...res.data, comments: [...data.comments, ...res.data.comments] })
+    } catch {
+      setError('Failed to load comments')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  async function send(method: 'post' | 'put' | 'delete', url: string, body?: object): Promise<boolean> {
+    setError('')
+    setNotice('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      const res = await axios({
+        method,
+        url: `${API_URL}${url}`,
+        data: body,
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      if (res.data?.comment?.status === 'pending') {
+        setNotice('Thanks! Your comment will appear once a moderator approves it.')
+      }
+      setReplyTo(null)
+      setEditing(null)
+      await fetchComments()
+      return true
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to save comment')
+      }
+      return false
+    }
+  }
+
+  function handleDelete(comment: Comment) {
+    if (!confirm('Delete this comment?')) return
+    send('delete', `/comments/${comment.id}`)
+  }
+
+  function renderComment(comment: Comment) {
+    const isMine = comment.authorId === user?.id
+    const canDelete = !comment.deleted && (isMine || hasPermission(user, 'comments.moderate'))
+
+    return (
+      <div key={comment.id} style={{ display: 'grid', gap: '0.5rem' }}>
+        <article
+          style={{
+            padding: '0.65rem 0.9rem',
+            background: 'var(--color-bg)',
+            borderRadius: 'var(--border-radius-md)',
+            border: '1px solid var(--color-border)',
+            opacity: comment.status === 'approved' ? 1 : 0.75,
+          }}
+        >
+          {comment.deleted ? (
+            <div className="muted" style={{ fontSize: '0.88rem', fontStyle: 'italic' }}>[comment deleted]</div>
+          ) : (
+            <>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', flexWrap: 'wrap' }}>
+                <strong style={{ fontSize: '0.88rem' }}>{comment.authorName}</strong>
+                <span className="muted" style={{ fontSize: '0.78rem' }}>
+                  • {new Date(comment.createdAt).toLocaleDateString()}
+                  {comment.edited && ' • edited'}
+                </span>
+                {comment.status !== 'approved' && (
+                  <span className="pill pill--pending" style={{ fontSize: '0.7rem' }}>
+                    {comment.status.toUpperCase()}
+                  </span>
+                )}
+              </div>
+              {editing === comment.id ? (
+                <CommentForm
+                  initial={comment.body ?? ''}
+                  submitLabel="Save"
+                  onSubmit={(body) => send('put', `/comments/${comment.id}`, { body })}
+                  onCancel={() => setEditing(null)}
+                />
+              ) : (
+                <p style={{ margin: '0.3rem 0 0', whiteSpace: 'pre-wrap', lineHeight: 1.5, fontSize: '0.9rem' }}>
+                  {comment.body}
+                </p>
+              )}
+            </>
+          )}
+          {!comment.deleted && editing !== comment.id && (
+            <div style={{ display: 'flex', gap: '0.25rem', marginTop: '0.35rem' }}>
+              {canComment && comment.status === 'approved' && comment.depth < MAX_DEPTH && (
+                <button className="btn btn-ghost" onClick={() => setReplyTo(comment.id)} style={{ fontSize: '0.75rem', padding: '0.2rem 0.5rem' }}>
+                  Reply
+                </button>
+              )}
+              {isMine && (
+                <button className="btn btn-ghost" onClick={() => setEditing(comment.id)} style={{ fontSize: '0.75rem', padding: '0.2rem 0.5rem' }}>
+                  Edit
+                </button>
+              )}
+              {canDelete && (
+                <button className="btn btn-ghost" onClick={() => handleDelete(comment)} style={{ fontSize: '0.75rem', padding: '0.2rem 0.5rem' }}>
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+        </article>
+
+        {(replyTo === comment.id || comment.replies.length > 0) && (
+          <div style={{ marginLeft: '1.25rem', paddingLeft: '0.75rem', borderLeft: '2px solid var(--color-border)', display: 'grid', gap: '0.5rem' }}>
+            {replyTo === comment.id && (
+              <CommentForm
+                submitLabel="Reply"
+                onSubmit={(body) => send('post', `/posts/${postId}/comments`, { body, parentId: comment.id })}
+                onCancel={() => setReplyTo(null)}
+              />
+            )}
+            {comment.replies.map(renderComment)}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (!data) {
+    return error ? <div className="muted">{error}</div> : <div className="muted">Loading comments...</div>
+  }
+
+  return (
+    <section>
+      <h3 className="card-title" style={{ fontSize: '1.15rem', margin: '0 0 0.75rem' }}>
+        💬 Comments ({data.total})
+      </h3>
+
+      {error && (
+        <div style={{ color: '#b84b4b', fontSize: '0.85rem', marginBottom: '0.5rem' }}>
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="muted" style={{ fontSize: '0.85rem', marginBottom: '0.5rem' }}>
+          {notice}
+        </div>
+      )}
+
+      {canComment && (
+        <CommentForm submitLabel="Post Comment" onSubmit={(body) => send('post', `/posts/${postId}/comments`, { body })} />
+      )}
+
+      {data.comments.length === 0 ? (
+        <div className="muted" style={{ fontSize: '0.9rem' }}>No comments yet.</div>
+      ) : (
+        <div style={{ display: 'grid', gap: '0.75rem', marginTop: '0.5rem' }}>
+          {data.comments.map(renderComment)}
+        </div>
+      )}
+
+      {data.nextCursor && (
+        <div style={{ textAlign: 'center', marginTop: '0.75rem' }}>
+          <button className="btn btn-outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'More comments'}
+          </button>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL, getImageUrl } from '../config'
+import { RecipeReviews } from './RecipeReviews'
+import { RecipeComments } from './RecipeComments'
+import { SaveToCollection } from './SaveToCollection'
+import { StarRating } from './StarRating'
+import { ModerationHistory } from './ModerationHistory'
+import { ReportRecipe } from './ReportRecipe'
+import { useAuth } from '../hooks/useAuth'
+import { hasPermission } from '../utils/permissions'
+import type { PostStatus } from '../hooks/useRecipeSearch'
+
+interface Ingredient {
+  quantity: number | null
+  unit: string | null
+  name: string
+  note: string | null
+  display: string
+}
+
+type UnitSystem = 'original' | 'metric' | 'imperial'
+
+interface Step {
+  instruction: string
+}
+
+interface RecipePost {
+  id: number
+  title: string
+  content: string
+  imageUrl: string | null
+  nationality: string | null
+  servings: number | null
+  authorId: number
+  authorName: string
+  status: PostStatus
+  rejection: { reason: string; label: string; note: string | null } | null
+  createdAt: string
+  ingredients: Ingredient[]
+  ingredientSource: 'structured' | 'parsed' | 'none'
+  steps: Step[]
+  rating: { average: number | null; count: number }
+  scale: {
+    servings: number | null
+    factor: number
+    units: 'metric' | 'imperial' | null
+  }
+}
+
+const MAX_SERVINGS = 100
+
+export function RecipeDetail({
+  postId,
+  onClose,
+  initialServings = null,
+}: {
+  postId: number
+  onClose: () => void
+  // Opens the recipe already scaled, e.g. to a meal plan's servings override
+  initialServings?: number | null
+}) {
+  const { user } = useAuth()
+  const [post, setPost] = useState<RecipePost | null>(null)
+  const [error, setError] = useState('')
+  const [servings, setServings] = useState<number | null>(initialServings)
+  const [units, setUnits] = useState<UnitSystem>('original')
+  // Bumped after a review changes so the rating summary is refetched
+  const [reloadKey, setReloadKey] = useState(0)
+
+  // The server does the scaling and conversion so every client renders the same numbers
+  useEffect(() => {
+    let cancelled = false
+    const params: Record<string, string | number> = {}
+    if (servings !== null) params.servings = servings
+    if (units !== 'original') params.units = units
+    axios
+      .get(`${API_URL}/posts/${postId}`, { withCredentials: true, params })
+      .then((res) => {
+        if (!cancelled) setPost(res.data.post)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load recipe')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [postId, servings, units, reloadKey])
+
+  const currentServings = post?.scale.servings ?? null
+
+  const isPdf = post?.imageUrl?.toLowerCase().endsWith('.pdf')
+  // Recipes written before structured ingredients/steps only have free text
+  const hasStructure = !!post && (post.ingredients.length > 0 || post.steps.length > 0)
+  const hasParsedIngredients = post?.ingredientSource === 'parsed'
+  const canSeeModeration = !!post && (hasPermission(user, 'posts.approve') || post.authorId === user?.id)
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-panel" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+        <button className="modal-close" onClick={onClose} aria-label="Close recipe">
+          ×
+        </button>
+
+        {error && <div className="muted">{error}</div>}
+        {!post && !error && <div className="muted">Loading recipe...</div>}
+
+        {post && (
+          <>
+            {post.imageUrl && !isPdf && (
+              <img
+                src={getImageUrl(post.imageUrl) || ''}
+                alt={post.title}
+                style={{
+                  width: '100%',
+                  maxHeight: '260px',
+                  objectFit: 'cover',
+                  borderRadius: 'var(--border-radius-md)',
+                  marginBottom: '1rem',
+                }}
+              />
+            )}
+            <div className="food-card-category">
+              {post.nationality || 'International'} • by {post.authorName}
+            </div>
+            <h2 className="card-title" style={{ margin: '0.25rem 0 0.25rem', fontSize: '1.6rem' }}>
+              {post.title}
+            </h2>
+            <div style={{ marginBottom: '0.75rem' }}>
+              <StarRating rating={post.rating} />
+            </div>
+
+            {post.rejection && (
+              <div
+                style={{
+                  padding: '0.75rem 1rem',
+                  marginBottom: '1rem',
+                  border: '1px solid #b84b4b',
+                  borderRadius: 'var(--border-radius-md)',
+                  fontSize: '0.9rem',
+                }}
+              >
+                <strong style={{ color: '#b84b4b' }}>Rejected: {post.rejection.label}</strong>
+                {post.rejection.note && <div style={{ whiteSpace: 'pre-wrap', marginTop: '0.25rem' }}>{post.rejection.note}</div>}
+              </div>
+            )}
+
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'center', marginBottom: '1rem' }}>
+              {post.servings !== null && currentServings !== null && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <span className="muted" style={{ fontSize: '0.88rem' }}>Servings</span>
+                  <button
+                    className="btn btn-outline"
+                    onClick={() => setServings(Math.max(1, currentServings - 1))}
+                    disabled={currentServings <= 1}
+                    aria-label="Fewer servings"
+                    style={{ padding: '0.2rem 0.6rem' }}
+                  >
+                    −
+                  </button>
+                  <strong style={{ minWidth: '2ch', textAlign: 'center' }}>{currentServings}</strong>
+                  <button
+                    className="btn btn-outline"
+                    onClick={() => setServings(Math.min(MAX_SERVINGS, currentServings + 1))}
+                    disabled={currentServings >= MAX_SERVINGS}
+                    aria-label="More servings"
+                    style={{ padding: '0.2rem 0.6rem' }}
+                  >
+                    +
+                  </button>
+                </div>
+              )}
+              <div className="tabs" style={{ margin: 0, padding: 0, border: 'none' }}>
+                {(['original', 'metric', 'imperial'] as UnitSystem[]).map((system) => (
+                  <button
+                    key={system}
+                    className={`tab ${units === system ? 'tab--active' : ''}`}
+                    onClick={() => setUnits(system)}
+                    style={{ padding: '0.3rem 0.7rem', fontSize: '0.82rem' }}
+                  >
+                    {system === 'original' ? 'As written' : system === 'metric' ? 'Metric' : 'Imperial'}
+                  </button>
+                ))}
+              </div>
+              {post.status === 'approved' && <SaveToCollection postId={post.id} />}
+            </div>
+
+            <p style={{ whiteSpace: 'pre-wrap', lineHeight: 1.6, color: 'var(--color-text-muted)' }}>
+              {post.content}
+            </p>
+
+            {hasStructure && (
+              <div style={{ display: 'grid', gap: '1.25rem', marginTop: '1rem' }}>
+                {post.ingredients.length > 0 && (
+                  <section>
+                    <h3 className="card-title" style={{ fontSize: '1.15rem', marginBottom: '0.5rem' }}>
+                      🧂 Ingredients
+                    </h3>
+                    {hasParsedIngredients && (
+                      <div className="muted" style={{ fontSize: '0.8rem', marginBottom: '0.5rem' }}>
+                        Detected from the recipe description
+                      </div>
+                    )}
+                    <ul style={{ margin: 0, paddingLeft: '1.25rem', lineHeight: 1.8 }}>
+                      {post.ingredients.map((ing, i) => (
+                        <li key={i}>
+                          {ing.display}
+                          {ing.note && <span className="muted">, {ing.note}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+                {post.steps.length > 0 && (
+                  <section>
+                    <h3 className="card-title" style={{ fontSize: '1.15rem', marginBottom: '0.5rem' }}>
+                      👩‍🍳 Method
+                    </h3>
+                    <ol style={{ margin: 0, paddingLeft: '1.25rem', lineHeight: 1.7, display: 'grid', gap: '0.5rem' }}>
+                      {post.steps.map((step, i) => (
+                        <li key={i}>{step.instruction}</li>
+                      ))}
+                    </ol>
+                  </section>
+                )}
+              </div>
+            )}
+
+            {canSeeModeration && (
+              <div style={{ marginTop: '1.5rem', paddingTop: '1.25rem', borderTop: '1px solid var(--color-border)' }}>
+                <ModerationHistory postId={post.id} />
+              </div>
+            )}
+
+            <div style={{ marginTop: '1.5rem', paddingTop: '1.25rem', borderTop: '1px solid var(--color-border)' }}>
+              <RecipeReviews postId={post.id} onChange={() => setReloadKey((k) => k + 1)} />
+            </div>
+
+            <div style={{ marginTop: '1.5rem', paddingTop: '1.25rem', borderTop: '1px solid var(--color-border)' }}>
+              <RecipeComments postId={post.id} canComment={post.status === 'approved'} />
+            </div>
+
+            {post.status === 'approved' && post.authorId !== user?.id && (
+              <div style={{ marginTop: '1.5rem', paddingTop: '1.25rem', borderTop: '1px solid var(--color-border)' }}>
+                <ReportRecipe postId={post.id} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+import { useAuth } from '../hooks/useAuth'
+import { hasPermission } from '../utils/permissions'
+import { StarInput, StarRating } from './StarRating'
+
+interface Review {
+  id: number
+  userId: number
+  userName: string
+  rating: number
+  body: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+interface ReviewsResponse {
+  reviews: Review[]
+  nextCursor: string | null
+  total: number
+  summary: { average: number | null; count: number }
+  myReview: Review | null
+  canReview: boolean
+}
+
+const PAGE_SIZE = 10
+
+export function RecipeReviews({ postId, onChange }: { postId: number; onChange?: () => void }) {
+  const { user } = useAuth()
+  const [data, setData] = useState<ReviewsResponse | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState('')
+
+  // Review form
+  const [editing, setEditing] = useState(false)
+  const [rating, setRating] = useState(0)
+  const [body, setBody] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      const res = await axios.get<ReviewsResponse>(`${API_URL}/posts/${postId}/reviews`, {
+        withCredentials: true,
+        params: { limit: PAGE_SIZE },
+      })
+      setData(res.data)
+    } catch {
+      setError('Failed to load reviews')
+    }
+  }, [postId])
+
+  useEffect(() => {
+    fetchReviews()
+  }, [fetchReviews])
+
+  async function loadMore() {
+    if (!data?.nextCursor) return
+    setLoadingMore(true)
+    try {
+      const res = await axios.get<ReviewsResponse>(`${API_URL}/posts/${postId}/reviews`, {
+        withCredentials: true,
+        params: { limit: PAGE_SIZE, cursor: data.nextCursor },
+      })
+      setData({ ...res.data, reviews: [...data.reviews, ...res.data.reviews] })
+    } catch {
+      setError('Failed to load reviews')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  function startEditing() {
+    setRating(data?.myReview?.rating ?? 0)
+    setBody(data?.myReview?.body ?? '')
+    setError('')
+    setEditing(true)
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    if (rating < 1) {
+      setError('Please pick a star rating')
+      return
+    }
+
+    setSubmitting(true)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios({
+        method: data?.myReview ? 'put' : 'post',
+        url: `${API_URL}/posts/${postId}/reviews`,
+        data: { rating, body: body.trim() || undefined },
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setEditing(false)
+      await fetchReviews()
+      onChange?.()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to save review')
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  async function handleDelete(review: Review) {
+    if (!confirm('Delete this review?')) return
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.delete(`${API_URL}/posts/${postId}/reviews/${review.id}`, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      await fetchReviews()
+      onChange?.()
+    } catch {
+      setError('Failed to delete review')
+    }
+  }
+
+  if (!data) {
+    return error ? <div className="muted">{error}</div> : <div className="muted">Loading reviews...</div>
+  }
+
+  const canWrite = data.canReview && !data.myReview
+
+  return (
+    <section>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem', flexWrap: 'wrap', gap: '0.5rem' }}>
+        <h3 className="card-title" style={{ fontSize: '1.15rem', margin: 0 }}>
+          ⭐ Reviews
+        </h3>
+        <StarRating rating={data.summary} />
+      </div>
+
+      {error && (
+        <div style={{ color: '#b84b4b', fontSize: '0.85rem', marginBottom: '0.5rem' }}>
+          {error}
+        </div>
+      )}
+
+      {editing ? (
+        <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '0.5rem', marginBottom: '1rem' }}>
+          <StarInput value={rating} onChange={setRating} />
+          <textarea
+            className="input-control"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="What did you think? (optional)"
+            rows={3}
+            maxLength={2000}
+          />
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button type="submit" className="btn btn-primary" disabled={submitting}>
+              {submitting ? 'Saving...' : data.myReview ? 'Update Review' : 'Post Review'}
+            </button>
+            <button type="button" className="btn btn-ghost" onClick={() => setEditing(false)}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        (canWrite || data.myReview) && (
+          <button className="btn btn-outline" onClick={startEditing} style={{ fontSize: '0.85rem', marginBottom: '1rem' }}>
+            {data.myReview ? '✏️ Edit your review' : '✍️ Write a review'}
+          </button>
+        )
+      )}
+
+      {data.reviews.length === 0 ? (
+        <div className="muted" style={{ fontSize: '0.9rem' }}>Be the first to review this recipe.</div>
+      ) : (
+        <div style={{ display: 'grid', gap: '0.75rem' }}>
+          {data.reviews.map((review) => (
+            <article
+              key={review.id}
+              style={{
+                padding: '0.75rem 1rem',
+                background: 'var(--color-bg)',
+                borderRadius: 'var(--border-radius-md)',
+                border: '1px solid var(--color-border)',
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem' }}>
+                <div>
+                  <span style={{ color: 'var(--color-gold)' }} aria-label={`${review.rating} out of 5 stars`}>
+                    {'★'.repeat(review.rating)}
+                    {'☆'.repeat(5 - review.rating)}
+                  </span>{' '}
+                  <strong style={{ fontSize: '0.9rem' }}>{review.userName}</strong>
+                  <span className="muted" style={{ fontSize: '0.8rem' }}>
+                    {' '}• {new Date(review.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+                {(review.userId === user?.id || hasPermission(user, 'reviews.delete.any')) && (
+                  <button
+                    className="btn btn-ghost"
+                    onClick={() => handleDelete(review)}
+                    style={{ fontSize: '0.75rem', padding: '0.2rem 0.5rem' }}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+              {review.body && (
+                <p style={{ margin: '0.4rem 0 0', whiteSpace: 'pre-wrap', lineHeight: 1.5, fontSize: '0.92rem' }}>
+                  {review.body}
+                </p>
+              )}
+            </article>
+          ))}
+        </div>
+      )}
+
+      {data.nextCursor && (
+        <div style={{ textAlign: 'center', marginTop: '0.75rem' }}>
+          <button className="btn btn-outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'More reviews'}
+          </button>
+        </div>
+      )}
+    </section>
+  )
+}
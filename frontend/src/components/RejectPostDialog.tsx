@@ -0,0 +1,121 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+interface RejectionReason {
+  value: string
+  label: string
+}
+
+/**
+ * Asks an admin why a post is being rejected and sends the rejection.
+ * The reason and note are shown to the author so they can fix and resubmit the recipe.
+ */
+export function RejectPostDialog({
+  postId,
+  postTitle,
+  onClose,
+  onRejected,
+}: {
+  postId: number
+  postTitle: string
+  onClose: () => void
+  onRejected: () => void
+}) {
+  const [reasons, setReasons] = useState<RejectionReason[]>([])
+  const [reason, setReason] = useState('')
+  const [note, setNote] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    axios
+      .get(`${API_URL}/posts/rejection-reasons`, { withCredentials: true })
+      .then((res) => {
+        if (!cancelled) setReasons(res.data.reasons || [])
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load rejection reasons')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const noteRequired = reason === 'other'
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    if (!reason) {
+      setError('Pick a reason')
+      return
+    }
+    if (noteRequired && !note.trim()) {
+      setError('Explain the reason in the note')
+      return
+    }
+
+    setSubmitting(true)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(`${API_URL}/posts/${postId}/reject`, { reason, note: note.trim() || undefined }, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      onRejected()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to reject post')
+      }
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-panel" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+        <button className="modal-close" onClick={onClose} aria-label="Close">
+          ×
+        </button>
+        <h3 className="card-title" style={{ marginTop: 0 }}>Reject "{postTitle}"</h3>
+
+        {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+
+        <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '0.75rem' }}>
+          <div>
+            <label className="input-label">Reason *</label>
+            <select className="input-control" value={reason} onChange={(e) => setReason(e.target.value)} autoFocus>
+              <option value="">Select a reason...</option>
+              {reasons.map((r) => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="input-label">Note for the author{noteRequired ? ' *' : ''}</label>
+            <textarea
+              className="input-control"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What should the author change before resubmitting?"
+              rows={4}
+              maxLength={1000}
+            />
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+            <button type="button" className="btn btn-ghost" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-danger" disabled={submitting}>
+              {submitting ? 'Rejecting...' : '✗ Reject'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
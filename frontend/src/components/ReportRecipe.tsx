@@ -0,0 +1,130 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+interface ReportReason {
+  value: string
+  label: string
+}
+
+/**
+ * Lets a reader flag a published recipe (plagiarized, unsafe, offensive...) for the admins.
+ * Each user can report a recipe once; nothing is shown on the reader's own recipes.
+ */
+export function ReportRecipe({ postId }: { postId: number }) {
+  const [reasons, setReasons] = useState<ReportReason[]>([])
+  const [canReport, setCanReport] = useState(false)
+  const [reported, setReported] = useState(false)
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState('')
+  const [note, setNote] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    axios
+      .get(`${API_URL}/posts/${postId}/report`, { withCredentials: true })
+      .then((res) => {
+        if (cancelled) return
+        setReasons(res.data.reasons || [])
+        setCanReport(res.data.canReport)
+        setReported(res.data.reported)
+      })
+      .catch(() => {
+        if (!cancelled) setCanReport(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [postId])
+
+  const noteRequired = reason === 'other'
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    if (!reason) {
+      setError('Pick a reason')
+      return
+    }
+    if (noteRequired && !note.trim()) {
+      setError('Tell us what is wrong in the note')
+      return
+    }
+
+    setSubmitting(true)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.post(`${API_URL}/posts/${postId}/report`, { reason, note: note.trim() || undefined }, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setReported(true)
+      setOpen(false)
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.status === 409) {
+        setReported(true)
+        setOpen(false)
+      } else if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to send report')
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (reported) {
+    return (
+      <div className="muted" style={{ fontSize: '0.85rem' }}>
+        🚩 You reported this recipe. Thanks, an admin will take a look.
+      </div>
+    )
+  }
+  if (!canReport) return null
+
+  if (!open) {
+    return (
+      <button className="btn btn-ghost" onClick={() => setOpen(true)} style={{ fontSize: '0.82rem', padding: '0.3rem 0.6rem' }}>
+        🚩 Report this recipe
+      </button>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '0.75rem' }}>
+      <h3 className="card-title" style={{ fontSize: '1.15rem', margin: 0 }}>🚩 Report this recipe</h3>
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem' }}>{error}</div>}
+      <div>
+        <label className="input-label">Reason *</label>
+        <select className="input-control" value={reason} onChange={(e) => setReason(e.target.value)} autoFocus>
+          <option value="">Select a reason...</option>
+          {reasons.map((r) => (
+            <option key={r.value} value={r.value}>{r.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="input-label">Note{noteRequired ? ' *' : ''}</label>
+        <textarea
+          className="input-control"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Anything that helps the admins, e.g. where the recipe was copied from"
+          rows={3}
+          maxLength={1000}
+        />
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+        <button type="button" className="btn btn-ghost" onClick={() => setOpen(false)}>
+          Cancel
+        </button>
+        <button type="submit" className="btn btn-danger" disabled={submitting}>
+          {submitting ? 'Sending...' : 'Send Report'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,224 @@
+import { useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+import { usePaginatedList } from '../hooks/usePaginatedList'
+import { LoadMore } from './LoadMore'
+
+interface Revision {
+  revision: number
+  editorName: string
+  title: string
+  restoredFrom: number | null
+  createdAt: string
+}
+
+interface DiffRow {
+  type: 'same' | 'changed' | 'added' | 'removed'
+  left: string | null
+  right: string | null
+}
+
+interface FieldDiff {
+  field: string
+  changed: boolean
+  rows: DiffRow[]
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  nationality: 'Cuisine',
+  servings: 'Servings',
+  content: 'Description',
+  ingredients: 'Ingredients',
+  steps: 'Method',
+}
+
+/**
+ * Drawer listing a recipe's revisions with a side-by-side diff of any two.
+ * Admins can restore the revision shown on the right.
+ */
+export function RevisionHistory({
+  postId,
+  canRestore,
+  onClose,
+  onRestored,
+}: {
+  postId: number
+  canRestore: boolean
+  onClose: () => void
+  onRestored?: () => void
+}) {
+  const revisions = usePaginatedList<Revision>(`/posts/${postId}/revisions`, 'revisions', { limit: 50 })
+  const [picked, setPicked] = useState<{ from: number; to: number } | null>(null)
+  const [fields, setFields] = useState<FieldDiff[] | null>(null)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState('')
+
+  const latest = revisions.items[0]?.revision ?? null
+  // Until the user picks, compare the newest revision with the one before it
+  const compare = picked ?? (latest !== null ? { from: Math.max(latest - 1, 1), to: latest } : null)
+  const compareFrom = compare?.from ?? null
+  const compareTo = compare?.to ?? null
+
+  useEffect(() => {
+    if (compareFrom === null || compareTo === null) return
+    let cancelled = false
+    axios
+      .get(`${API_URL}/posts/${postId}/revisions/diff`, {
+        withCredentials: true,
+        params: { from: compareFrom, to: compareTo },
+      })
+      .then((res) => {
+        if (!cancelled) setFields(res.data.fields)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load changes')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [postId, compareFrom, compareTo])
+
+  async function handleRestore(revision: number) {
+    if (!confirm(`Restore revision ${revision}? The current version stays in the history.`)) return
+    setRestoring(true)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.post(`${API_URL}/posts/${postId}/revisions/${revision}/restore`, {}, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setPicked(null)
+      revisions.reload()
+      onRestored?.()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to restore revision')
+      }
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  function describe(rev: Revision) {
+    return `#${rev.revision} • ${rev.editorName} • ${new Date(rev.createdAt).toLocaleString()}`
+  }
+
+  const shownFields = (fields || []).filter((f) => showUnchanged || f.changed)
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <aside className="drawer-panel" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+        <button className="modal-close" onClick={onClose} aria-label="Close">
+          ×
+        </button>
+        <h3 className="card-title" style={{ marginTop: 0 }}>🕘 Recipe History</h3>
+
+        {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+
+        <div style={{ display: 'grid', gridTemplateColumns: '240px 1fr', gap: '1.25rem', alignItems: 'start' }}>
+          <div style={{ display: 'grid', gap: '0.4rem' }}>
+            {revisions.items.map((rev) => (
+              <button
+                key={rev.revision}
+                className={`btn ${compare?.to === rev.revision ? 'btn-primary' : 'btn-outline'}`}
+                onClick={() => setPicked({ from: Math.max(rev.revision - 1, 1), to: rev.revision })}
+                style={{ textAlign: 'left', flexDirection: 'column', alignItems: 'flex-start', fontSize: '0.8rem' }}
+              >
+                <span style={{ fontWeight: 600 }}>
+                  Revision {rev.revision}
+                  {rev.revision === latest ? ' (current)' : ''}
+                </span>
+                <span style={{ opacity: 0.8 }}>
+                  {rev.editorName} • {new Date(rev.createdAt).toLocaleDateString()}
+                </span>
+                {rev.restoredFrom !== null && (
+                  <span style={{ opacity: 0.8 }}>Restored from #{rev.restoredFrom}</span>
+                )}
+              </button>
+            ))}
+            <LoadMore hasMore={revisions.hasMore} loading={revisions.loading} onLoadMore={revisions.loadMore} />
+          </div>
+
+          <div>
+            {compare && revisions.items.length > 0 && (
+              <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '1rem' }}>
+                <select
+                  className="input-control"
+                  value={compare.from}
+                  onChange={(e) => setPicked({ ...compare, from: Number(e.target.value) })}
+                  aria-label="Compare from revision"
+                  style={{ width: 'auto', fontSize: '0.82rem' }}
+                >
+                  {revisions.items.map((rev) => (
+                    <option key={rev.revision} value={rev.revision}>{describe(rev)}</option>
+                  ))}
+                </select>
+                <span className="muted">→</span>
+                <select
+                  className="input-control"
+                  value={compare.to}
+                  onChange={(e) => setPicked({ ...compare, to: Number(e.target.value) })}
+                  aria-label="Compare to revision"
+                  style={{ width: 'auto', fontSize: '0.82rem' }}
+                >
+                  {revisions.items.map((rev) => (
+                    <option key={rev.revision} value={rev.revision}>{describe(rev)}</option>
+                  ))}
+                </select>
+                <label className="muted" style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.82rem' }}>
+                  <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                  Show unchanged fields
+                </label>
+                {canRestore && compare.to !== latest && (
+                  <button
+                    className="btn btn-danger"
+                    onClick={() => handleRestore(compare.to)}
+                    disabled={restoring}
+                    style={{ fontSize: '0.82rem', marginLeft: 'auto' }}
+                  >
+                    {restoring ? 'Restoring...' : `↺ Restore #${compare.to}`}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {fields === null ? (
+              <div className="muted" style={{ padding: '1rem 0' }}>Loading...</div>
+            ) : shownFields.length === 0 ? (
+              <div className="muted" style={{ padding: '1rem 0' }}>No differences between these revisions.</div>
+            ) : (
+              shownFields.map((f) => (
+                <section key={f.field} style={{ marginBottom: '1.25rem' }}>
+                  <h4 style={{ margin: '0 0 0.4rem', fontSize: '0.95rem' }}>{FIELD_LABELS[f.field] || f.field}</h4>
+                  {f.rows.length === 0 ? (
+                    <div className="muted" style={{ fontSize: '0.85rem' }}>Empty in both revisions</div>
+                  ) : (
+                    <table className="diff-table">
+                      <tbody>
+                        {f.rows.map((row, i) => (
+                          <tr key={i}>
+                            <td className={row.type === 'changed' || row.type === 'removed' ? 'diff-cell--removed' : undefined}>
+                              {row.left ?? ''}
+                            </td>
+                            <td className={row.type === 'changed' || row.type === 'added' ? 'diff-cell--added' : undefined}>
+                              {row.right ?? ''}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+              ))
+            )}
+          </div>
+        </div>
+      </aside>
+    </div>
+  )
+}
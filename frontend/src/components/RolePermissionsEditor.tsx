@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+import type { Permission } from '../utils/permissions'
+
+type Role = 'admin' | 'editor' | 'user'
+
+interface PermissionInfo {
+  key: Permission
+  description: string
+}
+
+interface RolePermissions {
+  role: Role
+  permissions: Permission[]
+  locked: Permission[]
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: '👑 Admin',
+  editor: '✏️ Editor',
+  user: '👤 User',
+}
+
+/**
+ * Admin matrix of which role has which permission. Each change is saved straight away
+ * and applies to every user with that role from their next request.
+ */
+export function RolePermissionsEditor() {
+  const [permissions, setPermissions] = useState<PermissionInfo[]>([])
+  const [roles, setRoles] = useState<RolePermissions[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<Role | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    axios
+      .get(`${API_URL}/admin/permissions`, { withCredentials: true })
+      .then((res) => {
+        if (cancelled) return
+        setPermissions(res.data.permissions || [])
+        setRoles(res.data.roles || [])
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load permissions')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  async function handleToggle(role: RolePermissions, permission: Permission) {
+    const next = role.permissions.includes(permission)
+      ? role.permissions.filter((p) => p !== permission)
+      : [...role.permissions, permission]
+
+    setSaving(role.role)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      const res = await axios.put(
+        `${API_URL}/admin/permissions/${role.role}`,
+        { permissions: next },
+        { withCredentials: true, headers: { 'X-CSRF-Token': csrfRes.data.csrfToken } }
+      )
+      setRoles((current) => current.map((r) => (r.role === role.role ? res.data.role : r)))
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to update permissions')
+      }
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <div className="card-surface">
+      <div className="card-header">
+        <h3 className="card-title">Role Permissions</h3>
+      </div>
+      <p className="muted" style={{ marginTop: 0, fontSize: '0.88rem' }}>
+        Changes apply at once on the server; users see their new menus after reloading the page.
+      </p>
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+
+      {loading ? (
+        <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>Loading...</div>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.88rem' }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left', padding: '0.5rem' }}>Permission</th>
+                {roles.map((r) => (
+                  <th key={r.role} style={{ padding: '0.5rem', whiteSpace: 'nowrap' }}>{ROLE_LABELS[r.role]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {permissions.map((p) => (
+                <tr key={p.key} style={{ borderTop: '1px solid var(--color-border)' }}>
+                  <td style={{ padding: '0.5rem' }}>
+                    <code>{p.key}</code>
+                    <div className="muted" style={{ fontSize: '0.8rem' }}>{p.description}</div>
+                  </td>
+                  {roles.map((r) => (
+                    <td key={r.role} style={{ padding: '0.5rem', textAlign: 'center' }}>
+                      <input
+                        type="checkbox"
+                        checked={r.permissions.includes(p.key)}
+                        disabled={saving !== null || r.locked.includes(p.key)}
+                        onChange={() => handleToggle(r, p.key)}
+                        aria-label={`${p.key} for ${r.role}`}
+                        title={r.locked.includes(p.key) ? 'This permission cannot be removed' : undefined}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
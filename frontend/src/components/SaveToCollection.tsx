@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+interface CollectionOption {
+  id: number
+  name: string
+  containsPost: boolean
+}
+
+/**
+ * Dropdown that adds the recipe to (or removes it from) one of the user's collections.
+ */
+export function SaveToCollection({ postId }: { postId: number }) {
+  const [collections, setCollections] = useState<CollectionOption[]>([])
+  const [error, setError] = useState('')
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    axios
+      .get(`${API_URL}/collections`, { withCredentials: true, params: { postId } })
+      .then((res) => setCollections(res.data.collections || []))
+      .catch(() => setError('Failed to load collections'))
+  }, [postId, version])
+
+  async function handleChange(collectionId: number) {
+    const collection = collections.find((c) => c.id === collectionId)
+    if (!collection) return
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios({
+        method: collection.containsPost ? 'delete' : 'post',
+        url: collection.containsPost
+          ? `${API_URL}/collections/${collection.id}/items/${postId}`
+          : `${API_URL}/collections/${collection.id}/items`,
+        data: collection.containsPost ? undefined : { postId },
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setVersion((v) => v + 1)
+    } catch {
+      setError('Failed to update collection')
+    }
+  }
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+      <select
+        className="input-control"
+        value=""
+        onChange={(e) => handleChange(Number(e.target.value))}
+        aria-label="Save to collection"
+        style={{ width: 'auto', padding: '0.3rem 0.6rem', fontSize: '0.85rem' }}
+      >
+        <option value="" disabled>
+          📁 Save to collection...
+        </option>
+        {collections.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.containsPost ? '✓ ' : ''}
+            {c.name}
+          </option>
+        ))}
+      </select>
+      {error && <span style={{ color: '#b84b4b', fontSize: '0.8rem' }}>{error}</span>}
+    </div>
+  )
+}
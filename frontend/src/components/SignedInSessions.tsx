@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+interface UserSession {
+  id: number
+  device: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: string
+  lastActivity: string
+  current: boolean
+}
+
+/**
+ * Every browser and device the current user is signed in on, with a way to sign out
+ * any of the others. The session in use can only be ended by logging out.
+ */
+export function SignedInSessions() {
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  function loadSessions() {
+    return axios
+      .get(`${API_URL}/auth/sessions`, { withCredentials: true })
+      .then((res) => setSessions(res.data.sessions || []))
+      .catch(() => setError('Failed to load your sessions'))
+      .finally(() => setLoading(false))
+  }
+
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  async function revoke(path: string, message: string) {
+    setError('')
+    setSuccess('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.delete(`${API_URL}/auth/sessions${path}`, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setSuccess(message)
+      await loadSessions()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to sign out')
+      }
+    }
+  }
+
+  const others = sessions.filter((s) => !s.current)
+
+  return (
+    <div className="card-surface">
+      <div className="card-header">
+        <h3 className="card-title">Where you're signed in ({sessions.length})</h3>
+        {others.length > 0 && (
+          <button
+            className="btn btn-ghost"
+            style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
+            onClick={() => revoke('', 'Signed out everywhere else')}
+          >
+            Sign out all others
+          </button>
+        )}
+      </div>
+      <p className="muted" style={{ marginTop: 0, fontSize: '0.88rem' }}>
+        Don't recognise a device? Sign it out and change your password.
+      </p>
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+      {success && <div style={{ color: 'var(--color-accent-strong)', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{success}</div>}
+
+      {loading ? (
+        <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>Loading...</div>
+      ) : (
+        <div style={{ display: 'grid', gap: '0.75rem' }}>
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '1rem',
+                padding: '0.75rem 1rem',
+                background: 'var(--color-bg)',
+                borderRadius: 'var(--border-radius-md)',
+                border: '1px solid var(--color-border)',
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: 500 }} title={session.userAgent || undefined}>
+                  💻 {session.device}
+                  {session.current && (
+                    <span className="pill" style={{ marginLeft: '0.5rem' }}>
+                      <span className="pill-dot" />
+                      This device
+                    </span>
+                  )}
+                </div>
+                <div className="muted" style={{ fontSize: '0.8rem' }}>
+                  {session.ip || 'Unknown IP'}
+                  {' · '}signed in {new Date(session.createdAt).toLocaleString()}
+                  {' · '}last active {new Date(session.lastActivity).toLocaleString()}
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  className="btn btn-ghost"
+                  style={{ fontSize: '0.75rem', padding: '0.35rem 0.6rem', flexShrink: 0 }}
+                  onClick={() => revoke(`/${session.id}`, `Signed out ${session.device}`)}
+                >
+                  Sign out
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+interface RatingSummary {
+  average: number | null
+  count: number
+}
+
+/**
+ * Read-only star summary, e.g. "★★★★☆ 4.2 (12)".
+ */
+export function StarRating({ rating, size = '0.85rem' }: { rating: RatingSummary; size?: string }) {
+  if (rating.count === 0 || rating.average === null) {
+    return (
+      <span className="muted" style={{ fontSize: size }}>
+        No reviews yet
+      </span>
+    )
+  }
+
+  const filled = Math.round(rating.average)
+  return (
+    <span style={{ fontSize: size, display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+      <span style={{ color: 'var(--color-gold)', letterSpacing: '0.05em' }} aria-hidden="true">
+        {'★'.repeat(filled)}
+        {'☆'.repeat(5 - filled)}
+      </span>
+      <span className="muted">
+        {rating.average.toFixed(1)} ({rating.count})
+      </span>
+    </span>
+  )
+}
+
+/**
+ * Clickable 1–5 star picker for the review form.
+ */
+export function StarInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <div role="radiogroup" aria-label="Rating" style={{ display: 'inline-flex', gap: '0.15rem' }}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star > 1 ? 's' : ''}`}
+          onClick={() => onChange(star)}
+          style={{
+            background: 'none',
+            border: 'none',
+            cursor: 'pointer',
+            fontSize: '1.4rem',
+            padding: 0,
+            color: star <= value ? 'var(--color-gold)' : 'var(--color-border)',
+          }}
+        >
+          ★
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { useState, type FormEvent } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+const DURATIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '', label: 'Until lifted' },
+]
+
+/**
+ * Suspends a user for a fixed number of days or until an admin lifts it.
+ * The user is signed out on their next request.
+ */
+export function SuspendUserDialog({
+  userId,
+  userName,
+  onClose,
+  onSuspended,
+}: {
+  userId: number
+  userName: string
+  onClose: () => void
+  onSuspended: () => void
+}) {
+  const [days, setDays] = useState('7')
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault()
+    const until = days ? new Date(Date.now() + Number(days) * 24 * 60 * 60 * 1000).toISOString() : undefined
+
+    setSubmitting(true)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(`${API_URL}/admin/users/${userId}/suspend`, { until, reason: reason.trim() || undefined }, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      onSuspended()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to suspend user')
+      }
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-panel" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+        <button className="modal-close" onClick={onClose} aria-label="Close">
+          ×
+        </button>
+        <h3 className="card-title" style={{ marginTop: 0 }}>Suspend "{userName}"</h3>
+
+        {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+
+        <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '0.75rem' }}>
+          <div>
+            <label className="input-label">Duration</label>
+            <select className="input-control" value={days} onChange={(e) => setDays(e.target.value)} autoFocus>
+              {DURATIONS.map((d) => (
+                <option key={d.value} value={d.value}>{d.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="input-label">Reason</label>
+            <textarea
+              className="input-control"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Shown to the user when they try to sign in"
+              rows={3}
+              maxLength={500}
+            />
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+            <button type="button" className="btn btn-ghost" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-danger" disabled={submitting}>
+              {submitting ? 'Suspending...' : '⛔ Suspend'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
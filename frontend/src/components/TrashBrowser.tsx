@@ -0,0 +1,186 @@
+import { useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+import { usePaginatedList } from '../hooks/usePaginatedList'
+import { LoadMore } from './LoadMore'
+
+type TrashKind = 'posts' | 'files' | 'users'
+
+interface TrashedItem {
+  id: number
+  deletedAt: string
+  deletedByName: string | null
+  purgeAt: string
+  canRestore?: boolean
+  // posts
+  title?: string
+  authorName?: string
+  // files
+  originalName?: string
+  ownerName?: string | null
+  // users
+  name?: string
+  email?: string
+}
+
+const KIND_LABELS: Record<TrashKind, string> = {
+  posts: '📝 Recipes',
+  files: '📁 Files',
+  users: '👤 Users',
+}
+
+function itemLabel(kind: TrashKind, item: TrashedItem): string {
+  if (kind === 'posts') return item.title ?? ''
+  if (kind === 'files') return item.originalName ?? ''
+  return `${item.name} (${item.email})`
+}
+
+function itemOwner(kind: TrashKind, item: TrashedItem): string | null {
+  if (kind === 'posts') return item.authorName ?? null
+  if (kind === 'files') return item.ownerName ?? null
+  return null
+}
+
+/**
+ * Deleted posts and files (and, for admins, users) waiting to be purged.
+ * `all` lists everyone's trash and adds permanent deletion; otherwise only the
+ * current user's own items are shown.
+ */
+export function TrashBrowser({ scope }: { scope: 'mine' | 'all' }) {
+  const kinds: TrashKind[] = scope === 'all' ? ['posts', 'files', 'users'] : ['posts', 'files']
+  const [kind, setKind] = useState<TrashKind>('posts')
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const base = scope === 'all' ? '/admin/trash' : '/trash'
+  const items = usePaginatedList<TrashedItem>(`${base}/${kind}`, kind, { limit: 20 })
+
+  async function send(method: 'put' | 'delete', url: string) {
+    const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+    return axios({
+      method,
+      url: `${API_URL}${url}`,
+      withCredentials: true,
+      headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+    })
+  }
+
+  async function handleRestore(item: TrashedItem) {
+    setError('')
+    setSuccess('')
+    try {
+      // Users can only come back through the admin route; posts and files share the owner route
+      await send('put', kind === 'users' ? `/admin/trash/users/${item.id}/restore` : `/trash/${kind}/${item.id}/restore`)
+      setSuccess(`"${itemLabel(kind, item)}" restored`)
+      items.reload()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to restore')
+      }
+    }
+  }
+
+  async function handlePurge(item: TrashedItem) {
+    const warning = kind === 'users' ? ' Everything they own is deleted with them.' : ''
+    if (!confirm(`Permanently delete "${itemLabel(kind, item)}"?${warning} This cannot be undone.`)) return
+    setError('')
+    setSuccess('')
+    try {
+      await send('delete', `/admin/trash/${kind}/${item.id}`)
+      setSuccess(`"${itemLabel(kind, item)}" permanently deleted`)
+      items.reload()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to delete')
+      }
+    }
+  }
+
+  return (
+    <div className="card-surface">
+      <div className="card-header">
+        <h3 className="card-title">Trash ({items.total})</h3>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          {kinds.map((k) => (
+            <button
+              key={k}
+              className={`btn ${kind === k ? 'btn-primary' : 'btn-ghost'}`}
+              style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
+              onClick={() => setKind(k)}
+            >
+              {KIND_LABELS[k]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="muted" style={{ marginTop: 0, fontSize: '0.88rem' }}>
+        Deleted items stay here until they are purged for good.
+      </p>
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+      {success && <div style={{ color: 'var(--color-accent-strong)', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{success}</div>}
+
+      {items.items.length === 0 ? (
+        <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
+          {items.loading ? 'Loading...' : 'Nothing in the trash.'}
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gap: '0.75rem' }}>
+          {items.items.map((item) => {
+            const owner = itemOwner(kind, item)
+            return (
+              <div
+                key={item.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: '1rem',
+                  padding: '0.75rem 1rem',
+                  background: 'var(--color-bg)',
+                  borderRadius: 'var(--border-radius-md)',
+                  border: '1px solid var(--color-border)',
+                }}
+              >
+                <div>
+                  <div style={{ fontWeight: 500 }}>{itemLabel(kind, item)}</div>
+                  <div className="muted" style={{ fontSize: '0.8rem' }}>
+                    {scope === 'all' && owner && `${owner} · `}
+                    Deleted {new Date(item.deletedAt).toLocaleString()}
+                    {item.deletedByName && ` by ${item.deletedByName}`}
+                    {' · '}purged {new Date(item.purgeAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                  {(kind === 'users' || item.canRestore) && (
+                    <button
+                      className="btn btn-ghost"
+                      style={{ fontSize: '0.75rem', padding: '0.35rem 0.6rem' }}
+                      onClick={() => handleRestore(item)}
+                    >
+                      ↩ Restore
+                    </button>
+                  )}
+                  {scope === 'all' && (
+                    <button
+                      className="btn btn-danger"
+                      style={{ fontSize: '0.75rem', padding: '0.35rem 0.6rem' }}
+                      onClick={() => handlePurge(item)}
+                    >
+                      Delete Forever
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+      <LoadMore hasMore={items.hasMore} loading={items.loading} onLoadMore={items.loadMore} />
+    </div>
+  )
+}
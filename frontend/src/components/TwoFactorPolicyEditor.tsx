@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+type Role = 'admin' | 'editor' | 'user'
+
+interface RolePolicy {
+  role: Role
+  requireTwoFactor: boolean
+  usersWithoutTwoFactor: number
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: '👑 Admin',
+  editor: '✏️ Editor',
+  user: '👤 User',
+}
+
+/**
+ * Admin switch per role for mandatory two-factor authentication. Users of a role that
+ * requires it are sent to set it up before they can do anything else.
+ */
+export function TwoFactorPolicyEditor() {
+  const [roles, setRoles] = useState<RolePolicy[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<Role | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    axios
+      .get(`${API_URL}/admin/auth-policy`, { withCredentials: true })
+      .then((res) => {
+        if (!cancelled) setRoles(res.data.roles || [])
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load the 2FA policy')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  async function handleToggle(policy: RolePolicy) {
+    const requireTwoFactor = !policy.requireTwoFactor
+    if (
+      requireTwoFactor &&
+      policy.usersWithoutTwoFactor > 0 &&
+      !confirm(
+        `${policy.usersWithoutTwoFactor} ${policy.role} account(s) have not set up 2FA yet. They will have to do so before they can continue. Require it anyway?`
+      )
+    ) {
+      return
+    }
+
+    setSaving(policy.role)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      const res = await axios.put(
+        `${API_URL}/admin/auth-policy/${policy.role}`,
+        { requireTwoFactor },
+        { withCredentials: true, headers: { 'X-CSRF-Token': csrfRes.data.csrfToken } }
+      )
+      setRoles(res.data.roles || [])
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to update the 2FA policy')
+      }
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <div className="card-surface">
+      <div className="card-header">
+        <h3 className="card-title">Two-Factor Authentication</h3>
+      </div>
+      <p className="muted" style={{ marginTop: 0, fontSize: '0.88rem' }}>
+        Anyone can turn on an authenticator app from their Security page. Here you can make it mandatory for a role.
+      </p>
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+
+      {loading ? (
+        <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>Loading...</div>
+      ) : (
+        <div style={{ display: 'grid', gap: '0.75rem' }}>
+          {roles.map((policy) => (
+            <label
+              key={policy.role}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '1rem',
+                padding: '0.75rem 1rem',
+                background: 'var(--color-bg)',
+                borderRadius: 'var(--border-radius-md)',
+                border: '1px solid var(--color-border)',
+                cursor: saving ? 'default' : 'pointer',
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: 500 }}>{ROLE_LABELS[policy.role]}</div>
+                <div className="muted" style={{ fontSize: '0.8rem' }}>
+                  {policy.usersWithoutTwoFactor === 0
+                    ? 'Every account has 2FA on'
+                    : `${policy.usersWithoutTwoFactor} account(s) without 2FA`}
+                </div>
+              </div>
+              <span style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.88rem' }}>
+                Require 2FA
+                <input
+                  type="checkbox"
+                  checked={policy.requireTwoFactor}
+                  disabled={saving !== null}
+                  onChange={() => handleToggle(policy)}
+                />
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+import { type FormEvent, useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+import { useAuth } from '../hooks/useAuth'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+  required: boolean
+}
+
+interface TwoFactorSetup {
+  secret: string
+  otpauthUri: string
+  qrCode: string // PNG data URL
+}
+
+/**
+ * Turning authenticator-app 2FA on and off for the current user. Setup shows a QR
+ * code for the app and needs one code from it; the recovery codes handed out after
+ * that (or after regenerating them) are only shown once.
+ */
+export function TwoFactorSettings() {
+  const { refreshUser } = useAuth()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  function loadStatus() {
+    return axios
+      .get(`${API_URL}/auth/2fa`, { withCredentials: true })
+      .then((res) => setStatus(res.data))
+      .catch(() => setError('Failed to load your 2FA settings'))
+  }
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  async function post(path: string, body: Record<string, string> = {}) {
+    const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+    return axios.post(`${API_URL}/auth/2fa${path}`, body, {
+      withCredentials: true,
+      headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+    })
+  }
+
+  async function run(action: () => Promise<void>, fallback: string) {
+    setSubmitting(true)
+    setError('')
+    setSuccess('')
+    try {
+      await action()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError(fallback)
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  function handleStartSetup() {
+    run(async () => {
+      const res = await post('/setup')
+      setSetup(res.data)
+      setCode('')
+    }, 'Failed to start the setup')
+  }
+
+  function handleEnable(e: FormEvent) {
+    e.preventDefault()
+    run(async () => {
+      const res = await post('/enable', { code })
+      setRecoveryCodes(res.data.recoveryCodes)
+      setSetup(null)
+      setCode('')
+      setSuccess('Two-factor authentication is on')
+      await loadStatus()
+      await refreshUser()
+    }, 'Failed to turn on 2FA')
+  }
+
+  function handleRegenerate(e: FormEvent) {
+    e.preventDefault()
+    run(async () => {
+      const res = await post('/recovery-codes', { code })
+      setRecoveryCodes(res.data.recoveryCodes)
+      setCode('')
+      setSuccess('New recovery codes generated; the old ones no longer work')
+      await loadStatus()
+    }, 'Failed to generate new recovery codes')
+  }
+
+  function handleDisable(e: FormEvent) {
+    e.preventDefault()
+    if (!confirm('Turn off two-factor authentication?')) return
+    run(async () => {
+      await post('/disable', { password })
+      setPassword('')
+      setRecoveryCodes(null)
+      setSuccess('Two-factor authentication is off')
+      await loadStatus()
+      await refreshUser()
+    }, 'Failed to turn off 2FA')
+  }
+
+  return (
+    <div className="card-surface">
+      <div className="card-header">
+        <h3 className="card-title">Two-Factor Authentication</h3>
+        {status && (
+          <span className={status.enabled ? 'pill pill--editor' : 'pill'}>
+            <span className="pill-dot" />
+            {status.enabled ? 'ON' : 'OFF'}
+          </span>
+        )}
+      </div>
+      <p className="muted" style={{ marginTop: 0, fontSize: '0.88rem' }}>
+        With 2FA on, signing in needs your password and a code from an authenticator app such as
+        Google Authenticator, 1Password or Authy.
+      </p>
+
+      {status?.required && !status.enabled && (
+        <div
+          style={{
+            padding: '0.75rem 1rem',
+            background: 'rgba(201, 148, 61, 0.1)',
+            border: '1px solid rgba(201, 148, 61, 0.3)',
+            borderRadius: 'var(--border-radius-md)',
+            marginBottom: '1rem',
+            fontSize: '0.88rem',
+            color: 'var(--color-gold)',
+          }}
+        >
+          Your role requires two-factor authentication. Set it up to continue using CulinaryHub.
+        </div>
+      )}
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+      {success && <div style={{ color: 'var(--color-accent-strong)', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{success}</div>}
+
+      {recoveryCodes && (
+        <div
+          style={{
+            padding: '1rem',
+            background: 'rgba(107, 140, 90, 0.1)',
+            border: '1px solid rgba(107, 140, 90, 0.3)',
+            borderRadius: 'var(--border-radius-md)',
+            marginBottom: '1rem',
+          }}
+        >
+          <div style={{ fontWeight: 500, marginBottom: '0.5rem' }}>Your recovery codes</div>
+          <p className="muted" style={{ marginTop: 0, fontSize: '0.85rem' }}>
+            Keep these somewhere safe. Each one signs you in once if you lose your phone. They will not be shown again.
+          </p>
+          <div
+            style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(2, minmax(0, 1fr))',
+              gap: '0.35rem',
+              fontFamily: 'monospace',
+              fontSize: '1rem',
+              marginBottom: '0.75rem',
+            }}
+          >
+            {recoveryCodes.map((c) => (
+              <div key={c}>{c}</div>
+            ))}
+          </div>
+          <button className="btn btn-ghost" style={{ fontSize: '0.85rem' }} onClick={() => setRecoveryCodes(null)}>
+            I have saved them
+          </button>
+        </div>
+      )}
+
+      {!status ? (
+        <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>Loading...</div>
+      ) : !status.enabled ? (
+        setup ? (
+          <form onSubmit={handleEnable}>
+            <p style={{ fontSize: '0.9rem' }}>
+              1. Scan this QR code with your authenticator app, or enter the key by hand.
+            </p>
+            <div style={{ display: 'flex', gap: '1.25rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1rem' }}>
+              <img src={setup.qrCode} alt="QR code for your authenticator app" width={180} height={180} />
+              <code style={{ wordBreak: 'break-all', fontSize: '0.9rem' }}>{setup.secret}</code>
+            </div>
+            <div className="input-group">
+              <label className="input-label" htmlFor="totp-code">
+                2. Enter the 6-digit code the app shows
+              </label>
+              <input
+                id="totp-code"
+                className="input-control"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                placeholder="000000"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                style={{ fontFamily: 'monospace', letterSpacing: '0.3em' }}
+              />
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button className="btn btn-primary" type="submit" disabled={submitting || code.length !== 6}>
+                {submitting ? 'Checking…' : 'Turn On 2FA'}
+              </button>
+              <button className="btn btn-ghost" type="button" onClick={() => setSetup(null)}>
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button className="btn btn-primary" onClick={handleStartSetup} disabled={submitting}>
+            Set Up Authenticator App
+          </button>
+        )
+      ) : (
+        <div style={{ display: 'grid', gap: '1.25rem' }}>
+          <div className="muted" style={{ fontSize: '0.88rem' }}>
+            On since {new Date(status.enabledAt!).toLocaleDateString()} · {status.recoveryCodesRemaining} recovery
+            code(s) left
+          </div>
+
+          <form onSubmit={handleRegenerate}>
+            <div className="input-group">
+              <label className="input-label" htmlFor="regenerate-code">
+                New recovery codes
+              </label>
+              <input
+                id="regenerate-code"
+                className="input-control"
+                type="text"
+                autoComplete="one-time-code"
+                maxLength={32}
+                placeholder="Code from your app"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <button className="btn btn-ghost" type="submit" disabled={submitting || code.trim().length < 6}>
+              Generate New Codes
+            </button>
+          </form>
+
+          {!status.required && (
+            <form onSubmit={handleDisable}>
+              <div className="input-group">
+                <label className="input-label" htmlFor="disable-password">
+                  Turn off 2FA
+                </label>
+                <input
+                  id="disable-password"
+                  className="input-control"
+                  type="password"
+                  autoComplete="current-password"
+                  placeholder="Your password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <button className="btn btn-danger" type="submit" disabled={submitting || !password}>
+                Turn Off 2FA
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,9 @@
 import { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import axios from 'axios'
+import { startAuthentication } from '@simplewebauthn/browser'
+import type { Permission } from '../utils/permissions'
+import { IdleTimeoutModal } from '../components/IdleTimeoutModal'
 
 type Role = 'admin' | 'editor' | 'user'
 
@@ -9,11 +12,19 @@ export interface AuthUser {
   name: string
   email: string
   role: Role
+  permissions: Permission[]
+  twoFactorEnabled?: boolean
+  // The user's role requires 2FA and it is not set up yet; only /security works until it is
+  twoFactorSetupRequired?: boolean
+  // How long the user's role may stay idle before the server signs them out
+  idleTimeoutMinutes?: number
 }
 
 interface OtpPending {
   userId: number
-  demoOtp?: string // DEMO ONLY
+  // 'totp': a code from the authenticator app or a recovery code; 'email': a code we emailed
+  method: 'email' | 'totp'
+  demoOtp?: string // Only sent by a backend running with DEMO_OTP=true
 }
 
 interface AuthContextValue {
@@ -21,11 +32,13 @@ interface AuthContextValue {
   loading: boolean
   otpPending: OtpPending | null
   login: (email: string, password: string) => Promise<void>
+  loginWithPasskey: () => Promise<void>
   register: (name: string, email: string, password: string) => Promise<void>
   verifyOtp: (otp: string) => Promise<void>
-  resendOtp: () => Promise<string | null>
+  resendOtp: () => Promise<boolean>
   logout: () => Promise<void>
   cancelOtp: () => void
+  refreshUser: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined)
@@ -78,82 +91,121 @@ function resetCsrfToken() {
   delete api.defaults.headers.common['X-CSRF-Token']
 }
 
-const AFK_TIMEOUT_MS = 25 * 60 * 1000 // 25 minutes
-const HEARTBEAT_INTERVAL_MS = 60 * 1000 // Send heartbeat every 1 minute
-const ACTIVITY_CHECK_INTERVAL_MS = 30 * 1000 // Check activity every 30 seconds
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 25 // The server's default, until /me says otherwise
+const IDLE_WARNING_MS = 2 * 60 * 1000 // Show the countdown 2 minutes before the session ends
+const HEARTBEAT_INTERVAL_MS = 60 * 1000 // Report activity to the server at most once a minute
+const IDLE_CHECK_INTERVAL_MS = 1000
+const ACTIVITY_CHANNEL = 'culinaryhub-activity'
+
+// Between tabs of the same browser, which share the session: activity in one keeps the
+// others signed in, and an idle sign-out in one ends them all
+type ActivityMessage = { type: 'activity'; at: number } | { type: 'idle-logout' }
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null)
   const [loading, setLoading] = useState(true)
   const [otpPending, setOtpPending] = useState<OtpPending | null>(null)
+  // When the session will end, while the countdown is showing
+  const [idleDeadline, setIdleDeadline] = useState<number | null>(null)
   const navigate = useNavigate()
+  // The last activity the server knows about: sign-in, a heartbeat, or another tab's heartbeat
   const lastActivityRef = useRef<number>(Date.now())
-  const heartbeatIntervalRef = useRef<number | null>(null)
-  const activityCheckIntervalRef = useRef<number | null>(null)
+  // Input since then that has not been reported yet
+  const pendingActivityRef = useRef(false)
+  const channelRef = useRef<BroadcastChannel | null>(null)
 
-  // Track user activity
-  const updateActivity = useCallback(() => {
-    lastActivityRef.current = Date.now()
-  }, [])
+  // Ends the session locally once the server has ended it (or is about to)
+  const endIdleSession = useCallback(
+    (notifyOthers: boolean) => {
+      if (notifyOthers) {
+        channelRef.current?.postMessage({ type: 'idle-logout' } satisfies ActivityMessage)
+        ensureCsrfToken()
+          .then(() => api.post('/api/auth/logout'))
+          .catch(() => {
+            // The server may have signed the session out already
+          })
+      }
+      setUser(null)
+      setIdleDeadline(null)
+      resetCsrfToken()
+      navigate('/login', { state: { signedOut: 'idle' } })
+    },
+    [navigate]
+  )
+
+  const sendHeartbeat = useCallback(async () => {
+    pendingActivityRef.current = false
+    try {
+      await ensureCsrfToken()
+      await api.post('/api/auth/heartbeat')
+      const at = Date.now()
+      lastActivityRef.current = at
+      channelRef.current?.postMessage({ type: 'activity', at } satisfies ActivityMessage)
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        endIdleSession(false)
+      } else {
+        // Not reported: the activity is sent again on the next check
+        pendingActivityRef.current = true
+      }
+    }
+  }, [endIdleSession])
 
-  // Start AFK monitoring
+  // Watch for inactivity while signed in
   useEffect(() => {
     if (!user) return
 
-    // Listen for user activity
+    const timeoutMs = (user.idleTimeoutMinutes ?? DEFAULT_IDLE_TIMEOUT_MINUTES) * 60 * 1000
+    let warning = false
+
+    const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(ACTIVITY_CHANNEL)
+    channelRef.current = channel
+    channel?.addEventListener('message', (e: MessageEvent<ActivityMessage>) => {
+      if (e.data.type === 'activity') {
+        lastActivityRef.current = Math.max(lastActivityRef.current, e.data.at)
+      } else if (e.data.type === 'idle-logout') {
+        endIdleSession(false)
+      }
+    })
+
+    // While the countdown shows, only "Stay signed in" counts
+    const markActive = () => {
+      if (!warning) pendingActivityRef.current = true
+    }
     const activityEvents = ['mousedown', 'keydown', 'mousemove', 'scroll', 'touchstart']
     activityEvents.forEach((event) => {
-      window.addEventListener(event, updateActivity, { passive: true })
+      window.addEventListener(event, markActive, { passive: true })
     })
 
-    // Heartbeat to keep session alive
-    heartbeatIntervalRef.current = window.setInterval(async () => {
-      const timeSinceActivity = Date.now() - lastActivityRef.current
-      if (timeSinceActivity < HEARTBEAT_INTERVAL_MS * 2) {
-        try {
-          await ensureCsrfToken()
-          await api.post('/api/auth/heartbeat')
-        } catch (err) {
-          console.debug('Heartbeat failed:', err)
-        }
+    const interval = window.setInterval(() => {
+      const now = Date.now()
+      if (pendingActivityRef.current && now - lastActivityRef.current >= HEARTBEAT_INTERVAL_MS) {
+        sendHeartbeat()
       }
-    }, HEARTBEAT_INTERVAL_MS)
-
-    // Check for AFK timeout
-    activityCheckIntervalRef.current = window.setInterval(() => {
-      const timeSinceActivity = Date.now() - lastActivityRef.current
-      if (timeSinceActivity > AFK_TIMEOUT_MS) {
-        // User is AFK - log them out
-        console.log('AFK timeout - logging out')
-        handleAfkLogout()
+
+      const deadline = lastActivityRef.current + timeoutMs
+      if (now >= deadline) {
+        window.clearInterval(interval)
+        endIdleSession(true)
+        return
       }
-    }, ACTIVITY_CHECK_INTERVAL_MS)
+      warning = deadline - now <= IDLE_WARNING_MS
+      setIdleDeadline(warning ? deadline : null)
+    }, IDLE_CHECK_INTERVAL_MS)
 
     return () => {
       activityEvents.forEach((event) => {
-        window.removeEventListener(event, updateActivity)
+        window.removeEventListener(event, markActive)
       })
-      if (heartbeatIntervalRef.current) {
-        clearInterval(heartbeatIntervalRef.current)
-      }
-      if (activityCheckIntervalRef.current) {
-        clearInterval(activityCheckIntervalRef.current)
-      }
+      window.clearInterval(interval)
+      channel?.close()
+      channelRef.current = null
     }
-  }, [user, updateActivity])
+  }, [user, sendHeartbeat, endIdleSession])
 
-  async function handleAfkLogout() {
-    try {
-      await ensureCsrfToken()
-      await api.post('/api/auth/logout')
-    } catch {
-      // Ignore errors
-    } finally {
-      setUser(null)
-      resetCsrfToken()
-      alert('You have been logged out due to inactivity (25 minutes)')
-      navigate('/login')
-    }
+  async function staySignedIn() {
+    await sendHeartbeat()
+    setIdleDeadline(null)
   }
 
   useEffect(() => {
@@ -191,6 +243,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       if (res.data.requiresOtp) {
         setOtpPending({
           userId: res.data.userId,
+          method: res.data.method ?? 'email',
           demoOtp: res.data.demoOtp, // DEMO ONLY
         })
         return
@@ -209,6 +262,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // A passkey stands in for both the password and the second factor
+  async function loginWithPasskey() {
+    setLoading(true)
+    try {
+      resetCsrfToken()
+      await ensureCsrfToken(3, true)
+      const options = await api.post('/api/auth/webauthn/login/options')
+      const response = await startAuthentication({ optionsJSON: options.data })
+      const res = await api.post('/api/auth/webauthn/login/verify', { response })
+      setUser(res.data.user)
+      setOtpPending(null)
+      lastActivityRef.current = Date.now()
+      navigate('/dashboard')
+    } catch (err) {
+      console.error('Passkey login failed:', err)
+      throw err
+    } finally {
+      setLoading(false)
+    }
+  }
+
   async function register(name: string, email: string, password: string) {
     setLoading(true)
     try {
@@ -221,6 +295,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       if (res.data.requiresOtp) {
         setOtpPending({
           userId: res.data.userId,
+          method: res.data.method ?? 'email',
           demoOtp: res.data.demoOtp, // DEMO ONLY
         })
         return
@@ -262,8 +337,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
-  async function resendOtp(): Promise<string | null> {
-    if (!otpPending) return null
+  async function resendOtp(): Promise<boolean> {
+    if (!otpPending) return false
     
     try {
       await ensureCsrfToken()
@@ -277,9 +352,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         demoOtp: res.data.demoOtp,
       })
       
-      return res.data.demoOtp || null
+      return true
     } catch {
-      return null
+      return false
     }
   }
 
@@ -287,6 +362,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setOtpPending(null)
   }
 
+  // Re-reads the user after something that changes it, e.g. turning on 2FA
+  async function refreshUser() {
+    const me = await api.get('/api/auth/me')
+    setUser(me.data.user ?? null)
+  }
+
   async function logout() {
     setLoading(true)
     try {
@@ -299,6 +380,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setUser(null)
       setOtpPending(null)
+      setIdleDeadline(null)
       resetCsrfToken()
       setLoading(false)
       navigate('/login')
@@ -310,14 +392,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     loading,
     otpPending,
     login,
+    loginWithPasskey,
     register,
     verifyOtp,
     resendOtp,
     logout,
     cancelOtp,
+    refreshUser,
   }
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      {user && idleDeadline !== null && (
+        <IdleTimeoutModal deadline={idleDeadline} onStaySignedIn={staySignedIn} onSignOut={logout} />
+      )}
+    </AuthContext.Provider>
+  )
 }
 
 export function useAuth() {
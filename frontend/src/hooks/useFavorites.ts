@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+/**
+ * Which recipes are in the current user's Favorites collection, with an
+ * optimistic toggle for the heart buttons on recipe cards.
+ */
+export function useFavorites(enabled = true) {
+  const [postIds, setPostIds] = useState<Set<number>>(new Set())
+
+  useEffect(() => {
+    if (!enabled) return
+    axios
+      .get(`${API_URL}/collections/favorites/ids`, { withCredentials: true })
+      .then((res) => setPostIds(new Set(res.data.postIds || [])))
+      .catch(() => setPostIds(new Set()))
+  }, [enabled])
+
+  const toggle = useCallback(async (postId: number) => {
+    const saved = postIds.has(postId)
+    const update = (add: boolean) =>
+      setPostIds((prev) => {
+        const next = new Set(prev)
+        if (add) next.add(postId)
+        else next.delete(postId)
+        return next
+      })
+
+    update(!saved)
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios({
+        method: saved ? 'delete' : 'post',
+        url: `${API_URL}/collections/favorites/${postId}`,
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+    } catch {
+      update(saved)
+    }
+  }, [postIds])
+
+  return { isFavorite: (postId: number) => postIds.has(postId), toggle }
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import axios from 'axios'
+import { API_URL } from '../config'
+
+type ListParams = Record<string, string | number | undefined>
+
+interface PaginatedListOptions {
+  enabled?: boolean
+  // Delay before fetching the first page after params change (e.g. while typing a search)
+  debounceMs?: number
+}
+
+/**
+ * Loads a cursor-paginated list endpoint (`{ [key]: T[], nextCursor, total }`).
+ * The first page is refetched whenever `params` change or `reload()` is called;
+ * `loadMore()` appends the next page.
+ */
+export function usePaginatedList<T>(
+  path: string,
+  key: string,
+  params: ListParams,
+  { enabled = true, debounceMs = 0 }: PaginatedListOptions = {},
+) {
+  const [items, setItems] = useState<T[]>([])
+  const [total, setTotal] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [version, setVersion] = useState(0)
+  // Bumped on every first-page fetch so a late "load more" response is not appended to a newer list
+  const generation = useRef(0)
+
+  // Params usually arrive as a fresh object each render, so compare them by value
+  const paramsKey = JSON.stringify(params)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const current = ++generation.current
+    const timer = setTimeout(() => {
+      setLoading(true)
+      axios
+        .get(`${API_URL}${path}`, { withCredentials: true, params: JSON.parse(paramsKey) })
+        .then((res) => {
+          if (current !== generation.current) return
+          setItems(res.data[key] || [])
+          setTotal(res.data.total || 0)
+          setNextCursor(res.data.nextCursor || null)
+          setError('')
+        })
+        .catch(() => {
+          if (current === generation.current) setError('Failed to load')
+        })
+        .finally(() => {
+          if (current === generation.current) setLoading(false)
+        })
+    }, debounceMs)
+
+    return () => clearTimeout(timer)
+  }, [path, key, paramsKey, enabled, debounceMs, version])
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || loading) return
+
+    const current = generation.current
+    setLoading(true)
+    axios
+      .get(`${API_URL}${path}`, { withCredentials: true, params: { ...JSON.parse(paramsKey), cursor: nextCursor } })
+      .then((res) => {
+        if (current !== generation.current) return
+        setItems((prev) => [...prev, ...(res.data[key] || [])])
+        setTotal(res.data.total || 0)
+        setNextCursor(res.data.nextCursor || null)
+      })
+      .catch(() => {
+        if (current === generation.current) setError('Failed to load more')
+      })
+      .finally(() => {
+        if (current === generation.current) setLoading(false)
+      })
+  }, [path, key, paramsKey, nextCursor, loading])
+
+  const reload = useCallback(() => setVersion((v) => v + 1), [])
+
+  return { items, total, hasMore: nextCursor !== null, loading, error, loadMore, reload }
+}
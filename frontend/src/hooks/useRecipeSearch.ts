@@ -0,0 +1,44 @@
+import { usePaginatedList } from './usePaginatedList'
+
+export type PostStatus = 'draft' | 'pending' | 'scheduled' | 'approved' | 'rejected'
+
+export interface RecipeSearchResult {
+  id: number
+  title: string
+  content: string
+  imageUrl: string | null
+  nationality: string | null
+  authorId: number
+  authorName: string
+  status: PostStatus
+  publishAt: string | null
+  rejection: { reason: string; label: string; note: string | null } | null
+  createdAt: string
+  rating: { average: number | null; count: number }
+  titleHighlight: string
+  snippet: string | null
+}
+
+interface RecipeSearchOptions {
+  query: string
+  cuisine?: string
+  status?: PostStatus
+  enabled?: boolean
+}
+
+const PAGE_SIZE = 12
+const DEBOUNCE_MS = 250
+
+export function useRecipeSearch({ query, cuisine, status, enabled = true }: RecipeSearchOptions) {
+  return usePaginatedList<RecipeSearchResult>(
+    '/posts/search',
+    'posts',
+    {
+      q: query.trim() || undefined,
+      cuisine: cuisine || undefined,
+      status,
+      limit: PAGE_SIZE,
+    },
+    { enabled, debounceMs: DEBOUNCE_MS },
+  )
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { Link, useLocation } from 'react-router-dom'
 import { useAuth } from '../hooks/useAuth'
+import { ADMIN_PANEL_PERMISSIONS, hasAnyPermission } from '../utils/permissions'
 
 export function MainLayout({ children }: { children: React.ReactNode }) {
   const { user, logout } = useAuth()
@@ -44,13 +45,18 @@ export function MainLayout({ children }: { children: React.ReactNode }) {
     { to: '/', label: 'Home', icon: '🏠', public: true },
     { to: '/dashboard', label: 'Dashboard', icon: '📊', requireAuth: true },
     { to: '/content', label: 'Content', icon: '📝', requireAuth: true },
-    { to: '/admin', label: 'Admin', icon: '⚙️', requireRole: 'admin' },
+    { to: '/collections', label: 'Collections', icon: '📚', requireAuth: true },
+    { to: '/planner', label: 'Planner', icon: '🗓️', requireAuth: true },
+    { to: '/shopping-lists', label: 'Shopping', icon: '🛒', requireAuth: true },
+    { to: '/trash', label: 'Trash', icon: '🗑️', requireAuth: true },
+    { to: '/security', label: 'Security', icon: '🛡️', requireAuth: true },
+    { to: '/admin', label: 'Admin', icon: '⚙️', requirePermissions: ADMIN_PANEL_PERMISSIONS },
   ]
 
   const filteredNavItems = navItems.filter((item) => {
     if (item.public) return true
     if (item.requireAuth && !user) return false
-    if (item.requireRole && user?.role !== item.requireRole) return false
+    if (item.requirePermissions && !hasAnyPermission(user, item.requirePermissions)) return false
     return !!user
   })
 
@@ -1,9 +1,20 @@
 import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { useAuth } from '../hooks/useAuth'
+import { hasPermission } from '../utils/permissions'
 import { usePageTitle } from '../hooks/usePageTitle'
 import axios from 'axios'
 import { API_URL, getImageUrl } from '../config'
+import { usePaginatedList } from '../hooks/usePaginatedList'
+import { LoadMore } from '../components/LoadMore'
+import { RejectPostDialog } from '../components/RejectPostDialog'
+import { ModerationRulesEditor } from '../components/ModerationRulesEditor'
+import { RolePermissionsEditor } from '../components/RolePermissionsEditor'
+import { SuspendUserDialog } from '../components/SuspendUserDialog'
+import { TrashBrowser } from '../components/TrashBrowser'
+import { TwoFactorPolicyEditor } from '../components/TwoFactorPolicyEditor'
+import { IdleTimeoutPolicyEditor } from '../components/IdleTimeoutPolicyEditor'
+import { LockedAccounts } from '../components/LockedAccounts'
 
 interface Post {
   id: number
@@ -17,12 +28,40 @@ interface Post {
   createdAt: string
 }
 
+interface PendingComment {
+  id: number
+  postId: number
+  postTitle: string
+  parentId: number | null
+  authorName: string
+  body: string
+  createdAt: string
+}
+
+interface PostReport {
+  id: number
+  postId: number
+  postTitle: string
+  postStatus: string
+  postAuthorName: string
+  openReports: number
+  reporterName: string | null
+  reasonLabel: string
+  note: string | null
+  createdAt: string
+}
+
+type UserRole = 'admin' | 'editor' | 'user'
+
 interface User {
   id: number
   name: string
   email: string
-  role: string
-  created_at: string
+  role: UserRole
+  createdAt: string
+  suspended: boolean
+  suspendedUntil: string | null
+  suspensionReason: string | null
 }
 
 interface LogEntry {
@@ -36,92 +75,116 @@ interface LogEntry {
 export function AdminPage() {
   usePageTitle('Admin Panel')
   const { user } = useAuth()
-  const [activeSection, setActiveSection] = useState<'overview' | 'pending' | 'users' | 'logs'>('overview')
-  const [pendingPosts, setPendingPosts] = useState<Post[]>([])
-  const [users, setUsers] = useState<User[]>([])
+  const [activeSection, setActiveSection] = useState<'overview' | 'pending' | 'comments' | 'reports' | 'rules' | 'users' | 'trash' | 'lockouts' | 'logs' | 'permissions' | 'signInPolicy'>('overview')
+  const [userSearch, setUserSearch] = useState('')
   const [logs, setLogs] = useState<LogEntry[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  const [rejectingPost, setRejectingPost] = useState<{ id: number; title: string } | null>(null)
+  const [suspendingUser, setSuspendingUser] = useState<{ id: number; name: string } | null>(null)
+
+  // Lists are only fetched while their section is open, and refetched each time it is reopened
+  const pending = usePaginatedList<Post>('/posts/pending', 'posts', { limit: 20 }, {
+    enabled: activeSection === 'pending',
+  })
+  const comments = usePaginatedList<PendingComment>('/comments/pending', 'comments', { limit: 20 }, {
+    enabled: activeSection === 'comments',
+  })
+  const reports = usePaginatedList<PostReport>('/admin/reports', 'reports', { limit: 20 }, {
+    enabled: activeSection === 'reports',
+  })
+  const users = usePaginatedList<User>('/admin/users', 'users', { limit: 25, q: userSearch.trim() || undefined }, {
+    enabled: activeSection === 'users',
+    debounceMs: 250,
+  })
 
   useEffect(() => {
-    if (activeSection === 'pending') {
-      fetchPendingPosts()
-    } else if (activeSection === 'users') {
-      fetchUsers()
-    } else if (activeSection === 'logs') {
+    if (activeSection === 'logs') {
       fetchLogs()
     }
   }, [activeSection])
 
-  async function fetchPendingPosts() {
+  async function fetchLogs() {
     setLoading(true)
     try {
-      const res = await axios.get(`${API_URL}/posts/pending`, { withCredentials: true })
-      setPendingPosts(res.data.posts || [])
+      const res = await axios.get(`${API_URL}/admin/logs`, { withCredentials: true })
+      setLogs(res.data.logs || [])
     } catch {
-      setError('Failed to fetch pending posts')
+      // If endpoint doesn't exist, show empty
+      setLogs([])
     } finally {
       setLoading(false)
     }
   }
 
-  async function fetchUsers() {
-    setLoading(true)
+  async function handleApprove(postId: number) {
     try {
-      const res = await axios.get(`${API_URL}/admin/users`, { withCredentials: true })
-      setUsers(res.data.users || [])
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(`${API_URL}/posts/${postId}/approve`, {}, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setSuccess('Post approved!')
+      pending.reload()
     } catch {
-      // If endpoint doesn't exist, show sample data
-      setUsers([])
-    } finally {
-      setLoading(false)
+      setError('Failed to approve post')
     }
   }
 
-  async function fetchLogs() {
-    setLoading(true)
+  function handleRejected() {
+    setRejectingPost(null)
+    setSuccess('Post rejected')
+    pending.reload()
+  }
+
+  async function handleModerateComment(commentId: number, action: 'approve' | 'reject') {
     try {
-      const res = await axios.get(`${API_URL}/admin/logs`, { withCredentials: true })
-      setLogs(res.data.logs || [])
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(`${API_URL}/comments/${commentId}/${action}`, {}, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setSuccess(action === 'approve' ? 'Comment approved!' : 'Comment rejected')
+      comments.reload()
     } catch {
-      // If endpoint doesn't exist, show empty
-      setLogs([])
-    } finally {
-      setLoading(false)
+      setError(`Failed to ${action} comment`)
     }
   }
 
-  async function handleApprove(postId: number) {
+  async function handleReportAction(report: PostReport, action: 'dismiss' | 'unpublish') {
     try {
       const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
-      await axios.put(`${API_URL}/posts/${postId}/approve`, {}, {
+      await axios.put(`${API_URL}/admin/reports/${report.id}/${action}`, {}, {
         withCredentials: true,
         headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
       })
-      setSuccess('Post approved!')
-      fetchPendingPosts()
+      setSuccess(action === 'dismiss' ? 'Report dismissed' : `"${report.postTitle}" moved back to pending`)
+      reports.reload()
     } catch {
-      setError('Failed to approve post')
+      setError(`Failed to ${action} report`)
     }
   }
 
-  async function handleReject(postId: number) {
+  async function handleDeleteReportedPost(report: PostReport) {
+    if (!confirm(`Move "${report.postTitle}" to the trash?`)) {
+      return
+    }
     try {
       const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
-      await axios.put(`${API_URL}/posts/${postId}/reject`, {}, {
+      await axios.delete(`${API_URL}/posts/${report.postId}`, {
         withCredentials: true,
         headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
       })
-      setSuccess('Post rejected')
-      fetchPendingPosts()
+      setSuccess(`"${report.postTitle}" has been moved to the trash`)
+      reports.reload()
     } catch {
-      setError('Failed to reject post')
+      setError('Failed to delete post')
     }
   }
 
   async function handleDeleteUser(userId: number, userName: string) {
-    if (!confirm(`Are you sure you want to delete user "${userName}"? This will also delete all their posts and files.`)) {
+    if (!confirm(`Move user "${userName}" to the trash? Their posts and files go with them and can be restored until the trash is purged.`)) {
       return
     }
     try {
@@ -130,14 +193,74 @@ export function AdminPage() {
         withCredentials: true,
         headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
       })
-      setSuccess(`User "${userName}" has been deleted`)
-      fetchUsers()
+      setSuccess(`User "${userName}" has been moved to the trash`)
+      users.reload()
     } catch (err: unknown) {
       const axiosError = err as { response?: { data?: { error?: string } } }
       setError(axiosError.response?.data?.error || 'Failed to delete user')
     }
   }
 
+  async function handleChangeRole(target: User, role: UserRole) {
+    if (role === 'admin' && !confirm(`Make "${target.name}" an admin? Admins have every permission.`)) {
+      return
+    }
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(`${API_URL}/admin/users/${target.id}/role`, { role }, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setSuccess(`"${target.name}" is now ${role === 'admin' ? 'an' : 'a'} ${role}`)
+      users.reload()
+    } catch (err: unknown) {
+      const axiosError = err as { response?: { data?: { error?: string } } }
+      setError(axiosError.response?.data?.error || 'Failed to change role')
+    }
+  }
+
+  function handleSuspended() {
+    setSuccess(`"${suspendingUser?.name}" has been suspended`)
+    setSuspendingUser(null)
+    users.reload()
+  }
+
+  async function handleUnsuspend(target: User) {
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(`${API_URL}/admin/users/${target.id}/unsuspend`, {}, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setSuccess(`"${target.name}" can sign in again`)
+      users.reload()
+    } catch (err: unknown) {
+      const axiosError = err as { response?: { data?: { error?: string } } }
+      setError(axiosError.response?.data?.error || 'Failed to lift suspension')
+    }
+  }
+
+  async function handleSignOutUser(target: User) {
+    try {
+      const sessionsRes = await axios.get(`${API_URL}/admin/users/${target.id}/sessions`, { withCredentials: true })
+      const devices = (sessionsRes.data.sessions as { device: string }[]).map((s) => s.device)
+      if (devices.length === 0) {
+        setSuccess(`"${target.name}" is not signed in anywhere`)
+        return
+      }
+      if (!confirm(`Sign "${target.name}" out of ${devices.length} session${devices.length === 1 ? '' : 's'} (${devices.join(', ')})?`)) return
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      const res = await axios.delete(`${API_URL}/admin/users/${target.id}/sessions`, {
+        withCredentials: true,
+        headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+      })
+      setSuccess(`"${target.name}" was signed out of ${res.data.revoked} session${res.data.revoked === 1 ? '' : 's'}`)
+    } catch (err: unknown) {
+      const axiosError = err as { response?: { data?: { error?: string } } }
+      setError(axiosError.response?.data?.error || 'Failed to sign out user')
+    }
+  }
+
   function getLogTypeColor(type: string): string {
     switch (type) {
       case 'auth': return 'var(--color-accent)'
@@ -216,24 +339,86 @@ export function AdminPage() {
         >
           📊 Overview
         </button>
-        <button
-          className={`tab ${activeSection === 'pending' ? 'tab--active' : ''}`}
-          onClick={() => setActiveSection('pending')}
-        >
-          ⏳ Pending Posts ({pendingPosts.length})
-        </button>
-        <button
-          className={`tab ${activeSection === 'users' ? 'tab--active' : ''}`}
-          onClick={() => setActiveSection('users')}
-        >
-          👥 Users
-        </button>
-        <button
-          className={`tab ${activeSection === 'logs' ? 'tab--active' : ''}`}
-          onClick={() => setActiveSection('logs')}
-        >
-          📋 Activity Logs
-        </button>
+        {hasPermission(user, 'posts.approve') && (
+          <button
+            className={`tab ${activeSection === 'pending' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('pending')}
+          >
+            ⏳ Pending Posts ({pending.total})
+          </button>
+        )}
+        {hasPermission(user, 'comments.moderate') && (
+          <button
+            className={`tab ${activeSection === 'comments' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('comments')}
+          >
+            💬 Pending Comments ({comments.total})
+          </button>
+        )}
+        {hasPermission(user, 'reports.manage') && (
+          <button
+            className={`tab ${activeSection === 'reports' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('reports')}
+          >
+            🚩 Reports ({reports.total})
+          </button>
+        )}
+        {hasPermission(user, 'moderation_rules.manage') && (
+          <button
+            className={`tab ${activeSection === 'rules' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('rules')}
+          >
+            🛡️ Moderation Rules
+          </button>
+        )}
+        {hasPermission(user, 'users.read') && (
+          <button
+            className={`tab ${activeSection === 'users' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('users')}
+          >
+            👥 Users
+          </button>
+        )}
+        {hasPermission(user, 'users.unlock') && (
+          <button
+            className={`tab ${activeSection === 'lockouts' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('lockouts')}
+          >
+            🔒 Locked Sign-ins
+          </button>
+        )}
+        {hasPermission(user, 'trash.manage') && (
+          <button
+            className={`tab ${activeSection === 'trash' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('trash')}
+          >
+            🗑️ Trash
+          </button>
+        )}
+        {hasPermission(user, 'logs.read') && (
+          <button
+            className={`tab ${activeSection === 'logs' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('logs')}
+          >
+            📋 Activity Logs
+          </button>
+        )}
+        {hasPermission(user, 'permissions.manage') && (
+          <button
+            className={`tab ${activeSection === 'permissions' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('permissions')}
+          >
+            🔑 Permissions
+          </button>
+        )}
+        {hasPermission(user, 'auth.policy.manage') && (
+          <button
+            className={`tab ${activeSection === 'signInPolicy' ? 'tab--active' : ''}`}
+            onClick={() => setActiveSection('signInPolicy')}
+          >
+            🛡️ Sign-in Policy
+          </button>
+        )}
       </div>
 
       {/* Overview Section */}
@@ -260,9 +445,9 @@ export function AdminPage() {
               </div>
             </div>
             <div style={{ display: 'flex', gap: '0.5rem' }}>
-              <span className="pill pill--admin">
+              <span className={user?.role === 'admin' ? 'pill pill--admin' : user?.role === 'editor' ? 'pill pill--editor' : 'pill'}>
                 <span className="pill-dot" />
-                ADMIN
+                {user?.role.toUpperCase()}
               </span>
               <span className="status-badge">
                 <span className="status-dot" />
@@ -275,101 +460,107 @@ export function AdminPage() {
           <div className="card-surface card-surface--elevated">
             <h3 className="card-title" style={{ marginBottom: '1rem' }}>Quick Actions</h3>
             <div style={{ display: 'grid', gap: '0.75rem' }}>
-              <button
-                onClick={() => setActiveSection('pending')}
-                style={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: '0.75rem',
-                  padding: '0.75rem',
-                  background: 'var(--color-bg)',
-                  borderRadius: 'var(--border-radius-md)',
-                  border: '1px solid var(--color-border)',
-                  cursor: 'pointer',
-                  width: '100%',
-                  textAlign: 'left',
-                }}
-              >
-                <span style={{
-                  width: 40,
-                  height: 40,
-                  borderRadius: '10px',
-                  background: 'rgba(201, 148, 61, 0.15)',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                }}>
-                  📝
-                </span>
-                <div>
-                  <div style={{ fontWeight: 500 }}>Review Pending Posts</div>
-                  <div className="muted" style={{ fontSize: '0.8rem' }}>Approve or reject submissions</div>
-                </div>
-              </button>
+              {hasPermission(user, 'posts.approve') && (
+                <button
+                  onClick={() => setActiveSection('pending')}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.75rem',
+                    padding: '0.75rem',
+                    background: 'var(--color-bg)',
+                    borderRadius: 'var(--border-radius-md)',
+                    border: '1px solid var(--color-border)',
+                    cursor: 'pointer',
+                    width: '100%',
+                    textAlign: 'left',
+                  }}
+                >
+                  <span style={{
+                    width: 40,
+                    height: 40,
+                    borderRadius: '10px',
+                    background: 'rgba(201, 148, 61, 0.15)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}>
+                    📝
+                  </span>
+                  <div>
+                    <div style={{ fontWeight: 500 }}>Review Pending Posts</div>
+                    <div className="muted" style={{ fontSize: '0.8rem' }}>Approve or reject submissions</div>
+                  </div>
+                </button>
+              )}
 
-              <button
-                onClick={() => setActiveSection('users')}
-                style={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: '0.75rem',
-                  padding: '0.75rem',
-                  background: 'var(--color-bg)',
-                  borderRadius: 'var(--border-radius-md)',
-                  border: '1px solid var(--color-border)',
-                  cursor: 'pointer',
-                  width: '100%',
-                  textAlign: 'left',
-                }}
-              >
-                <span style={{
-                  width: 40,
-                  height: 40,
-                  borderRadius: '10px',
-                  background: 'rgba(107, 140, 90, 0.15)',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                }}>
-                  👥
-                </span>
-                <div>
-                  <div style={{ fontWeight: 500 }}>User Management</div>
-                  <div className="muted" style={{ fontSize: '0.8rem' }}>View registered users</div>
-                </div>
-              </button>
+              {hasPermission(user, 'users.read') && (
+                <button
+                  onClick={() => setActiveSection('users')}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.75rem',
+                    padding: '0.75rem',
+                    background: 'var(--color-bg)',
+                    borderRadius: 'var(--border-radius-md)',
+                    border: '1px solid var(--color-border)',
+                    cursor: 'pointer',
+                    width: '100%',
+                    textAlign: 'left',
+                  }}
+                >
+                  <span style={{
+                    width: 40,
+                    height: 40,
+                    borderRadius: '10px',
+                    background: 'rgba(107, 140, 90, 0.15)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}>
+                    👥
+                  </span>
+                  <div>
+                    <div style={{ fontWeight: 500 }}>User Management</div>
+                    <div className="muted" style={{ fontSize: '0.8rem' }}>View registered users</div>
+                  </div>
+                </button>
+              )}
 
-              <button
-                onClick={() => setActiveSection('logs')}
-                style={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: '0.75rem',
-                  padding: '0.75rem',
-                  background: 'var(--color-bg)',
-                  borderRadius: 'var(--border-radius-md)',
-                  border: '1px solid var(--color-border)',
-                  cursor: 'pointer',
-                  width: '100%',
-                  textAlign: 'left',
-                }}
-              >
-                <span style={{
-                  width: 40,
-                  height: 40,
-                  borderRadius: '10px',
-                  background: 'rgba(184, 106, 75, 0.15)',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                }}>
-                  📊
-                </span>
-                <div>
-                  <div style={{ fontWeight: 500 }}>Activity Logs</div>
-                  <div className="muted" style={{ fontSize: '0.8rem' }}>Review security events</div>
-                </div>
-              </button>
+              {hasPermission(user, 'logs.read') && (
+                <button
+                  onClick={() => setActiveSection('logs')}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.75rem',
+                    padding: '0.75rem',
+                    background: 'var(--color-bg)',
+                    borderRadius: 'var(--border-radius-md)',
+                    border: '1px solid var(--color-border)',
+                    cursor: 'pointer',
+                    width: '100%',
+                    textAlign: 'left',
+                  }}
+                >
+                  <span style={{
+                    width: 40,
+                    height: 40,
+                    borderRadius: '10px',
+                    background: 'rgba(184, 106, 75, 0.15)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}>
+                    📊
+                  </span>
+                  <div>
+                    <div style={{ fontWeight: 500 }}>Activity Logs</div>
+                    <div className="muted" style={{ fontSize: '0.8rem' }}>Review security events</div>
+                  </div>
+                </button>
+              )}
             </div>
           </div>
 
@@ -393,21 +584,21 @@ export function AdminPage() {
             <h3 className="card-title">Pending Approval</h3>
             <span className="pill pill--pending">
               <span className="pill-dot" />
-              {pendingPosts.length} PENDING
+              {pending.total} PENDING
             </span>
           </div>
 
-          {loading ? (
+          {pending.loading && pending.items.length === 0 ? (
             <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
               Loading...
             </div>
-          ) : pendingPosts.length === 0 ? (
+          ) : pending.items.length === 0 ? (
             <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
               No posts pending approval 🎉
             </div>
           ) : (
             <div style={{ display: 'grid', gap: '1rem' }}>
-              {pendingPosts.map((post) => (
+              {pending.items.map((post) => (
                 <article
                   key={post.id}
                   style={{
@@ -452,7 +643,7 @@ export function AdminPage() {
                       </button>
                       <button
                         className="btn btn-danger"
-                        onClick={() => handleReject(post.id)}
+                        onClick={() => setRejectingPost({ id: post.id, title: post.title })}
                         style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
                       >
                         ✗ Reject
@@ -463,34 +654,188 @@ export function AdminPage() {
               ))}
             </div>
           )}
+          <LoadMore hasMore={pending.hasMore} loading={pending.loading} onLoadMore={pending.loadMore} />
+        </div>
+      )}
+
+      {/* Pending Comments Section */}
+      {activeSection === 'comments' && (
+        <div className="card-surface">
+          <div className="card-header">
+            <h3 className="card-title">Comment Moderation</h3>
+            <span className="pill pill--pending">
+              <span className="pill-dot" />
+              {comments.total} PENDING
+            </span>
+          </div>
+
+          {comments.loading && comments.items.length === 0 ? (
+            <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
+              Loading...
+            </div>
+          ) : comments.items.length === 0 ? (
+            <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
+              No comments pending approval 🎉
+            </div>
+          ) : (
+            <div style={{ display: 'grid', gap: '1rem' }}>
+              {comments.items.map((comment) => (
+                <article
+                  key={comment.id}
+                  style={{
+                    padding: '1rem',
+                    background: 'var(--color-bg)',
+                    borderRadius: 'var(--border-radius-md)',
+                    border: '1px solid var(--color-border)',
+                  }}
+                >
+                  <div className="muted" style={{ fontSize: '0.82rem', marginBottom: '0.5rem' }}>
+                    {comment.authorName} {comment.parentId ? 'replied' : 'commented'} on <strong>{comment.postTitle}</strong> • {new Date(comment.createdAt).toLocaleDateString()}
+                  </div>
+                  <p style={{ margin: '0 0 0.75rem', fontSize: '0.9rem', whiteSpace: 'pre-wrap' }}>
+                    {comment.body}
+                  </p>
+                  <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <button
+                      className="btn btn-primary"
+                      onClick={() => handleModerateComment(comment.id, 'approve')}
+                      style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
+                    >
+                      ✓ Approve
+                    </button>
+                    <button
+                      className="btn btn-danger"
+                      onClick={() => handleModerateComment(comment.id, 'reject')}
+                      style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
+                    >
+                      ✗ Reject
+                    </button>
+                  </div>
+                </article>
+              ))}
+            </div>
+          )}
+          <LoadMore hasMore={comments.hasMore} loading={comments.loading} onLoadMore={comments.loadMore} />
+        </div>
+      )}
+
+      {/* Reports Section */}
+      {activeSection === 'reports' && (
+        <div className="card-surface">
+          <div className="card-header">
+            <h3 className="card-title">Reported Recipes</h3>
+            <span className="pill pill--pending">
+              <span className="pill-dot" />
+              {reports.total} OPEN
+            </span>
+          </div>
+
+          {reports.loading && reports.items.length === 0 ? (
+            <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
+              Loading...
+            </div>
+          ) : reports.items.length === 0 ? (
+            <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
+              No open reports 🎉
+            </div>
+          ) : (
+            <div style={{ display: 'grid', gap: '1rem' }}>
+              {reports.items.map((report) => (
+                <article
+                  key={report.id}
+                  style={{
+                    padding: '1rem',
+                    background: 'var(--color-bg)',
+                    borderRadius: 'var(--border-radius-md)',
+                    border: '1px solid var(--color-border)',
+                  }}
+                >
+                  <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', marginBottom: '0.5rem' }}>
+                    <strong>{report.postTitle}</strong>
+                    <span className="muted" style={{ fontSize: '0.82rem', whiteSpace: 'nowrap' }}>
+                      {report.openReports} open report{report.openReports === 1 ? '' : 's'} • {report.postStatus}
+                    </span>
+                  </div>
+                  <div className="muted" style={{ fontSize: '0.82rem', marginBottom: '0.5rem' }}>
+                    {report.reporterName ?? 'Deleted user'} reported this recipe by {report.postAuthorName} • {new Date(report.createdAt).toLocaleDateString()}
+                  </div>
+                  <div style={{ fontSize: '0.9rem' }}>Reason: {report.reasonLabel}</div>
+                  {report.note && (
+                    <p style={{ margin: '0.35rem 0 0', fontSize: '0.9rem', whiteSpace: 'pre-wrap' }}>
+                      {report.note}
+                    </p>
+                  )}
+                  <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem', flexWrap: 'wrap' }}>
+                    <button
+                      className="btn btn-ghost"
+                      onClick={() => handleReportAction(report, 'dismiss')}
+                      style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
+                    >
+                      Dismiss
+                    </button>
+                    <button
+                      className="btn btn-primary"
+                      onClick={() => handleReportAction(report, 'unpublish')}
+                      style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
+                    >
+                      {report.postStatus === 'pending' ? '⏸ Keep Unpublished' : '⏸ Unpublish'}
+                    </button>
+                    {hasPermission(user, 'posts.delete.any') && (
+                      <button
+                        className="btn btn-danger"
+                        onClick={() => handleDeleteReportedPost(report)}
+                        style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
+                      >
+                        🗑️ Delete Recipe
+                      </button>
+                    )}
+                  </div>
+                </article>
+              ))}
+            </div>
+          )}
+          <LoadMore hasMore={reports.hasMore} loading={reports.loading} onLoadMore={reports.loadMore} />
         </div>
       )}
 
+      {/* Moderation Rules Section */}
+      {activeSection === 'rules' && <ModerationRulesEditor />}
+
       {/* Users Section */}
       {activeSection === 'users' && (
         <div className="card-surface">
           <div className="card-header">
-            <h3 className="card-title">Registered Users</h3>
-            <button 
-              onClick={fetchUsers} 
-              className="btn btn-ghost"
-              style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
-            >
-              🔄 Refresh
-            </button>
+            <h3 className="card-title">Registered Users ({users.total})</h3>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+              <input
+                type="search"
+                className="input-control"
+                value={userSearch}
+                onChange={(e) => setUserSearch(e.target.value)}
+                placeholder="Search name or email"
+                style={{ padding: '0.4rem 0.8rem', minWidth: '200px' }}
+              />
+              <button 
+                onClick={users.reload} 
+                className="btn btn-ghost"
+                style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
+              >
+                🔄 Refresh
+              </button>
+            </div>
           </div>
 
-          {loading ? (
+          {users.loading && users.items.length === 0 ? (
             <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
               Loading...
             </div>
-          ) : users.length === 0 ? (
+          ) : users.items.length === 0 ? (
             <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
               <p>No users found.</p>
             </div>
           ) : (
             <div style={{ display: 'grid', gap: '0.75rem' }}>
-              {users.map((u) => (
+              {users.items.map((u) => (
                 <div
                   key={u.id}
                   style={{
@@ -524,14 +869,71 @@ export function AdminPage() {
                     <div>
                       <div style={{ fontWeight: 500 }}>{u.name}</div>
                       <div className="muted" style={{ fontSize: '0.82rem' }}>{u.email}</div>
+                      {u.suspended && (
+                        <div style={{ color: '#b84b4b', fontSize: '0.78rem' }}>
+                          Suspended {u.suspendedUntil ? `until ${new Date(u.suspendedUntil).toLocaleString()}` : 'until lifted'}
+                          {u.suspensionReason && ` · ${u.suspensionReason}`}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
-                    <span className={`pill ${u.role === 'admin' ? 'pill--admin' : u.role === 'editor' ? 'pill--editor' : ''}`}>
-                      <span className="pill-dot" />
-                      {u.role.toUpperCase()}
-                    </span>
-                    {u.role !== 'admin' && u.id !== user?.id && (
+                    {u.suspended && (
+                      <span className="pill pill--suspended">
+                        <span className="pill-dot" />
+                        Suspended
+                      </span>
+                    )}
+                    {hasPermission(user, 'users.roles.manage') && u.id !== user?.id &&
+                    (user?.role === 'admin' || u.role !== 'admin') ? (
+                      <select
+                        className="input-control"
+                        value={u.role}
+                        onChange={(e) => handleChangeRole(u, e.target.value as UserRole)}
+                        aria-label={`Role of ${u.name}`}
+                        style={{ padding: '0.3rem 0.6rem', fontSize: '0.8rem', width: 'auto' }}
+                      >
+                        <option value="user">User</option>
+                        <option value="editor">Editor</option>
+                        {user?.role === 'admin' && <option value="admin">Admin</option>}
+                      </select>
+                    ) : (
+                      <span className={`pill ${u.role === 'admin' ? 'pill--admin' : u.role === 'editor' ? 'pill--editor' : ''}`}>
+                        <span className="pill-dot" />
+                        {u.role.toUpperCase()}
+                      </span>
+                    )}
+                    {hasPermission(user, 'users.suspend') && u.id !== user?.id && (u.suspended || u.role !== 'admin') && (
+                      u.suspended ? (
+                        <button
+                          onClick={() => handleUnsuspend(u)}
+                          className="btn btn-ghost"
+                          style={{ fontSize: '0.75rem', padding: '0.35rem 0.6rem' }}
+                        >
+                          ✓ Unsuspend
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setSuspendingUser({ id: u.id, name: u.name })}
+                          className="btn btn-ghost"
+                          style={{ fontSize: '0.75rem', padding: '0.35rem 0.6rem' }}
+                        >
+                          ⛔ Suspend
+                        </button>
+                      )
+                    )}
+                    {hasPermission(user, 'users.sessions.revoke') && u.id !== user?.id &&
+                    (user?.role === 'admin' || u.role !== 'admin') && (
+                      <button
+                        onClick={() => handleSignOutUser(u)}
+                        className="btn btn-ghost"
+                        style={{ fontSize: '0.75rem', padding: '0.35rem 0.6rem' }}
+                        title="Sign out on every device"
+                      >
+                        🚪 Sign out
+                      </button>
+                    )}
+                    {hasPermission(user, 'users.delete') && u.role !== 'admin' && u.id !== user?.id && (
                       <button
                         onClick={() => handleDeleteUser(u.id, u.name)}
                         className="btn btn-danger"
@@ -546,6 +948,24 @@ export function AdminPage() {
               ))}
             </div>
           )}
+          <LoadMore hasMore={users.hasMore} loading={users.loading} onLoadMore={users.loadMore} />
+        </div>
+      )}
+
+      {/* Locked Sign-ins Section */}
+      {activeSection === 'lockouts' && <LockedAccounts />}
+
+      {/* Trash Section */}
+      {activeSection === 'trash' && <TrashBrowser scope="all" />}
+
+      {/* Permissions Section */}
+      {activeSection === 'permissions' && <RolePermissionsEditor />}
+
+      {/* Sign-in Policy Section */}
+      {activeSection === 'signInPolicy' && (
+        <div style={{ display: 'grid', gap: '1.5rem' }}>
+          <TwoFactorPolicyEditor />
+          <IdleTimeoutPolicyEditor />
         </div>
       )}
 
@@ -652,6 +1072,23 @@ export function AdminPage() {
           </div>
         </div>
       </div>
+
+      {rejectingPost && (
+        <RejectPostDialog
+          postId={rejectingPost.id}
+          postTitle={rejectingPost.title}
+          onClose={() => setRejectingPost(null)}
+          onRejected={handleRejected}
+        />
+      )}
+      {suspendingUser && (
+        <SuspendUserDialog
+          userId={suspendingUser.id}
+          userName={suspendingUser.name}
+          onClose={() => setSuspendingUser(null)}
+          onSuspended={handleSuspended}
+        />
+      )}
     </div>
   )
 }
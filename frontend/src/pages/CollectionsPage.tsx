@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react'
+import axios from 'axios'
+import { usePageTitle } from '../hooks/usePageTitle'
+import { usePaginatedList } from '../hooks/usePaginatedList'
+import { API_URL, getImageUrl } from '../config'
+import { LoadMore } from '../components/LoadMore'
+import { RecipeDetail } from '../components/RecipeDetail'
+import { StarRating } from '../components/StarRating'
+
+interface Collection {
+  id: number
+  name: string
+  description: string | null
+  isPublic: boolean
+  isDefault: boolean
+  itemCount: number
+}
+
+interface Post {
+  id: number
+  title: string
+  content: string
+  imageUrl: string | null
+  nationality: string | null
+  authorName: string
+  rating: { average: number | null; count: number }
+  addedAt: string
+}
+
+export function CollectionsPage() {
+  usePageTitle('My Collections')
+  const [collections, setCollections] = useState<Collection[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [viewingPostId, setViewingPostId] = useState<number | null>(null)
+  const [error, setError] = useState('')
+
+  // New collection form
+  const [name, setName] = useState('')
+  const [isPublic, setIsPublic] = useState(false)
+  const [creating, setCreating] = useState(false)
+
+  const items = usePaginatedList<Post>(`/collections/${selectedId}/items`, 'posts', { limit: 12 }, {
+    enabled: selectedId !== null,
+  })
+  const selected = collections.find((c) => c.id === selectedId) ?? null
+
+  const fetchCollections = useCallback(async () => {
+    try {
+      const res = await axios.get(`${API_URL}/collections`, { withCredentials: true })
+      const list: Collection[] = res.data.collections || []
+      setCollections(list)
+      setSelectedId((current) => (list.some((c) => c.id === current) ? current : list[0]?.id ?? null))
+    } catch {
+      setError('Failed to load collections')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCollections()
+  }, [fetchCollections])
+
+  async function send(method: 'post' | 'put' | 'delete', url: string, data?: object) {
+    const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+    return axios({
+      method,
+      url: `${API_URL}${url}`,
+      data,
+      withCredentials: true,
+      headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+    })
+  }
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault()
+    if (!name.trim()) return
+    setCreating(true)
+    setError('')
+    try {
+      const res = await send('post', '/collections', { name: name.trim(), isPublic })
+      setName('')
+      setIsPublic(false)
+      await fetchCollections()
+      setSelectedId(res.data.collection.id)
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to create collection')
+      }
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  async function handleTogglePublic(collection: Collection) {
+    try {
+      await send('put', `/collections/${collection.id}`, { isPublic: !collection.isPublic })
+      await fetchCollections()
+    } catch {
+      setError('Failed to update collection')
+    }
+  }
+
+  async function handleDelete(collection: Collection) {
+    if (!confirm(`Delete the collection "${collection.name}"? The recipes themselves are not affected.`)) return
+    try {
+      await send('delete', `/collections/${collection.id}`)
+      setSelectedId(null)
+      await fetchCollections()
+    } catch {
+      setError('Failed to delete collection')
+    }
+  }
+
+  async function handleRemove(postId: number) {
+    if (selectedId === null) return
+    try {
+      await send('delete', `/collections/${selectedId}/items/${postId}`)
+      items.reload()
+      fetchCollections()
+    } catch {
+      setError('Failed to remove recipe')
+    }
+  }
+
+  return (
+    <div className="page-grid">
+      <section style={{ marginBottom: '0.5rem' }}>
+        <h1 className="section-title">My Collections 📚</h1>
+        <p className="section-subtitle">Recipes you have saved, organised your way</p>
+      </section>
+
+      {error && (
+        <div style={{ color: '#b84b4b', fontSize: '0.9rem' }}>
+          {error}
+        </div>
+      )}
+
+      <div className="card-surface">
+        <div className="tabs" style={{ flexWrap: 'wrap' }}>
+          {collections.map((collection) => (
+            <button
+              key={collection.id}
+              className={`tab ${collection.id === selectedId ? 'tab--active' : ''}`}
+              onClick={() => setSelectedId(collection.id)}
+            >
+              {collection.isDefault ? '♥' : collection.isPublic ? '🌍' : '🔒'} {collection.name} ({collection.itemCount})
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            className="input-control"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New collection name"
+            maxLength={60}
+            style={{ flex: '1 1 200px' }}
+          />
+          <label className="muted" style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.85rem' }}>
+            <input type="checkbox" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} />
+            Public
+          </label>
+          <button type="submit" className="btn btn-primary" disabled={creating || !name.trim()}>
+            {creating ? 'Creating...' : '+ Create'}
+          </button>
+        </form>
+      </div>
+
+      {selected && (
+        <div className="card-surface">
+          <div className="card-header">
+            <div>
+              <h3 className="card-title">{selected.name}</h3>
+              {selected.description && <p className="muted" style={{ margin: '0.25rem 0 0' }}>{selected.description}</p>}
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button className="btn btn-outline" onClick={() => handleTogglePublic(selected)} style={{ fontSize: '0.82rem' }}>
+                {selected.isPublic ? '🌍 Public' : '🔒 Private'}
+              </button>
+              {!selected.isDefault && (
+                <button className="btn btn-danger" onClick={() => handleDelete(selected)} style={{ fontSize: '0.82rem' }}>
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+
+          {items.items.length === 0 ? (
+            <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
+              {items.loading ? 'Loading...' : 'No recipes saved here yet. Tap ♡ on any recipe to save it.'}
+            </div>
+          ) : (
+            <div className="food-grid">
+              {items.items.map((post) => (
+                <article key={post.id} className="food-card">
+                  {post.imageUrl && !post.imageUrl.toLowerCase().endsWith('.pdf') ? (
+                    <img src={getImageUrl(post.imageUrl) || ''} alt={post.title} className="food-card-image" />
+                  ) : (
+                    <div
+                      className="food-card-image"
+                      style={{
+                        background: 'linear-gradient(135deg, var(--color-accent-soft), var(--color-gold-soft))',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        fontSize: '3rem',
+                      }}
+                    >
+                      🍽️
+                    </div>
+                  )}
+                  <div className="food-card-body">
+                    <div className="food-card-category">
+                      {post.nationality || 'International'} • by {post.authorName}
+                    </div>
+                    <h3 className="food-card-title">{post.title}</h3>
+                    <StarRating rating={post.rating} size="0.8rem" />
+                    <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+                      <button
+                        className="btn btn-primary"
+                        onClick={() => setViewingPostId(post.id)}
+                        style={{ fontSize: '0.78rem', padding: '0.3rem 0.6rem' }}
+                      >
+                        View Recipe
+                      </button>
+                      <button
+                        className="btn btn-ghost"
+                        onClick={() => handleRemove(post.id)}
+                        style={{ fontSize: '0.78rem', padding: '0.3rem 0.6rem' }}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                </article>
+              ))}
+            </div>
+          )}
+          <LoadMore hasMore={items.hasMore} loading={items.loading} onLoadMore={items.loadMore} />
+        </div>
+      )}
+
+      {viewingPostId !== null && (
+        <RecipeDetail postId={viewingPostId} onClose={() => setViewingPostId(null)} />
+      )}
+    </div>
+  )
+}
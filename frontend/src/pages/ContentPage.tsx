@@ -1,8 +1,19 @@
 import { useState, useEffect, type FormEvent, type ChangeEvent } from 'react'
 import { useAuth } from '../hooks/useAuth'
+import { hasPermission } from '../utils/permissions'
 import { usePageTitle } from '../hooks/usePageTitle'
 import axios from 'axios'
 import { API_URL, getImageUrl } from '../config'
+import { RecipeDetail } from '../components/RecipeDetail'
+import { RevisionHistory } from '../components/RevisionHistory'
+import { HighlightedText } from '../components/HighlightedText'
+import { useRecipeSearch, type PostStatus } from '../hooks/useRecipeSearch'
+import { usePaginatedList } from '../hooks/usePaginatedList'
+import { LoadMore } from '../components/LoadMore'
+import { StarRating } from '../components/StarRating'
+import { FavoriteButton } from '../components/FavoriteButton'
+import { useFavorites } from '../hooks/useFavorites'
+import { RejectPostDialog } from '../components/RejectPostDialog'
 
 interface Post {
   id: number
@@ -12,10 +23,22 @@ interface Post {
   nationality: string | null
   authorId: number
   authorName: string
-  status: 'pending' | 'approved' | 'rejected'
+  status: PostStatus
+  publishAt?: string | null
+  rejection?: { reason: string; label: string; note: string | null } | null
   createdAt: string
+  rating?: { average: number | null; count: number }
 }
 
+interface IngredientDraft {
+  quantity: string
+  unit: string
+  name: string
+  note: string
+}
+
+const EMPTY_INGREDIENT: IngredientDraft = { quantity: '', unit: '', name: '', note: '' }
+
 interface FileUpload {
   id: number
   originalName: string
@@ -24,6 +47,28 @@ interface FileUpload {
   createdAt: string
 }
 
+// Chips above the recipe grid; drafts are only ever the viewer's own, and regular
+// users only see their own pending and rejected recipes
+const STATUS_FILTERS: { status: PostStatus; label: string; privilegedOnly: boolean }[] = [
+  { status: 'approved', label: 'Published', privilegedOnly: false },
+  { status: 'draft', label: 'My Drafts', privilegedOnly: false },
+  { status: 'pending', label: 'Pending', privilegedOnly: false },
+  { status: 'scheduled', label: 'Scheduled', privilegedOnly: true },
+  { status: 'rejected', label: 'Rejected', privilegedOnly: false },
+]
+
+const STATUS_BADGES: Partial<Record<PostStatus, string>> = {
+  draft: '📝 Draft',
+  pending: '⏳ Pending',
+  scheduled: '🕒 Scheduled',
+  rejected: '✗ Rejected',
+}
+
+// <input type="datetime-local"> works in local time without a zone
+function toIsoOrUndefined(local: string): string | undefined {
+  return local ? new Date(local).toISOString() : undefined
+}
+
 const NATIONALITIES = [
   'Italian',
   'Mexican',
@@ -47,10 +92,6 @@ export function ContentPage() {
   usePageTitle('Content Manager')
   const { user } = useAuth()
   const [activeTab, setActiveTab] = useState<'recipes' | 'files' | 'pending'>('recipes')
-  const [posts, setPosts] = useState<Post[]>([])
-  const [pendingPosts, setPendingPosts] = useState<Post[]>([])
-  const [files, setFiles] = useState<FileUpload[]>([])
-  const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [successMsg, setSuccessMsg] = useState('')
 
@@ -58,50 +99,52 @@ export function ContentPage() {
   const [postTitle, setPostTitle] = useState('')
   const [postContent, setPostContent] = useState('')
   const [postNationality, setPostNationality] = useState('')
+  const [postServings, setPostServings] = useState('')
   const [postImage, setPostImage] = useState<File | null>(null)
   const [postImagePreview, setPostImagePreview] = useState<string | null>(null)
   const [postSubmitting, setPostSubmitting] = useState(false)
+  const [postIngredients, setPostIngredients] = useState<IngredientDraft[]>([EMPTY_INGREDIENT])
+  const [postSteps, setPostSteps] = useState<string[]>([''])
+  const [postPublishAt, setPostPublishAt] = useState('')
+  const [approvePublishAt, setApprovePublishAt] = useState('')
+
+  // Recipe detail view
+  const [viewingPostId, setViewingPostId] = useState<number | null>(null)
+  const [historyPostId, setHistoryPostId] = useState<number | null>(null)
+  const [editingPost, setEditingPost] = useState<Post | null>(null)
+  const [rejectingPost, setRejectingPost] = useState<{ id: number; title: string } | null>(null)
 
   // File form
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [fileSubmitting, setFileSubmitting] = useState(false)
 
   // Search/filter
+  const [searchQuery, setSearchQuery] = useState('')
   const [cuisineFilter, setCuisineFilter] = useState('')
+  const [statusFilter, setStatusFilter] = useState<PostStatus>('approved')
 
   // All authenticated users can create posts
   const canCreatePosts = !!user
-  const isAdmin = user?.role === 'admin'
+  const canModerate = hasPermission(user, 'posts.approve')
+  const canPublish = hasPermission(user, 'posts.publish')
+  // Authors fix up their own drafts and rejected recipes before (re)submitting them
+  const isAuthorEditable = (post: Post) =>
+    post.authorId === user?.id && (post.status === 'draft' || post.status === 'rejected')
 
-  useEffect(() => {
-    fetchData()
-  }, [])
+  const search = useRecipeSearch({
+    query: searchQuery,
+    cuisine: cuisineFilter,
+    status: statusFilter,
+  })
+  const files = usePaginatedList<FileUpload>('/files/list', 'files', { limit: 20 })
+  const pending = usePaginatedList<Post>('/posts/pending', 'posts', { limit: 20 }, { enabled: canModerate })
+  const favorites = useFavorites()
 
-  async function fetchData() {
-    setLoading(true)
-    try {
-      const requests = [
-        axios.get(`${API_URL}/posts`, { withCredentials: true }),
-        axios.get(`${API_URL}/files/list`, { withCredentials: true }),
-      ]
-      
-      // Only fetch pending posts if admin
-      if (user?.role === 'admin') {
-        requests.push(axios.get(`${API_URL}/posts/pending`, { withCredentials: true }))
-      }
-
-      const responses = await Promise.all(requests)
-      setPosts(responses[0].data.posts || [])
-      setFiles(responses[1].data.files || [])
-      if (responses[2]) {
-        setPendingPosts(responses[2].data.posts || [])
-      }
-    } catch (err) {
-      console.error('Fetch error:', err)
-      setError('Failed to load content')
-    } finally {
-      setLoading(false)
-    }
+  // Every list restarts from its first page after a change
+  function fetchData() {
+    search.reload()
+    files.reload()
+    if (canModerate) pending.reload()
   }
 
   function handlePostImageSelect(e: ChangeEvent<HTMLInputElement>) {
@@ -122,13 +165,43 @@ export function ContentPage() {
     setPostImagePreview(null)
   }
 
-  async function handleCreatePost(e: FormEvent) {
+  function updateIngredient(index: number, field: keyof IngredientDraft, value: string) {
+    setPostIngredients((prev) => prev.map((ing, i) => (i === index ? { ...ing, [field]: value } : ing)))
+  }
+
+  function removeIngredient(index: number) {
+    setPostIngredients((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : [EMPTY_INGREDIENT]))
+  }
+
+  function updateStep(index: number, value: string) {
+    setPostSteps((prev) => prev.map((step, i) => (i === index ? value : step)))
+  }
+
+  function removeStep(index: number) {
+    setPostSteps((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : ['']))
+  }
+
+  async function handleCreatePost(e: FormEvent, asDraft = false) {
     e.preventDefault()
     if (!postTitle.trim() || !postContent.trim()) {
       setError('Title and description are required')
       return
     }
 
+    // Blank editor rows are ignored rather than rejected
+    const ingredients = postIngredients
+      .filter((ing) => ing.name.trim())
+      .map((ing) => ({
+        // Sent as typed ("1 1/2", "½") and parsed by the server
+        quantity: ing.quantity.trim() || null,
+        unit: ing.unit.trim() || undefined,
+        name: ing.name.trim(),
+        note: ing.note.trim() || undefined,
+      }))
+    const steps = postSteps
+      .filter((step) => step.trim())
+      .map((step) => ({ instruction: step.trim() }))
+
     setPostSubmitting(true)
     setError('')
     setSuccessMsg('')
@@ -145,11 +218,25 @@ export function ContentPage() {
       if (postNationality) {
         formData.append('nationality', postNationality)
       }
+      if (postServings) {
+        formData.append('servings', postServings)
+      }
+      if (ingredients.length > 0) {
+        formData.append('ingredients', JSON.stringify(ingredients))
+      }
+      if (steps.length > 0) {
+        formData.append('steps', JSON.stringify(steps))
+      }
       if (postImage) {
         formData.append('image', postImage)
       }
+      if (asDraft) {
+        formData.append('draft', 'true')
+      } else if (canPublish && postPublishAt) {
+        formData.append('publishAt', toIsoOrUndefined(postPublishAt)!)
+      }
 
-      await axios.post(`${API_URL}/posts`, formData, {
+      const res = await axios.post(`${API_URL}/posts`, formData, {
         withCredentials: true,
         headers: {
           'X-CSRF-Token': csrfToken,
@@ -161,10 +248,19 @@ export function ContentPage() {
       setPostTitle('')
       setPostContent('')
       setPostNationality('')
+      setPostServings('')
       setPostImage(null)
       setPostImagePreview(null)
-      
-      if (user?.role === 'admin') {
+      setPostIngredients([EMPTY_INGREDIENT])
+      setPostSteps([''])
+      setPostPublishAt('')
+
+      const status: PostStatus = res.data.post.status
+      if (status === 'draft') {
+        setSuccessMsg('Draft saved. Only you can see it until you submit it.')
+      } else if (status === 'scheduled') {
+        setSuccessMsg(`Recipe scheduled for ${new Date(res.data.post.publishAt).toLocaleString()}`)
+      } else if (status === 'approved') {
         setSuccessMsg('Recipe published successfully!')
       } else {
         setSuccessMsg('Recipe submitted for approval!')
@@ -185,48 +281,80 @@ export function ContentPage() {
   async function handleApprovePost(postId: number) {
     try {
       const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
-      await axios.put(
+      const res = await axios.put(
         `${API_URL}/posts/${postId}/approve`,
-        {},
+        { publishAt: toIsoOrUndefined(approvePublishAt) },
         {
           withCredentials: true,
           headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
         }
       )
-      setSuccessMsg('Recipe approved!')
+      setSuccessMsg(
+        res.data.post.status === 'scheduled'
+          ? `Recipe approved and scheduled for ${new Date(res.data.post.publishAt).toLocaleString()}`
+          : 'Recipe approved!',
+      )
       fetchData()
     } catch {
       setError('Failed to approve recipe')
     }
   }
 
-  async function handleRejectPost(postId: number) {
+  async function handleSubmitDraft(postId: number) {
     try {
       const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
-      await axios.put(
-        `${API_URL}/posts/${postId}/reject`,
+      const res = await axios.post(
+        `${API_URL}/posts/${postId}/submit`,
         {},
         {
           withCredentials: true,
           headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
         }
       )
-      setSuccessMsg('Recipe rejected')
+      setSuccessMsg(res.data.post.status === 'approved' ? 'Recipe published successfully!' : 'Recipe submitted for approval!')
+      fetchData()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to submit draft')
+      }
+    }
+  }
+
+  async function handlePublishNow(postId: number) {
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(
+        `${API_URL}/posts/${postId}/schedule`,
+        { publishAt: null },
+        {
+          withCredentials: true,
+          headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+        }
+      )
+      setSuccessMsg('Recipe published!')
       fetchData()
     } catch {
-      setError('Failed to reject recipe')
+      setError('Failed to publish recipe')
     }
   }
 
+  function handleRejected() {
+    setRejectingPost(null)
+    setSuccessMsg('Recipe rejected')
+    fetchData()
+  }
+
   async function handleDeletePost(postId: number) {
-    if (!confirm('Are you sure you want to delete this recipe?')) return
+    if (!confirm('Move this recipe to the trash?')) return
     try {
       const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
       await axios.delete(`${API_URL}/posts/${postId}`, {
         withCredentials: true,
         headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
       })
-      setSuccessMsg('Recipe deleted')
+      setSuccessMsg('Recipe moved to the trash')
       fetchData()
     } catch (err: unknown) {
       if (axios.isAxiosError(err) && err.response?.data?.error) {
@@ -276,14 +404,14 @@ export function ContentPage() {
   }
 
   async function handleDeleteFile(fileId: number) {
-    if (!confirm('Are you sure you want to delete this file?')) return
+    if (!confirm('Move this file to the trash?')) return
     try {
       const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
       await axios.delete(`${API_URL}/files/${fileId}`, {
         withCredentials: true,
         headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
       })
-      setSuccessMsg('File deleted')
+      setSuccessMsg('File moved to the trash')
       fetchData()
     } catch {
       setError('Failed to delete file')
@@ -307,13 +435,6 @@ export function ContentPage() {
     }
   }, [successMsg, error])
 
-  if (loading) {
-    return (
-      <div className="card-surface" style={{ textAlign: 'center', padding: '3rem' }}>
-        <div className="muted">Loading content...</div>
-      </div>
-    )
-  }
 
   return (
     <div className="page-grid">
@@ -361,15 +482,15 @@ export function ContentPage() {
           onClick={() => setActiveTab('recipes')}
           type="button"
         >
-          🍳 Recipes ({posts.filter(p => p.status === 'approved').length})
+          🍳 Recipes ({search.total})
         </button>
-        {isAdmin && (
+        {canModerate && (
           <button
             className={`tab ${activeTab === 'pending' ? 'tab--active' : ''}`}
             onClick={() => setActiveTab('pending')}
             type="button"
           >
-            ⏳ Pending Approval ({pendingPosts.length})
+            ⏳ Pending Approval ({pending.total})
           </button>
         )}
         <button
@@ -377,7 +498,7 @@ export function ContentPage() {
           onClick={() => setActiveTab('files')}
           type="button"
         >
-          📁 Files ({files.length})
+          📁 Files ({files.total})
         </button>
       </div>
 
@@ -421,19 +542,121 @@ export function ContentPage() {
                   </div>
                 </div>
 
+                <div className="input-group" style={{ maxWidth: '200px' }}>
+                  <label className="input-label">Servings</label>
+                  <input
+                    type="number"
+                    className="input-control"
+                    value={postServings}
+                    onChange={(e) => setPostServings(e.target.value)}
+                    placeholder="e.g. 4"
+                    min="1"
+                    max="100"
+                  />
+                </div>
+
                 <div className="input-group">
-                  <label className="input-label">Description / Instructions *</label>
+                  <label className="input-label">Description *</label>
                   <textarea
                     className="input-control"
                     value={postContent}
                     onChange={(e) => setPostContent(e.target.value)}
-                    placeholder="Describe your recipe, ingredients, and cooking instructions..."
-                    rows={5}
+                    placeholder="Tell us about your recipe: its story, tips, serving suggestions..."
+                    rows={4}
                     style={{ resize: 'vertical' }}
                     required
                   />
                 </div>
 
+                <div className="input-group">
+                  <label className="input-label">Ingredients</label>
+                  {postIngredients.map((ing, index) => (
+                    <div key={index} className="editor-row editor-row--ingredient">
+                      <input
+                        type="text"
+                        className="input-control"
+                        value={ing.quantity}
+                        onChange={(e) => updateIngredient(index, 'quantity', e.target.value)}
+                        placeholder="1 1/2"
+                      />
+                      <input
+                        type="text"
+                        className="input-control"
+                        value={ing.unit}
+                        onChange={(e) => updateIngredient(index, 'unit', e.target.value)}
+                        placeholder="Unit"
+                      />
+                      <input
+                        type="text"
+                        className="input-control"
+                        value={ing.name}
+                        onChange={(e) => updateIngredient(index, 'name', e.target.value)}
+                        placeholder="Ingredient, e.g. flour"
+                      />
+                      <input
+                        type="text"
+                        className="input-control"
+                        value={ing.note}
+                        onChange={(e) => updateIngredient(index, 'note', e.target.value)}
+                        placeholder="Note (optional)"
+                      />
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => removeIngredient(index)}
+                        aria-label="Remove ingredient"
+                        style={{ padding: '0.3rem' }}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    className="btn btn-outline"
+                    onClick={() => setPostIngredients((prev) => [...prev, EMPTY_INGREDIENT])}
+                    style={{ fontSize: '0.82rem', padding: '0.3rem 0.7rem' }}
+                  >
+                    + Add ingredient
+                  </button>
+                </div>
+
+                <div className="input-group">
+                  <label className="input-label">Method</label>
+                  {postSteps.map((step, index) => (
+                    <div key={index} className="editor-row editor-row--step">
+                      <span className="muted" style={{ paddingTop: '0.6rem', fontWeight: 600 }}>
+                        {index + 1}.
+                      </span>
+                      <textarea
+                        className="input-control"
+                        value={step}
+                        onChange={(e) => updateStep(index, e.target.value)}
+                        placeholder="Describe this step..."
+                        rows={2}
+                        style={{ resize: 'vertical' }}
+                      />
+                      <button
+                        type="button"
+                        className="btn btn-ghost"
+                        onClick={() => removeStep(index)}
+                        aria-label="Remove step"
+                        style={{ padding: '0.3rem' }}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    className="btn btn-outline"
+                    onClick={() => setPostSteps((prev) => [...prev, ''])}
+                    style={{ fontSize: '0.82rem', padding: '0.3rem 0.7rem' }}
+                  >
+                    + Add step
+                  </button>
+                </div>
+
                 <div className="input-group">
                   <label className="input-label">Recipe Photo or PDF</label>
                   {postImage ? (
@@ -505,17 +728,45 @@ export function ContentPage() {
                   </div>
                 </div>
 
-                <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginTop: '1rem' }}>
+                {canPublish && (
+                  <div className="input-group">
+                    <label className="input-label">Publish At (optional)</label>
+                    <input
+                      type="datetime-local"
+                      className="input-control"
+                      value={postPublishAt}
+                      onChange={(e) => setPostPublishAt(e.target.value)}
+                      style={{ maxWidth: '260px' }}
+                    />
+                    <div className="input-help">Leave empty to publish immediately</div>
+                  </div>
+                )}
+
+                <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginTop: '1rem', flexWrap: 'wrap' }}>
                   <button
                     type="submit"
                     className="btn btn-primary"
                     disabled={postSubmitting}
                   >
-                    {postSubmitting ? 'Publishing...' : user?.role === 'admin' ? 'Publish Recipe' : 'Submit for Approval'}
+                    {postSubmitting
+                      ? 'Publishing...'
+                      : !canPublish
+                        ? 'Submit for Approval'
+                        : postPublishAt
+                          ? 'Schedule Recipe'
+                          : 'Publish Recipe'}
                   </button>
-                  {user?.role !== 'admin' && (
+                  <button
+                    type="button"
+                    className="btn btn-outline"
+                    disabled={postSubmitting}
+                    onClick={(e) => handleCreatePost(e, true)}
+                  >
+                    📝 Save as Draft
+                  </button>
+                  {!canPublish && (
                     <span className="muted" style={{ fontSize: '0.85rem' }}>
-                      ℹ️ Recipes require admin approval before being visible
+                      ℹ️ Recipes require approval before being visible
                     </span>
                   )}
                 </div>
@@ -526,12 +777,34 @@ export function ContentPage() {
           {/* Recipes Grid */}
           <div className="card-surface">
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap', gap: '1rem' }}>
-              <h3 className="card-title" style={{ margin: 0 }}>
-                Published Recipes
-              </h3>
-              {/* Cuisine Filter */}
-              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                <span className="muted" style={{ fontSize: '0.88rem' }}>🔍 Filter by cuisine:</span>
+              <div>
+                <h3 className="card-title" style={{ margin: 0 }}>
+                  {statusFilter === 'approved' ? 'Published Recipes' : STATUS_FILTERS.find((f) => f.status === statusFilter)?.label}
+                </h3>
+                <div style={{ display: 'flex', gap: '0.4rem', flexWrap: 'wrap', marginTop: '0.5rem' }}>
+                  {STATUS_FILTERS.filter((f) => !f.privilegedOnly || hasPermission(user, 'posts.view.all')).map((f) => (
+                    <button
+                      key={f.status}
+                      type="button"
+                      className={`filter-chip ${statusFilter === f.status ? 'filter-chip--active' : ''}`}
+                      onClick={() => setStatusFilter(f.status)}
+                      aria-pressed={statusFilter === f.status}
+                    >
+                      {f.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {/* Search */}
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+                <input
+                  type="search"
+                  className="input-control"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="🔍 Search recipes, ingredients, cooks..."
+                  style={{ padding: '0.4rem 0.8rem', minWidth: '240px' }}
+                />
                 <select
                   className="input-control"
                   value={cuisineFilter}
@@ -549,56 +822,99 @@ export function ContentPage() {
             </div>
 
             {(() => {
-              const filteredPosts = posts
-                .filter((p) => p.status === 'approved')
-                .filter((p) => !cuisineFilter || p.nationality === cuisineFilter)
-              
-              if (filteredPosts.length === 0) {
+              const isFiltering = !!searchQuery.trim() || !!cuisineFilter
+
+              if (search.error) {
+                return <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>{search.error}</div>
+              }
+
+              if (search.items.length === 0) {
+                if (search.loading) {
+                  return <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>Searching...</div>
+                }
                 return (
                   <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
-                    {cuisineFilter 
-                      ? `No ${cuisineFilter} recipes found. Try another cuisine!` 
-                      : `No recipes published yet. ${canCreatePosts ? 'Create your first recipe above!' : ''}`}
+                    {isFiltering
+                      ? `No ${cuisineFilter ? `${cuisineFilter} ` : ''}recipes match your search.`
+                      : statusFilter === 'draft'
+                        ? 'You have no drafts.'
+                        : statusFilter !== 'approved'
+                          ? `No ${statusFilter} recipes.`
+                          : `No recipes published yet. ${canCreatePosts ? 'Create your first recipe above!' : ''}`}
                   </div>
                 )
               }
 
               return (
-                <div className="food-grid">
-                  {filteredPosts.map((post) => (
-                    <RecipeCard
-                      key={post.id}
-                      post={post}
-                      userId={user?.id}
-                      isAdmin={isAdmin}
-                      onDelete={handleDeletePost}
-                    />
-                  ))}
-                </div>
+                <>
+                  {isFiltering && (
+                    <div className="muted" style={{ fontSize: '0.85rem', marginBottom: '0.75rem' }}>
+                      {search.total} {search.total === 1 ? 'recipe' : 'recipes'} found
+                    </div>
+                  )}
+                  <div className="food-grid">
+                    {search.items.map((post) => (
+                      <RecipeCard
+                        key={post.id}
+                        post={post}
+                        titleHighlight={post.titleHighlight}
+                        snippet={post.snippet}
+                        userId={user?.id}
+                        canDeleteAny={hasPermission(user, 'posts.delete.any')}
+                        onDelete={handleDeletePost}
+                        onView={setViewingPostId}
+                        onHistory={hasPermission(user, 'posts.edit.any') || post.authorId === user?.id ? setHistoryPostId : undefined}
+                        onEdit={isAuthorEditable(post) ? setEditingPost : undefined}
+                        onSubmitDraft={isAuthorEditable(post) ? handleSubmitDraft : undefined}
+                        onPublishNow={post.status === 'scheduled' && canModerate ? handlePublishNow : undefined}
+                        saved={favorites.isFavorite(post.id)}
+                        onToggleSaved={() => favorites.toggle(post.id)}
+                      />
+                    ))}
+                  </div>
+                  <LoadMore hasMore={search.hasMore} loading={search.loading} onLoadMore={search.loadMore} auto />
+                </>
               )
             })()}
           </div>
         </div>
       )}
 
-      {/* Pending Approval Tab (Admin Only) */}
-      {activeTab === 'pending' && isAdmin && (
+      {/* Pending Approval Tab (posts.approve) */}
+      {activeTab === 'pending' && canModerate && (
         <div className="card-surface">
           <div className="card-header">
             <h3 className="card-title">Pending Approval</h3>
             <span className="pill pill--pending">
               <span className="pill-dot" />
-              {pendingPosts.length} PENDING
+              {pending.total} PENDING
             </span>
           </div>
 
-          {pendingPosts.length === 0 ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+            <label className="muted" htmlFor="approve-publish-at" style={{ fontSize: '0.85rem' }}>
+              🕒 Publish approved recipes at
+            </label>
+            <input
+              id="approve-publish-at"
+              type="datetime-local"
+              className="input-control"
+              value={approvePublishAt}
+              onChange={(e) => setApprovePublishAt(e.target.value)}
+              style={{ width: 'auto', padding: '0.3rem 0.6rem' }}
+            />
+            <span className="muted" style={{ fontSize: '0.8rem' }}>
+              {approvePublishAt ? 'Approvals are scheduled' : 'Empty publishes immediately'}
+            </span>
+          </div>
+
+          {pending.items.length === 0 ? (
             <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
-              No recipes pending approval
+              {pending.loading ? 'Loading...' : 'No recipes pending approval'}
             </div>
           ) : (
             <div style={{ display: 'grid', gap: '1rem' }}>
-              {pendingPosts.map((post) => (
+              {pending.items.map((post) => (
                 <article
                   key={post.id}
                   style={{
@@ -647,7 +963,7 @@ export function ContentPage() {
                       </button>
                       <button
                         className="btn btn-danger"
-                        onClick={() => handleRejectPost(post.id)}
+                        onClick={() => setRejectingPost({ id: post.id, title: post.title })}
                         style={{ fontSize: '0.82rem', padding: '0.4rem 0.8rem' }}
                       >
                         ✗ Reject
@@ -658,6 +974,7 @@ export function ContentPage() {
               ))}
             </div>
           )}
+          <LoadMore hasMore={pending.hasMore} loading={pending.loading} onLoadMore={pending.loadMore} />
         </div>
       )}
 
@@ -700,13 +1017,13 @@ export function ContentPage() {
               Your Files
             </h3>
 
-            {files.length === 0 ? (
+            {files.items.length === 0 ? (
               <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
-                No files uploaded yet
+                {files.loading ? 'Loading files...' : 'No files uploaded yet'}
               </div>
             ) : (
               <div style={{ display: 'grid', gap: '0.75rem' }}>
-                {files.map((file) => (
+                {files.items.map((file) => (
                   <div
                     key={file.id}
                     style={{
@@ -762,29 +1079,87 @@ export function ContentPage() {
                 ))}
               </div>
             )}
+            <LoadMore hasMore={files.hasMore} loading={files.loading} onLoadMore={files.loadMore} />
           </div>
         </div>
       )}
+
+      {viewingPostId !== null && (
+        <RecipeDetail postId={viewingPostId} onClose={() => setViewingPostId(null)} />
+      )}
+
+      {historyPostId !== null && (
+        <RevisionHistory
+          postId={historyPostId}
+          canRestore={hasPermission(user, 'posts.revisions.restore')}
+          onClose={() => setHistoryPostId(null)}
+          onRestored={() => search.reload()}
+        />
+      )}
+
+      {editingPost && (
+        <EditRecipeDialog
+          post={editingPost}
+          onClose={() => setEditingPost(null)}
+          onSaved={(submit) => {
+            setEditingPost(null)
+            if (submit) {
+              handleSubmitDraft(editingPost.id)
+            } else {
+              setSuccessMsg('Recipe updated')
+              fetchData()
+            }
+          }}
+        />
+      )}
+
+      {rejectingPost && (
+        <RejectPostDialog
+          postId={rejectingPost.id}
+          postTitle={rejectingPost.title}
+          onClose={() => setRejectingPost(null)}
+          onRejected={handleRejected}
+        />
+      )}
     </div>
   )
 }
 
 function RecipeCard({
   post,
+  titleHighlight,
+  snippet,
   userId,
-  isAdmin,
+  canDeleteAny,
   onDelete,
+  onView,
+  onHistory,
+  onEdit,
+  onSubmitDraft,
+  onPublishNow,
+  saved,
+  onToggleSaved,
 }: {
   post: Post
+  titleHighlight?: string
+  snippet?: string | null
   userId?: number
-  isAdmin?: boolean
+  canDeleteAny?: boolean
   onDelete: (id: number) => void
+  onView: (id: number) => void
+  onHistory?: (id: number) => void
+  onEdit?: (post: Post) => void
+  onSubmitDraft?: (id: number) => void
+  onPublishNow?: (id: number) => void
+  saved: boolean
+  onToggleSaved: () => void
 }) {
-  const canDelete = post.authorId === userId || isAdmin
+  const canDelete = post.authorId === userId || canDeleteAny
   const isPdf = post.imageUrl?.toLowerCase().endsWith('.pdf')
 
   return (
     <article className="food-card">
+      {post.status === 'approved' && <FavoriteButton saved={saved} onToggle={onToggleSaved} />}
       {post.imageUrl ? (
         isPdf ? (
           <a
@@ -831,7 +1206,22 @@ function RecipeCard({
         <div className="food-card-category">
           {post.nationality || 'International'} • by {post.authorName}
         </div>
-        <h3 className="food-card-title">{post.title}</h3>
+        <h3 className="food-card-title">
+          <HighlightedText text={titleHighlight ?? post.title} />
+        </h3>
+        {STATUS_BADGES[post.status] && (
+          <span className="pill pill--pending" style={{ fontSize: '0.72rem', marginBottom: '0.35rem' }}>
+            {STATUS_BADGES[post.status]}
+            {post.status === 'scheduled' && post.publishAt && ` • ${new Date(post.publishAt).toLocaleString()}`}
+          </span>
+        )}
+        {post.rejection && (
+          <div style={{ fontSize: '0.82rem', color: '#b84b4b', marginBottom: '0.35rem' }}>
+            {post.rejection.label}
+            {post.rejection.note && <span className="muted"> — {post.rejection.note}</span>}
+          </div>
+        )}
+        {post.rating && <StarRating rating={post.rating} size="0.8rem" />}
         <p
           style={{
             fontSize: '0.88rem',
@@ -840,9 +1230,22 @@ function RecipeCard({
             lineHeight: 1.5,
           }}
         >
-          {post.content.length > 100 ? post.content.substring(0, 100) + '...' : post.content}
+          {snippet ? (
+            <HighlightedText text={snippet} />
+          ) : post.content.length > 100 ? (
+            post.content.substring(0, 100) + '...'
+          ) : (
+            post.content
+          )}
         </p>
-        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem', flexWrap: 'wrap' }}>
+          <button
+            className="btn btn-primary"
+            onClick={() => onView(post.id)}
+            style={{ fontSize: '0.78rem', padding: '0.3rem 0.6rem' }}
+          >
+            View Recipe
+          </button>
           {isPdf && (
             <a
               href={getImageUrl(post.imageUrl!) || ''}
@@ -854,6 +1257,42 @@ function RecipeCard({
               📄 Open PDF
             </a>
           )}
+          {onEdit && (
+            <button
+              className="btn btn-outline"
+              onClick={() => onEdit(post)}
+              style={{ fontSize: '0.78rem', padding: '0.3rem 0.6rem' }}
+            >
+              ✏️ Edit
+            </button>
+          )}
+          {onSubmitDraft && (
+            <button
+              className="btn btn-outline"
+              onClick={() => onSubmitDraft(post.id)}
+              style={{ fontSize: '0.78rem', padding: '0.3rem 0.6rem' }}
+            >
+              {post.status === 'rejected' ? '🔁 Resubmit' : '📤 Submit'}
+            </button>
+          )}
+          {onPublishNow && (
+            <button
+              className="btn btn-outline"
+              onClick={() => onPublishNow(post.id)}
+              style={{ fontSize: '0.78rem', padding: '0.3rem 0.6rem' }}
+            >
+              Publish now
+            </button>
+          )}
+          {onHistory && (
+            <button
+              className="btn btn-ghost"
+              onClick={() => onHistory(post.id)}
+              style={{ fontSize: '0.78rem', padding: '0.3rem 0.6rem' }}
+            >
+              🕘 History
+            </button>
+          )}
           {canDelete && (
             <button
               className="btn btn-danger"
@@ -868,3 +1307,132 @@ function RecipeCard({
     </article>
   )
 }
+
+// Title, cuisine, servings and description of the author's own draft or rejected recipe
+function EditRecipeDialog({
+  post,
+  onClose,
+  onSaved,
+}: {
+  post: Post
+  onClose: () => void
+  onSaved: (submit: boolean) => void
+}) {
+  const [title, setTitle] = useState(post.title)
+  const [content, setContent] = useState(post.content)
+  const [nationality, setNationality] = useState(post.nationality || '')
+  const [servings, setServings] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  // Search results leave out servings, so they come from the full recipe
+  useEffect(() => {
+    let cancelled = false
+    axios
+      .get(`${API_URL}/posts/${post.id}`, { withCredentials: true })
+      .then((res) => {
+        if (!cancelled && res.data.post.servings != null) setServings(String(res.data.post.servings))
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load recipe')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [post.id])
+
+  async function handleSave(submit: boolean) {
+    if (!title.trim() || !content.trim()) {
+      setError('Title and description are required')
+      return
+    }
+    setSaving(true)
+    setError('')
+    try {
+      const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+      await axios.put(
+        `${API_URL}/posts/${post.id}`,
+        {
+          title: title.trim(),
+          content: content.trim(),
+          nationality,
+          servings: servings ? Number(servings) : undefined,
+        },
+        {
+          withCredentials: true,
+          headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+        }
+      )
+      onSaved(submit)
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to save recipe')
+      }
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-panel" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+        <button className="modal-close" onClick={onClose} aria-label="Close">
+          ×
+        </button>
+        <h3 className="card-title" style={{ marginTop: 0 }}>✏️ Edit Recipe</h3>
+
+        {post.rejection && (
+          <div style={{ fontSize: '0.88rem', marginBottom: '0.75rem' }}>
+            <strong style={{ color: '#b84b4b' }}>Rejected: {post.rejection.label}</strong>
+            {post.rejection.note && <div className="muted" style={{ whiteSpace: 'pre-wrap' }}>{post.rejection.note}</div>}
+          </div>
+        )}
+        {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem', marginBottom: '0.75rem' }}>{error}</div>}
+
+        <div style={{ display: 'grid', gap: '0.75rem' }}>
+          <div>
+            <label className="input-label">Recipe Title *</label>
+            <input type="text" className="input-control" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={200} />
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 120px', gap: '0.75rem' }}>
+            <div>
+              <label className="input-label">Cuisine / Nationality</label>
+              <select className="input-control" value={nationality} onChange={(e) => setNationality(e.target.value)}>
+                <option value="">Select cuisine...</option>
+                {NATIONALITIES.map((nat) => (
+                  <option key={nat} value={nat}>
+                    {nat}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="input-label">Servings</label>
+              <input
+                type="number"
+                className="input-control"
+                value={servings}
+                onChange={(e) => setServings(e.target.value)}
+                min={1}
+                max={100}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="input-label">Description *</label>
+            <textarea className="input-control" value={content} onChange={(e) => setContent(e.target.value)} rows={6} />
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+            <button type="button" className="btn btn-ghost" onClick={() => handleSave(false)} disabled={saving}>
+              Save
+            </button>
+            <button type="button" className="btn btn-primary" onClick={() => handleSave(true)} disabled={saving}>
+              {post.status === 'rejected' ? '🔁 Save & Resubmit' : '📤 Save & Submit'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
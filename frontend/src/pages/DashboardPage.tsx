@@ -1,6 +1,8 @@
 import { useAuth } from '../hooks/useAuth'
+import { ADMIN_PANEL_PERMISSIONS, hasAnyPermission, hasPermission } from '../utils/permissions'
 import { usePageTitle } from '../hooks/usePageTitle'
 import { Link } from 'react-router-dom'
+import { SignedInSessions } from '../components/SignedInSessions'
 
 export function DashboardPage() {
   usePageTitle('Dashboard')
@@ -98,7 +100,7 @@ export function DashboardPage() {
                 </div>
               </div>
             </Link>
-            {user?.role === 'admin' && (
+            {hasAnyPermission(user, ADMIN_PANEL_PERMISSIONS) && (
               <Link
                 to="/admin"
                 style={{
@@ -153,23 +155,30 @@ export function DashboardPage() {
               active={true}
             />
             <PermissionItem
-              icon={user?.role === 'editor' || user?.role === 'admin' ? '✓' : '×'}
-              text="Create posts"
-              active={user?.role === 'editor' || user?.role === 'admin'}
+              icon={hasPermission(user, 'posts.publish') ? '✓' : '×'}
+              text="Publish posts without review"
+              active={hasPermission(user, 'posts.publish')}
             />
             <PermissionItem
-              icon={user?.role === 'admin' ? '✓' : '×'}
+              icon={hasPermission(user, 'posts.edit.any') ? '✓' : '×'}
+              text="Edit any post"
+              active={hasPermission(user, 'posts.edit.any')}
+            />
+            <PermissionItem
+              icon={hasPermission(user, 'posts.approve') ? '✓' : '×'}
               text="Approve/reject posts"
-              active={user?.role === 'admin'}
+              active={hasPermission(user, 'posts.approve')}
             />
             <PermissionItem
-              icon={user?.role === 'admin' ? '✓' : '×'}
+              icon={hasAnyPermission(user, ADMIN_PANEL_PERMISSIONS) ? '✓' : '×'}
               text="Access admin panel"
-              active={user?.role === 'admin'}
+              active={hasAnyPermission(user, ADMIN_PANEL_PERMISSIONS)}
             />
           </div>
         </div>
       </div>
+
+      <SignedInSessions />
     </div>
   )
 }
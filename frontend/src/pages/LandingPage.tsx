@@ -2,8 +2,13 @@ import { useEffect, useState } from 'react'
 import { Link } from 'react-router-dom'
 import { useAuth } from '../hooks/useAuth'
 import { usePageTitle } from '../hooks/usePageTitle'
-import axios from 'axios'
-import { API_URL, getImageUrl } from '../config'
+import { getImageUrl } from '../config'
+import { HighlightedText } from '../components/HighlightedText'
+import { useRecipeSearch } from '../hooks/useRecipeSearch'
+import { LoadMore } from '../components/LoadMore'
+import { StarRating } from '../components/StarRating'
+import { FavoriteButton } from '../components/FavoriteButton'
+import { useFavorites } from '../hooks/useFavorites'
 
 interface Meal {
   idMeal: string
@@ -13,18 +18,6 @@ interface Meal {
   strArea: string
 }
 
-interface Post {
-  id: number
-  title: string
-  content: string
-  imageUrl: string | null
-  nationality: string | null
-  authorId: number
-  authorName: string
-  status: string
-  createdAt: string
-}
-
 const CUISINES = [
   'All Cuisines',
   'Italian',
@@ -48,9 +41,18 @@ export function LandingPage() {
   usePageTitle('Home')
   const { user } = useAuth()
   const [meals, setMeals] = useState<Meal[]>([])
-  const [posts, setPosts] = useState<Post[]>([])
   const [loading, setLoading] = useState(true)
+  const [searchQuery, setSearchQuery] = useState('')
   const [cuisineFilter, setCuisineFilter] = useState('All Cuisines')
+  // The posts API requires auth, so community recipes are only searched once logged in
+  const search = useRecipeSearch({
+    query: searchQuery,
+    cuisine: cuisineFilter === 'All Cuisines' ? undefined : cuisineFilter,
+    status: 'approved',
+    enabled: !!user,
+  })
+  const filteredPosts = search.items
+  const favorites = useFavorites(!!user)
 
   useEffect(() => {
     async function fetchData() {
@@ -64,16 +66,6 @@ export function LandingPage() {
         const mealData = await Promise.all(mealResponses.map((r) => r.json()))
         const allMeals = mealData.map((d) => d.meals?.[0]).filter(Boolean)
         setMeals(allMeals)
-
-        // Fetch community posts (only if logged in, since API requires auth)
-        if (user) {
-          try {
-            const postsRes = await axios.get(`${API_URL}/posts`, { withCredentials: true })
-            setPosts(postsRes.data.posts?.filter((p: Post) => p.status === 'approved') || [])
-          } catch {
-            // Ignore if not authenticated
-          }
-        }
       } catch (err) {
         console.error('Failed to fetch data:', err)
       } finally {
@@ -81,12 +73,7 @@ export function LandingPage() {
       }
     }
     fetchData()
-  }, [user])
-
-  // Filter posts by cuisine
-  const filteredPosts = cuisineFilter === 'All Cuisines'
-    ? posts
-    : posts.filter((p) => p.nationality === cuisineFilter)
+  }, [])
 
   return (
     <div className="page-grid">
@@ -166,7 +153,7 @@ export function LandingPage() {
         </div>
       </section>
 
-      {/* Cuisine Filter */}
+      {/* Search & Cuisine Filter */}
       <section
         style={{
           display: 'flex',
@@ -177,8 +164,18 @@ export function LandingPage() {
           padding: '0.5rem 0',
         }}
       >
+        {user && (
+          <input
+            type="search"
+            className="input-control"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="🔍 Search community recipes..."
+            style={{ maxWidth: '420px', width: '100%' }}
+          />
+        )}
         <span style={{ fontWeight: 500, color: 'var(--color-text-muted)' }}>
-          🔍 Browse by Cuisine:
+          Browse by Cuisine:
         </span>
         <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', justifyContent: 'center' }}>
           {CUISINES.map((cuisine) => (
@@ -195,27 +192,33 @@ export function LandingPage() {
       </section>
 
       {/* Community Recipes */}
-      {user && posts.length > 0 && (
+      {user && (
         <section className="card-surface">
           <div className="card-header">
             <div>
               <div className="card-subtitle">From Our Community</div>
               <h2 className="card-title" style={{ marginTop: '0.3rem' }}>
-                {cuisineFilter === 'All Cuisines' ? 'All Recipes' : `${cuisineFilter} Recipes`}
+                {searchQuery.trim()
+                  ? `Results for "${searchQuery.trim()}"`
+                  : cuisineFilter === 'All Cuisines' ? 'All Recipes' : `${cuisineFilter} Recipes`}
               </h2>
             </div>
             <div className="pill pill--editor">
               <span className="pill-dot" />
-              {filteredPosts.length} RECIPES
+              {search.total} RECIPES
             </div>
           </div>
 
           {filteredPosts.length === 0 ? (
             <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>
-              No {cuisineFilter} recipes found. Try another cuisine or{' '}
-              <Link to="/content" style={{ color: 'var(--color-accent-strong)' }}>
-                add your own!
-              </Link>
+              {search.loading ? 'Searching...' : search.error || (
+                <>
+                  No {cuisineFilter === 'All Cuisines' ? '' : `${cuisineFilter} `}recipes found. Try another search or{' '}
+                  <Link to="/content" style={{ color: 'var(--color-accent-strong)' }}>
+                    add your own!
+                  </Link>
+                </>
+              )}
             </div>
           ) : (
             <div className="food-grid">
@@ -223,6 +226,7 @@ export function LandingPage() {
                 const isPdf = post.imageUrl?.toLowerCase().endsWith('.pdf')
                 return (
                   <article key={post.id} className="food-card">
+                    <FavoriteButton saved={favorites.isFavorite(post.id)} onToggle={() => favorites.toggle(post.id)} />
                     {post.imageUrl ? (
                       isPdf ? (
                         <a
@@ -269,7 +273,10 @@ export function LandingPage() {
                       <div className="food-card-category">
                         {post.nationality || 'International'} • by {post.authorName}
                       </div>
-                      <h3 className="food-card-title">{post.title}</h3>
+                      <h3 className="food-card-title">
+                        <HighlightedText text={post.titleHighlight} />
+                      </h3>
+                      <StarRating rating={post.rating} size="0.8rem" />
                       <p
                         style={{
                           fontSize: '0.85rem',
@@ -278,7 +285,13 @@ export function LandingPage() {
                           lineHeight: 1.4,
                         }}
                       >
-                        {post.content.length > 80 ? post.content.substring(0, 80) + '...' : post.content}
+                        {post.snippet ? (
+                          <HighlightedText text={post.snippet} />
+                        ) : post.content.length > 80 ? (
+                          post.content.substring(0, 80) + '...'
+                        ) : (
+                          post.content
+                        )}
                       </p>
                       {isPdf && (
                         <a
@@ -297,6 +310,7 @@ export function LandingPage() {
               })}
             </div>
           )}
+          <LoadMore hasMore={search.hasMore} loading={search.loading} onLoadMore={search.loadMore} auto />
         </section>
       )}
 
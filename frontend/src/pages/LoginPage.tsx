@@ -1,11 +1,12 @@
 import { type FormEvent, useState } from 'react'
 import { Link, useLocation } from 'react-router-dom'
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser'
 import { useAuth } from '../hooks/useAuth'
 import { usePageTitle } from '../hooks/usePageTitle'
 
 export function LoginPage() {
   usePageTitle('Sign In')
-  const { login, verifyOtp, resendOtp, cancelOtp, otpPending } = useAuth()
+  const { login, loginWithPasskey, verifyOtp, resendOtp, cancelOtp, otpPending } = useAuth()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [otp, setOtp] = useState('')
@@ -43,11 +44,35 @@ export function LoginPage() {
     }
   }
 
+  async function handlePasskeyLogin() {
+    setError(null)
+    setSubmitting(true)
+    try {
+      await loginWithPasskey()
+    } catch (err: unknown) {
+      console.error('Passkey login error:', err)
+      const axiosError = err as { response?: { data?: { error?: string } }, name?: string }
+      if (axiosError.response?.data?.error) {
+        setError(axiosError.response.data.error)
+      } else if (axiosError.name === 'NotAllowedError') {
+        setError('Passkey sign-in was cancelled.')
+      } else {
+        setError('Passkey sign-in failed. Please try again.')
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
   async function handleOtpSubmit(e: FormEvent) {
     e.preventDefault()
     setError(null)
-    if (!otp || otp.length !== 6) {
-      setError('Please enter a valid 6-digit OTP.')
+    if (!isOtpComplete) {
+      setError(
+        usesAuthenticator
+          ? 'Enter the 6-digit code from your app or a recovery code.'
+          : 'Please enter a valid 6-digit OTP.',
+      )
       return
     }
 
@@ -56,7 +81,13 @@ export function LoginPage() {
       await verifyOtp(otp)
     } catch (err) {
       console.error('OTP error:', err)
-      setError('Invalid or expired OTP. Please try again.')
+      const axiosError = err as { response?: { status?: number, data?: { error?: string } } }
+      const status = axiosError.response?.status
+      if ((status === 401 || status === 429) && axiosError.response?.data?.error) {
+        setError(axiosError.response.data.error)
+      } else {
+        setError('Invalid or expired OTP. Please try again.')
+      }
     } finally {
       setSubmitting(false)
     }
@@ -65,8 +96,8 @@ export function LoginPage() {
   async function handleResendOtp() {
     if (resendCooldown > 0) return
     
-    const newOtp = await resendOtp()
-    if (newOtp) {
+    const sent = await resendOtp()
+    if (sent) {
       setResendCooldown(60)
       const interval = setInterval(() => {
         setResendCooldown((prev) => {
@@ -81,6 +112,10 @@ export function LoginPage() {
   }
 
   const from = (location.state as { from?: Location })?.from
+  const signedOutIdle = (location.state as { signedOut?: string })?.signedOut === 'idle'
+  const usesAuthenticator = otpPending?.method === 'totp'
+  // Recovery codes look like "a1b2c-3d4e5"; authenticator and emailed codes are 6 digits
+  const isOtpComplete = usesAuthenticator ? otp.trim().length >= 6 : otp.length === 6
 
   // OTP Verification Screen
   if (otpPending) {
@@ -120,7 +155,9 @@ export function LoginPage() {
               Verify Your Identity
             </h2>
             <p className="muted" style={{ margin: 0 }}>
-              Enter the 6-digit code to continue
+              {usesAuthenticator
+                ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes'
+                : 'Enter the 6-digit code we emailed you'}
             </p>
           </div>
 
@@ -156,25 +193,44 @@ export function LoginPage() {
           <form onSubmit={handleOtpSubmit}>
             <div className="input-group">
               <label className="input-label" htmlFor="otp">
-                One-Time Password
+                {usesAuthenticator ? 'Authentication or Recovery Code' : 'One-Time Password'}
               </label>
-              <input
-                id="otp"
-                className="input-control"
-                type="text"
-                inputMode="numeric"
-                pattern="[0-9]*"
-                maxLength={6}
-                placeholder="000000"
-                value={otp}
-                onChange={(e) => setOtp(e.target.value.replace(/\D/g, '').slice(0, 6))}
-                style={{
-                  textAlign: 'center',
-                  letterSpacing: '0.5em',
-                  fontSize: '1.25rem',
-                  fontFamily: 'monospace',
-                }}
-              />
+              {usesAuthenticator ? (
+                <input
+                  id="otp"
+                  className="input-control"
+                  type="text"
+                  autoComplete="one-time-code"
+                  maxLength={32}
+                  placeholder="000000"
+                  value={otp}
+                  onChange={(e) => setOtp(e.target.value)}
+                  style={{
+                    textAlign: 'center',
+                    letterSpacing: '0.2em',
+                    fontSize: '1.25rem',
+                    fontFamily: 'monospace',
+                  }}
+                />
+              ) : (
+                <input
+                  id="otp"
+                  className="input-control"
+                  type="text"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  maxLength={6}
+                  placeholder="000000"
+                  value={otp}
+                  onChange={(e) => setOtp(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  style={{
+                    textAlign: 'center',
+                    letterSpacing: '0.5em',
+                    fontSize: '1.25rem',
+                    fontFamily: 'monospace',
+                  }}
+                />
+              )}
             </div>
 
             {error && (
@@ -196,10 +252,10 @@ export function LoginPage() {
             <button
               className="btn btn-primary"
               type="submit"
-              disabled={submitting || otp.length !== 6}
+              disabled={submitting || !isOtpComplete}
               style={{ width: '100%', marginTop: '1.25rem' }}
             >
-              {submitting ? 'Verifying…' : 'Verify OTP'}
+              {submitting ? 'Verifying…' : usesAuthenticator ? 'Verify' : 'Verify OTP'}
             </button>
 
             <div
@@ -217,15 +273,17 @@ export function LoginPage() {
               >
                 ← Back to Login
               </button>
-              <button
-                type="button"
-                className="btn btn-ghost"
-                onClick={handleResendOtp}
-                disabled={resendCooldown > 0}
-                style={{ fontSize: '0.88rem' }}
-              >
-                {resendCooldown > 0 ? `Resend (${resendCooldown}s)` : 'Resend OTP'}
-              </button>
+              {!usesAuthenticator && (
+                <button
+                  type="button"
+                  className="btn btn-ghost"
+                  onClick={handleResendOtp}
+                  disabled={resendCooldown > 0}
+                  style={{ fontSize: '0.88rem' }}
+                >
+                  {resendCooldown > 0 ? `Resend (${resendCooldown}s)` : 'Resend OTP'}
+                </button>
+              )}
             </div>
           </form>
         </section>
@@ -318,8 +376,28 @@ export function LoginPage() {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
             />
+            <div style={{ textAlign: 'right', marginTop: '0.35rem', fontSize: '0.82rem' }}>
+              <Link to="/reset-password" style={{ color: 'var(--color-accent-strong)' }}>
+                Forgot password?
+              </Link>
+            </div>
           </div>
 
+          {signedOutIdle && !error && (
+            <div
+              style={{
+                padding: '0.75rem 1rem',
+                background: 'var(--color-bg)',
+                border: '1px solid var(--color-border)',
+                borderRadius: 'var(--border-radius-md)',
+                marginTop: '0.5rem',
+                fontSize: '0.88rem',
+              }}
+            >
+              You were signed out after a period of inactivity. Sign in again to continue.
+            </div>
+          )}
+
           {error && (
             <div
               style={{
@@ -345,6 +423,18 @@ export function LoginPage() {
             {submitting ? 'Signing in…' : 'Sign In'}
           </button>
 
+          {browserSupportsWebAuthn() && (
+            <button
+              className="btn btn-ghost"
+              type="button"
+              onClick={handlePasskeyLogin}
+              disabled={submitting}
+              style={{ width: '100%', marginTop: '0.75rem' }}
+            >
+              🔑 Sign in with passkey
+            </button>
+          )}
+
           <div
             style={{
               textAlign: 'center',
@@ -0,0 +1,249 @@
+import { type FormEvent, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import axios from 'axios'
+import { API_URL } from '../config'
+import { usePageTitle } from '../hooks/usePageTitle'
+import { getPasswordStrength } from '../utils/passwordStrength'
+
+/**
+ * Without a `token` in the URL this asks for the account's email and sends a reset
+ * link; the link brings the user back here with the token to choose a new password.
+ */
+export function PasswordResetPage() {
+  usePageTitle('Reset Password')
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const strength = getPasswordStrength(password)
+
+  async function post(path: string, body: Record<string, string>) {
+    const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+    return axios.post(`${API_URL}${path}`, body, {
+      withCredentials: true,
+      headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+    })
+  }
+
+  function showError(err: unknown, fallback: string) {
+    if (axios.isAxiosError(err) && err.response?.data?.error) {
+      setError(err.response.data.error)
+    } else {
+      setError(fallback)
+    }
+  }
+
+  async function handleRequest(e: FormEvent) {
+    e.preventDefault()
+    setError(null)
+    if (!email) {
+      setError('Please enter your email address.')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const res = await post('/auth/password-reset/request', { email })
+      setMessage(res.data.message)
+    } catch (err) {
+      showError(err, 'Could not send the reset link. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  async function handleConfirm(e: FormEvent) {
+    e.preventDefault()
+    setError(null)
+    if (strength.label === 'weak' || strength.label === 'empty') {
+      setError('Please choose a stronger password.')
+      return
+    }
+    if (password !== confirmPassword) {
+      setError('The passwords do not match.')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const res = await post('/auth/password-reset/confirm', { token: token!, password })
+      setMessage(res.data.message)
+    } catch (err) {
+      showError(err, 'Could not reset your password. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        minHeight: '60vh',
+      }}
+    >
+      <section
+        className="card-surface card-surface--elevated"
+        style={{ maxWidth: '420px', width: '100%' }}
+      >
+        <div style={{ textAlign: 'center', marginBottom: '1.5rem' }}>
+          <div
+            style={{
+              width: 56,
+              height: 56,
+              borderRadius: '14px',
+              background: 'linear-gradient(135deg, var(--color-gold), var(--color-warm))',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '1.5rem',
+              margin: '0 auto 1rem',
+            }}
+          >
+            🔑
+          </div>
+          <h2
+            className="card-title"
+            style={{ margin: '0 0 0.25rem', fontSize: '1.5rem' }}
+          >
+            {token ? 'Choose a New Password' : 'Forgot Your Password?'}
+          </h2>
+          <p className="muted" style={{ margin: 0 }}>
+            {token
+              ? 'All other devices will be signed out'
+              : "Enter your email and we'll send you a reset link"}
+          </p>
+        </div>
+
+        {message ? (
+          <div
+            style={{
+              padding: '0.75rem 1rem',
+              background: 'rgba(107, 140, 90, 0.1)',
+              border: '1px solid rgba(107, 140, 90, 0.3)',
+              borderRadius: 'var(--border-radius-md)',
+              fontSize: '0.88rem',
+              color: 'var(--color-accent-strong)',
+            }}
+          >
+            {message}
+          </div>
+        ) : (
+          <form onSubmit={token ? handleConfirm : handleRequest}>
+            {token ? (
+              <>
+                <div className="input-group">
+                  <label className="input-label" htmlFor="password">
+                    New Password
+                  </label>
+                  <input
+                    id="password"
+                    className="input-control"
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                  <div className="password-meter">
+                    <div className="password-meter-bar">
+                      <div
+                        className="password-meter-bar-fill"
+                        style={{
+                          transform: `scaleX(${
+                            strength.label === 'empty' ? 0 : strength.label === 'weak' ? 0.33 : strength.label === 'medium' ? 0.66 : 1
+                          })`,
+                        }}
+                      />
+                    </div>
+                    <div className={`password-meter-label password-meter-label--${strength.label}`}>
+                      {strength.label === 'empty' ? 'Enter a password to see strength' : `Strength: ${strength.label}`}
+                    </div>
+                  </div>
+                </div>
+                <div className="input-group">
+                  <label className="input-label" htmlFor="confirmPassword">
+                    Confirm New Password
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    className="input-control"
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="••••••••"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="input-group">
+                <label className="input-label" htmlFor="email">
+                  Email Address
+                </label>
+                <input
+                  id="email"
+                  className="input-control"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            )}
+
+            {error && (
+              <div
+                style={{
+                  padding: '0.75rem 1rem',
+                  background: 'rgba(184, 75, 75, 0.1)',
+                  border: '1px solid rgba(184, 75, 75, 0.3)',
+                  borderRadius: 'var(--border-radius-md)',
+                  marginTop: '0.5rem',
+                  fontSize: '0.88rem',
+                  color: '#b84b4b',
+                }}
+              >
+                {error}
+              </div>
+            )}
+
+            <button
+              className="btn btn-primary"
+              type="submit"
+              disabled={submitting}
+              style={{ width: '100%', marginTop: '1.25rem' }}
+            >
+              {token
+                ? submitting ? 'Saving…' : 'Reset Password'
+                : submitting ? 'Sending…' : 'Send Reset Link'}
+            </button>
+          </form>
+        )}
+
+        <div
+          style={{
+            textAlign: 'center',
+            marginTop: '1.25rem',
+            fontSize: '0.9rem',
+          }}
+        >
+          <Link
+            to="/login"
+            style={{ color: 'var(--color-accent-strong)', fontWeight: 500 }}
+          >
+            ← Back to Sign In
+          </Link>
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,384 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import axios from 'axios'
+import { usePageTitle } from '../hooks/usePageTitle'
+import { useRecipeSearch } from '../hooks/useRecipeSearch'
+import { API_URL } from '../config'
+import { RecipeDetail } from '../components/RecipeDetail'
+
+const MEALS = ['breakfast', 'lunch', 'dinner', 'snack'] as const
+type Meal = (typeof MEALS)[number]
+
+const MEAL_LABELS: Record<Meal, string> = {
+  breakfast: '🥣 Breakfast',
+  lunch: '🥪 Lunch',
+  dinner: '🍲 Dinner',
+  snack: '🍎 Snack',
+}
+
+interface Slot {
+  id: number
+  date: string
+  meal: Meal
+  servings: number | null
+  post: {
+    id: number
+    title: string
+    imageUrl: string | null
+    nationality: string | null
+    servings: number | null
+  }
+}
+
+// Dates are exchanged as YYYY-MM-DD in the user's local calendar
+function toIsoDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function addDays(iso: string, days: number): string {
+  const [y, m, d] = iso.split('-').map(Number)
+  return toIsoDate(new Date(y, m - 1, d + days))
+}
+
+function mondayOf(date: Date): string {
+  const iso = toIsoDate(date)
+  return addDays(iso, -((date.getDay() + 6) % 7))
+}
+
+function formatDay(iso: string): string {
+  const [y, m, d] = iso.split('-').map(Number)
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })
+}
+
+export function PlannerPage() {
+  usePageTitle('Meal Planner')
+  const [week, setWeek] = useState(() => mondayOf(new Date()))
+  const [slots, setSlots] = useState<Slot[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+  const [picking, setPicking] = useState<{ date: string; meal: Meal } | null>(null)
+  const [viewing, setViewing] = useState<Slot | null>(null)
+  const navigate = useNavigate()
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(week, i))
+  const today = toIsoDate(new Date())
+
+  const fetchWeek = useCallback(async () => {
+    try {
+      const res = await axios.get(`${API_URL}/meal-plans`, { withCredentials: true, params: { week } })
+      setSlots(res.data.slots || [])
+      setError('')
+    } catch {
+      setError('Failed to load meal plan')
+    } finally {
+      setLoading(false)
+    }
+  }, [week])
+
+  useEffect(() => {
+    fetchWeek()
+  }, [fetchWeek])
+
+  async function send(method: 'post' | 'put' | 'delete', url: string, data?: object) {
+    const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+    return axios({
+      method,
+      url: `${API_URL}${url}`,
+      data,
+      withCredentials: true,
+      headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+    })
+  }
+
+  async function handlePick(postId: number) {
+    if (!picking) return
+    try {
+      await send('put', '/meal-plans/slots', { ...picking, postId })
+      setPicking(null)
+      await fetchWeek()
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to plan meal')
+      }
+    }
+  }
+
+  async function handleServings(slot: Slot, servings: number | null) {
+    try {
+      await send('put', `/meal-plans/slots/${slot.id}`, { servings })
+      await fetchWeek()
+    } catch {
+      setError('Failed to update servings')
+    }
+  }
+
+  async function handleRemove(slot: Slot) {
+    try {
+      await send('delete', `/meal-plans/slots/${slot.id}`)
+      await fetchWeek()
+    } catch {
+      setError('Failed to remove meal')
+    }
+  }
+
+  async function handleCopyToNextWeek() {
+    try {
+      const res = await send('post', '/meal-plans/copy-week', { from: week, to: addDays(week, 7) })
+      setSuccess(`Copied ${res.data.copied} meal${res.data.copied === 1 ? '' : 's'} to next week`)
+    } catch {
+      setError('Failed to copy week')
+    }
+  }
+
+  async function handleShoppingList() {
+    // A recipe planned several times is bought for every serving it is planned for
+    const servingsByPost = new Map<number, number | null>()
+    for (const slot of slots) {
+      const servings = slot.servings ?? slot.post.servings
+      const current = servingsByPost.get(slot.post.id)
+      servingsByPost.set(
+        slot.post.id,
+        servingsByPost.has(slot.post.id) && current != null && servings != null ? current + servings : servings,
+      )
+    }
+    try {
+      const res = await send('post', '/shopping-lists', {
+        name: `Week of ${formatDay(week)}`,
+        recipes: [...servingsByPost].map(([postId, servings]) => ({
+          postId,
+          servings: servings != null ? Math.min(servings, 100) : undefined,
+        })),
+      })
+      navigate(`/shopping-lists?list=${res.data.list.id}`)
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setError(err.response.data.error)
+      } else {
+        setError('Failed to create shopping list')
+      }
+    }
+  }
+
+  async function handleClearWeek() {
+    if (!confirm('Remove every meal planned for this week?')) return
+    try {
+      await send('post', '/meal-plans/clear-week', { week })
+      setSuccess('Week cleared')
+      await fetchWeek()
+    } catch {
+      setError('Failed to clear week')
+    }
+  }
+
+  function changeWeek(next: string) {
+    setSuccess('')
+    setWeek(next)
+  }
+
+  return (
+    <div className="page-grid">
+      <section style={{ marginBottom: '0.5rem' }}>
+        <h1 className="section-title">Meal Planner 🗓️</h1>
+        <p className="section-subtitle">Plan the week's meals from published recipes</p>
+      </section>
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem' }}>{error}</div>}
+      {success && <div className="muted" style={{ fontSize: '0.9rem' }}>{success}</div>}
+
+      <div className="card-surface">
+        <div className="card-header" style={{ flexWrap: 'wrap', gap: '0.75rem' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+            <button className="btn btn-outline" onClick={() => changeWeek(addDays(week, -7))} aria-label="Previous week">
+              ←
+            </button>
+            <h3 className="card-title" style={{ margin: 0 }}>
+              {formatDay(week)} – {formatDay(addDays(week, 6))}
+            </h3>
+            <button className="btn btn-outline" onClick={() => changeWeek(addDays(week, 7))} aria-label="Next week">
+              →
+            </button>
+            {week !== mondayOf(new Date()) && (
+              <button className="btn btn-ghost" onClick={() => changeWeek(mondayOf(new Date()))}>
+                This week
+              </button>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button className="btn btn-outline" onClick={handleCopyToNextWeek} disabled={slots.length === 0}>
+              📋 Copy to next week
+            </button>
+            <button className="btn btn-outline" onClick={handleShoppingList} disabled={slots.length === 0}>
+              🛒 Shopping list
+            </button>
+            <button className="btn btn-danger" onClick={handleClearWeek} disabled={slots.length === 0}>
+              Clear week
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="muted" style={{ textAlign: 'center', padding: '2rem' }}>Loading...</div>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: `110px repeat(${MEALS.length}, minmax(150px, 1fr))`,
+                gap: '0.5rem',
+                minWidth: '720px',
+              }}
+            >
+              <div />
+              {MEALS.map((meal) => (
+                <div key={meal} className="muted" style={{ fontSize: '0.85rem', fontWeight: 600 }}>
+                  {MEAL_LABELS[meal]}
+                </div>
+              ))}
+
+              {days.map((day) => (
+                <div key={day} style={{ display: 'contents' }}>
+                  <div style={{ fontSize: '0.88rem', fontWeight: day === today ? 700 : 500, alignSelf: 'center' }}>
+                    {formatDay(day)}
+                  </div>
+                  {MEALS.map((meal) => {
+                    const slot = slots.find((s) => s.date === day && s.meal === meal)
+                    return (
+                      <div
+                        key={meal}
+                        style={{
+                          minHeight: '72px',
+                          padding: '0.5rem',
+                          background: 'var(--color-bg)',
+                          borderRadius: 'var(--border-radius-md)',
+                          border: `1px ${slot ? 'solid' : 'dashed'} var(--color-border)`,
+                          fontSize: '0.85rem',
+                        }}
+                      >
+                        {slot ? (
+                          <div style={{ display: 'grid', gap: '0.35rem' }}>
+                            <button
+                              className="btn btn-ghost"
+                              onClick={() => setViewing(slot)}
+                              style={{ padding: 0, textAlign: 'left', fontWeight: 600, fontSize: '0.85rem' }}
+                            >
+                              {slot.post.title}
+                            </button>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+                              <select
+                                className="input-control"
+                                value={slot.servings ?? ''}
+                                onChange={(e) => handleServings(slot, e.target.value ? Number(e.target.value) : null)}
+                                aria-label="Servings"
+                                style={{ width: 'auto', padding: '0.15rem 0.35rem', fontSize: '0.78rem' }}
+                              >
+                                <option value="">
+                                  {slot.post.servings ? `${slot.post.servings} servings` : 'As written'}
+                                </option>
+                                {Array.from({ length: 12 }, (_, i) => i + 1).map((n) => (
+                                  <option key={n} value={n}>
+                                    {n} serving{n > 1 ? 's' : ''}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                className="btn btn-ghost"
+                                onClick={() => handleRemove(slot)}
+                                aria-label={`Remove ${slot.post.title}`}
+                                style={{ padding: '0.1rem 0.4rem', fontSize: '0.8rem' }}
+                              >
+                                ×
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            className="btn btn-ghost"
+                            onClick={() => setPicking({ date: day, meal })}
+                            style={{ width: '100%', height: '100%', fontSize: '0.8rem' }}
+                          >
+                            + Add
+                          </button>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {picking && (
+        <RecipePicker
+          title={`${MEAL_LABELS[picking.meal]} • ${formatDay(picking.date)}`}
+          onPick={handlePick}
+          onClose={() => setPicking(null)}
+        />
+      )}
+
+      {viewing && (
+        <RecipeDetail
+          postId={viewing.post.id}
+          initialServings={viewing.post.servings ? viewing.servings : null}
+          onClose={() => setViewing(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+function RecipePicker({
+  title,
+  onPick,
+  onClose,
+}: {
+  title: string
+  onPick: (postId: number) => void
+  onClose: () => void
+}) {
+  const [query, setQuery] = useState('')
+  const search = useRecipeSearch({ query, status: 'approved' })
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-panel" onClick={(e) => e.stopPropagation()} role="dialog" aria-modal="true">
+        <button className="modal-close" onClick={onClose} aria-label="Close">
+          ×
+        </button>
+        <h3 className="card-title" style={{ marginTop: 0 }}>{title}</h3>
+        <input
+          className="input-control"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search recipes..."
+          autoFocus
+          style={{ marginBottom: '0.75rem' }}
+        />
+        {search.items.length === 0 ? (
+          <div className="muted" style={{ padding: '1rem 0' }}>
+            {search.loading ? 'Searching...' : 'No recipes found.'}
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gap: '0.5rem', maxHeight: '50vh', overflowY: 'auto' }}>
+            {search.items.map((post) => (
+              <button
+                key={post.id}
+                className="btn btn-outline"
+                onClick={() => onPick(post.id)}
+                style={{ justifyContent: 'space-between', textAlign: 'left' }}
+              >
+                <span>{post.title}</span>
+                <span className="muted" style={{ fontSize: '0.8rem' }}>{post.nationality || 'International'}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
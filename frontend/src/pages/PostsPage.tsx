@@ -1,5 +1,6 @@
 import { type FormEvent, useState, useEffect } from 'react'
 import { useAuth } from '../hooks/useAuth'
+import { hasPermission } from '../utils/permissions'
 import axios from 'axios'
 
 const API_BASE = import.meta.env.VITE_API_BASE_URL || 'http://localhost:4000'
@@ -33,7 +34,7 @@ export function PostsPage() {
   const [formError, setFormError] = useState<string | null>(null)
   const [submitting, setSubmitting] = useState(false)
 
-  const canEdit = user?.role === 'admin' || user?.role === 'editor'
+  const canEdit = hasPermission(user, 'posts.edit.any')
 
   // Fetch CSRF token
   async function getCsrfToken() {
@@ -100,7 +101,7 @@ export function PostsPage() {
 
   // Handle delete
   async function handleDelete(postId: number) {
-    if (!confirm('Are you sure you want to delete this post?')) return
+    if (!confirm('Move this post to the trash?')) return
 
     try {
       const csrfToken = await getCsrfToken()
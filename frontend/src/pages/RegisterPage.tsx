@@ -65,8 +65,8 @@ export function RegisterPage() {
   async function handleResendOtp() {
     if (resendCooldown > 0) return
     
-    const newOtp = await resendOtp()
-    if (newOtp) {
+    const sent = await resendOtp()
+    if (sent) {
       setResendCooldown(60)
       const interval = setInterval(() => {
         setResendCooldown((prev) => {
@@ -0,0 +1,19 @@
+import { usePageTitle } from '../hooks/usePageTitle'
+import { TwoFactorSettings } from '../components/TwoFactorSettings'
+import { PasskeySettings } from '../components/PasskeySettings'
+
+export function SecurityPage() {
+  usePageTitle('Security')
+
+  return (
+    <div className="page-grid">
+      <section style={{ marginBottom: '0.5rem' }}>
+        <h1 className="section-title">Security 🛡️</h1>
+        <p className="section-subtitle">How you sign in to CulinaryHub</p>
+      </section>
+
+      <TwoFactorSettings />
+      <PasskeySettings />
+    </div>
+  )
+}
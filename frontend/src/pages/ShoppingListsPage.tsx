@@ -0,0 +1,345 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import axios from 'axios'
+import { usePageTitle } from '../hooks/usePageTitle'
+import { usePaginatedList } from '../hooks/usePaginatedList'
+import { useRecipeSearch } from '../hooks/useRecipeSearch'
+import { API_URL } from '../config'
+import { LoadMore } from '../components/LoadMore'
+
+interface ShoppingListSummary {
+  id: number
+  name: string
+  itemCount: number
+  checkedCount: number
+  createdAt: string
+}
+
+interface ShoppingItem {
+  id: number
+  name: string
+  display: string
+  aisle: string
+  recipes: string[]
+  checked: boolean
+}
+
+interface ShoppingList extends ShoppingListSummary {
+  recipes: { postId: number; title: string; servings: number | null }[]
+  aisles: { aisle: string; items: ShoppingItem[] }[]
+}
+
+interface Selection {
+  postId: number
+  title: string
+  servings: number | null
+}
+
+export function ShoppingListsPage() {
+  usePageTitle('Shopping Lists')
+  const [searchParams, setSearchParams] = useSearchParams()
+  const selectedId = searchParams.get('list') ? Number(searchParams.get('list')) : null
+  const [list, setList] = useState<ShoppingList | null>(null)
+  const [version, setVersion] = useState(0)
+  const [error, setError] = useState('')
+
+  const lists = usePaginatedList<ShoppingListSummary>('/shopping-lists', 'lists', { limit: 20 })
+
+  useEffect(() => {
+    if (selectedId === null) return
+    let cancelled = false
+    axios
+      .get(`${API_URL}/shopping-lists/${selectedId}`, { withCredentials: true })
+      .then((res) => {
+        if (!cancelled) setList(res.data.list)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load shopping list')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId, version])
+
+  const shown = list && list.id === selectedId ? list : null
+
+  async function send(method: 'post' | 'put' | 'delete', url: string, data?: object) {
+    const csrfRes = await axios.get(`${API_URL}/csrf-token`, { withCredentials: true })
+    return axios({
+      method,
+      url: `${API_URL}${url}`,
+      data,
+      withCredentials: true,
+      headers: { 'X-CSRF-Token': csrfRes.data.csrfToken },
+    })
+  }
+
+  function select(id: number | null) {
+    setError('')
+    setSearchParams(id === null ? {} : { list: String(id) })
+  }
+
+  async function handleToggle(item: ShoppingItem) {
+    if (!shown) return
+    // Optimistic so ticking items off in the shop feels instant
+    setList({
+      ...shown,
+      checkedCount: shown.checkedCount + (item.checked ? -1 : 1),
+      aisles: shown.aisles.map((group) => ({
+        ...group,
+        items: group.items.map((i) => (i.id === item.id ? { ...i, checked: !item.checked } : i)),
+      })),
+    })
+    try {
+      await send('put', `/shopping-lists/${shown.id}/items/${item.id}`, { checked: !item.checked })
+    } catch {
+      setError('Failed to update item')
+      setVersion((v) => v + 1)
+    }
+  }
+
+  async function handleDelete() {
+    if (!shown || !confirm(`Delete the shopping list "${shown.name}"?`)) return
+    try {
+      await send('delete', `/shopping-lists/${shown.id}`)
+      select(null)
+      lists.reload()
+    } catch {
+      setError('Failed to delete shopping list')
+    }
+  }
+
+  function handleCreated(id: number) {
+    lists.reload()
+    select(id)
+  }
+
+  return (
+    <div className="page-grid">
+      <section style={{ marginBottom: '0.5rem' }}>
+        <h1 className="section-title">Shopping Lists 🛒</h1>
+        <p className="section-subtitle">Combine recipes into one list, grouped by aisle</p>
+      </section>
+
+      {error && <div style={{ color: '#b84b4b', fontSize: '0.9rem' }}>{error}</div>}
+
+      <ListBuilder onCreated={handleCreated} onError={setError} send={send} />
+
+      <div className="card-surface">
+        <div className="card-header">
+          <h3 className="card-title">My Lists</h3>
+        </div>
+        {lists.items.length === 0 ? (
+          <div className="muted" style={{ textAlign: 'center', padding: '1.5rem' }}>
+            {lists.loading ? 'Loading...' : 'No shopping lists yet.'}
+          </div>
+        ) : (
+          <div className="tabs" style={{ flexWrap: 'wrap' }}>
+            {lists.items.map((l) => (
+              <button
+                key={l.id}
+                className={`tab ${l.id === selectedId ? 'tab--active' : ''}`}
+                onClick={() => select(l.id)}
+              >
+                {l.name} ({l.checkedCount}/{l.itemCount})
+              </button>
+            ))}
+          </div>
+        )}
+        <LoadMore hasMore={lists.hasMore} loading={lists.loading} onLoadMore={lists.loadMore} />
+      </div>
+
+      {shown && (
+        <div className="card-surface">
+          <div className="card-header" style={{ flexWrap: 'wrap', gap: '0.75rem' }}>
+            <div>
+              <h3 className="card-title">{shown.name}</h3>
+              <p className="muted" style={{ margin: '0.25rem 0 0', fontSize: '0.85rem' }}>
+                {shown.recipes.map((r) => (r.servings ? `${r.title} (${r.servings})` : r.title)).join(' • ')}
+              </p>
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <a
+                className="btn btn-outline"
+                href={`${API_URL}/shopping-lists/${shown.id}/export?format=text`}
+                style={{ fontSize: '0.82rem' }}
+              >
+                ⬇ Text
+              </a>
+              <a
+                className="btn btn-outline"
+                href={`${API_URL}/shopping-lists/${shown.id}/export?format=csv`}
+                style={{ fontSize: '0.82rem' }}
+              >
+                ⬇ CSV
+              </a>
+              <button className="btn btn-danger" onClick={handleDelete} style={{ fontSize: '0.82rem' }}>
+                Delete
+              </button>
+            </div>
+          </div>
+
+          {shown.aisles.length === 0 ? (
+            <div className="muted" style={{ textAlign: 'center', padding: '1.5rem' }}>
+              No ingredients could be found in these recipes.
+            </div>
+          ) : (
+            <div style={{ display: 'grid', gap: '1rem' }}>
+              {shown.aisles.map((group) => (
+                <div key={group.aisle}>
+                  <h4 style={{ margin: '0 0 0.4rem', fontSize: '0.95rem' }}>{group.aisle}</h4>
+                  <div style={{ display: 'grid', gap: '0.3rem' }}>
+                    {group.items.map((item) => (
+                      <label
+                        key={item.id}
+                        style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.9rem' }}
+                        title={item.recipes.join(', ')}
+                      >
+                        <input type="checkbox" checked={item.checked} onChange={() => handleToggle(item)} />
+                        <span style={item.checked ? { textDecoration: 'line-through', opacity: 0.6 } : undefined}>
+                          {item.display}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ListBuilder({
+  onCreated,
+  onError,
+  send,
+}: {
+  onCreated: (id: number) => void
+  onError: (message: string) => void
+  send: (method: 'post', url: string, data?: object) => Promise<{ data: { list: { id: number } } }>
+}) {
+  const [query, setQuery] = useState('')
+  const [name, setName] = useState('')
+  const [selection, setSelection] = useState<Selection[]>([])
+  const [creating, setCreating] = useState(false)
+  const search = useRecipeSearch({ query, status: 'approved', enabled: query.trim().length > 0 })
+
+  function add(postId: number, title: string) {
+    if (selection.some((s) => s.postId === postId)) return
+    setSelection([...selection, { postId, title, servings: null }])
+    setQuery('')
+  }
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault()
+    if (selection.length === 0) return
+    setCreating(true)
+    onError('')
+    try {
+      const res = await send('post', '/shopping-lists', {
+        name: name.trim() || undefined,
+        recipes: selection.map((s) => ({ postId: s.postId, servings: s.servings ?? undefined })),
+      })
+      setSelection([])
+      setName('')
+      onCreated(res.data.list.id)
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        onError(err.response.data.error)
+      } else {
+        onError('Failed to create shopping list')
+      }
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <form className="card-surface" onSubmit={handleCreate}>
+      <div className="card-header">
+        <h3 className="card-title">New List</h3>
+      </div>
+      <div style={{ display: 'grid', gap: '0.75rem' }}>
+        <input
+          className="input-control"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search recipes to add..."
+        />
+        {query.trim() && (
+          <div style={{ display: 'flex', gap: '0.4rem', flexWrap: 'wrap' }}>
+            {search.items.length === 0 ? (
+              <span className="muted" style={{ fontSize: '0.85rem' }}>
+                {search.loading ? 'Searching...' : 'No recipes found.'}
+              </span>
+            ) : (
+              search.items.slice(0, 8).map((post) => (
+                <button
+                  key={post.id}
+                  type="button"
+                  className="btn btn-outline"
+                  onClick={() => add(post.id, post.title)}
+                  style={{ fontSize: '0.8rem', padding: '0.25rem 0.6rem' }}
+                >
+                  + {post.title}
+                </button>
+              ))
+            )}
+          </div>
+        )}
+
+        {selection.map((s) => (
+          <div key={s.postId} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.9rem' }}>
+            <span style={{ flex: 1 }}>{s.title}</span>
+            <select
+              className="input-control"
+              value={s.servings ?? ''}
+              onChange={(e) =>
+                setSelection(
+                  selection.map((x) =>
+                    x.postId === s.postId ? { ...x, servings: e.target.value ? Number(e.target.value) : null } : x,
+                  ),
+                )
+              }
+              aria-label={`Servings for ${s.title}`}
+              style={{ width: 'auto', padding: '0.15rem 0.35rem', fontSize: '0.8rem' }}
+            >
+              <option value="">As written</option>
+              {Array.from({ length: 12 }, (_, i) => i + 1).map((n) => (
+                <option key={n} value={n}>
+                  {n} serving{n > 1 ? 's' : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="btn btn-ghost"
+              onClick={() => setSelection(selection.filter((x) => x.postId !== s.postId))}
+              aria-label={`Remove ${s.title}`}
+              style={{ padding: '0.1rem 0.4rem' }}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+          <input
+            className="input-control"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="List name (optional)"
+            maxLength={80}
+            style={{ flex: '1 1 200px' }}
+          />
+          <button type="submit" className="btn btn-primary" disabled={creating || selection.length === 0}>
+            {creating ? 'Creating...' : `🛒 Create list (${selection.length})`}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
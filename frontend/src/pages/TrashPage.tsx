@@ -0,0 +1,17 @@
+import { usePageTitle } from '../hooks/usePageTitle'
+import { TrashBrowser } from '../components/TrashBrowser'
+
+export function TrashPage() {
+  usePageTitle('Trash')
+
+  return (
+    <div className="page-grid">
+      <section style={{ marginBottom: '0.5rem' }}>
+        <h1 className="section-title">Trash 🗑️</h1>
+        <p className="section-subtitle">Recipes and files you deleted, restorable until they are purged</p>
+      </section>
+
+      <TrashBrowser scope="mine" />
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+// Mirrors the capabilities in backend/src/utils/permissions.ts
+export type Permission =
+  | 'posts.view.all'
+  | 'posts.edit.any'
+  | 'posts.publish'
+  | 'posts.approve'
+  | 'posts.delete.any'
+  | 'posts.revisions.restore'
+  | 'comments.moderate'
+  | 'reviews.delete.any'
+  | 'reports.manage'
+  | 'moderation_rules.manage'
+  | 'files.manage.any'
+  | 'shopping_lists.manage.any'
+  | 'users.read'
+  | 'users.delete'
+  | 'users.roles.manage'
+  | 'users.suspend'
+  | 'users.sessions.revoke'
+  | 'users.unlock'
+  | 'trash.manage'
+  | 'logs.read'
+  | 'permissions.manage'
+  | 'auth.policy.manage'
+
+// Any one of these opens the admin panel; each section of it needs its own permission
+export const ADMIN_PANEL_PERMISSIONS: Permission[] = [
+  'posts.approve',
+  'comments.moderate',
+  'reports.manage',
+  'moderation_rules.manage',
+  'users.read',
+  'users.unlock',
+  'trash.manage',
+  'logs.read',
+  'permissions.manage',
+  'auth.policy.manage',
+]
+
+export function hasPermission(user: { permissions: Permission[] } | null, permission: Permission): boolean {
+  return !!user?.permissions.includes(permission)
+}
+
+export function hasAnyPermission(user: { permissions: Permission[] } | null, permissions: Permission[]): boolean {
+  return permissions.some((p) => hasPermission(user, p))
+}